@@ -10,7 +10,8 @@ import {
   Building2,
   Network,
   Activity,
-  Sparkles
+  Sparkles,
+  History
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -103,6 +104,19 @@ export default function AboutPage() {
                   </p>
                 </div>
               </div>
+              <div className="flex gap-3">
+                <div className="p-2 bg-amber-500/10 rounded-xl h-fit">
+                  <History className="h-5 w-5 text-amber-600" />
+                </div>
+                <div>
+                  <h3 className="font-medium text-foreground">Ce s-a schimbat</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Contracte noi sau încheiate și alocări lunare, pe{' '}
+                    <Link href="/changes" className="text-primary hover:underline">pagina de modificări</Link>
+                    {' '}și în fluxuri Atom pe județ
+                  </p>
+                </div>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/layout/header';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Bell, BellOff, CheckCircle2, Loader2 } from 'lucide-react';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import { AlertChannel, AlertTrigger, ALERT_TRIGGER_LABELS } from '@/lib/types-v2';
+
+interface PageProps {
+  params: { token: string };
+}
+
+interface SubscriptionView {
+  id: string;
+  locationId: string;
+  locationName: string | null;
+  specialtyName: string | null;
+  channel: AlertChannel;
+  email: string | null;
+  triggers: AlertTrigger[];
+  confirmed: boolean;
+  lastNotifiedAt: string | null;
+}
+
+const ALL_TRIGGERS = Object.keys(ALERT_TRIGGER_LABELS) as AlertTrigger[];
+
+export default function ManageAlertsPage({ params }: PageProps) {
+  const { token } = params;
+  const [subscription, setSubscription] = useState<SubscriptionView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deleted, setDeleted] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSubscription();
+  }, [token]);
+
+  const fetchSubscription = async () => {
+    try {
+      const response = await fetch(`/api/alerts/${token}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSubscription(data.subscription);
+      }
+    } catch (error) {
+      console.error('Error fetching alert subscription:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = async (changes: { confirm?: boolean; triggers?: AlertTrigger[] }) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/alerts/${token}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setMessage(data.error || 'Nu am putut salva modificările');
+        return;
+      }
+      setSubscription(data.subscription);
+      setMessage(changes.confirm ? 'Alertele sunt confirmate.' : 'Modificările au fost salvate.');
+    } catch (error) {
+      console.error('Error updating alert subscription:', error);
+      setMessage('Nu am putut salva modificările');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unsubscribe = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/alerts/${token}`, { method: 'DELETE' });
+      if (response.ok) {
+        if (subscription) localStorage.removeItem(`fondcas-alerts-${subscription.locationId}`);
+        setDeleted(true);
+      } else {
+        setMessage('Nu am putut anula abonarea');
+      }
+    } catch (error) {
+      console.error('Error deleting alert subscription:', error);
+      setMessage('Nu am putut anula abonarea');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleTrigger = (trigger: AlertTrigger) => {
+    if (!subscription) return;
+    const triggers = subscription.triggers.includes(trigger)
+      ? subscription.triggers.filter((t) => t !== trigger)
+      : [...subscription.triggers, trigger];
+    if (triggers.length > 0) update({ triggers });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen">
+        <Header title="Se încarcă..." showBack backHref="/" />
+        <div className="p-4 space-y-4">
+          <Skeleton className="h-48 w-full rounded-xl" />
+        </div>
+      </div>
+    );
+  }
+
+  if (deleted || !subscription) {
+    return (
+      <div className="min-h-screen">
+        <Header title="Alerte" showBack backHref="/" />
+        <div className="p-4 text-center py-12">
+          <div className="w-16 h-16 bg-white/60 backdrop-blur-sm rounded-full flex items-center justify-center mx-auto mb-4 border border-border/30">
+            <BellOff className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h2 className="font-semibold text-foreground mb-2">
+            {deleted ? 'Te-ai dezabonat' : 'Alertă negăsită'}
+          </h2>
+          <p className="text-muted-foreground mb-4">
+            {deleted
+              ? 'Nu vei mai primi alerte pentru această clinică.'
+              : 'Linkul nu este valid sau abonarea a fost anulată.'}
+          </p>
+          <Link href="/search">
+            <Button className="btn-gradient">Caută clinici</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pb-24">
+      <Header title="Alerte fonduri" showBack backHref={`/clinic/${subscription.locationId}`} />
+
+      <div className="p-4 space-y-4">
+        <Card className="bg-white/80 backdrop-blur-sm border-white/50">
+          <CardContent className="p-5 space-y-4">
+            <div className="flex items-start gap-3">
+              <div className="p-2 bg-primary/10 rounded-xl">
+                <Bell className="h-5 w-5 text-primary" />
+              </div>
+              <div className="flex-1">
+                <Link href={`/clinic/${subscription.locationId}`} className="font-semibold text-foreground">
+                  {subscription.locationName || 'Clinică'}
+                </Link>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  <Badge variant="secondary">
+                    {subscription.channel === 'push' ? 'Notificări push' : subscription.email}
+                  </Badge>
+                  {subscription.specialtyName && (
+                    <Badge variant="outline">{subscription.specialtyName}</Badge>
+                  )}
+                </div>
+                {subscription.lastNotifiedAt && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Ultima alertă: {formatRelativeTime(subscription.lastNotifiedAt)}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {!subscription.confirmed && (
+              <Button className="w-full btn-gradient" disabled={saving} onClick={() => update({ confirm: true })}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                Confirmă alertele
+              </Button>
+            )}
+
+            <div>
+              <p className="text-sm font-medium text-foreground mb-2">Trimite alerte pentru</p>
+              <div className="flex flex-wrap gap-2">
+                {ALL_TRIGGERS.map((trigger) => (
+                  <button
+                    key={trigger}
+                    type="button"
+                    disabled={saving}
+                    onClick={() => toggleTrigger(trigger)}
+                    className={cn(
+                      'px-3 py-1.5 rounded-full text-xs border transition-colors',
+                      subscription.triggers.includes(trigger)
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'bg-white/60 text-muted-foreground border-border'
+                    )}
+                  >
+                    {ALERT_TRIGGER_LABELS[trigger]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+            <Button variant="outline" className="w-full" disabled={saving} onClick={unsubscribe}>
+              <BellOff className="h-4 w-4 mr-2" />
+              Dezabonează-te
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, TABLES } from '@/lib/supabase';
+import { ALERT_TRIGGERS, getAlertSubscription, toAlertSubscriptionView } from '@/lib/alerts';
+import { verifyAlertToken } from '@/lib/alert-tokens';
+import { AlertTrigger } from '@/lib/types-v2';
+
+// Manage a single alert subscription through its signed link
+export const runtime = 'nodejs';
+
+async function resolveSubscription(token: string) {
+  const subscriptionId = verifyAlertToken(token);
+  return subscriptionId ? getAlertSubscription(subscriptionId) : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const subscription = await resolveSubscription(token);
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ subscription: toAlertSubscriptionView(subscription) });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH - Confirm an email subscription and/or change its triggers
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const subscription = await resolveSubscription(token);
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { confirm, triggers } = body as { confirm?: boolean; triggers?: AlertTrigger[] };
+    const updates: Record<string, unknown> = {};
+
+    if (triggers !== undefined) {
+      if (!Array.isArray(triggers) || triggers.length === 0 || !triggers.every((t) => ALERT_TRIGGERS.includes(t))) {
+        return NextResponse.json(
+          { error: `triggers must be a non-empty list of: ${ALERT_TRIGGERS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      updates.triggers = triggers;
+    }
+
+    if (confirm && !subscription.confirmed_at) {
+      updates.confirmed_at = new Date().toISOString();
+    }
+
+    if (Object.keys(updates).length > 0) {
+      const supabase = createServerClient();
+      const { error } = await supabase
+        .from(TABLES.ALERT_SUBSCRIPTIONS)
+        .update(updates)
+        .eq('id', subscription.id);
+
+      if (error) {
+        console.error('Error updating alert subscription:', error);
+        return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 });
+      }
+    }
+
+    const updated = await getAlertSubscription(subscription.id);
+    return NextResponse.json({ subscription: toAlertSubscriptionView(updated!) });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Unsubscribe
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const subscription = await resolveSubscription(token);
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    const supabase = createServerClient();
+    const { error } = await supabase
+      .from(TABLES.ALERT_SUBSCRIPTIONS)
+      .delete()
+      .eq('id', subscription.id);
+
+    if (error) {
+      console.error('Error deleting alert subscription:', error);
+      return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkSyncAuth } from '@/lib/sync-auth';
+import { checkPredictionCrossings } from '@/lib/alerts';
+
+// Re-runs predictions for watched locations and sends "predicted available"
+// alerts. Call it from a cron job a few times a day with the sync secret.
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const unauthorized = checkSyncAuth(request);
+    if (unauthorized) return unauthorized;
+
+    const result = await checkPredictionCrossings();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Alert check error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, TABLES } from '@/lib/supabase';
+import {
+  ALERT_TRIGGERS,
+  findAlertSubscription,
+  getAlertSubscription,
+  sendAlertLink,
+  toAlertSubscriptionView,
+} from '@/lib/alerts';
+import { isEmailConfigured, isPushConfigured } from '@/lib/alert-delivery';
+import { getAlertManageUrl } from '@/lib/alert-tokens';
+import { AlertChannel, AlertTrigger } from '@/lib/types-v2';
+
+// Subscriptions are managed through a signed link (see /api/alerts/:token)
+export const runtime = 'nodejs';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// The same answer for new and existing email subscriptions, so the endpoint
+// doesn't tell whether an address is subscribed
+function emailLinkResponse(sent: boolean) {
+  if (!sent) {
+    return NextResponse.json(
+      { error: 'Ți-am trimis deja un email recent. Verifică inbox-ul sau încearcă din nou peste câteva minute.' },
+      { status: 429 }
+    );
+  }
+  return NextResponse.json({ emailSent: true }, { status: 202 });
+}
+
+// POST - Subscribe to alerts for a location (and optionally a specialty)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { locationId, specialtyId, channel, email, subscription } = body as {
+      locationId?: string;
+      specialtyId?: string | null;
+      channel?: AlertChannel;
+      email?: string;
+      subscription?: { endpoint?: string; keys?: { p256dh?: string; auth?: string } };
+      triggers?: AlertTrigger[];
+    };
+    const triggers: AlertTrigger[] = body.triggers ?? ALERT_TRIGGERS;
+
+    if (!locationId || (channel !== 'push' && channel !== 'email')) {
+      return NextResponse.json(
+        { error: 'locationId and channel (push or email) are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(triggers) || triggers.length === 0 || !triggers.every((t) => ALERT_TRIGGERS.includes(t))) {
+      return NextResponse.json(
+        { error: `triggers must be a non-empty list of: ${ALERT_TRIGGERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const normalizedEmail = email?.trim().toLowerCase();
+    if (channel === 'email' && (!normalizedEmail || !EMAIL_PATTERN.test(normalizedEmail))) {
+      return NextResponse.json({ error: 'Adresa de email nu este validă' }, { status: 400 });
+    }
+
+    const push = subscription;
+    if (channel === 'push' && (!push?.endpoint || !push.keys?.p256dh || !push.keys?.auth)) {
+      return NextResponse.json(
+        { error: 'subscription must be a PushSubscription with endpoint and keys' },
+        { status: 400 }
+      );
+    }
+
+    if ((channel === 'push' && !isPushConfigured()) || (channel === 'email' && !isEmailConfigured())) {
+      return NextResponse.json(
+        { error: 'Acest tip de alertă nu este disponibil momentan' },
+        { status: 503 }
+      );
+    }
+
+    const supabase = createServerClient();
+
+    // Verify location (and specialty) exist
+    const { data: location } = await supabase
+      .from(TABLES.LOCATIONS)
+      .select('id')
+      .eq('id', locationId)
+      .maybeSingle();
+
+    if (!location) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    if (specialtyId) {
+      const { data: specialty } = await supabase
+        .from(TABLES.SPECIALTIES)
+        .select('id')
+        .eq('id', specialtyId)
+        .maybeSingle();
+
+      if (!specialty) {
+        return NextResponse.json({ error: 'Specialty not found' }, { status: 404 });
+      }
+    }
+
+    const existing = await findAlertSubscription({
+      locationId,
+      specialtyId,
+      email: channel === 'email' ? normalizedEmail : undefined,
+      pushEndpoint: channel === 'push' ? push!.endpoint : undefined,
+    });
+
+    // Anyone can post an address, so an existing email subscription is left
+    // as it is: the address gets its manage link (/api/alerts/:token) again
+    if (existing && channel === 'email') {
+      return emailLinkResponse(await sendAlertLink(existing));
+    }
+
+    // Subscribing twice from a browser updates the triggers of its subscription
+    let subscriptionId: string;
+    if (existing) {
+      subscriptionId = existing.id;
+      await supabase
+        .from(TABLES.ALERT_SUBSCRIPTIONS)
+        .update({
+          triggers,
+          ...(channel === 'push' ? { push_p256dh: push!.keys!.p256dh, push_auth: push!.keys!.auth } : {}),
+        })
+        .eq('id', subscriptionId);
+    } else {
+      const { data, error } = await supabase
+        .from(TABLES.ALERT_SUBSCRIPTIONS)
+        .insert({
+          location_id: locationId,
+          specialty_id: specialtyId || null,
+          channel,
+          email: channel === 'email' ? normalizedEmail : null,
+          push_endpoint: channel === 'push' ? push!.endpoint : null,
+          push_p256dh: channel === 'push' ? push!.keys!.p256dh : null,
+          push_auth: channel === 'push' ? push!.keys!.auth : null,
+          triggers,
+          // The browser granting permission is the confirmation for push
+          confirmed_at: channel === 'push' ? new Date().toISOString() : null,
+        })
+        .select('id')
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating alert subscription:', error);
+        return NextResponse.json({ error: 'Failed to create subscription' }, { status: 500 });
+      }
+      subscriptionId = data.id;
+    }
+
+    const saved = await getAlertSubscription(subscriptionId);
+    if (!saved) {
+      return NextResponse.json({ error: 'Failed to create subscription' }, { status: 500 });
+    }
+
+    // Email: the manage link only goes to the address, which confirms it owns it
+    if (channel === 'email') {
+      return emailLinkResponse(await sendAlertLink(saved));
+    }
+
+    return NextResponse.json(
+      { subscription: toAlertSubscriptionView(saved), manageUrl: getAlertManageUrl(saved.id) },
+      { status: existing ? 200 : 201 }
+    );
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
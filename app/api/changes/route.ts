@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_FEED_LIMIT, MAX_FEED_LIMIT, getChangeFeed } from '@/lib/change-feed';
+
+// Recent contract and allocation changes, shown on /changes
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const county = searchParams.get('county')?.toUpperCase() || null;
+    const limit = Math.min(
+      parseInt(searchParams.get('limit') || String(DEFAULT_FEED_LIMIT)) || DEFAULT_FEED_LIMIT,
+      MAX_FEED_LIMIT
+    );
+
+    const changes = await getChangeFeed({ county, limit });
+
+    return NextResponse.json({ changes });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
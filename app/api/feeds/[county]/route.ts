@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { buildAtomFeed, getChangeFeed } from '@/lib/change-feed';
+
+const BASE_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://fondcas.ro';
+
+// Atom feed of /changes: /api/feeds/CJ.xml for one county, /api/feeds/all.xml
+// for the whole country
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ county: string }> }
+) {
+  try {
+    const { county: param } = await params;
+    const code = param.replace(/\.xml$/i, '').toUpperCase();
+
+    let county: { code: string; name: string } | null = null;
+    if (code !== 'ALL') {
+      const { data } = await supabase
+        .from(TABLES.COUNTIES)
+        .select('code, name')
+        .eq('code', code)
+        .single();
+
+      if (!data) {
+        return NextResponse.json({ error: 'County not found' }, { status: 404 });
+      }
+      county = data;
+    }
+
+    const entries = await getChangeFeed({ county: county?.code });
+    const xml = buildAtomFeed({
+      title: county ? `FondCAS – Modificări în ${county.name}` : 'FondCAS – Modificări',
+      selfUrl: `${BASE_URL}/api/feeds/${county ? county.code : 'all'}.xml`,
+      pageUrl: `${BASE_URL}/changes${county ? `?county=${county.code}` : ''}`,
+      baseUrl: BASE_URL,
+      entries,
+    });
+
+    return new NextResponse(xml, {
+      headers: {
+        'Content-Type': 'application/atom+xml; charset=utf-8',
+      },
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { estimateFundAvailability } from '@/lib/fund-estimator';
+import {
+  getLocationWithOrganization,
+  getMonthlyAllocation,
+  getRecentReports,
+} from '@/lib/location-funds';
+import { parseAtParam, systemClock, toFundDay } from '@/lib/clock';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const { locationId } = await params;
+    const { searchParams } = new URL(request.url);
+    const serviceType = searchParams.get('serviceType');
+
+    // Estimate for another day (?at=YYYY-MM-DD, Bucharest calendar) instead of now
+    const at = parseAtParam(searchParams.get('at'));
+    if (at === null) {
+      return NextResponse.json({ error: 'at must be a date formatted as YYYY-MM-DD' }, { status: 400 });
+    }
+
+    // Funds are allocated to the organization, reports are per location
+    const location = await getLocationWithOrganization(locationId);
+
+    if (!location) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    const now = at ?? systemClock.now();
+    const today = toFundDay(now);
+
+    // Get the month's fund allocation (all service types summed unless one is requested)
+    const allocation = await getMonthlyAllocation(location.organization_id, today, serviceType);
+
+    // Get user reports from the 48 hours before `now`
+    const reports = await getRecentReports(locationId, 48, now);
+
+    // Calculate fund status
+    const fundStatus = estimateFundAvailability(allocation, reports, now);
+
+    return NextResponse.json({
+      location: {
+        id: location.id,
+        name: location.name,
+        organizationId: location.organization_id,
+      },
+      at: now.toISOString(),
+      period: { year: today.year, month: today.month, day: today.day },
+      allocation,
+      reports: reports.slice(0, 5),
+      status: fundStatus,
+      disclaimer:
+        'Aceasta este o estimare bazată pe date istorice și rapoarte ale utilizatorilor. Vă rugăm confirmați telefonic înainte de deplasare.',
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
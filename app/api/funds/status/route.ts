@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFundStatuses } from '@/lib/location-funds';
+import { parseAtParam, systemClock, toFundDay } from '@/lib/clock';
+
+// Most IDs accepted in one request (locations and organizations together)
+const MAX_IDS = 300;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseIds(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  if (!value.every((id) => typeof id === 'string' && UUID_PATTERN.test(id))) return null;
+  return Array.from(new Set(value as string[]));
+}
+
+// POST - Fund status for many locations and/or organizations at once.
+// Body: { locationIds?: string[], organizationIds?: string[], at?: 'YYYY-MM-DD' }
+export async function POST(request: NextRequest) {
+  try {
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Body must be valid JSON' }, { status: 400 });
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+    }
+
+    const locationIds = parseIds(body.locationIds);
+    const organizationIds = parseIds(body.organizationIds);
+
+    if (!locationIds || !organizationIds) {
+      return NextResponse.json(
+        { error: 'locationIds and organizationIds must be arrays of IDs' },
+        { status: 400 }
+      );
+    }
+
+    if (locationIds.length + organizationIds.length === 0) {
+      return NextResponse.json(
+        { error: 'locationIds or organizationIds is required' },
+        { status: 400 }
+      );
+    }
+
+    if (locationIds.length + organizationIds.length > MAX_IDS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_IDS} IDs per request` },
+        { status: 400 }
+      );
+    }
+
+    // Estimate for another day (Bucharest calendar) instead of now
+    const at = parseAtParam(typeof body.at === 'string' ? body.at : null);
+    if (at === null) {
+      return NextResponse.json({ error: 'at must be a date formatted as YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const now = at ?? systemClock.now();
+    const today = toFundDay(now);
+    const statuses = await getFundStatuses(locationIds, organizationIds, now);
+
+    return NextResponse.json({
+      at: now.toISOString(),
+      period: { year: today.year, month: today.month, day: today.day },
+      ...statuses,
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
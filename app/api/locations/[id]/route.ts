@@ -27,7 +27,8 @@ export async function GET(
           provider_type,
           cnas_contract_number,
           ai_confidence,
-          data_source_date
+          data_source_date,
+          contract_end_date
         ),
         county:counties (
           id,
@@ -45,10 +46,30 @@ export async function GET(
       );
     }
 
-    // Fetch specialties for this organization
+    // Specialties linked to this location; without any, the organization's
     let specialties: string[] = [];
+    let specialtiesSource: 'location' | 'organization' = 'location';
+
+    const { data: locationSpecialties } = await supabase
+      .from('location_specialties')
+      .select(`
+        specialty:specialties (
+          id,
+          name
+        )
+      `)
+      .eq('location_id', id);
+
+    if (locationSpecialties) {
+      specialties = locationSpecialties
+        .map((ls: any) => ls.specialty?.name)
+        .filter(Boolean)
+        .sort();
+    }
+
+    if (specialties.length === 0 && location.organization_id) {
+      specialtiesSource = 'organization';
 
-    if (location.organization_id) {
       const { data: orgSpecialties } = await supabase
         .from('organization_specialties')
         .select(`
@@ -100,6 +121,7 @@ export async function GET(
       location,
       siblingLocations,
       specialties,
+      specialtiesSource,
     });
   } catch (error) {
     console.error('API error:', error);
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { LocationSort, searchLocations } from '@/lib/location-search';
+import { formatLocalDateTime, parseOpenAtParam } from '@/lib/opening-hours';
+import { systemClock } from '@/lib/clock';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -12,40 +15,86 @@ export async function GET(request: NextRequest) {
     const county = searchParams.get('county');
     const type = searchParams.get('type');
     const specialty = searchParams.get('specialty');
+    const investigation = searchParams.get('investigation');
     const query = searchParams.get('query');
     const network = searchParams.get('network');
     const lat = searchParams.get('lat');
     const lng = searchParams.get('lng');
     const radius = searchParams.get('radius') || '3';
+    const funds = searchParams.get('funds') || 'any';
+    const sort = (searchParams.get('sort') || 'relevance') as LocationSort;
+    const openNow = searchParams.get('open_now') === 'true';
+    const openAtParam = parseOpenAtParam(searchParams.get('open_at'));
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '20');
     const offset = (page - 1) * limit;
 
-    // If searching by location, use the RPC function
-    if (lat && lng) {
-      const { data, error } = await supabase.rpc('search_locations_nearby', {
-        search_lat: parseFloat(lat),
-        search_lng: parseFloat(lng),
-        radius_km: parseFloat(radius),
-      });
+    // Nearby search (nearest first) takes every filter of the list search
+    const near = lat && lng
+      ? { lat: parseFloat(lat), lng: parseFloat(lng), radiusKm: parseFloat(radius) }
+      : undefined;
 
-      if (error) {
-        console.error('Nearby search error:', error);
-        // Fall back to regular search if RPC doesn't exist
-      } else if (data) {
-        let results = data || [];
-        if (type) {
-          results = results.filter((l: any) => l.provider_type === type);
-        }
+    if (near && (isNaN(near.lat) || isNaN(near.lng) || isNaN(near.radiusKm) || near.radiusKm <= 0)) {
+      return NextResponse.json(
+        { error: 'lat, lng and radius must be numbers' },
+        { status: 400 }
+      );
+    }
 
-        return NextResponse.json({
-          locations: results.slice(offset, offset + limit),
-          total: results.length,
-          page,
-          limit,
-          hasMore: results.length > offset + limit,
-        });
-      }
+    if (funds !== 'available' && funds !== 'any') {
+      return NextResponse.json(
+        { error: 'funds must be "available" or "any"' },
+        { status: 400 }
+      );
+    }
+
+    if (sort !== 'relevance' && sort !== 'funds') {
+      return NextResponse.json(
+        { error: 'sort must be "relevance" or "funds"' },
+        { status: 400 }
+      );
+    }
+
+    if (openAtParam === null) {
+      return NextResponse.json(
+        { error: 'open_at must be a Bucharest time formatted as YYYY-MM-DDTHH:MM' },
+        { status: 400 }
+      );
+    }
+
+    // Opening hours are Bucharest wall-clock times
+    const openAt = openAtParam ?? (openNow ? formatLocalDateTime(systemClock.now()) : null);
+
+    // Nearby, text, specialty, fund-aware and opening-hours searches run as
+    // one database call: ranked, diacritic-insensitive and typo-tolerant,
+    // filtered and paginated in SQL. The specialty filter also accepts
+    // synonyms and includes sub-specialties; the investigation filter ("RMN",
+    // "TSH") matches providers contracted for it.
+    if (near || query || specialty || investigation || funds === 'available' || sort === 'funds' || openAt) {
+      const { locations, total } = await searchLocations(
+        {
+          query,
+          county,
+          type,
+          networkOnly: network === 'true',
+          specialty,
+          investigation,
+          availableFundsOnly: funds === 'available',
+          sort,
+          openAt,
+        },
+        offset,
+        limit,
+        near
+      );
+
+      return NextResponse.json({
+        locations,
+        total,
+        page,
+        limit,
+        hasMore: total > offset + limit,
+      });
     }
 
     // Build the query
@@ -106,83 +155,12 @@ export async function GET(request: NextRequest) {
       queryBuilder = queryBuilder.eq('organization.is_network', true);
     }
 
-    // Filter by specialty - need to find organizations with this specialty first
-    if (specialty) {
-      // Get specialty ID
-      const { data: specData } = await supabase
-        .from('specialties')
-        .select('id')
-        .ilike('name', specialty)
-        .single();
-
-      if (specData) {
-        // Get organization IDs that have this specialty
-        const { data: orgSpecData } = await supabase
-          .from('organization_specialties')
-          .select('organization_id')
-          .eq('specialty_id', specData.id);
-
-        const orgIds = orgSpecData?.map(os => os.organization_id) || [];
-
-        if (orgIds.length > 0) {
-          queryBuilder = queryBuilder.in('organization_id', orgIds);
-        } else {
-          // No orgs have this specialty, return empty
-          return NextResponse.json({
-            locations: [],
-            total: 0,
-            page,
-            limit,
-            hasMore: false,
-          });
-        }
-      }
-    }
-
-    // Search by name/address/organization/specialty
-    // Note: PostgREST doesn't support nested fields in `or`, so we search locations first
-    // then do a separate org search if needed
-    if (query) {
-      // First, find organization IDs that match the query by name/brand
-      const { data: matchingOrgs } = await supabase
-        .from('organizations')
-        .select('id')
-        .or(`legal_name.ilike.%${query}%,network_brand.ilike.%${query}%`);
-
-      const orgIdsFromName = matchingOrgs?.map(o => o.id) || [];
-
-      // Also find organizations that have a specialty matching the query
-      const { data: matchingSpecialties } = await supabase
-        .from('specialties')
-        .select('id')
-        .ilike('name', `%${query}%`);
-
-      let orgIdsFromSpecialty: string[] = [];
-      if (matchingSpecialties && matchingSpecialties.length > 0) {
-        const specIds = matchingSpecialties.map(s => s.id);
-        const { data: orgSpecData } = await supabase
-          .from('organization_specialties')
-          .select('organization_id')
-          .in('specialty_id', specIds);
-
-        orgIdsFromSpecialty = orgSpecData?.map(os => os.organization_id) || [];
-      }
-
-      // Combine org IDs from name search and specialty search
-      const allOrgIds = Array.from(new Set([...orgIdsFromName, ...orgIdsFromSpecialty]));
-
-      if (allOrgIds.length > 0) {
-        // Search in location fields OR organization matches (by name or specialty)
-        queryBuilder = queryBuilder.or(`name.ilike.%${query}%,address.ilike.%${query}%,website.ilike.%${query}%,organization_id.in.(${allOrgIds.join(',')})`);
-      } else {
-        // No org matches, just search location fields (including website for brand names)
-        queryBuilder = queryBuilder.or(`name.ilike.%${query}%,address.ilike.%${query}%,website.ilike.%${query}%`);
-      }
-    }
-
     // Only show locations with reasonable confidence
     queryBuilder = queryBuilder.gte('confidence', 50);
 
+    // Organizations missing from the latest CAS publication are not listed
+    queryBuilder = queryBuilder.is('organization.contract_end_date', null);
+
     // Ordering
     queryBuilder = queryBuilder
       .order('is_primary', { ascending: false })
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMapFeatures, MapBoundingBox } from '@/lib/map-features';
+import { formatLocalDateTime, parseOpenAtParam } from '@/lib/opening-hours';
+import { systemClock } from '@/lib/clock';
+
+// GET - GeoJSON for a map viewport.
+// bbox=west,south,east,north and zoom are required; county, type, specialty,
+// investigation, query, network, funds, open_now/open_at and lat/lng/radius
+// filter like /api/locations; exact=true leaves out approximately geocoded
+// locations.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const bboxParts = (searchParams.get('bbox') || '').split(',').map((v) => parseFloat(v));
+    const zoom = parseInt(searchParams.get('zoom') || '');
+
+    if (bboxParts.length !== 4 || bboxParts.some((v) => isNaN(v))) {
+      return NextResponse.json(
+        { error: 'bbox must be west,south,east,north' },
+        { status: 400 }
+      );
+    }
+
+    const [west, south, east, north] = bboxParts;
+    if (west >= east || south >= north || south < -90 || north > 90) {
+      return NextResponse.json(
+        { error: 'bbox must be west,south,east,north' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(zoom) || zoom < 0 || zoom > 22) {
+      return NextResponse.json(
+        { error: 'zoom must be an integer between 0 and 22' },
+        { status: 400 }
+      );
+    }
+
+    const lat = searchParams.get('lat');
+    const lng = searchParams.get('lng');
+    const radius = searchParams.get('radius') || '3';
+
+    const near = lat && lng
+      ? { lat: parseFloat(lat), lng: parseFloat(lng), radiusKm: parseFloat(radius) }
+      : undefined;
+
+    if (near && (isNaN(near.lat) || isNaN(near.lng) || isNaN(near.radiusKm) || near.radiusKm <= 0)) {
+      return NextResponse.json(
+        { error: 'lat, lng and radius must be numbers' },
+        { status: 400 }
+      );
+    }
+
+    const funds = searchParams.get('funds') || 'any';
+    if (funds !== 'available' && funds !== 'any') {
+      return NextResponse.json(
+        { error: 'funds must be "available" or "any"' },
+        { status: 400 }
+      );
+    }
+
+    const openAtParam = parseOpenAtParam(searchParams.get('open_at'));
+    if (openAtParam === null) {
+      return NextResponse.json(
+        { error: 'open_at must be a Bucharest time formatted as YYYY-MM-DDTHH:MM' },
+        { status: 400 }
+      );
+    }
+
+    // Opening hours are Bucharest wall-clock times
+    const openAt = openAtParam ?? (searchParams.get('open_now') === 'true' ? formatLocalDateTime(systemClock.now()) : null);
+
+    const bbox: MapBoundingBox = { west, south, east, north };
+    const collection = await getMapFeatures(
+      bbox,
+      zoom,
+      {
+        query: searchParams.get('query'),
+        county: searchParams.get('county'),
+        type: searchParams.get('type'),
+        specialty: searchParams.get('specialty'),
+        investigation: searchParams.get('investigation'),
+        openAt,
+        networkOnly: searchParams.get('network') === 'true',
+        availableFundsOnly: funds === 'available',
+        exactLocationsOnly: searchParams.get('exact') === 'true',
+      },
+      near
+    );
+
+    return NextResponse.json(collection, {
+      headers: { 'Content-Type': 'application/geo+json' },
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
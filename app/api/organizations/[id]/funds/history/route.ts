@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { FundPeriod } from '@/lib/clock';
+import { getAllocationHistory } from '@/lib/location-funds';
+
+// Parse a "YYYY-MM" query parameter
+function parsePeriod(value: string | null): FundPeriod | null | undefined {
+  if (!value) return undefined;
+  const match = value.match(/^(\d{4})-(\d{2})$/);
+  if (!match) return null;
+  const month = parseInt(match[2]);
+  if (month < 1 || month > 12) return null;
+  return { year: parseInt(match[1]), month };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const serviceType = searchParams.get('serviceType');
+    const from = parsePeriod(searchParams.get('from'));
+    const to = parsePeriod(searchParams.get('to'));
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: 'from and to must be formatted as YYYY-MM' },
+        { status: 400 }
+      );
+    }
+
+    const { data: organization, error } = await supabase
+      .from(TABLES.ORGANIZATIONS)
+      .select('id, legal_name, network_brand')
+      .eq('id', id)
+      .single();
+
+    if (error || !organization) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    const series = await getAllocationHistory(id, { from, to, serviceType });
+
+    return NextResponse.json({
+      organization: {
+        id: organization.id,
+        legalName: organization.legal_name,
+        networkBrand: organization.network_brand,
+      },
+      series,
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fundPredictor } from '@/lib/fund-predictor';
+import {
+  getLocationWithOrganization,
+  getMonthlyAllocation,
+  getRecentReports,
+} from '@/lib/location-funds';
+import { parseAtParam, systemClock, toFundDay } from '@/lib/clock';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ locationId: string }> }
+) {
+  try {
+    const { locationId } = await params;
+    const { searchParams } = new URL(request.url);
+
+    // Predict for another day (?at=YYYY-MM-DD, Bucharest calendar) instead of now
+    const at = parseAtParam(searchParams.get('at'));
+    if (at === null) {
+      return NextResponse.json({ error: 'at must be a date formatted as YYYY-MM-DD' }, { status: 400 });
+    }
+
+    // Get location and the organization holding the contract
+    const location = await getLocationWithOrganization(locationId);
+
+    if (!location) {
+      return NextResponse.json({ error: 'Location not found' }, { status: 404 });
+    }
+
+    const org = location.organization;
+    const requestedServiceType = searchParams.get('serviceType');
+    const serviceType = requestedServiceType || org.provider_type;
+
+    const now = at ?? systemClock.now();
+    const today = toFundDay(now);
+
+    // Get the month's allocation (all service types summed unless one is requested)
+    const allocation = await getMonthlyAllocation(org.id, today, requestedServiceType);
+
+    // Get user reports from the 48 hours before `now`
+    const reports = await getRecentReports(locationId, 48, now);
+
+    // Run prediction
+    const prediction = await fundPredictor.predict({
+      providerId: org.id,
+      providerCui: org.cui || '',
+      serviceType,
+      countyCode: location.county?.code,
+      currentDate: now,
+      allocatedAmount: allocation?.allocated_amount || 0,
+      recentUserReports: reports,
+    });
+
+    return NextResponse.json({
+      location: {
+        id: location.id,
+        name: location.name,
+        organizationId: org.id,
+        organizationName: org.legal_name,
+      },
+      at: now.toISOString(),
+      period: { year: today.year, month: today.month, day: today.day },
+      prediction,
+      disclaimer:
+        'Aceasta este o estimare bazată pe date istorice. Vă rugăm confirmați telefonic înainte de deplasare.',
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
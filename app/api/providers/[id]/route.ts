@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase, TABLES } from '@/lib/supabase';
 import { estimateFundAvailability } from '@/lib/fund-estimator';
+import { systemClock, toFundDay } from '@/lib/clock';
 
 export async function GET(
   request: NextRequest,
@@ -35,13 +36,14 @@ export async function GET(
     };
 
     // Get current fund allocations (may have multiple service types)
-    const now = new Date();
+    const now = systemClock.now();
+    const today = toFundDay(now);
     const { data: allocations } = await supabase
       .from(TABLES.FUND_ALLOCATIONS)
       .select('*')
       .eq('provider_id', id)
-      .eq('period_year', now.getFullYear())
-      .eq('period_month', now.getMonth() + 1);
+      .eq('period_year', today.year)
+      .eq('period_month', today.month);
 
     // Sum all allocations for this month
     const allocation = allocations && allocations.length > 0 ? {
@@ -58,7 +60,7 @@ export async function GET(
       .from(TABLES.USER_REPORTS)
       .select('*')
       .eq('provider_id', id)
-      .gte('reported_at', new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString())
+      .gte('reported_at', new Date(now.getTime() - 48 * 60 * 60 * 1000).toISOString())
       .order('reported_at', { ascending: false });
 
     // Calculate fund status
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, TABLES } from '@/lib/supabase';
+import { checkModeratorAuth } from '@/lib/moderator-auth';
+import { notifyFundsAvailableReports } from '@/lib/alerts';
+
+// Alerts are sent with web-push and node:crypto
+export const runtime = 'nodejs';
+
+// Moderation of a single report (Bearer MODERATOR_SECRET_KEY)
+
+type ModerationAction = 'verify' | 'unverify' | 'hide' | 'unhide';
+
+// PATCH - Verify or hide a report
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const unauthorized = checkModeratorAuth(request);
+    if (unauthorized) return unauthorized;
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as ModerationAction;
+    const now = new Date().toISOString();
+
+    const updates: Record<ModerationAction, Record<string, unknown>> = {
+      verify: { verified: true, verified_at: now },
+      unverify: { verified: false, verified_at: null },
+      hide: { hidden: true, hidden_at: now },
+      unhide: { hidden: false, hidden_at: null },
+    };
+
+    if (!updates[action]) {
+      return NextResponse.json(
+        { error: 'action must be one of: verify, unverify, hide, unhide' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerClient();
+    const { data, error } = await supabase
+      .from(TABLES.USER_REPORTS)
+      .update(updates[action])
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error moderating report:', error);
+      return NextResponse.json({ error: 'Failed to update report' }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    if (action === 'verify' && data.report_type === 'funds_available') {
+      notifyFundsAvailableReports(data.location_id).catch((err) => {
+        console.error(`Alerts for report ${id} failed:`, err);
+      });
+    }
+
+    return NextResponse.json({ report: data });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a report (and its votes)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const unauthorized = checkModeratorAuth(request);
+    if (unauthorized) return unauthorized;
+
+    const { id } = await params;
+    const supabase = createServerClient();
+    const { data, error } = await supabase
+      .from(TABLES.USER_REPORTS)
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting report:', error);
+      return NextResponse.json({ error: 'Failed to delete report' }, { status: 500 });
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient, TABLES } from '@/lib/supabase';
+import { hashString } from '@/lib/utils';
+import { ReportVote } from '@/lib/types-v2';
+import { notifyFundsAvailableReports } from '@/lib/alerts';
+
+// Alerts are sent with web-push and node:crypto
+export const runtime = 'nodejs';
+
+// POST - Vote a report up or down. One vote per IP (hashed) and report;
+// voting again replaces the previous vote.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const vote = body.vote as ReportVote;
+
+    if (vote !== 'up' && vote !== 'down') {
+      return NextResponse.json(
+        { error: 'vote must be "up" or "down"' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerClient();
+
+    const { data: report } = await supabase
+      .from(TABLES.USER_REPORTS)
+      .select('id, location_id, reporter_ip_hash, hidden')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!report || report.hidden) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    const forwarded = request.headers.get('x-forwarded-for');
+    const ip = forwarded ? forwarded.split(',')[0] : 'unknown';
+
+    // Reports are hashed with the location, so the reporter can be recognized
+    if (report.reporter_ip_hash && report.reporter_ip_hash === (await hashString(ip + report.location_id))) {
+      return NextResponse.json(
+        { error: 'Nu poți vota propriul raport' },
+        { status: 403 }
+      );
+    }
+
+    const { error: voteError } = await supabase
+      .from(TABLES.REPORT_VOTES)
+      .upsert(
+        {
+          report_id: id,
+          voter_ip_hash: await hashString(ip + id),
+          vote: vote === 'up' ? 1 : -1,
+          voted_at: new Date().toISOString(),
+        },
+        { onConflict: 'report_id,voter_ip_hash' }
+      );
+
+    if (voteError) {
+      console.error('Error saving vote:', voteError);
+      return NextResponse.json({ error: 'Failed to save vote' }, { status: 500 });
+    }
+
+    // Recount from the votes table so concurrent votes can't drift the totals
+    const { data: votes, error: countError } = await supabase
+      .from(TABLES.REPORT_VOTES)
+      .select('vote')
+      .eq('report_id', id);
+
+    if (countError) {
+      console.error('Error counting votes:', countError);
+      return NextResponse.json({ error: 'Failed to save vote' }, { status: 500 });
+    }
+
+    const upvotes = (votes || []).filter((v) => v.vote > 0).length;
+    const downvotes = (votes || []).filter((v) => v.vote < 0).length;
+
+    const { data: updated, error } = await supabase
+      .from(TABLES.USER_REPORTS)
+      .update({ upvotes, downvotes })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating vote totals:', error);
+      return NextResponse.json({ error: 'Failed to save vote' }, { status: 500 });
+    }
+
+    // An upvote can lift a disputed funds_available report back over the bar
+    if (vote === 'up' && updated.report_type === 'funds_available') {
+      notifyFundsAvailableReports(updated.location_id).catch((err) => {
+        console.error(`Alerts for report ${id} failed:`, err);
+      });
+    }
+
+    return NextResponse.json({ report: updated, vote });
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,18 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase, TABLES } from '@/lib/supabase';
 import { hashString } from '@/lib/utils';
-import { ReportType } from '@/lib/types';
+import { ReportType } from '@/lib/types-v2';
+import { notifyFundsAvailableReports } from '@/lib/alerts';
 
-// GET - Get reports for a provider
+// Alerts are sent with web-push and node:crypto
+export const runtime = 'nodejs';
+
+// GET - Get reports for a location
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const providerId = searchParams.get('providerId');
+    const locationId = searchParams.get('locationId');
     const limit = parseInt(searchParams.get('limit') || '10');
 
-    if (!providerId) {
+    if (!locationId) {
       return NextResponse.json(
-        { error: 'providerId is required' },
+        { error: 'locationId is required' },
         { status: 400 }
       );
     }
@@ -20,7 +24,7 @@ export async function GET(request: NextRequest) {
     const { data, error } = await supabase
       .from(TABLES.USER_REPORTS)
       .select('*')
-      .eq('provider_id', providerId)
+      .eq('location_id', locationId)
       .order('reported_at', { ascending: false })
       .limit(limit);
 
@@ -40,12 +44,12 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { providerId, reportType, comment } = body;
+    const { locationId, reportType, comment } = body;
 
     // Validate required fields
-    if (!providerId || !reportType) {
+    if (!locationId || !reportType) {
       return NextResponse.json(
-        { error: 'providerId and reportType are required' },
+        { error: 'locationId and reportType are required' },
         { status: 400 }
       );
     }
@@ -64,16 +68,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify provider exists
-    const { data: provider } = await supabase
-      .from(TABLES.PROVIDERS)
+    // Verify location exists
+    const { data: location } = await supabase
+      .from(TABLES.LOCATIONS)
       .select('id')
-      .eq('id', providerId)
+      .eq('id', locationId)
       .single();
 
-    if (!provider) {
+    if (!location) {
       return NextResponse.json(
-        { error: 'Provider not found' },
+        { error: 'Location not found' },
         { status: 404 }
       );
     }
@@ -81,20 +85,20 @@ export async function POST(request: NextRequest) {
     // Get IP for rate limiting (hash it for privacy)
     const forwarded = request.headers.get('x-forwarded-for');
     const ip = forwarded ? forwarded.split(',')[0] : 'unknown';
-    const ipHash = await hashString(ip + providerId);
+    const ipHash = await hashString(ip + locationId);
 
-    // Check for recent reports from same IP for same provider (rate limiting)
+    // Check for recent reports from same IP for same location (rate limiting)
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
     const { data: recentReports } = await supabase
       .from(TABLES.USER_REPORTS)
       .select('id')
-      .eq('provider_id', providerId)
+      .eq('location_id', locationId)
       .eq('reporter_ip_hash', ipHash)
       .gte('reported_at', oneHourAgo);
 
     if (recentReports && recentReports.length > 0) {
       return NextResponse.json(
-        { error: 'Poți trimite un singur raport pe oră pentru același furnizor' },
+        { error: 'Poți trimite un singur raport pe oră pentru aceeași locație' },
         { status: 429 }
       );
     }
@@ -103,7 +107,7 @@ export async function POST(request: NextRequest) {
     const { data, error } = await supabase
       .from(TABLES.USER_REPORTS)
       .insert({
-        provider_id: providerId,
+        location_id: locationId,
         report_type: reportType,
         comment: comment?.slice(0, 500), // Limit comment length
         reporter_ip_hash: ipHash,
@@ -116,6 +120,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create report' }, { status: 500 });
     }
 
+    // Alert subscribers in the background; the report is saved either way
+    if (reportType === 'funds_available') {
+      notifyFundsAvailableReports(locationId).catch((error) => {
+        console.error(`Alerts for report ${data.id} failed:`, error);
+      });
+    }
+
     return NextResponse.json({ report: data }, { status: 201 });
   } catch (error) {
     console.error('API error:', error);
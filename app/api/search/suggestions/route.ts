@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { findSpecialtiesByTerm } from '@/lib/specialty-taxonomy';
+import { findInvestigationsByTerm } from '@/lib/investigation-catalog';
+import { InvestigationCategory } from '@/lib/types-v2';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -62,8 +65,14 @@ function fuzzyScore(query: string, target: string): number {
   return 0;
 }
 
+const INVESTIGATION_CATEGORY_LABELS: Record<InvestigationCategory, string> = {
+  laboratory: 'Analize de laborator',
+  imaging: 'Imagistică',
+  functional: 'Explorări funcționale',
+};
+
 interface Suggestion {
-  type: 'location' | 'specialty' | 'network';
+  type: 'location' | 'specialty' | 'network' | 'investigation';
   id: string;
   name: string;
   subtitle?: string;
@@ -81,24 +90,15 @@ export async function GET(request: NextRequest) {
 
     const suggestions: Suggestion[] = [];
 
-    // Special handling for common searches that map to provider types
-    const labKeywords = ['analize', 'laborator', 'lab', 'sange', 'teste'];
-    const queryLower = query.toLowerCase();
-
-    for (const keyword of labKeywords) {
-      if (keyword.includes(queryLower) || queryLower.includes(keyword.slice(0, 3))) {
-        const score = fuzzyScore(query, 'Laboratoare analize medicale');
-        if (score > 0 || queryLower.length >= 3) {
-          suggestions.push({
-            type: 'specialty', // Using specialty type but will be handled specially
-            id: 'type:paraclinic',
-            name: 'Laboratoare / Analize medicale',
-            subtitle: 'Toate laboratoarele',
-            score: Math.max(score, 85), // High score to appear first
-          });
-          break;
-        }
-      }
+    // Investigations from the referral ("RMN", "TSH", "hemoleucogramă")
+    for (const investigation of findInvestigationsByTerm(query).slice(0, 3)) {
+      suggestions.push({
+        type: 'investigation',
+        id: `investigation:${investigation.code}`,
+        name: investigation.name,
+        subtitle: INVESTIGATION_CATEGORY_LABELS[investigation.category],
+        score: Math.max(fuzzyScore(query, investigation.name), 85),
+      });
     }
 
     // Search locations/clinics
@@ -116,6 +116,7 @@ export async function GET(request: NextRequest) {
       `)
       .or(`name.ilike.%${query}%,city.ilike.%${query}%`)
       .gte('confidence', 50)
+      .is('organization.contract_end_date', null)
       .limit(20);
 
     if (locations) {
@@ -161,6 +162,16 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Abbreviations and synonyms from the specialty taxonomy ("orl", "stomatologie")
+    for (const spec of findSpecialtiesByTerm(query).slice(0, 5)) {
+      suggestions.push({
+        type: 'specialty',
+        id: `specialty:${spec.code}`,
+        name: spec.name,
+        score: Math.max(fuzzyScore(query, spec.name), 75),
+      });
+    }
+
     // Search by organization name/brand
     const { data: orgs } = await supabase
       .from('organizations')
@@ -194,9 +205,10 @@ export async function GET(request: NextRequest) {
 
       const { data: fuzzyLocs } = await supabase
         .from('locations')
-        .select('id, name, city')
+        .select('id, name, city, organization:organizations!inner (contract_end_date)')
         .ilike('name', `%${prefix}%`)
         .gte('confidence', 50)
+        .is('organization.contract_end_date', null)
         .limit(10);
 
       if (fuzzyLocs) {
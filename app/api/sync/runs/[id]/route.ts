@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkSyncAuth } from '@/lib/sync-auth';
+import { getSyncRun } from '@/lib/sync-runner';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const unauthorized = checkSyncAuth(request);
+    if (unauthorized) return unauthorized;
+
+    const { id } = await params;
+    const run = await getSyncRun(id);
+
+    if (!run) {
+      return NextResponse.json({ error: 'Sync run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Sync run error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,49 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { checkSyncAuth } from '@/lib/sync-auth';
+import { createSyncRun, runSync } from '@/lib/sync-runner';
 
 // This endpoint triggers the data sync process
 // It should be called by a cron job or manually when needed
 // Protected by a secret key
 
+// The sync reads and writes files and runs for minutes
+export const runtime = 'nodejs';
+
 export async function POST(request: NextRequest) {
   try {
-    // Verify secret key
-    const authHeader = request.headers.get('authorization');
-    const secretKey = process.env.SYNC_SECRET_KEY;
-
-    if (!secretKey) {
-      return NextResponse.json(
-        { error: 'Sync not configured' },
-        { status: 500 }
-      );
-    }
+    const unauthorized = checkSyncAuth(request);
+    if (unauthorized) return unauthorized;
 
-    if (authHeader !== `Bearer ${secretKey}`) {
+    const run = await createSyncRun('api');
+    if (!run) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: 'A sync run is already in progress' },
+        { status: 409 }
       );
     }
 
-    // In a production environment, you would trigger the sync process here
-    // This could involve:
-    // 1. Running the download script
-    // 2. Parsing the Excel files
-    // 3. Geocoding addresses
-    // 4. Uploading to database
-
-    // For now, we'll just return a success message
-    // The actual sync should be done via the CLI scripts
-
-    return NextResponse.json({
-      message: 'Sync triggered. Run the following commands to complete:',
-      commands: [
-        'npm run sync:download',
-        'npm run sync:parse',
-        'npm run sync:geocode',
-        'npm run sync:upload',
-      ],
-      note: 'For production, integrate these scripts into this endpoint or use a job queue.',
+    // Run download → parse → geocode → upload → notify in the background;
+    // progress is recorded on the run and read via /api/sync/runs/:id
+    runSync(run.id).catch((error) => {
+      console.error(`Sync run ${run.id} crashed:`, error);
     });
+
+    return NextResponse.json(
+      {
+        runId: run.id,
+        status: run.status,
+        statusUrl: `/api/sync/runs/${run.id}`,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Sync trigger error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { checkApiKey } from '@/lib/api-auth';
+import { ApiCounty, apiError, apiJson } from '@/lib/public-api';
+
+// API keys are hashed with node:crypto
+export const runtime = 'nodejs';
+
+// GET - Counties with the codes accepted by the county filters
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await checkApiKey(request, 'counties');
+    if ('error' in auth) return auth.error;
+    const { rateLimit } = auth;
+
+    const { data, error } = await supabase
+      .from(TABLES.COUNTIES)
+      .select('code, name')
+      .order('name');
+
+    if (error) {
+      console.error('Counties fetch error:', error);
+      return apiError('Failed to fetch counties', rateLimit, 500);
+    }
+
+    const counties: ApiCounty[] = (data || []).map((row) => ({ code: row.code, name: row.name }));
+    return apiJson({ data: counties }, rateLimit);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/lib/api-auth';
+import { getFundStatuses } from '@/lib/location-funds';
+import { parseAtParam, systemClock, toFundDay } from '@/lib/clock';
+import { FundAvailabilityStatus } from '@/lib/types-v2';
+import { ApiFundStatus, apiError, apiJson, toApiFundStatus } from '@/lib/public-api';
+
+// API keys are hashed with node:crypto
+export const runtime = 'nodejs';
+
+// Most IDs accepted in one request (locations and organizations together)
+const MAX_IDS = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Comma-separated IDs; null when one is not a UUID
+function parseIds(value: string | null): string[] | null {
+  if (!value) return [];
+  const ids = value.split(',').map((id) => id.trim()).filter(Boolean);
+  if (!ids.every((id) => UUID_PATTERN.test(id))) return null;
+  return Array.from(new Set(ids));
+}
+
+function toApiStatuses(statuses: Record<string, FundAvailabilityStatus>): Record<string, ApiFundStatus> {
+  const result: Record<string, ApiFundStatus> = {};
+  for (const id of Object.keys(statuses)) {
+    result[id] = toApiFundStatus(statuses[id]);
+  }
+  return result;
+}
+
+// GET - Fund status for up to 100 locations and/or organizations:
+// ?location_ids=<id>,<id>&organization_ids=<id>&at=YYYY-MM-DD
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await checkApiKey(request, 'funds/status');
+    if ('error' in auth) return auth.error;
+    const { rateLimit } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const locationIds = parseIds(searchParams.get('location_ids'));
+    const organizationIds = parseIds(searchParams.get('organization_ids'));
+
+    if (!locationIds || !organizationIds) {
+      return apiError('location_ids and organization_ids must be comma-separated IDs', rateLimit, 400);
+    }
+
+    if (locationIds.length + organizationIds.length === 0) {
+      return apiError('location_ids or organization_ids is required', rateLimit, 400);
+    }
+
+    if (locationIds.length + organizationIds.length > MAX_IDS) {
+      return apiError(`At most ${MAX_IDS} IDs per request`, rateLimit, 400);
+    }
+
+    const at = parseAtParam(searchParams.get('at'));
+    if (at === null) {
+      return apiError('at must be a date formatted as YYYY-MM-DD', rateLimit, 400);
+    }
+
+    const now = at ?? systemClock.now();
+    const today = toFundDay(now);
+    const statuses = await getFundStatuses(locationIds, organizationIds, now);
+
+    return apiJson({
+      data: {
+        at: now.toISOString(),
+        period: { year: today.year, month: today.month, day: today.day },
+        locations: toApiStatuses(statuses.locations),
+        organizations: toApiStatuses(statuses.organizations),
+      },
+    }, rateLimit);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
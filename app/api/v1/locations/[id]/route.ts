@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { checkApiKey } from '@/lib/api-auth';
+import { getFundStatuses } from '@/lib/location-funds';
+import { readOpeningHours } from '@/lib/opening-hours';
+import {
+  ApiLocationDetail,
+  ApiSpecialtyRef,
+  apiError,
+  apiJson,
+  toApiFundStatus,
+  toMapFundStatus,
+} from '@/lib/public-api';
+
+// API keys are hashed with node:crypto
+export const runtime = 'nodejs';
+
+function toSpecialtyRefs(links: any[] | null): ApiSpecialtyRef[] {
+  return (links || [])
+    .map((link) => link.specialty)
+    .filter(Boolean)
+    .map((s: { code: string | null; name: string }) => ({ code: s.code, name: s.name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// GET - One location with its specialties (the organization's when the
+// location has none of its own), opening hours and fund estimate
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await checkApiKey(request, 'locations/{id}');
+    if ('error' in auth) return auth.error;
+    const { rateLimit } = auth;
+
+    const { id } = await params;
+
+    const { data: location, error } = await supabase
+      .from(TABLES.LOCATIONS)
+      .select(`
+        id,
+        name,
+        address,
+        city,
+        lat,
+        lng,
+        phone,
+        email,
+        website,
+        source,
+        confidence,
+        is_primary,
+        opening_hours,
+        organization:organizations!inner (
+          id,
+          cui,
+          legal_name,
+          is_network,
+          network_brand,
+          provider_type
+        ),
+        county:counties (
+          code,
+          name
+        )
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error || !location) {
+      return apiError('Location not found', rateLimit, 404);
+    }
+
+    const organization = location.organization as any;
+
+    const { data: locationLinks } = await supabase
+      .from(TABLES.LOCATION_SPECIALTIES)
+      .select('specialty:specialties (code, name)')
+      .eq('location_id', id);
+
+    let specialties = toSpecialtyRefs(locationLinks);
+
+    if (specialties.length === 0) {
+      const { data: organizationLinks } = await supabase
+        .from(TABLES.ORGANIZATION_SPECIALTIES)
+        .select('specialty:specialties (code, name)')
+        .eq('organization_id', organization.id);
+
+      specialties = toSpecialtyRefs(organizationLinks);
+    }
+
+    const statuses = await getFundStatuses([id], []);
+    const fund = statuses.locations[id];
+    const county = location.county as any;
+
+    const data: ApiLocationDetail = {
+      id: location.id,
+      name: location.name,
+      address: location.address,
+      city: location.city,
+      county: county ? { code: county.code, name: county.name } : null,
+      coordinates: location.lat !== null && location.lng !== null ? { lat: location.lat, lng: location.lng } : null,
+      phone: location.phone,
+      email: location.email,
+      website: location.website,
+      is_primary: location.is_primary,
+      source: location.source,
+      confidence: location.confidence,
+      organization: {
+        id: organization.id,
+        legal_name: organization.legal_name,
+        cui: organization.cui,
+        brand: organization.network_brand,
+        is_network: organization.is_network,
+        provider_type: organization.provider_type,
+      },
+      fund_status: toMapFundStatus(fund),
+      specialties,
+      opening_hours: readOpeningHours(location.opening_hours),
+      fund: fund ? toApiFundStatus(fund) : null,
+    };
+
+    return apiJson({ data }, rateLimit);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiKey } from '@/lib/api-auth';
+import { LocationSort, searchLocations } from '@/lib/location-search';
+import { formatLocalDateTime, parseOpenAtParam } from '@/lib/opening-hours';
+import { systemClock } from '@/lib/clock';
+import { MAX_PER_PAGE, apiError, apiJson, pageMeta, parsePagination, toApiLocation } from '@/lib/public-api';
+
+// API keys are hashed with node:crypto
+export const runtime = 'nodejs';
+
+// GET - Search locations. Same filters as the internal /api/locations, with
+// the v1 pagination (page, per_page) and response shape.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await checkApiKey(request, 'locations');
+    if ('error' in auth) return auth.error;
+    const { rateLimit } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const pagination = parsePagination(searchParams);
+    if (!pagination) {
+      return apiError(`page must be at least 1 and per_page between 1 and ${MAX_PER_PAGE}`, rateLimit, 400);
+    }
+
+    const lat = searchParams.get('lat');
+    const lng = searchParams.get('lng');
+    const near = lat && lng
+      ? { lat: parseFloat(lat), lng: parseFloat(lng), radiusKm: parseFloat(searchParams.get('radius') || '3') }
+      : undefined;
+
+    if (near && (isNaN(near.lat) || isNaN(near.lng) || isNaN(near.radiusKm) || near.radiusKm <= 0)) {
+      return apiError('lat, lng and radius must be numbers', rateLimit, 400);
+    }
+
+    const funds = searchParams.get('funds') || 'any';
+    if (funds !== 'available' && funds !== 'any') {
+      return apiError('funds must be "available" or "any"', rateLimit, 400);
+    }
+
+    const sort = (searchParams.get('sort') || 'relevance') as LocationSort;
+    if (sort !== 'relevance' && sort !== 'funds') {
+      return apiError('sort must be "relevance" or "funds"', rateLimit, 400);
+    }
+
+    const openAtParam = parseOpenAtParam(searchParams.get('open_at'));
+    if (openAtParam === null) {
+      return apiError('open_at must be a Bucharest time formatted as YYYY-MM-DDTHH:MM', rateLimit, 400);
+    }
+    const openAt = openAtParam
+      ?? (searchParams.get('open_now') === 'true' ? formatLocalDateTime(systemClock.now()) : null);
+
+    const { page, perPage } = pagination;
+    const { locations, total } = await searchLocations(
+      {
+        query: searchParams.get('query'),
+        county: searchParams.get('county'),
+        type: searchParams.get('type'),
+        networkOnly: searchParams.get('network') === 'true',
+        specialty: searchParams.get('specialty'),
+        investigation: searchParams.get('investigation'),
+        availableFundsOnly: funds === 'available',
+        sort,
+        openAt,
+      },
+      (page - 1) * perPage,
+      perPage,
+      near
+    );
+
+    return apiJson({
+      data: locations.map(toApiLocation),
+      meta: pageMeta(page, perPage, total),
+    }, rateLimit);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
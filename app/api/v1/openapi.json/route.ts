@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// GET - OpenAPI document of /api/v1; readable without an API key
+export async function GET(request: NextRequest) {
+  const serverUrl = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+  return NextResponse.json(buildOpenApiDocument(serverUrl));
+}
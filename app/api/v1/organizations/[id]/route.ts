@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { checkApiKey } from '@/lib/api-auth';
+import { getFundStatuses } from '@/lib/location-funds';
+import { ORGANIZATION_SELECT, apiError, apiJson, toApiFundStatus, toApiOrganization } from '@/lib/public-api';
+
+// API keys are hashed with node:crypto
+export const runtime = 'nodejs';
+
+// GET - One organization with its specialties, location IDs and the fund
+// estimate for its contract
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await checkApiKey(request, 'organizations/{id}');
+    if ('error' in auth) return auth.error;
+    const { rateLimit } = auth;
+
+    const { id } = await params;
+
+    const { data: organization, error } = await supabase
+      .from(TABLES.ORGANIZATIONS)
+      .select(ORGANIZATION_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (error || !organization) {
+      return apiError('Organization not found', rateLimit, 404);
+    }
+
+    const statuses = await getFundStatuses([], [id]);
+    const fund = statuses.organizations[id];
+
+    return apiJson({
+      data: {
+        ...toApiOrganization(organization),
+        fund: fund ? toApiFundStatus(fund) : null,
+      },
+    }, rateLimit);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { checkApiKey } from '@/lib/api-auth';
+import {
+  MAX_PER_PAGE,
+  ORGANIZATION_SELECT,
+  apiError,
+  apiJson,
+  pageMeta,
+  parsePagination,
+  toApiOrganization,
+} from '@/lib/public-api';
+
+// API keys are hashed with node:crypto
+export const runtime = 'nodejs';
+
+// GET - Organizations holding CNAS contracts, by legal name. Filters:
+// query (legal name, brand or CUI), type, network.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await checkApiKey(request, 'organizations');
+    if ('error' in auth) return auth.error;
+    const { rateLimit } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const pagination = parsePagination(searchParams);
+    if (!pagination) {
+      return apiError(`page must be at least 1 and per_page between 1 and ${MAX_PER_PAGE}`, rateLimit, 400);
+    }
+
+    const { page, perPage } = pagination;
+    const query = searchParams.get('query')?.trim();
+    const type = searchParams.get('type');
+
+    let queryBuilder = supabase
+      .from(TABLES.ORGANIZATIONS)
+      .select(ORGANIZATION_SELECT, { count: 'exact' })
+      .is('contract_end_date', null);
+
+    if (query) {
+      // Commas and parentheses would break the PostgREST or-filter
+      const term = query.replace(/[,()]/g, ' ');
+      queryBuilder = queryBuilder.or(`legal_name.ilike.%${term}%,network_brand.ilike.%${term}%,cui.eq.${term}`);
+    }
+    if (type) {
+      queryBuilder = queryBuilder.eq('provider_type', type);
+    }
+    if (searchParams.get('network') === 'true') {
+      queryBuilder = queryBuilder.eq('is_network', true);
+    }
+
+    const { data, count, error } = await queryBuilder
+      .order('legal_name')
+      .order('id')
+      .range((page - 1) * perPage, page * perPage - 1);
+
+    if (error) {
+      console.error('Organizations fetch error:', error);
+      return apiError('Failed to fetch organizations', rateLimit, 500);
+    }
+
+    return apiJson({
+      data: (data || []).map(toApiOrganization),
+      meta: pageMeta(page, perPage, count || 0),
+    }, rateLimit);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase, TABLES } from '@/lib/supabase';
+import { checkApiKey } from '@/lib/api-auth';
+import { ApiSpecialty, apiError, apiJson } from '@/lib/public-api';
+
+// API keys are hashed with node:crypto
+export const runtime = 'nodejs';
+
+// GET - The specialty taxonomy: codes, categories, hierarchy and synonyms
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await checkApiKey(request, 'specialties');
+    if ('error' in auth) return auth.error;
+    const { rateLimit } = auth;
+
+    const { data, error } = await supabase
+      .from(TABLES.SPECIALTIES)
+      .select('id, code, name, category, parent_id, synonyms')
+      .order('name');
+
+    if (error) {
+      console.error('Specialties fetch error:', error);
+      return apiError('Failed to fetch specialties', rateLimit, 500);
+    }
+
+    const codes = new Map<string, string | null>();
+    for (const row of data || []) {
+      codes.set(row.id, row.code);
+    }
+
+    const specialties: ApiSpecialty[] = (data || []).map((row) => ({
+      code: row.code,
+      name: row.name,
+      category: row.category,
+      parent_code: row.parent_id ? codes.get(row.parent_id) ?? null : null,
+      synonyms: row.synonyms || [],
+    }));
+
+    return apiJson({ data: specialties }, rateLimit);
+  } catch (error) {
+    console.error('API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { supabase, TABLES } from '@/lib/supabase';
+import { parseOpeningHours } from '@/lib/opening-hours';
 
 export interface VerifiedInfo {
   brandName: string | null;
@@ -101,14 +102,14 @@ async function tryFetchAnyWebsite(urls: string[]): Promise<{ content: string; ur
 }
 
 // Check for cached verification
-async function getCachedVerification(providerId: string): Promise<VerificationResult | null> {
+async function getCachedVerification(locationId: string): Promise<VerificationResult | null> {
   const cacheDate = new Date();
   cacheDate.setDate(cacheDate.getDate() - CACHE_DAYS);
 
   const { data: cached, error } = await supabase
-    .from('provider_verifications')
+    .from(TABLES.LOCATION_VERIFICATIONS)
     .select('*')
-    .eq('provider_id', providerId)
+    .eq('location_id', locationId)
     .gte('verified_at', cacheDate.toISOString())
     .order('verified_at', { ascending: false })
     .limit(1)
@@ -116,14 +117,21 @@ async function getCachedVerification(providerId: string): Promise<VerificationRe
 
   if (error || !cached) return null;
 
-  // Also fetch the provider for original data
-  const { data: provider } = await supabase
-    .from(TABLES.PROVIDERS)
-    .select('name, address, phone, website')
-    .eq('id', providerId)
+  // Also fetch the location for original data
+  const { data: location } = await supabase
+    .from(TABLES.LOCATIONS)
+    .select('address, phone, website, organization:organizations!inner(legal_name)')
+    .eq('id', locationId)
     .single();
 
-  if (!provider) return null;
+  if (!location) return null;
+
+  const provider = {
+    name: (location.organization as unknown as { legal_name: string }).legal_name,
+    address: location.address,
+    phone: location.phone,
+    website: location.website,
+  };
 
   return {
     confidence: cached.confidence,
@@ -153,13 +161,14 @@ async function getCachedVerification(providerId: string): Promise<VerificationRe
 
 // Save verification to database
 async function saveVerification(
-  providerId: string,
+  locationId: string,
+  currentName: string,
   result: VerificationResult
 ): Promise<void> {
   try {
     // Save to verifications table
-    await supabase.from('provider_verifications').insert({
-      provider_id: providerId,
+    await supabase.from(TABLES.LOCATION_VERIFICATIONS).insert({
+      location_id: locationId,
       brand_name: result.verified.brandName,
       verified_address: result.verified.address,
       verified_phone: result.verified.phone,
@@ -171,18 +180,28 @@ async function saveVerification(
       corrections: result.corrections,
     });
 
-    // If confidence is high enough, update the provider record
-    if (result.confidence >= 70 && result.verified.brandName) {
+    // If confidence is high enough and the location still carries the legal
+    // name from CNAS, show the brand name instead
+    if (
+      result.confidence >= 70 &&
+      result.verified.brandName &&
+      currentName === result.verified.legalName
+    ) {
       await supabase
-        .from(TABLES.PROVIDERS)
-        .update({
-          brand_name: result.verified.brandName,
-          verified_address: result.verified.address,
-          verified_phone: result.verified.phone,
-          verification_confidence: result.confidence,
-          verified_at: new Date().toISOString(),
-        })
-        .eq('id', providerId);
+        .from(TABLES.LOCATIONS)
+        .update({ name: result.verified.brandName })
+        .eq('id', locationId);
+    }
+
+    // Schedules found on the provider's website replace the enrichment ones
+    if (result.confidence >= 70 && result.verified.openingHours) {
+      const openingHours = parseOpeningHours(result.verified.openingHours);
+      if (openingHours.weekly) {
+        await supabase
+          .from(TABLES.LOCATIONS)
+          .update({ opening_hours: openingHours })
+          .eq('id', locationId);
+      }
     }
   } catch (error) {
     console.error('Failed to save verification:', error);
@@ -212,25 +231,47 @@ export async function GET(
       }
     }
 
-    // Fetch provider data
-    const { data: provider, error } = await supabase
-      .from(TABLES.PROVIDERS)
+    // Fetch location with its organization
+    const { data: location, error } = await supabase
+      .from(TABLES.LOCATIONS)
       .select(`
         *,
-        specialties:provider_specialties(
-          specialty:specialties(id, name)
-        )
+        organization:organizations!inner (
+          id,
+          cui,
+          legal_name,
+          provider_type,
+          network_website,
+          specialties:organization_specialties(
+            specialty:specialties(id, name)
+          )
+        ),
+        county:counties(name)
       `)
       .eq('id', id)
       .single();
 
-    if (error || !provider) {
+    if (error || !location) {
       return NextResponse.json(
-        { error: 'Provider not found' },
+        { error: 'Location not found' },
         { status: 404 }
       );
     }
 
+    // Flatten into the shape the prompt was written for
+    const provider = {
+      name: location.organization.legal_name,
+      provider_type: location.organization.provider_type,
+      address: location.address,
+      city: location.city,
+      county: location.county?.name,
+      phone: location.phone,
+      email: location.email,
+      website: location.website || location.organization.network_website,
+      cui: location.organization.cui,
+      specialties: location.organization.specialties,
+    };
+
     // Try to fetch website content from multiple sources
     const possibleWebsites = extractPossibleWebsites(provider);
     const websiteResult = await tryFetchAnyWebsite(possibleWebsites);
@@ -399,7 +440,7 @@ Răspunde DOAR în JSON valid:
     };
 
     // Save to database
-    await saveVerification(id, result);
+    await saveVerification(id, location.name, result);
 
     return NextResponse.json(result);
   } catch (error) {
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams, useRouter } from 'next/navigation';
+import { Header } from '@/components/layout/header';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { SearchableSelect } from '@/components/ui/searchable-select';
+import { ChevronRight, History, Rss } from 'lucide-react';
+import { formatRelativeTime } from '@/lib/utils';
+import { CHANGE_FEED_TYPE_LABELS, ChangeFeedEntry, ChangeFeedType } from '@/lib/types-v2';
+
+const TYPE_BADGE_VARIANTS: Record<ChangeFeedType, 'success' | 'error' | 'secondary' | 'warning'> = {
+  contract_added: 'success',
+  contract_ended: 'error',
+  allocation_new: 'secondary',
+  allocation_changed: 'warning',
+};
+
+function ChangesContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const county = searchParams.get('county') || '';
+
+  const [changes, setChanges] = useState<ChangeFeedEntry[]>([]);
+  const [counties, setCounties] = useState<{ code: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch('/api/filters')
+      .then(res => res.json())
+      .then(data => setCounties(data.counties || []))
+      .catch(err => console.error('Failed to load filters:', err));
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`/api/changes${county ? `?county=${county}` : ''}`)
+      .then(res => res.json())
+      .then(data => setChanges(data.changes || []))
+      .catch(err => console.error('Error fetching changes:', err))
+      .finally(() => setLoading(false));
+  }, [county]);
+
+  const selectCounty = (value: string) => {
+    router.push(value ? `/changes?county=${value}` : '/changes');
+  };
+
+  const countyOptions = counties.map(c => ({ value: c.code, label: c.name }));
+  const feedUrl = `/api/feeds/${county || 'all'}.xml`;
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <SearchableSelect
+          options={countyOptions}
+          value={county}
+          onValueChange={selectCounty}
+          placeholder="Toate județele"
+          searchPlaceholder="Caută județ..."
+          className="flex-1"
+        />
+        <a
+          href={feedUrl}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg border border-border bg-white/60 text-sm text-muted-foreground hover:text-primary"
+        >
+          <Rss className="h-4 w-4" />
+          Atom
+        </a>
+      </div>
+
+      {loading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-20 w-full rounded-xl" />
+          <Skeleton className="h-20 w-full rounded-xl" />
+          <Skeleton className="h-20 w-full rounded-xl" />
+        </div>
+      ) : changes.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="w-16 h-16 bg-white/60 backdrop-blur-sm rounded-full flex items-center justify-center mx-auto mb-4 border border-border/30">
+            <History className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <p className="text-muted-foreground">Nicio modificare recentă.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {changes.map((entry) => (
+            <Link
+              key={entry.id}
+              href={entry.locationId
+                ? `/clinic/${entry.locationId}`
+                : `/search?query=${encodeURIComponent(entry.organizationName)}`}
+            >
+              <Card className="bg-white/80 backdrop-blur-sm border-white/50 hover:shadow-md transition-shadow mb-2">
+                <CardContent className="p-4 flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant={TYPE_BADGE_VARIANTS[entry.type]}>
+                        {CHANGE_FEED_TYPE_LABELS[entry.type]}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">{formatRelativeTime(entry.date)}</span>
+                    </div>
+                    <h3 className="font-medium text-foreground truncate">{entry.organizationName}</h3>
+                    <p className="text-sm text-muted-foreground">{entry.summary}</p>
+                  </div>
+                  <ChevronRight className="h-5 w-5 text-muted-foreground flex-shrink-0 mt-1" />
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ChangesPage() {
+  return (
+    <div className="min-h-screen pb-24">
+      <Header title="Ce s-a schimbat" showBack backHref="/" />
+      <Suspense fallback={
+        <div className="p-4 space-y-2">
+          <Skeleton className="h-20 w-full rounded-xl" />
+          <Skeleton className="h-20 w-full rounded-xl" />
+        </div>
+      }>
+        <ChangesContent />
+      </Suspense>
+    </div>
+  );
+}
@@ -8,6 +8,10 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { FundAvailabilityPanel } from '@/components/fund-availability-panel';
+import { FundHistoryChart } from '@/components/fund-history-chart';
+import { AlertSubscribe } from '@/components/alert-subscribe';
+import { OpeningHoursCard } from '@/components/opening-hours-card';
 import {
   MapPin,
   Phone,
@@ -24,8 +28,10 @@ import {
   Check,
   Stethoscope
 } from 'lucide-react';
-import { cn, formatPhone, getTelLink, getDirectionsUrl, getGoogleMapsSearchUrl } from '@/lib/utils';
+import { cn, formatPhone, getTelLink, getDirectionsUrl, getGoogleMapsSearchUrl, getApproximateLocationNote } from '@/lib/utils';
 import { PROVIDER_TYPE_LABELS } from '@/lib/types';
+import type { GeocodePrecision } from '@/lib/types-v2';
+import { readOpeningHours } from '@/lib/opening-hours';
 
 const LocationMap = dynamic(() => import('@/components/provider-map'), {
   ssr: false,
@@ -44,12 +50,14 @@ interface Location {
   city?: string;
   lat?: number;
   lng?: number;
+  geocode_precision?: GeocodePrecision | null;
   phone?: string;
   email?: string;
   website?: string;
   source: string;
   confidence: number;
   is_primary: boolean;
+  opening_hours?: unknown; // structured schedule, or { raw } on older rows
   organization?: {
     id: string;
     legal_name: string;
@@ -59,6 +67,7 @@ interface Location {
     network_website?: string;
     provider_type: string;
     data_source_date?: string;
+    contract_end_date?: string;
   };
   county?: {
     id: string;
@@ -76,6 +85,7 @@ export default function ClinicPage({ params }: PageProps) {
   const [location, setLocation] = useState<Location | null>(null);
   const [siblingLocations, setSiblingLocations] = useState<Location[]>([]);
   const [specialties, setSpecialties] = useState<string[]>([]);
+  const [specialtiesSource, setSpecialtiesSource] = useState<'location' | 'organization'>('location');
   const [loading, setLoading] = useState(true);
   const [copied, setCopied] = useState(false);
 
@@ -95,6 +105,9 @@ export default function ClinicPage({ params }: PageProps) {
         if (data.specialties) {
           setSpecialties(data.specialties);
         }
+        if (data.specialtiesSource) {
+          setSpecialtiesSource(data.specialtiesSource);
+        }
       }
     } catch (error) {
       console.error('Error fetching location:', error);
@@ -146,12 +159,28 @@ export default function ClinicPage({ params }: PageProps) {
   const typeLabel = org ? PROVIDER_TYPE_LABELS[org.provider_type as keyof typeof PROVIDER_TYPE_LABELS] : 'Clinică';
   const displayName = location.name || org?.network_brand || org?.legal_name || 'Locație';
   const isNetwork = org?.is_network;
+  const openingHours = readOpeningHours(location.opening_hours);
+  const approximateNote = getApproximateLocationNote(location.geocode_precision);
 
   return (
     <div className="min-h-screen pb-24">
       <Header title={displayName} showBack backHref="/search" />
 
       <div className="p-4 space-y-4">
+        {/* Contract ended: missing from the latest CAS publication */}
+        {org?.contract_end_date && (
+          <Card className="bg-amber-500/10 border-amber-500/20">
+            <CardContent className="p-4 flex items-start gap-3">
+              <AlertCircle className="h-5 w-5 text-amber-600 mt-0.5 shrink-0" />
+              <p className="text-sm text-amber-800">
+                Furnizorul nu mai apare în lista CAS publicată la{' '}
+                {new Date(org.contract_end_date).toLocaleDateString('ro-RO')}. Contractul cu CNAS
+                pare încheiat, iar serviciile nu mai sunt decontate.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Network Banner */}
         {isNetwork && org?.network_brand && (
           <Card className="bg-gradient-to-r from-accent/10 via-purple-500/10 to-primary/10 border-accent/20">
@@ -306,6 +335,18 @@ export default function ClinicPage({ params }: PageProps) {
           </CardContent>
         </Card>
 
+        {/* Opening hours */}
+        {openingHours && <OpeningHoursCard openingHours={openingHours} />}
+
+        {/* Fund availability (allocated per organization, reported per location) */}
+        <FundAvailabilityPanel locationId={location.id} />
+
+        {/* Monthly allocations over time */}
+        {location.organization && <FundHistoryChart organizationId={location.organization.id} />}
+
+        {/* Push / email alerts */}
+        <AlertSubscribe locationId={location.id} specialties={specialties} />
+
         {/* Specialties */}
         {specialties.length > 0 && (
           <Card className="bg-white/80 backdrop-blur-sm border-white/50">
@@ -334,6 +375,11 @@ export default function ClinicPage({ params }: PageProps) {
                   </Link>
                 ))}
               </div>
+              {specialtiesSource === 'organization' && siblingLocations.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-3">
+                  Specialitățile întregii rețele. Nu toate sunt disponibile la această locație.
+                </p>
+              )}
             </CardContent>
           </Card>
         )}
@@ -348,8 +394,12 @@ export default function ClinicPage({ params }: PageProps) {
                   lng={location.lng}
                   name={displayName}
                   address={location.address}
+                  precision={location.geocode_precision}
                 />
                 <div className="p-3 border-t border-border/50">
+                  {approximateNote && (
+                    <p className="text-xs text-amber-700 mb-3">{approximateNote}</p>
+                  )}
                   <a
                     href={getDirectionsUrl(location.lat, location.lng, displayName, location.address, location.address_simple)}
                     target="_blank"
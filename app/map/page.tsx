@@ -14,14 +14,18 @@ import {
   Phone,
   Network,
   Loader2,
-  Eye
+  Eye,
+  Wallet,
+  Crosshair
 } from 'lucide-react';
 import { Header } from '@/components/layout/header';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { MultiSelect } from '@/components/ui/multi-select';
-import { cn, formatPhone, getDirectionsUrl, getGoogleMapsSearchUrl, calculateDistance, formatDistance } from '@/lib/utils';
+import { cn, getDirectionsUrl, calculateDistance } from '@/lib/utils';
+import { MapFeatureCollection, MapPointProperties } from '@/lib/types-v2';
+import type { MapFeatureFilters } from '@/components/locations-map';
 
 // Romanian county centers (approximate) for map zooming
 const COUNTY_CENTERS: Record<string, { lat: number; lng: number; zoom: number }> = {
@@ -78,21 +82,9 @@ const LocationsMap = dynamic(() => import('@/components/locations-map'), {
   ),
 });
 
-interface Location {
-  id: string;
-  name: string;
-  address?: string;
-  city?: string;
-  lat?: number;
-  lng?: number;
-  phone?: string;
-  is_network: boolean;
-  network_brand?: string;
-  provider_type: string;
-  county?: {
-    code: string;
-    name: string;
-  };
+interface Location extends MapPointProperties {
+  lat: number;
+  lng: number;
   distance?: number;
 }
 
@@ -102,19 +94,11 @@ interface FilterOptions {
   specialties: { id: string; name: string }[];
 }
 
-interface MapBounds {
-  north: number;
-  south: number;
-  east: number;
-  west: number;
-}
-
 function MapContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
 
-  const [allLocations, setAllLocations] = useState<Location[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [features, setFeatures] = useState<MapFeatureCollection | null>(null);
   const [filters, setFilters] = useState<FilterOptions | null>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [geolocating, setGeolocating] = useState(false);
@@ -126,7 +110,6 @@ function MapContent() {
     return false;
   });
   const [selectedLocation, setSelectedLocation] = useState<string | null>(null);
-  const [visibleLocationIds, setVisibleLocationIds] = useState<Set<string>>(new Set());
 
   // Save showList state to sessionStorage
   useEffect(() => {
@@ -143,6 +126,11 @@ function MapContent() {
   const types = useMemo(() => typesParam.split(',').filter(Boolean), [typesParam]);
   const specialtiesList = useMemo(() => specialtiesParam.split(',').filter(Boolean), [specialtiesParam]);
   const network = searchParams.get('network') || '';
+  const funds = searchParams.get('funds') || '';
+  const exact = searchParams.get('exact') || '';
+  const investigation = searchParams.get('investigation') || '';
+  const openNow = searchParams.get('open_now') || '';
+  const openAt = searchParams.get('open_at') || '';
   const urlLat = searchParams.get('lat');
   const urlLng = searchParams.get('lng');
   const radius = parseFloat(searchParams.get('radius') || '3');
@@ -165,58 +153,21 @@ function MapContent() {
       .catch(err => console.error('Failed to load filters:', err));
   }, []);
 
-  // Fetch locations
-  const fetchLocations = useCallback(async () => {
-    setLoading(true);
-    try {
-      const params = new URLSearchParams();
-      if (query) params.set('query', query);
-      // Send first value for backward compatibility with API
-      if (counties.length > 0) params.set('county', counties[0]);
-      if (types.length > 0) params.set('type', types[0]);
-      if (specialtiesList.length > 0) params.set('specialty', specialtiesList[0]);
-      if (network === 'true') params.set('network', 'true');
-      params.set('limit', '2000'); // Get more for map view
-
-      const response = await fetch(`/api/locations?${params.toString()}`);
-      const data = await response.json();
-
-      let locs = data.locations || [];
-
-      // Calculate distances if user location is available
-      if (userLocation) {
-        locs = locs.map((loc: Location) => ({
-          ...loc,
-          distance: loc.lat && loc.lng
-            ? calculateDistance(userLocation.lat, userLocation.lng, loc.lat, loc.lng)
-            : undefined,
-        }));
-
-        // Filter by radius (only keep locations within radius km)
-        locs = locs.filter((loc: Location) => {
-          if (loc.distance === undefined) return false;
-          return loc.distance <= radius;
-        });
-
-        // Sort by distance
-        locs.sort((a: Location, b: Location) => {
-          if (a.distance === undefined) return 1;
-          if (b.distance === undefined) return -1;
-          return a.distance - b.distance;
-        });
-      }
-
-      setAllLocations(locs);
-    } catch (error) {
-      console.error('Error fetching locations:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [query, counties, types, specialtiesList, network, userLocation, radius]);
-
-  useEffect(() => {
-    fetchLocations();
-  }, [fetchLocations]);
+  // The map loads its own viewport; it only needs the active filters.
+  // Multi-selects send their first value, like the list API
+  const mapFilters = useMemo<MapFeatureFilters>(() => ({
+    query: query || undefined,
+    county: counties[0],
+    type: types[0],
+    specialty: specialtiesList[0],
+    investigation: investigation || undefined,
+    network: network === 'true',
+    availableFundsOnly: funds === 'available',
+    exactLocationsOnly: exact === 'true',
+    openNow: openNow === 'true',
+    openAt: openAt || undefined,
+    near: userLocation ? { lat: userLocation.lat, lng: userLocation.lng, radius } : undefined,
+  }), [query, counties, types, specialtiesList, investigation, network, funds, exact, openNow, openAt, userLocation, radius]);
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -289,39 +240,36 @@ function MapContent() {
     }, 100);
   };
 
-  const handleBoundsChange = useCallback((bounds: MapBounds, visibleIds: string[]) => {
-    setVisibleLocationIds(new Set(visibleIds));
+  const handleFeaturesChange = useCallback((collection: MapFeatureCollection) => {
+    setFeatures(collection);
   }, []);
 
-  // Locations with coordinates (for map)
-  const locationsWithCoords = useMemo(() =>
-    allLocations.filter(loc => loc.lat && loc.lng),
-    [allLocations]
-  );
-
-  // Memoized locations for the map component to prevent unnecessary re-renders
-  const mapLocations = useMemo(() =>
-    locationsWithCoords.map(loc => ({
-      id: loc.id,
-      name: loc.name,
-      lat: loc.lat!,
-      lng: loc.lng!,
-      address: loc.address,
-      city: loc.city,
-      is_network: loc.is_network,
-      network_brand: loc.network_brand,
-      provider_type: loc.provider_type,
-    })),
-    [locationsWithCoords]
-  );
+  const clustered = features?.clustered ?? false;
+  const totalInView = features?.total ?? 0;
 
-  // Visible locations (filtered by map bounds)
+  // Individual locations in the viewport, nearest first in nearby mode
   const visibleLocations = useMemo(() => {
-    if (visibleLocationIds.size === 0) {
-      return locationsWithCoords;
+    if (!features) return [];
+
+    const locs: Location[] = [];
+    features.features.forEach((feature) => {
+      if (feature.properties.kind !== 'point') return;
+      const [lng, lat] = feature.geometry.coordinates;
+      locs.push({
+        ...feature.properties,
+        lat,
+        lng,
+        distance: userLocation
+          ? calculateDistance(userLocation.lat, userLocation.lng, lat, lng)
+          : undefined,
+      });
+    });
+
+    if (userLocation) {
+      locs.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0));
     }
-    return locationsWithCoords.filter(loc => visibleLocationIds.has(loc.id));
-  }, [locationsWithCoords, visibleLocationIds]);
+    return locs;
+  }, [features, userLocation]);
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -400,6 +348,27 @@ function MapContent() {
             Rețele
           </Button>
 
+          <Button
+            variant={funds === 'available' ? 'accent' : 'filter'}
+            size="sm"
+            onClick={() => updateFilter('funds', funds === 'available' ? '' : 'available')}
+            className="flex-shrink-0"
+          >
+            <Wallet className="h-3 w-3 mr-1" />
+            Cu fonduri
+          </Button>
+
+          {/* Approximate locations are drawn as hollow pins */}
+          <Button
+            variant={exact === 'true' ? 'accent' : 'filter'}
+            size="sm"
+            onClick={() => updateFilter('exact', exact === 'true' ? '' : 'true')}
+            className="flex-shrink-0"
+          >
+            <Crosshair className="h-3 w-3 mr-1" />
+            Doar adrese exacte
+          </Button>
+
           {/* Nearby mode with radius selector */}
           {userLocation && (
             <div className="flex items-center gap-1 h-8 px-3 text-xs rounded-xl border border-emerald-400/50 bg-emerald-50 text-emerald-700">
@@ -440,121 +409,119 @@ function MapContent() {
 
       {/* Map & List */}
       <div className="flex-1 flex flex-col overflow-hidden">
-        {loading ? (
-          <div className="flex-1 flex items-center justify-center">
-            <Loader2 className="h-8 w-8 text-primary animate-spin" />
-          </div>
-        ) : (
-          <>
-            {/* Map Container */}
-            <div
-              className="relative transition-all flex-shrink-0"
-              style={{ height: showList ? '200px' : 'calc(100vh - 200px)' }}
-            >
-              <LocationsMap
-                locations={mapLocations}
-                center={
-                  urlLat && urlLng
-                    ? { lat: parseFloat(urlLat), lng: parseFloat(urlLng) }
-                    : counties.length === 1 && COUNTY_CENTERS[counties[0]]
-                      ? { lat: COUNTY_CENTERS[counties[0]].lat, lng: COUNTY_CENTERS[counties[0]].lng }
-                      : undefined
-                }
-                zoom={
-                  urlLat && urlLng
-                    ? (radius <= 1 ? 16 : radius <= 2 ? 15 : radius <= 3 ? 14 : radius <= 5 ? 13 : radius <= 10 ? 12 : 11)
-                    : counties.length === 1 && COUNTY_CENTERS[counties[0]]
-                      ? COUNTY_CENTERS[counties[0]].zoom
-                      : undefined
-                }
-                userLocation={userLocation}
-                radius={userLocation ? radius : undefined}
-                onLocationClick={handleLocationClick}
-                onBoundsChange={handleBoundsChange}
-                height="100%"
-                centerKey={
-                  urlLat && urlLng
-                    ? `${urlLat}-${urlLng}-${radius}`
-                    : counties.length === 1
-                      ? `county-${counties[0]}`
-                      : 'default'
-                }
-              />
+        {/* Map Container */}
+        <div
+          className="relative transition-all flex-shrink-0"
+          style={{ height: showList ? '200px' : 'calc(100vh - 200px)' }}
+        >
+          <LocationsMap
+            filters={mapFilters}
+            center={
+              urlLat && urlLng
+                ? { lat: parseFloat(urlLat), lng: parseFloat(urlLng) }
+                : counties.length === 1 && COUNTY_CENTERS[counties[0]]
+                  ? { lat: COUNTY_CENTERS[counties[0]].lat, lng: COUNTY_CENTERS[counties[0]].lng }
+                  : undefined
+            }
+            zoom={
+              urlLat && urlLng
+                ? (radius <= 1 ? 16 : radius <= 2 ? 15 : radius <= 3 ? 14 : radius <= 5 ? 13 : radius <= 10 ? 12 : 11)
+                : counties.length === 1 && COUNTY_CENTERS[counties[0]]
+                  ? COUNTY_CENTERS[counties[0]].zoom
+                  : undefined
+            }
+            userLocation={userLocation}
+            radius={userLocation ? radius : undefined}
+            onLocationClick={handleLocationClick}
+            onFeaturesChange={handleFeaturesChange}
+            height="100%"
+            centerKey={
+              urlLat && urlLng
+                ? `${urlLat}-${urlLng}-${radius}`
+                : counties.length === 1
+                  ? `county-${counties[0]}`
+                  : 'default'
+            }
+          />
 
-              {/* Floating counter - always visible on map */}
-              <div className="absolute top-4 left-4 z-[400] pointer-events-none">
-                <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-lg px-4 py-2 border border-primary/20">
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 rounded-full bg-primary animate-pulse" />
-                    <span className="text-sm font-semibold text-primary">{visibleLocations.length}</span>
-                    <span className="text-sm text-muted-foreground">/ {locationsWithCoords.length} clinici vizibile</span>
-                  </div>
-                </div>
+          {/* Floating counter - always visible on map */}
+          <div className="absolute top-4 left-4 z-[400] pointer-events-none">
+            <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-lg px-4 py-2 border border-primary/20">
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 rounded-full bg-primary animate-pulse" />
+                <span className="text-sm font-semibold text-primary">{totalInView}</span>
+                <span className="text-sm text-muted-foreground">clinici în zonă</span>
               </div>
+            </div>
+          </div>
 
-              {/* Toggle List Button - on map */}
-              {!showList && (
-                <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[1000]">
-                  <Button
-                    onClick={() => setShowList(true)}
-                    size="lg"
-                    className="rounded-full px-8"
-                  >
-                    <List className="h-5 w-5 mr-2" />
-                    Vezi lista ({visibleLocations.length})
-                  </Button>
-                </div>
-              )}
+          {/* Toggle List Button - on map */}
+          {!showList && (
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[1000]">
+              <Button
+                onClick={() => setShowList(true)}
+                size="lg"
+                className="rounded-full px-8"
+              >
+                <List className="h-5 w-5 mr-2" />
+                Vezi lista{clustered ? '' : ` (${visibleLocations.length})`}
+              </Button>
             </div>
+          )}
+        </div>
 
-            {/* List Panel */}
-            {showList && (
-              <div className="flex-1 bg-white/90 backdrop-blur-lg border-t border-border/50 shadow-lg flex flex-col overflow-hidden">
-                <div className="p-3 border-b border-border/50 bg-muted/30 flex-shrink-0">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      <Eye className="h-4 w-4 text-primary" />
-                      <p className="text-sm text-foreground">
-                        <span className="font-semibold text-primary">{visibleLocations.length}</span>
-                        <span className="text-muted-foreground"> vizibile din </span>
-                        <span className="font-medium">{locationsWithCoords.length}</span>
-                        {userLocation && (
-                          <span className="text-muted-foreground"> în {radius} km</span>
-                        )}
-                      </p>
-                    </div>
-                    <Button
-                      variant="soft"
-                      size="sm"
-                      onClick={() => setShowList(false)}
-                    >
-                      <MapIcon className="h-4 w-4 mr-1" />
-                      Hartă
-                    </Button>
-                  </div>
+        {/* List Panel */}
+        {showList && (
+          <div className="flex-1 bg-white/90 backdrop-blur-lg border-t border-border/50 shadow-lg flex flex-col overflow-hidden">
+            <div className="p-3 border-b border-border/50 bg-muted/30 flex-shrink-0">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Eye className="h-4 w-4 text-primary" />
+                  <p className="text-sm text-foreground">
+                    <span className="font-semibold text-primary">{visibleLocations.length}</span>
+                    <span className="text-muted-foreground"> afișate din </span>
+                    <span className="font-medium">{totalInView}</span>
+                    {userLocation && (
+                      <span className="text-muted-foreground"> în {radius} km</span>
+                    )}
+                  </p>
                 </div>
+                <Button
+                  variant="soft"
+                  size="sm"
+                  onClick={() => setShowList(false)}
+                >
+                  <MapIcon className="h-4 w-4 mr-1" />
+                  Hartă
+                </Button>
+              </div>
+            </div>
 
-                <div className="flex-1 overflow-y-auto divide-y divide-border/50 scrollbar-futuristic">
-                  {visibleLocations.length === 0 ? (
-                    <div className="p-8 text-center">
-                      <MapIcon className="h-12 w-12 text-muted-foreground/50 mx-auto mb-3" />
-                      <p className="text-muted-foreground">Nu sunt clinici vizibile în această zonă</p>
-                      <p className="text-sm text-muted-foreground/70 mt-1">Zoom out sau mută harta pentru a vedea mai multe</p>
-                    </div>
-                  ) : (
-                    visibleLocations.map((loc) => (
-                      <LocationListItem
-                        key={loc.id}
-                        location={loc}
-                        isSelected={selectedLocation === loc.id}
-                        userLocation={userLocation}
-                      />
-                    ))
-                  )}
+            <div className="flex-1 overflow-y-auto divide-y divide-border/50 scrollbar-futuristic">
+              {clustered && totalInView > 0 ? (
+                <div className="p-8 text-center">
+                  <MapIcon className="h-12 w-12 text-muted-foreground/50 mx-auto mb-3" />
+                  <p className="text-muted-foreground">{totalInView} clinici în această zonă</p>
+                  <p className="text-sm text-muted-foreground/70 mt-1">Apropie harta pentru a vedea lista clinicilor</p>
                 </div>
-              </div>
-            )}
-          </>
+              ) : visibleLocations.length === 0 ? (
+                <div className="p-8 text-center">
+                  <MapIcon className="h-12 w-12 text-muted-foreground/50 mx-auto mb-3" />
+                  <p className="text-muted-foreground">Nu sunt clinici vizibile în această zonă</p>
+                  <p className="text-sm text-muted-foreground/70 mt-1">Zoom out sau mută harta pentru a vedea mai multe</p>
+                </div>
+              ) : (
+                visibleLocations.map((loc) => (
+                  <LocationListItem
+                    key={loc.id}
+                    location={loc}
+                    isSelected={selectedLocation === loc.id}
+                    userLocation={userLocation}
+                  />
+                ))
+              )}
+            </div>
+          </div>
         )}
       </div>
     </div>
@@ -570,8 +537,6 @@ function LocationListItem({
   isSelected: boolean;
   userLocation: { lat: number; lng: number } | null;
 }) {
-  const hasCoords = location.lat && location.lng;
-
   return (
     <div
       id={`loc-${location.id}`}
@@ -610,13 +575,13 @@ function LocationListItem({
 
             {/* Address - clear and readable */}
             <p className="text-sm text-muted-foreground leading-relaxed">
-              {location.address || location.city || location.county?.name}
+              {location.address || location.city || location.county}
             </p>
 
             {/* County if different from address */}
-            {location.county?.name && location.address && !location.address.includes(location.county.name) && (
+            {location.county && location.address && !location.address.includes(location.county) && (
               <p className="text-xs text-muted-foreground/70 mt-0.5">
-                {location.county.name}
+                {location.county}
               </p>
             )}
           </div>
@@ -637,10 +602,7 @@ function LocationListItem({
           </a>
         )}
         <a
-          href={hasCoords
-            ? getDirectionsUrl(location.lat!, location.lng!, location.name, location.address)
-            : getGoogleMapsSearchUrl(location.name, location.address, location.city)
-          }
+          href={getDirectionsUrl(location.lat, location.lng, location.name, location.address || undefined)}
           target="_blank"
           rel="noopener noreferrer"
           className="flex-1"
@@ -12,7 +12,10 @@ import {
   CheckCircle2,
   X,
   Locate,
-  Loader2
+  Loader2,
+  Wallet,
+  ArrowDownWideNarrow,
+  Clock
 } from 'lucide-react';
 import { Header } from '@/components/layout/header';
 import { Button } from '@/components/ui/button';
@@ -21,8 +24,9 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { SearchableSelect } from '@/components/ui/searchable-select';
 import { SmartSearch } from '@/components/smart-search';
+import { FundIndicator } from '@/components/fund-indicator';
 import { cn, formatPhone, formatDistance } from '@/lib/utils';
-import { PROVIDER_TYPE_LABELS } from '@/lib/types';
+import { FundAvailabilityStatus, PROVIDER_TYPE_LABELS } from '@/lib/types';
 
 interface Location {
   id: string;
@@ -67,12 +71,17 @@ function SearchContent() {
   const [loadingMore, setLoadingMore] = useState(false);
   const [filters, setFilters] = useState<FilterOptions | null>(null);
   const [geolocating, setGeolocating] = useState(false);
+  const [fundStatuses, setFundStatuses] = useState<Record<string, FundAvailabilityStatus>>({});
 
   const query = searchParams.get('query') || '';
   const county = searchParams.get('county') || '';
   const type = searchParams.get('type') || '';
   const specialty = searchParams.get('specialty') || '';
+  const investigation = searchParams.get('investigation') || '';
   const network = searchParams.get('network') || '';
+  const funds = searchParams.get('funds') || '';
+  const sort = searchParams.get('sort') || '';
+  const openNow = searchParams.get('open_now') || '';
   const lat = searchParams.get('lat');
   const lng = searchParams.get('lng');
   const radius = searchParams.get('radius') || '3';
@@ -85,6 +94,25 @@ function SearchContent() {
       .catch(err => console.error('Failed to load filters:', err));
   }, []);
 
+  // One batch request per page of results
+  const fetchFundStatuses = useCallback(async (locationIds: string[]) => {
+    if (locationIds.length === 0) return;
+
+    try {
+      const response = await fetch('/api/funds/status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locationIds }),
+      });
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setFundStatuses(prev => ({ ...prev, ...data.locations }));
+    } catch (error) {
+      console.error('Error fetching fund statuses:', error);
+    }
+  }, []);
+
   const fetchLocations = useCallback(async (pageNum: number, reset: boolean = false) => {
     if (reset) {
       setLoading(true);
@@ -98,7 +126,11 @@ function SearchContent() {
       if (county) params.set('county', county);
       if (type) params.set('type', type);
       if (specialty) params.set('specialty', specialty);
+      if (investigation) params.set('investigation', investigation);
       if (network === 'true') params.set('network', 'true');
+      if (funds === 'available') params.set('funds', 'available');
+      if (sort === 'funds') params.set('sort', 'funds');
+      if (openNow === 'true') params.set('open_now', 'true');
       if (lat && lng) {
         params.set('lat', lat);
         params.set('lng', lng);
@@ -119,6 +151,7 @@ function SearchContent() {
         setTotal(data.total || 0);
         setHasMore(data.hasMore || false);
         setPage(pageNum);
+        fetchFundStatuses(data.locations.map((loc: Location) => loc.id));
       }
     } catch (error) {
       console.error('Error fetching locations:', error);
@@ -126,7 +159,7 @@ function SearchContent() {
       setLoading(false);
       setLoadingMore(false);
     }
-  }, [query, county, type, specialty, network, lat, lng, radius]);
+  }, [query, county, type, specialty, investigation, network, funds, sort, openNow, lat, lng, radius, fetchFundStatuses]);
 
   useEffect(() => {
     setPage(1);
@@ -182,8 +215,12 @@ function SearchContent() {
 
   const activeFilters = [
     network === 'true' && { key: 'network', label: 'Rețele' },
+    funds === 'available' && { key: 'funds', label: 'Cu fonduri' },
+    sort === 'funds' && { key: 'sort', label: 'Fonduri întâi' },
+    openNow === 'true' && { key: 'open_now', label: 'Deschis acum' },
     type && { key: 'type', label: PROVIDER_TYPE_LABELS[type as keyof typeof PROVIDER_TYPE_LABELS] || type },
     specialty && { key: 'specialty', label: specialty },
+    investigation && { key: 'investigation', label: investigation },
     county && { key: 'county', label: filters?.counties.find(c => c.code === county)?.name || county },
     lat && lng && { key: 'lat', label: 'Lângă mine' },
   ].filter(Boolean) as { key: string; label: string }[];
@@ -261,6 +298,39 @@ function SearchContent() {
             <Network className="h-3.5 w-3.5 mr-1.5" />
             Rețele
           </Button>
+          <Button
+            type="button"
+            variant={funds === 'available' ? 'accent' : 'filter'}
+            size="sm"
+            onClick={() => updateFilter('funds', funds === 'available' ? '' : 'available')}
+            className="flex-shrink-0"
+            title="Doar clinici care probabil mai au fonduri CNAS astăzi"
+          >
+            <Wallet className="h-3.5 w-3.5 mr-1.5" />
+            Cu fonduri
+          </Button>
+          <Button
+            type="button"
+            variant={sort === 'funds' ? 'accent' : 'filter'}
+            size="sm"
+            onClick={() => updateFilter('sort', sort === 'funds' ? '' : 'funds')}
+            className="flex-shrink-0"
+            title="Ordonează după fonduri disponibile, distanță și încredere"
+          >
+            <ArrowDownWideNarrow className="h-3.5 w-3.5 mr-1.5" />
+            Fonduri întâi
+          </Button>
+          <Button
+            type="button"
+            variant={openNow === 'true' ? 'accent' : 'filter'}
+            size="sm"
+            onClick={() => updateFilter('open_now', openNow === 'true' ? '' : 'true')}
+            className="flex-shrink-0"
+            title="Doar clinici cu program cunoscut, deschise acum"
+          >
+            <Clock className="h-3.5 w-3.5 mr-1.5" />
+            Deschis acum
+          </Button>
         </div>
 
         {/* Active Filters - Inline */}
@@ -325,7 +395,11 @@ function SearchContent() {
         ) : (
           <>
             {locations.map((location) => (
-              <LocationCard key={location.id} location={location} />
+              <LocationCard
+                key={location.id}
+                location={location}
+                fundStatus={fundStatuses[location.id]}
+              />
             ))}
 
             {hasMore && (
@@ -366,7 +440,13 @@ function SearchContent() {
   );
 }
 
-function LocationCard({ location }: { location: Location }) {
+function LocationCard({
+  location,
+  fundStatus,
+}: {
+  location: Location;
+  fundStatus?: FundAvailabilityStatus;
+}) {
   const typeLabel = PROVIDER_TYPE_LABELS[location.provider_type as keyof typeof PROVIDER_TYPE_LABELS] || 'Furnizor';
   const displayName = location.name || location.network_brand || location.organization_name;
   const isNetwork = location.is_network && location.network_brand;
@@ -447,6 +527,11 @@ function LocationCard({ location }: { location: Location }) {
                   </span>
                 </div>
               )}
+
+              {/* Estimated fund status */}
+              {fundStatus && (
+                <FundIndicator status={fundStatus} compact className="mt-1.5 py-0.5" />
+              )}
             </div>
 
             <ChevronRight className="h-4 w-4 text-muted-foreground/40 flex-shrink-0 self-center group-hover:text-primary group-hover:translate-x-0.5 transition-all" />
@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Bell, BellRing, Mail, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AlertTrigger, ALERT_TRIGGER_LABELS } from '@/lib/types-v2';
+
+interface AlertSubscribeProps {
+  locationId: string;
+  // Specialty names offered at the location (from /api/locations/:id)
+  specialties: string[];
+}
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+const ALL_TRIGGERS = Object.keys(ALERT_TRIGGER_LABELS) as AlertTrigger[];
+
+// Push subscriptions return a manage link; keep it so the clinic page can show it
+const manageUrlKey = (locationId: string) => `fondcas-alerts-${locationId}`;
+
+function urlBase64ToUint8Array(base64: string) {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = atob(padded);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+export function AlertSubscribe({ locationId, specialties }: AlertSubscribeProps) {
+  const [specialtyOptions, setSpecialtyOptions] = useState<{ id: string; name: string }[]>([]);
+  const [specialtyId, setSpecialtyId] = useState('');
+  const [triggers, setTriggers] = useState<AlertTrigger[]>(ALL_TRIGGERS);
+  const [email, setEmail] = useState('');
+  const [pushSupported, setPushSupported] = useState(false);
+  const [manageUrl, setManageUrl] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState<'push' | 'email' | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPushSupported(
+      Boolean(VAPID_PUBLIC_KEY) && 'serviceWorker' in navigator && 'PushManager' in window
+    );
+    setManageUrl(localStorage.getItem(manageUrlKey(locationId)));
+  }, [locationId]);
+
+  useEffect(() => {
+    if (specialties.length === 0) return;
+    fetch('/api/specialties')
+      .then((response) => (response.ok ? response.json() : { specialties: [] }))
+      .then((data) => {
+        setSpecialtyOptions(
+          (data.specialties || []).filter((s: { name: string }) => specialties.includes(s.name))
+        );
+      })
+      .catch((error) => console.error('Error fetching specialties:', error));
+  }, [specialties]);
+
+  const toggleTrigger = (trigger: AlertTrigger) => {
+    setTriggers((current) =>
+      current.includes(trigger) ? current.filter((t) => t !== trigger) : [...current, trigger]
+    );
+  };
+
+  const subscribe = async (channel: 'push' | 'email') => {
+    setSubmitting(channel);
+    setMessage(null);
+    try {
+      const body: Record<string, unknown> = {
+        locationId,
+        specialtyId: specialtyId || null,
+        channel,
+        triggers,
+      };
+
+      if (channel === 'push') {
+        const permission = await Notification.requestPermission();
+        if (permission !== 'granted') {
+          setMessage('Notificările sunt blocate în browser');
+          return;
+        }
+        const registration = await navigator.serviceWorker.register('/sw.js');
+        await navigator.serviceWorker.ready;
+        const subscription =
+          (await registration.pushManager.getSubscription()) ||
+          (await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+          }));
+        body.subscription = subscription.toJSON();
+      } else {
+        body.email = email;
+      }
+
+      const response = await fetch('/api/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Nu am putut activa alertele');
+        return;
+      }
+
+      if (channel === 'push') {
+        localStorage.setItem(manageUrlKey(locationId), data.manageUrl);
+        setManageUrl(data.manageUrl);
+        setMessage('Vei primi notificări pe acest dispozitiv.');
+      } else {
+        setEmail('');
+        setMessage('Ți-am trimis un email. Deschide linkul din el pentru a confirma sau gestiona alertele.');
+      }
+    } catch (error) {
+      console.error('Error subscribing to alerts:', error);
+      setMessage('Nu am putut activa alertele');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/50">
+      <CardContent className="p-5 space-y-4">
+        <div className="flex items-center gap-2">
+          <div className="p-2 bg-gradient-to-br from-primary/20 to-emerald-500/20 rounded-xl">
+            <Bell className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="font-semibold text-foreground">Alerte fonduri</h2>
+            <p className="text-xs text-muted-foreground">
+              Anunță-mă când clinica primește fonduri noi
+            </p>
+          </div>
+        </div>
+
+        {specialtyOptions.length > 0 && (
+          <select
+            value={specialtyId}
+            onChange={(e) => setSpecialtyId(e.target.value)}
+            className="w-full h-11 rounded-lg border border-input bg-background px-3 text-sm"
+          >
+            <option value="">Toate specialitățile</option>
+            {specialtyOptions.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {ALL_TRIGGERS.map((trigger) => (
+            <button
+              key={trigger}
+              type="button"
+              onClick={() => toggleTrigger(trigger)}
+              className={cn(
+                'px-3 py-1.5 rounded-full text-xs border transition-colors',
+                triggers.includes(trigger)
+                  ? 'bg-primary text-primary-foreground border-primary'
+                  : 'bg-white/60 text-muted-foreground border-border'
+              )}
+            >
+              {ALERT_TRIGGER_LABELS[trigger]}
+            </button>
+          ))}
+        </div>
+
+        {pushSupported && (
+          <Button
+            className="w-full btn-gradient"
+            disabled={submitting !== null || triggers.length === 0}
+            onClick={() => subscribe('push')}
+          >
+            {submitting === 'push' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <BellRing className="h-4 w-4 mr-2" />
+            )}
+            Notificări pe acest dispozitiv
+          </Button>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            type="email"
+            placeholder="adresa@email.ro"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            disabled={submitting !== null || !email || triggers.length === 0}
+            onClick={() => subscribe('email')}
+          >
+            {submitting === 'email' ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Mail className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+        {manageUrl && (
+          <Link href={new URL(manageUrl).pathname} className="text-sm text-primary">
+            Gestionează alertele de pe acest dispozitiv
+          </Link>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FundIndicator } from '@/components/fund-indicator';
+import { Wallet, TrendingDown, MessageSquare, ThumbsUp, ThumbsDown, Loader2, BadgeCheck } from 'lucide-react';
+import { cn, formatCurrency, formatDate, formatRelativeTime, getMonthName } from '@/lib/utils';
+import { FundAvailabilityStatus, PredictionOutput, RISK_LEVEL_LABELS } from '@/lib/types';
+import { FundAllocation, UserReport, ReportType, ReportVote, REPORT_TYPE_LABELS } from '@/lib/types-v2';
+
+interface FundAvailabilityPanelProps {
+  locationId: string;
+}
+
+const RISK_LEVEL_STYLES: Record<PredictionOutput['riskLevel'], string> = {
+  low: 'bg-green-50 text-green-700 border-green-200',
+  medium: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  high: 'bg-red-50 text-red-700 border-red-200',
+};
+
+export function FundAvailabilityPanel({ locationId }: FundAvailabilityPanelProps) {
+  const [status, setStatus] = useState<FundAvailabilityStatus | null>(null);
+  const [allocation, setAllocation] = useState<FundAllocation | null>(null);
+  const [prediction, setPrediction] = useState<PredictionOutput | null>(null);
+  const [reports, setReports] = useState<UserReport[]>([]);
+  const [disclaimer, setDisclaimer] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState<ReportType | null>(null);
+  const [reportMessage, setReportMessage] = useState<string | null>(null);
+  const [votedReports, setVotedReports] = useState<Record<string, ReportVote>>({});
+
+  useEffect(() => {
+    fetchFundData();
+  }, [locationId]);
+
+  const fetchFundData = async () => {
+    setLoading(true);
+    try {
+      // Fund status, prediction and report history are independent
+      const [fundsResponse, predictResponse, reportsResponse] = await Promise.all([
+        fetch(`/api/funds/${locationId}`),
+        fetch(`/api/predict/${locationId}`),
+        fetch(`/api/reports?locationId=${locationId}&limit=5`),
+      ]);
+
+      if (fundsResponse.ok) {
+        const data = await fundsResponse.json();
+        setStatus(data.status);
+        setAllocation(data.allocation);
+        setDisclaimer(data.disclaimer);
+      }
+      if (predictResponse.ok) {
+        const data = await predictResponse.json();
+        setPrediction(data.prediction);
+      }
+      if (reportsResponse.ok) {
+        const data = await reportsResponse.json();
+        setReports(data.reports || []);
+      }
+    } catch (error) {
+      console.error('Error fetching fund data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitReport = async (reportType: ReportType) => {
+    setSubmitting(reportType);
+    setReportMessage(null);
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locationId, reportType }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setReportMessage(data.error || 'Nu am putut trimite raportul');
+        return;
+      }
+
+      setReportMessage('Mulțumim! Raportul a fost trimis.');
+      await fetchFundData();
+    } catch (error) {
+      console.error('Error submitting report:', error);
+      setReportMessage('Nu am putut trimite raportul');
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const voteOnReport = async (reportId: string, vote: ReportVote) => {
+    try {
+      const response = await fetch(`/api/reports/${reportId}/vote`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ vote }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setReportMessage(data.error || 'Nu am putut înregistra votul');
+        return;
+      }
+
+      setVotedReports((current) => ({ ...current, [reportId]: vote }));
+      setReports((current) => current.map((r) => (r.id === reportId ? { ...r, ...data.report } : r)));
+    } catch (error) {
+      console.error('Error voting on report:', error);
+    }
+  };
+
+  if (loading) {
+    return <Skeleton className="h-48 w-full rounded-xl" />;
+  }
+
+  const now = new Date();
+  const hasPrediction = prediction && allocation?.allocated_amount;
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/50">
+      <CardContent className="p-5 space-y-4">
+        <div className="flex items-center gap-2">
+          <div className="p-2 bg-gradient-to-br from-emerald-500/20 to-primary/20 rounded-xl">
+            <Wallet className="h-5 w-5 text-emerald-600" />
+          </div>
+          <h2 className="font-semibold text-foreground">Fonduri CNAS</h2>
+          <span className="ml-auto text-xs text-muted-foreground">
+            {getMonthName(now.getMonth() + 1)} {now.getFullYear()}
+          </span>
+        </div>
+
+        {status && <FundIndicator status={status} />}
+
+        {/* Current month allocation */}
+        {allocation?.allocated_amount ? (
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <div className="p-3 rounded-xl bg-white/60 border border-border/50">
+              <p className="text-xs text-muted-foreground">Alocat luna aceasta</p>
+              <p className="font-semibold text-foreground">{formatCurrency(allocation.allocated_amount)}</p>
+            </div>
+            <div className="p-3 rounded-xl bg-white/60 border border-border/50">
+              <p className="text-xs text-muted-foreground">
+                {allocation.consumed_amount != null ? 'Consumat (raportat)' : 'Consumat (estimat)'}
+              </p>
+              <p className="font-semibold text-foreground">
+                {formatCurrency(allocation.consumed_amount ?? status?.estimatedConsumed ?? 0)}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Nu avem încă alocarea CAS pentru luna curentă.
+          </p>
+        )}
+
+        {/* Prediction */}
+        {hasPrediction && (
+          <div className="p-3 rounded-xl border border-border/50 bg-white/60 space-y-2">
+            <div className="flex items-center gap-2">
+              <TrendingDown className="h-4 w-4 text-primary" />
+              <span className="text-sm font-medium text-foreground">Predicție</span>
+              <Badge variant="outline" className={cn('ml-auto text-xs', RISK_LEVEL_STYLES[prediction.riskLevel])}>
+                {RISK_LEVEL_LABELS[prediction.riskLevel]}
+              </Badge>
+            </div>
+            <p className="text-sm text-foreground">{prediction.explanation}</p>
+            {prediction.predictedDepletionDate && (
+              <p className="text-xs text-muted-foreground">
+                Epuizare estimată: {formatDate(prediction.predictedDepletionDate)}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Latest user reports */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4 text-primary/60" />
+            <span className="text-sm font-medium text-foreground">Rapoarte recente</span>
+          </div>
+          {reports.length > 0 ? (
+            <ul className="space-y-1.5">
+              {reports.map((report) => (
+                <li key={report.id} className="flex items-center gap-2 text-sm">
+                  <span
+                    className={cn(
+                      'flex items-center gap-1',
+                      report.report_type === 'funds_available' && 'text-green-700',
+                      report.report_type === 'funds_exhausted' && 'text-red-700'
+                    )}
+                  >
+                    {REPORT_TYPE_LABELS[report.report_type]}
+                    {report.verified && (
+                      <BadgeCheck className="h-3.5 w-3.5 text-primary" aria-label="Verificat" />
+                    )}
+                  </span>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {formatRelativeTime(report.reported_at)}
+                  </span>
+                  {/* Votes weigh the report in the estimate */}
+                  <button
+                    type="button"
+                    className={cn(
+                      'flex items-center gap-0.5 text-xs text-muted-foreground hover:text-green-700',
+                      votedReports[report.id] === 'up' && 'text-green-700'
+                    )}
+                    onClick={() => voteOnReport(report.id, 'up')}
+                    aria-label="Raport corect"
+                  >
+                    <ThumbsUp className="h-3.5 w-3.5" />
+                    {report.upvotes || 0}
+                  </button>
+                  <button
+                    type="button"
+                    className={cn(
+                      'flex items-center gap-0.5 text-xs text-muted-foreground hover:text-red-700',
+                      votedReports[report.id] === 'down' && 'text-red-700'
+                    )}
+                    onClick={() => voteOnReport(report.id, 'down')}
+                    aria-label="Raport greșit"
+                  >
+                    <ThumbsDown className="h-3.5 w-3.5" />
+                    {report.downvotes || 0}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">Niciun raport încă.</p>
+          )}
+        </div>
+
+        {/* Report submission */}
+        <div className="pt-3 border-t border-border/50 space-y-2">
+          <p className="text-xs text-muted-foreground">Ai sunat sau ai fost recent? Ajută-i pe ceilalți:</p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1 bg-white/60 border-green-200 text-green-700 hover:bg-green-50"
+              disabled={submitting !== null}
+              onClick={() => submitReport('funds_available')}
+            >
+              {submitting === 'funds_available' ? (
+                <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+              ) : (
+                <ThumbsUp className="h-4 w-4 mr-1.5" />
+              )}
+              Au fonduri
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1 bg-white/60 border-red-200 text-red-700 hover:bg-red-50"
+              disabled={submitting !== null}
+              onClick={() => submitReport('funds_exhausted')}
+            >
+              {submitting === 'funds_exhausted' ? (
+                <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+              ) : (
+                <ThumbsDown className="h-4 w-4 mr-1.5" />
+              )}
+              Fonduri epuizate
+            </Button>
+          </div>
+          {reportMessage && <p className="text-xs text-muted-foreground">{reportMessage}</p>}
+        </div>
+
+        {disclaimer && <p className="text-xs text-amber-600/80">{disclaimer}</p>}
+      </CardContent>
+    </Card>
+  );
+}
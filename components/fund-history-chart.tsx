@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { BarChart3, TrendingUp, TrendingDown } from 'lucide-react';
+import { cn, formatCurrency, formatPercent, getMonthName } from '@/lib/utils';
+import { FundHistorySeries, SERVICE_TYPE_LABELS } from '@/lib/types-v2';
+
+interface FundHistoryChartProps {
+  organizationId: string;
+}
+
+// Months shown in the bar chart; yearly totals cover the full history
+const MAX_MONTHS = 24;
+
+export function FundHistoryChart({ organizationId }: FundHistoryChartProps) {
+  const [series, setSeries] = useState<FundHistorySeries[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [organizationId]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/funds/history`);
+      if (response.ok) {
+        const data = await response.json();
+        setSeries(data.series || []);
+        setSelected(data.series?.[0]?.serviceType ?? null);
+      }
+    } catch (error) {
+      console.error('Error fetching fund history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <Skeleton className="h-56 w-full rounded-xl" />;
+  }
+
+  const current = series.find((s) => s.serviceType === selected);
+
+  // Nothing to chart until at least two months have been published
+  if (!current || series.every((s) => s.points.length < 2)) {
+    return null;
+  }
+
+  const points = current.points.slice(-MAX_MONTHS);
+  const maxAmount = Math.max(...points.map((p) => Math.max(p.allocated, p.consumed ?? 0)), 1);
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/50">
+      <CardContent className="p-5 space-y-4">
+        <div className="flex items-center gap-2">
+          <div className="p-2 bg-gradient-to-br from-primary/20 to-emerald-500/20 rounded-xl">
+            <BarChart3 className="h-5 w-5 text-primary" />
+          </div>
+          <h2 className="font-semibold text-foreground">Istoric fonduri CAS</h2>
+        </div>
+
+        {/* Service type selector */}
+        {series.length > 1 && (
+          <div className="flex flex-wrap gap-1.5">
+            {series.map((s) => (
+              <button
+                key={s.serviceType}
+                onClick={() => setSelected(s.serviceType)}
+                className={cn(
+                  'px-3 py-1 rounded-full text-xs border transition-colors',
+                  s.serviceType === selected
+                    ? 'bg-primary text-white border-primary'
+                    : 'bg-white/60 text-muted-foreground border-border/50 hover:border-primary/40'
+                )}
+              >
+                {SERVICE_TYPE_LABELS[s.serviceType] || s.serviceType}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Monthly bars: allocated, with consumed overlaid where published */}
+        <div className="flex items-end gap-1 h-36">
+          {points.map((point) => (
+            <div
+              key={`${point.year}-${point.month}`}
+              className="relative flex-1 h-full flex items-end"
+              title={[
+                `${getMonthName(point.month)} ${point.year}`,
+                `Alocat: ${formatCurrency(point.allocated)}`,
+                point.consumed != null ? `Consumat: ${formatCurrency(point.consumed)}` : null,
+                point.consumptionRate != null ? `Rată consum: ${formatPercent(point.consumptionRate)}` : null,
+              ].filter(Boolean).join('\n')}
+            >
+              <div
+                className="w-full rounded-t bg-primary/25"
+                style={{ height: `${(point.allocated / maxAmount) * 100}%` }}
+              />
+              {point.consumed != null && (
+                <div
+                  className="absolute bottom-0 left-1/4 w-1/2 rounded-t bg-emerald-600/80"
+                  style={{ height: `${(point.consumed / maxAmount) * 100}%` }}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{getMonthName(points[0].month).slice(0, 3)} {points[0].year}</span>
+          <span>
+            {getMonthName(points[points.length - 1].month).slice(0, 3)} {points[points.length - 1].year}
+          </span>
+        </div>
+        <div className="flex gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1.5">
+            <span className="h-2.5 w-2.5 rounded-sm bg-primary/25" /> Alocat
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="h-2.5 w-2.5 rounded-sm bg-emerald-600/80" /> Consumat
+          </span>
+        </div>
+
+        {/* Year over year */}
+        <ul className="space-y-1.5 pt-3 border-t border-border/50">
+          {current.yearly.slice().reverse().map((year) => (
+            <li key={year.year} className="flex items-center justify-between text-sm">
+              <span className="text-foreground">
+                {year.year}
+                <span className="text-xs text-muted-foreground ml-1.5">
+                  ({year.months} {year.months === 1 ? 'lună' : 'luni'})
+                </span>
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="font-medium text-foreground">{formatCurrency(year.allocated)}</span>
+                {year.allocatedChange != null && (
+                  <span
+                    className={cn(
+                      'flex items-center gap-0.5 text-xs',
+                      year.allocatedChange >= 0 ? 'text-green-700' : 'text-red-700'
+                    )}
+                  >
+                    {year.allocatedChange >= 0 ? (
+                      <TrendingUp className="h-3 w-3" />
+                    ) : (
+                      <TrendingDown className="h-3 w-3" />
+                    )}
+                    {year.allocatedChange >= 0 ? '+' : ''}
+                    {formatPercent(year.allocatedChange)}
+                  </span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-xs text-muted-foreground">
+          Variația anuală compară media lunară a sumelor alocate.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
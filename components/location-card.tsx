@@ -4,8 +4,9 @@ import Link from 'next/link';
 import { MapPin, Phone, ChevronRight, Building2, Calendar, Network, CheckCircle2, AlertCircle } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { FundIndicator } from '@/components/fund-indicator';
 import { cn, formatPhone, formatDistance } from '@/lib/utils';
-import { PROVIDER_TYPE_LABELS } from '@/lib/types';
+import { FundAvailabilityStatus, PROVIDER_TYPE_LABELS } from '@/lib/types';
 import { LocationSource, LOCATION_SOURCE_LABELS } from '@/lib/types-v2';
 
 // Location data from the v2 API
@@ -98,10 +99,11 @@ function getConfidenceBadge(confidence: number, source: LocationSource) {
 
 interface LocationCardProps {
   location: LocationData;
+  fundStatus?: FundAvailabilityStatus | null; // from POST /api/funds/status
   className?: string;
 }
 
-export function LocationCard({ location, className }: LocationCardProps) {
+export function LocationCard({ location, fundStatus, className }: LocationCardProps) {
   const typeLabel = PROVIDER_TYPE_LABELS[location.provider_type as keyof typeof PROVIDER_TYPE_LABELS] || location.provider_type;
   const displayName = location.name || location.network_brand || location.organization_name;
   const freshness = formatDataFreshness(location.data_source_date);
@@ -153,6 +155,13 @@ export function LocationCard({ location, className }: LocationCardProps) {
                 )}
               </div>
 
+              {/* Estimated fund status */}
+              {fundStatus && (
+                <div className="mb-2">
+                  <FundIndicator status={fundStatus} compact />
+                </div>
+              )}
+
               {/* Address */}
               {(location.address || location.city) && (
                 <div className="flex items-start gap-1.5 text-sm text-muted-foreground mb-1">
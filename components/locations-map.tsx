@@ -6,6 +6,15 @@ import 'leaflet/dist/leaflet.css';
 import 'leaflet.markercluster/dist/MarkerCluster.css';
 import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
 import 'leaflet.markercluster';
+import {
+  MapClusterProperties,
+  MapFeatureCollection,
+  MapFundStatus,
+  MapPointProperties,
+  PROVIDER_TYPE_LABELS,
+  ProviderType,
+} from '@/lib/types-v2';
+import { getApproximateLocationNote } from '@/lib/utils';
 
 // Fix for default marker icons in Next.js - use CDN URLs
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -15,33 +24,49 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-shadow.png',
 });
 
-interface MapLocation {
-  id: string;
-  name: string;
-  lat: number;
-  lng: number;
-  address?: string;
-  city?: string;
-  is_network?: boolean;
-  network_brand?: string;
-  provider_type?: string;
-}
-
-interface MapBounds {
-  north: number;
-  south: number;
-  east: number;
-  west: number;
+// Whole country when there is no saved view or explicit center
+const ROMANIA_CENTER = { lat: 45.9432, lng: 24.9668 };
+
+// Wait for the map to settle before asking for a new viewport
+const LOAD_DEBOUNCE_MS = 250;
+
+const FUND_STATUS_COLORS: Record<MapFundStatus, string> = {
+  available: '#16a34a',
+  uncertain: '#ca8a04',
+  exhausted: '#dc2626',
+  unknown: '#9ca3af',
+};
+
+const FUND_STATUS_LABELS: Record<MapFundStatus, string> = {
+  available: 'Fonduri probabil disponibile',
+  uncertain: 'Fonduri incerte',
+  exhausted: 'Fonduri probabil epuizate',
+  unknown: 'Fără date despre fonduri',
+};
+
+// Filters sent with every viewport request (same meaning as /api/locations)
+export interface MapFeatureFilters {
+  query?: string;
+  county?: string;
+  type?: string;
+  specialty?: string;
+  investigation?: string;
+  network?: boolean;
+  availableFundsOnly?: boolean;
+  exactLocationsOnly?: boolean;
+  openNow?: boolean;
+  openAt?: string; // 'YYYY-MM-DDTHH:MM' in Bucharest
+  near?: { lat: number; lng: number; radius: number };
 }
 
 interface LocationsMapProps {
-  locations: MapLocation[];
+  filters: MapFeatureFilters;
   center?: { lat: number; lng: number };
   zoom?: number;
   userLocation?: { lat: number; lng: number } | null;
   radius?: number; // Radius in km for nearby search - affects zoom level
   onLocationClick?: (id: string) => void;
-  onBoundsChange?: (bounds: MapBounds, visibleLocationIds: string[]) => void;
+  onFeaturesChange?: (collection: MapFeatureCollection) => void;
   height?: string;
   centerKey?: string; // Change this to force re-center (e.g., when user clicks "near me")
 }
@@ -58,68 +83,222 @@ function getZoomForRadius(radiusKm: number): number {
   return 10;
 }
 
+function buildFeaturesQuery(map: L.Map, filters: MapFeatureFilters): string {
+  // Load a little beyond the edges so small pans don't show empty borders
+  const bounds = map.getBounds().pad(0.1);
+  const params = new URLSearchParams();
+  params.set('bbox', [
+    bounds.getWest().toFixed(5),
+    bounds.getSouth().toFixed(5),
+    bounds.getEast().toFixed(5),
+    bounds.getNorth().toFixed(5),
+  ].join(','));
+  params.set('zoom', map.getZoom().toString());
+
+  if (filters.query) params.set('query', filters.query);
+  if (filters.county) params.set('county', filters.county);
+  if (filters.type) params.set('type', filters.type);
+  if (filters.specialty) params.set('specialty', filters.specialty);
+  if (filters.investigation) params.set('investigation', filters.investigation);
+  if (filters.network) params.set('network', 'true');
+  if (filters.availableFundsOnly) params.set('funds', 'available');
+  if (filters.exactLocationsOnly) params.set('exact', 'true');
+  if (filters.openAt) params.set('open_at', filters.openAt);
+  else if (filters.openNow) params.set('open_now', 'true');
+  if (filters.near) {
+    params.set('lat', filters.near.lat.toString());
+    params.set('lng', filters.near.lng.toString());
+    params.set('radius', filters.near.radius.toString());
+  }
+
+  return params.toString();
+}
+
+function createClusterIcon(cluster: MapClusterProperties): L.DivIcon {
+  const count = cluster.count;
+  let size = 'small';
+  if (count >= 10) size = 'medium';
+  if (count >= 50) size = 'large';
+
+  // Ring around the cluster split by fund status
+  const statuses = Object.keys(FUND_STATUS_COLORS) as MapFundStatus[];
+  let offset = 0;
+  const stops = statuses
+    .filter((status) => cluster.fundStatuses[status])
+    .map((status) => {
+      const start = offset;
+      offset += ((cluster.fundStatuses[status] || 0) / count) * 100;
+      return `${FUND_STATUS_COLORS[status]} ${start}% ${offset}%`;
+    });
+
+  return L.divIcon({
+    html: `<div class="cluster-ring" style="background: conic-gradient(${stops.join(', ')});"><div class="cluster-marker cluster-${size}"><span>${count}</span></div></div>`,
+    className: 'marker-cluster-custom',
+    iconSize: L.point(48, 48),
+  });
+}
+
+// Pin colored by fund status; hollow when the location is approximate
+const pointIcons: Record<string, L.DivIcon> = {};
+
+function getPointIcon(status: MapFundStatus, approximate: boolean): L.DivIcon {
+  const key = `${status}:${approximate}`;
+  if (!pointIcons[key]) {
+    const color = FUND_STATUS_COLORS[status];
+    pointIcons[key] = L.divIcon({
+      className: 'custom-marker',
+      html: `<div style="
+        width: 28px;
+        height: 28px;
+        background: ${approximate ? 'rgba(255,255,255,0.85)' : color};
+        border-radius: 50% 50% 50% 0;
+        border: 3px ${approximate ? `dashed ${color}` : 'solid white'};
+        box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+        transform: rotate(-45deg);
+      "></div>`,
+      iconSize: [28, 28],
+      iconAnchor: [14, 28],
+      popupAnchor: [0, -28],
+    });
+  }
+  return pointIcons[key];
+}
+
+function getClusterTitle(cluster: MapClusterProperties): string {
+  const types = (Object.keys(cluster.providerTypes) as ProviderType[])
+    .map((type) => `${PROVIDER_TYPE_LABELS[type] || type}: ${cluster.providerTypes[type]}`);
+  const statuses = (Object.keys(cluster.fundStatuses) as MapFundStatus[])
+    .map((status) => `${FUND_STATUS_LABELS[status]}: ${cluster.fundStatuses[status]}`);
+  return [`${cluster.count} clinici`, ...types, ...statuses].join('\n');
+}
+
+function getPointPopup(loc: MapPointProperties): string {
+  const approximateNote = getApproximateLocationNote(loc.geocode_precision);
+  return `
+    <div style="min-width: 200px; max-width: 280px; padding: 4px;">
+      ${loc.is_network && loc.network_brand ? `<p style="font-size: 12px; color: #7C3AED; font-weight: 600; margin-bottom: 4px;">🏥 ${loc.network_brand}</p>` : ''}
+      <h3 style="font-weight: bold; font-size: 14px; color: #111; margin-bottom: 4px;">${loc.name}</h3>
+      ${loc.address ? `<p style="font-size: 12px; color: #666; margin-bottom: 6px;">${loc.address}</p>` : ''}
+      <p style="font-size: 12px; font-weight: 600; color: ${FUND_STATUS_COLORS[loc.fund_status]}; margin-bottom: 6px;">● ${FUND_STATUS_LABELS[loc.fund_status]}</p>
+      <p style="font-size: 10px; color: #b45309; margin-bottom: 8px;">${approximateNote || 'Locația este informativă. Verificați adresa.'}</p>
+      <a
+        href="/clinic/${loc.id}"
+        style="display: block; width: 100%; text-align: center; padding: 8px 12px; background: #0891B2; color: white; font-size: 12px; font-weight: 600; border-radius: 8px; text-decoration: none;"
+      >
+        Vezi detalii →
+      </a>
+    </div>
+  `;
+}
+
 export default function LocationsMap({
-  locations,
+  filters,
   center,
-  zoom = 12,
+  zoom = 7,
   userLocation,
   radius,
   onLocationClick,
-  onBoundsChange,
+  onFeaturesChange,
   height = '400px',
   centerKey,
 }: LocationsMapProps) {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
-  const markersLayerRef = useRef<L.MarkerClusterGroup | L.LayerGroup | null>(null);
-  const locationsRef = useRef<MapLocation[]>(locations);
+  // Server clusters and individual points are separate layers; points still
+  // go through markercluster so clinics sharing a building can be spiderfied
+  const clustersLayerRef = useRef<L.LayerGroup | null>(null);
+  const pointsLayerRef = useRef<L.MarkerClusterGroup | L.LayerGroup | null>(null);
+  const userLayerRef = useRef<L.LayerGroup | null>(null);
+  const filtersRef = useRef<MapFeatureFilters>(filters);
+  const onFeaturesChangeRef = useRef(onFeaturesChange);
+  const abortRef = useRef<AbortController | null>(null);
+  const loadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const mountedRef = useRef(true);
   // Restore lastCenterKey from sessionStorage to prevent re-centering on back navigation
   const lastCenterKeyRef = useRef<string | undefined>(
     typeof window !== 'undefined' ? sessionStorage.getItem('map-last-center-key') || undefined : undefined
   );
   const [isReady, setIsReady] = useState(false);
+  const [loadingFeatures, setLoadingFeatures] = useState(false);
+  const [collection, setCollection] = useState<MapFeatureCollection | null>(null);
 
-  // Keep locations ref updated
+  // Keep refs updated for the map event handlers
   useEffect(() => {
-    locationsRef.current = locations;
-  }, [locations]);
+    onFeaturesChangeRef.current = onFeaturesChange;
+  }, [onFeaturesChange]);
 
-  // Function to calculate visible locations
-  const reportVisibleLocations = useCallback(() => {
-    if (!mapInstanceRef.current || !onBoundsChange || !mountedRef.current) return;
+  const renderFeatures = useCallback((data: MapFeatureCollection) => {
+    const map = mapInstanceRef.current;
+    const clustersLayer = clustersLayerRef.current;
+    const pointsLayer = pointsLayerRef.current;
+    if (!map || !clustersLayer || !pointsLayer) return;
 
-    try {
-      const bounds = mapInstanceRef.current.getBounds();
-
-      // Add small padding to bounds to include markers at edges
-      const padding = 0.001; // ~100m padding
-      const mapBounds: MapBounds = {
-        north: bounds.getNorth() + padding,
-        south: bounds.getSouth() - padding,
-        east: bounds.getEast() + padding,
-        west: bounds.getWest() - padding,
-      };
+    clustersLayer.clearLayers();
+    pointsLayer.clearLayers();
 
-      // Find locations within bounds (use current locations from ref)
-      const currentLocations = locationsRef.current;
-      const visibleIds = currentLocations
-        .filter(loc => {
-          if (!loc.lat || !loc.lng) return false;
-          return (
-            loc.lat >= mapBounds.south &&
-            loc.lat <= mapBounds.north &&
-            loc.lng >= mapBounds.west &&
-            loc.lng <= mapBounds.east
-          );
-        })
-        .map(loc => loc.id);
-
-      onBoundsChange(mapBounds, visibleIds);
-    } catch (e) {
-      console.warn('Could not report bounds:', e);
-    }
-  }, [onBoundsChange]);
+    data.features.forEach((feature) => {
+      const [lng, lat] = feature.geometry.coordinates;
+      const props = feature.properties;
+
+      if (props.kind === 'cluster') {
+        const marker = L.marker([lat, lng], {
+          icon: createClusterIcon(props),
+          title: getClusterTitle(props),
+        });
+        // Zoom in towards the cluster; the next viewport load splits it
+        marker.on('click', () => {
+          map.setView([lat, lng], Math.min(map.getZoom() + 2, map.getMaxZoom()));
+        });
+        clustersLayer.addLayer(marker);
+        return;
+      }
+
+      const approximate = getApproximateLocationNote(props.geocode_precision) !== null;
+      const marker = L.marker([lat, lng], { icon: getPointIcon(props.fund_status, approximate) });
+      marker.bindPopup(getPointPopup(props), {
+        maxWidth: 300,
+      });
+      pointsLayer.addLayer(marker);
+    });
+  }, []);
+
+  // Fetch the features for the current viewport (debounced, latest wins)
+  const loadFeatures = useCallback(() => {
+    if (loadTimerRef.current) clearTimeout(loadTimerRef.current);
+
+    loadTimerRef.current = setTimeout(async () => {
+      const map = mapInstanceRef.current;
+      if (!map || !mountedRef.current) return;
+
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      setLoadingFeatures(true);
+      try {
+        const response = await fetch(`/api/map/features?${buildFeaturesQuery(map, filtersRef.current)}`, {
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        const data: MapFeatureCollection = await response.json();
+        if (!mountedRef.current || controller.signal.aborted) return;
+
+        renderFeatures(data);
+        setCollection(data);
+        onFeaturesChangeRef.current?.(data);
+      } catch (e) {
+        if ((e as Error).name !== 'AbortError') {
+          console.error('Error loading map features:', e);
+        }
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          if (mountedRef.current) setLoadingFeatures(false);
+        }
+      }
+    }, LOAD_DEBOUNCE_MS);
+  }, [renderFeatures]);
 
   // Initialize map
   useEffect(() => {
@@ -135,11 +314,10 @@ export default function LocationsMap({
         // Ignore cleanup errors
       }
       mapInstanceRef.current = null;
-      markersLayerRef.current = null;
     }
 
     // Try to restore saved map position
-    let initialCenter = center || { lat: 44.4268, lng: 26.1025 };
+    let initialCenter = center || ROMANIA_CENTER;
     let initialZoom = zoom;
 
     try {
@@ -173,19 +351,15 @@ export default function LocationsMap({
         maxZoom: 19,
       }).addTo(map);
 
-      // Use marker clustering to handle overlapping markers
-      const markersLayer = (L as any).markerClusterGroup({
-        maxClusterRadius: 50,
+      const pointsLayer = (L as any).markerClusterGroup({
+        maxClusterRadius: 20,
         spiderfyOnMaxZoom: true,
         showCoverageOnHover: false,
         zoomToBoundsOnClick: true,
         iconCreateFunction: (cluster: any) => {
           const count = cluster.getChildCount();
-          let size = 'small';
-          if (count >= 10) size = 'medium';
-          if (count >= 50) size = 'large';
           return L.divIcon({
-            html: `<div class="cluster-marker cluster-${size}"><span>${count}</span></div>`,
+            html: `<div class="cluster-marker cluster-small"><span>${count}</span></div>`,
             className: 'marker-cluster-custom',
             iconSize: L.point(40, 40),
           });
@@ -193,7 +367,9 @@ export default function LocationsMap({
       }).addTo(map);
 
       mapInstanceRef.current = map;
-      markersLayerRef.current = markersLayer;
+      clustersLayerRef.current = L.layerGroup().addTo(map);
+      pointsLayerRef.current = pointsLayer;
+      userLayerRef.current = L.layerGroup().addTo(map);
 
       // Save map state to sessionStorage when it changes
       const saveMapState = () => {
@@ -210,13 +386,9 @@ export default function LocationsMap({
         }
       };
 
-      // Listen for map movement/zoom
+      // moveend also fires after every zoom
       map.on('moveend', () => {
-        reportVisibleLocations();
-        saveMapState();
-      });
-      map.on('zoomend', () => {
-        reportVisibleLocations();
+        loadFeatures();
         saveMapState();
       });
 
@@ -237,8 +409,6 @@ export default function LocationsMap({
         setTimeout(() => {
           if (mountedRef.current) {
             setIsReady(true);
-            // Initial bounds report
-            reportVisibleLocations();
           }
         }, 200);
       });
@@ -258,9 +428,10 @@ export default function LocationsMap({
       return () => {
         mountedRef.current = false;
         window.removeEventListener('resize', handleResize);
+        if (loadTimerRef.current) clearTimeout(loadTimerRef.current);
+        abortRef.current?.abort();
         // Remove all listeners
         map.off('moveend');
-        map.off('zoomend');
 
         if (mapInstanceRef.current) {
           try {
@@ -269,146 +440,109 @@ export default function LocationsMap({
             // Ignore cleanup errors
           }
           mapInstanceRef.current = null;
-          markersLayerRef.current = null;
+          clustersLayerRef.current = null;
+          pointsLayerRef.current = null;
+          userLayerRef.current = null;
         }
       };
     } catch (e) {
       console.error('Error initializing map:', e);
     }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Update markers when locations change
+  // Reload the viewport when the filters change
+  const filtersKey = JSON.stringify(filters);
   useEffect(() => {
-    if (!isReady || !mapInstanceRef.current || !markersLayerRef.current || !mountedRef.current) {
-      return;
-    }
-
-    const map = mapInstanceRef.current;
-    const markersLayer = markersLayerRef.current;
-
-    try {
-      // Clear existing markers
-      markersLayer.clearLayers();
-
-      // Add user location marker (Google Maps style blue dot)
-      if (userLocation) {
-        // Pulsing circle for accuracy indicator
-        const pulseIcon = L.divIcon({
-          className: 'user-location-pulse',
-          html: `
-            <div style="position: relative; width: 40px; height: 40px;">
-              <div style="
-                position: absolute;
-                top: 50%;
-                left: 50%;
-                transform: translate(-50%, -50%);
-                width: 40px;
-                height: 40px;
-                background: rgba(66, 133, 244, 0.2);
-                border-radius: 50%;
-                animation: pulse 2s ease-out infinite;
-              "></div>
-              <div style="
-                position: absolute;
-                top: 50%;
-                left: 50%;
-                transform: translate(-50%, -50%);
-                width: 18px;
-                height: 18px;
-                background: #4285F4;
-                border: 3px solid white;
-                border-radius: 50%;
-                box-shadow: 0 2px 6px rgba(0,0,0,0.3);
-              "></div>
-            </div>
-            <style>
-              @keyframes pulse {
-                0% { transform: translate(-50%, -50%) scale(0.5); opacity: 1; }
-                100% { transform: translate(-50%, -50%) scale(2); opacity: 0; }
-              }
-            </style>
-          `,
-          iconSize: [40, 40],
-          iconAnchor: [20, 20],
-        });
-
-        const userMarker = L.marker([userLocation.lat, userLocation.lng], { icon: pulseIcon, zIndexOffset: 1000 });
-        userMarker.bindPopup('<div style="text-align: center; font-weight: 600; color: #4285F4;">📍 Locația ta</div>');
-        markersLayer.addLayer(userMarker);
-      }
-
-      // Add location markers
-      const validLocations = locations.filter(loc => loc.lat && loc.lng);
-
-      validLocations.forEach((loc) => {
-        // Use default Leaflet marker
-        const marker = L.marker([loc.lat, loc.lng]);
-
-        const popupContent = `
-          <div style="min-width: 200px; max-width: 280px; padding: 4px;">
-            ${loc.is_network && loc.network_brand ? `<p style="font-size: 12px; color: #7C3AED; font-weight: 600; margin-bottom: 4px;">🏥 ${loc.network_brand}</p>` : ''}
-            <h3 style="font-weight: bold; font-size: 14px; color: #111; margin-bottom: 4px;">${loc.name}</h3>
-            ${loc.address ? `<p style="font-size: 12px; color: #666; margin-bottom: 6px;">${loc.address}</p>` : ''}
-            <p style="font-size: 10px; color: #b45309; margin-bottom: 8px;">Locația este informativă. Verificați adresa.</p>
-            <a
-              href="/clinic/${loc.id}"
-              style="display: block; width: 100%; text-align: center; padding: 8px 12px; background: #0891B2; color: white; font-size: 12px; font-weight: 600; border-radius: 8px; text-decoration: none;"
-            >
-              Vezi detalii →
-            </a>
-          </div>
-        `;
-
-        marker.bindPopup(popupContent, {
-          maxWidth: 300,
-        });
-
-        markersLayer.addLayer(marker);
-      });
-
-      // Only fit bounds on initial load OR when centerKey changes (e.g., user clicks "near me")
-      // This allows users to freely pan/zoom after the initial view is set
-      const shouldRecenter = lastCenterKeyRef.current !== centerKey;
+    filtersRef.current = filters;
+    if (isReady) loadFeatures();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filtersKey, isReady, loadFeatures]);
 
-      if (shouldRecenter) {
-        lastCenterKeyRef.current = centerKey;
-        // Save to sessionStorage to prevent re-centering on back navigation
-        if (centerKey) {
-          sessionStorage.setItem('map-last-center-key', centerKey);
-        }
+  // Add user location marker (Google Maps style blue dot)
+  useEffect(() => {
+    if (!isReady || !userLayerRef.current) return;
+
+    const userLayer = userLayerRef.current;
+    userLayer.clearLayers();
+    if (!userLocation) return;
+
+    // Pulsing circle for accuracy indicator
+    const pulseIcon = L.divIcon({
+      className: 'user-location-pulse',
+      html: `
+        <div style="position: relative; width: 40px; height: 40px;">
+          <div style="
+            position: absolute;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            width: 40px;
+            height: 40px;
+            background: rgba(66, 133, 244, 0.2);
+            border-radius: 50%;
+            animation: pulse 2s ease-out infinite;
+          "></div>
+          <div style="
+            position: absolute;
+            top: 50%;
+            left: 50%;
+            transform: translate(-50%, -50%);
+            width: 18px;
+            height: 18px;
+            background: #4285F4;
+            border: 3px solid white;
+            border-radius: 50%;
+            box-shadow: 0 2px 6px rgba(0,0,0,0.3);
+          "></div>
+        </div>
+        <style>
+          @keyframes pulse {
+            0% { transform: translate(-50%, -50%) scale(0.5); opacity: 1; }
+            100% { transform: translate(-50%, -50%) scale(2); opacity: 0; }
+          }
+        </style>
+      `,
+      iconSize: [40, 40],
+      iconAnchor: [20, 20],
+    });
+
+    const userMarker = L.marker([userLocation.lat, userLocation.lng], { icon: pulseIcon, zIndexOffset: 1000 });
+    userMarker.bindPopup('<div style="text-align: center; font-weight: 600; color: #4285F4;">📍 Locația ta</div>');
+    userLayer.addLayer(userMarker);
+  }, [userLocation, isReady]);
+
+  // Only re-center on initial load OR when centerKey changes (e.g., user clicks "near me")
+  // This allows users to freely pan/zoom after the initial view is set
+  useEffect(() => {
+    if (!isReady || !mapInstanceRef.current) return;
+    if (lastCenterKeyRef.current === centerKey) return;
 
-        setTimeout(() => {
-          if (!mountedRef.current || !mapInstanceRef.current) return;
+    lastCenterKeyRef.current = centerKey;
+    // Save to sessionStorage to prevent re-centering on back navigation
+    if (centerKey) {
+      sessionStorage.setItem('map-last-center-key', centerKey);
+    }
 
-          try {
-            if (userLocation && radius) {
-              // In nearby mode: center on user with zoom based on radius
-              const zoomLevel = getZoomForRadius(radius);
-              mapInstanceRef.current.setView([userLocation.lat, userLocation.lng], zoomLevel);
-            } else if (userLocation) {
-              // User location but no radius - center on user with default zoom
-              mapInstanceRef.current.setView([userLocation.lat, userLocation.lng], 14);
-            } else if (center) {
-              // Center prop provided (from URL params) - don't fit to all locations
-              // Map was already initialized at correct center/zoom
-            } else if (validLocations.length > 0) {
-              // No user location and no center - fit to all locations
-              const bounds = L.latLngBounds(validLocations.map(loc => [loc.lat, loc.lng]));
-              mapInstanceRef.current.fitBounds(bounds, { padding: [50, 50], maxZoom: 14 });
-            }
-          } catch (e) {
-            console.warn('Could not fit bounds:', e);
-          }
-        }, 100);
+    try {
+      if (userLocation && radius) {
+        // In nearby mode: center on user with zoom based on radius
+        const zoomLevel = getZoomForRadius(radius);
+        mapInstanceRef.current.setView([userLocation.lat, userLocation.lng], zoomLevel);
+      } else if (userLocation) {
+        // User location but no radius - center on user with default zoom
+        mapInstanceRef.current.setView([userLocation.lat, userLocation.lng], 14);
+      } else if (center) {
+        // Center prop provided (county or URL params)
+        mapInstanceRef.current.setView([center.lat, center.lng], zoom);
+      } else {
+        mapInstanceRef.current.setView([ROMANIA_CENTER.lat, ROMANIA_CENTER.lng], zoom);
       }
-
-      // Report visible locations after updating markers
-      setTimeout(reportVisibleLocations, 200);
     } catch (e) {
-      console.error('Error updating markers:', e);
+      console.warn('Could not set view:', e);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [locations, userLocation, isReady]);
+  }, [centerKey, isReady]);
 
   // Handle location click events from popups
   useEffect(() => {
@@ -436,9 +570,16 @@ export default function LocationsMap({
           <p className="text-muted-foreground text-sm">Se încarcă harta...</p>
         </div>
       )}
-      {isReady && locations.length === 0 && (
-        <div className="absolute inset-0 flex items-center justify-center bg-background/80 pointer-events-none z-10">
-          <p className="text-muted-foreground text-sm">Nu sunt locații cu coordonate disponibile</p>
+      {isReady && loadingFeatures && (
+        <div className="absolute top-4 right-4 z-[400] pointer-events-none">
+          <div className="bg-white/95 rounded-full shadow px-3 py-1 text-xs text-muted-foreground">
+            Se încarcă...
+          </div>
+        </div>
+      )}
+      {isReady && collection && collection.total === 0 && !loadingFeatures && (
+        <div className="absolute inset-0 flex items-center justify-center bg-background/60 pointer-events-none z-10">
+          <p className="text-muted-foreground text-sm">Nu sunt clinici în această zonă</p>
         </div>
       )}
     </div>
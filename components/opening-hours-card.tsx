@@ -0,0 +1,94 @@
+'use client';
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { systemClock } from '@/lib/clock';
+import {
+  OpeningHours,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  formatIntervals,
+  isOpenAt,
+  toLocalDateTime,
+} from '@/lib/opening-hours';
+
+interface OpeningHoursCardProps {
+  openingHours: OpeningHours;
+}
+
+function formatExceptionDate(date: string): string {
+  const [month, day] = date.split('-');
+  return `${day}.${month}`;
+}
+
+export function OpeningHoursCard({ openingHours }: OpeningHoursCardProps) {
+  const now = systemClock.now();
+  const open = isOpenAt(openingHours, now);
+  const local = toLocalDateTime(now);
+  const today = WEEKDAYS[(new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay() + 6) % 7];
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-white/50">
+      <CardContent className="p-5">
+        <div className="flex items-center gap-2 mb-4">
+          <div className="p-2 bg-gradient-to-br from-primary/20 to-cyan-500/20 rounded-xl">
+            <Clock className="h-5 w-5 text-primary" />
+          </div>
+          <h2 className="font-semibold text-foreground">Program</h2>
+          {open !== null && (
+            <Badge
+              className={cn(
+                'ml-auto border',
+                open
+                  ? 'bg-emerald-500/10 text-emerald-700 hover:bg-emerald-500/20 border-emerald-500/20'
+                  : 'bg-red-500/10 text-red-700 hover:bg-red-500/20 border-red-500/20'
+              )}
+            >
+              {open ? 'Deschis acum' : 'Închis acum'}
+            </Badge>
+          )}
+        </div>
+
+        {openingHours.weekly ? (
+          <>
+            <div className="space-y-1.5">
+              {WEEKDAYS.map((day) => (
+                <div
+                  key={day}
+                  className={cn(
+                    'flex justify-between text-sm',
+                    day === today ? 'font-semibold text-foreground' : 'text-muted-foreground'
+                  )}
+                >
+                  <span>{WEEKDAY_LABELS[day]}</span>
+                  <span>{formatIntervals(openingHours.weekly![day])}</span>
+                </div>
+              ))}
+            </div>
+
+            {openingHours.exceptions.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-border/50 space-y-1.5">
+                {openingHours.exceptions.map((exception, index) => (
+                  <div key={index} className="flex justify-between text-sm text-muted-foreground">
+                    <span>
+                      {exception.holidays ? 'Sărbători legale' : formatExceptionDate(exception.date!)}
+                    </span>
+                    <span>{formatIntervals(exception.intervals)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-foreground">{openingHours.raw}</p>
+        )}
+
+        <p className="text-xs text-muted-foreground mt-3">
+          Program preluat de pe site-ul furnizorului. Sunați înainte pentru confirmare.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
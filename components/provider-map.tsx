@@ -3,14 +3,23 @@
 import { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { GeocodePrecision } from '@/lib/types-v2';
 
 interface ProviderMapProps {
   lat: number;
   lng: number;
   name: string;
   address?: string;
+  precision?: GeocodePrecision | null;
 }
 
+// Uncertainty around approximate points (meters) and the zoom that shows it
+const APPROXIMATE_VIEW: Record<Exclude<GeocodePrecision, 'rooftop'>, { radius: number; zoom: number }> = {
+  street: { radius: 150, zoom: 16 },
+  sector: { radius: 1500, zoom: 13 },
+  city: { radius: 4000, zoom: 12 },
+};
+
 const markerIcon = L.divIcon({
   className: 'custom-marker',
   html: `
@@ -41,23 +50,45 @@ const markerIcon = L.divIcon({
   popupAnchor: [0, -40],
 });
 
-export default function ProviderMap({ lat, lng, name, address }: ProviderMapProps) {
+// Hollow pin for approximate locations
+const approximateMarkerIcon = L.divIcon({
+  className: 'custom-marker',
+  html: `
+    <div style="
+      width: 40px;
+      height: 40px;
+      background: rgba(255,255,255,0.85);
+      border-radius: 50% 50% 50% 0;
+      border: 3px dashed #0891B2;
+      box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+      transform: rotate(-45deg);
+    "></div>
+  `,
+  iconSize: [40, 40],
+  iconAnchor: [20, 40],
+  popupAnchor: [0, -40],
+});
+
+export default function ProviderMap({ lat, lng, name, address, precision }: ProviderMapProps) {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (!mapContainerRef.current) return;
 
+    const approximate = precision && precision !== 'rooftop' ? APPROXIMATE_VIEW[precision] : null;
+    const zoom = approximate ? approximate.zoom : 16;
+
     // If map already exists, just update view
     if (mapRef.current) {
-      mapRef.current.setView([lat, lng], 16);
+      mapRef.current.setView([lat, lng], zoom);
       return;
     }
 
     // Initialize map
     const map = L.map(mapContainerRef.current, {
       center: [lat, lng],
-      zoom: 16,
+      zoom,
       zoomControl: false,
       dragging: true,
       scrollWheelZoom: false,
@@ -72,8 +103,19 @@ export default function ProviderMap({ lat, lng, name, address }: ProviderMapProp
       maxZoom: 19,
     }).addTo(map);
 
+    // Approximate points: the area the clinic is in, not a building
+    if (approximate) {
+      L.circle([lat, lng], {
+        radius: approximate.radius,
+        color: '#0891B2',
+        weight: 1,
+        dashArray: '4 4',
+        fillOpacity: 0.08,
+      }).addTo(map);
+    }
+
     // Add marker
-    const marker = L.marker([lat, lng], { icon: markerIcon }).addTo(map);
+    const marker = L.marker([lat, lng], { icon: approximate ? approximateMarkerIcon : markerIcon }).addTo(map);
 
     // Add popup
     const popupContent = `
@@ -104,7 +146,7 @@ export default function ProviderMap({ lat, lng, name, address }: ProviderMapProp
       map.remove();
       mapRef.current = null;
     };
-  }, [lat, lng, name, address]);
+  }, [lat, lng, name, address, precision]);
 
   return (
     <div className="relative">
@@ -49,10 +49,10 @@ interface VerificationResult {
 }
 
 interface ProviderVerificationProps {
-  providerId: string;
+  locationId: string;
 }
 
-export function ProviderVerification({ providerId }: ProviderVerificationProps) {
+export function ProviderVerification({ locationId }: ProviderVerificationProps) {
   const [loading, setLoading] = useState(true); // Start loading to check cache
   const [result, setResult] = useState<VerificationResult | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -62,14 +62,14 @@ export function ProviderVerification({ providerId }: ProviderVerificationProps)
   // Auto-load cached verification on mount
   useEffect(() => {
     checkCachedVerification();
-  }, [providerId]);
+  }, [locationId]);
 
   const checkCachedVerification = async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const response = await fetch(`/api/verify/${providerId}`);
+      const response = await fetch(`/api/verify/${locationId}`);
       if (response.ok) {
         const data = await response.json();
         if (data.cached) {
@@ -94,8 +94,8 @@ export function ProviderVerification({ providerId }: ProviderVerificationProps)
 
     try {
       const url = forceRefresh
-        ? `/api/verify/${providerId}?refresh=true`
-        : `/api/verify/${providerId}`;
+        ? `/api/verify/${locationId}?refresh=true`
+        : `/api/verify/${locationId}`;
       const response = await fetch(url);
 
       if (!response.ok) {
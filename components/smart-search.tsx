@@ -8,6 +8,7 @@ import {
   Stethoscope,
   MapPin,
   Network,
+  FlaskConical,
   Loader2,
   ArrowRight,
   X,
@@ -17,7 +18,7 @@ import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
 export interface Suggestion {
-  type: 'location' | 'specialty' | 'network';
+  type: 'location' | 'specialty' | 'network' | 'investigation';
   id: string;
   name: string;
   subtitle?: string;
@@ -36,7 +37,7 @@ interface SmartSearchProps {
 export function SmartSearch({
   onSearch,
   onSuggestionSelect,
-  placeholder = "Caută clinică, specialitate...",
+  placeholder = "Caută clinică, specialitate, investigație...",
   autoFocus = false,
   className,
   preserveParams,
@@ -123,6 +124,7 @@ export function SmartSearch({
         params.set('query', query.trim());
         // Clear specialty and network filters - user is doing a new text search
         params.delete('specialty');
+        params.delete('investigation');
         params.delete('network');
         router.push(`/search?${params.toString()}`);
       }
@@ -158,6 +160,12 @@ export function SmartSearch({
         }
         router.push(`/search?${params.toString()}`);
         break;
+      case 'investigation':
+        params.set('investigation', suggestion.name);
+        params.delete('query');
+        params.delete('network');
+        router.push(`/search?${params.toString()}`);
+        break;
       case 'network':
         params.set('query', suggestion.name);
         params.set('network', 'true');
@@ -208,6 +216,8 @@ export function SmartSearch({
     switch (type) {
       case 'specialty':
         return <Stethoscope className="h-4 w-4 text-accent" />;
+      case 'investigation':
+        return <FlaskConical className="h-4 w-4 text-cyan-600" />;
       case 'network':
         return <Network className="h-4 w-4 text-purple-500" />;
       case 'location':
@@ -219,6 +229,8 @@ export function SmartSearch({
     switch (type) {
       case 'specialty':
         return 'Specialitate';
+      case 'investigation':
+        return 'Investigație';
       case 'network':
         return 'Rețea';
       case 'location':
@@ -307,6 +319,7 @@ export function SmartSearch({
                 <div className={cn(
                   "flex-shrink-0 w-10 h-10 rounded-xl flex items-center justify-center",
                   suggestion.type === 'specialty' && "bg-accent/10",
+                  suggestion.type === 'investigation' && "bg-cyan-500/10",
                   suggestion.type === 'network' && "bg-purple-500/10",
                   suggestion.type === 'location' && "bg-primary/10"
                 )}>
@@ -320,6 +333,7 @@ export function SmartSearch({
                     <span className={cn(
                       "px-1.5 py-0.5 rounded text-[10px] font-medium",
                       suggestion.type === 'specialty' && "bg-accent/10 text-accent",
+                      suggestion.type === 'investigation' && "bg-cyan-500/10 text-cyan-700",
                       suggestion.type === 'network' && "bg-purple-500/10 text-purple-600",
                       suggestion.type === 'location' && "bg-primary/10 text-primary"
                     )}>
@@ -351,6 +365,7 @@ export function SmartSearch({
                 params.set('query', query);
                 // Clear specialty and network - user wants to search all
                 params.delete('specialty');
+                params.delete('investigation');
                 params.delete('network');
                 router.push(`/search?${params.toString()}`);
               }}
@@ -379,6 +394,7 @@ export function SmartSearch({
               params.set('query', query);
               // Clear specialty and network filters
               params.delete('specialty');
+              params.delete('investigation');
               params.delete('network');
               router.push(`/search?${params.toString()}`);
             }}
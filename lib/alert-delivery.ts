@@ -0,0 +1,107 @@
+import webpush from 'web-push';
+
+// Sending alert notifications.
+// Web Push uses VAPID keys (generate with `npx web-push generate-vapid-keys`);
+// email goes through the Resend HTTP API. Either channel is disabled when
+// its environment variables are missing.
+
+export interface AlertMessage {
+  title: string;
+  body: string;
+  url: string;
+}
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export class AlertDeliveryError extends Error {
+  constructor(message: string, public readonly gone: boolean = false) {
+    super(message);
+    this.name = 'AlertDeliveryError';
+  }
+}
+
+let vapidConfigured = false;
+
+export function isPushConfigured(): boolean {
+  return Boolean(
+    process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY
+  );
+}
+
+export function isEmailConfigured(): boolean {
+  return Boolean(process.env.RESEND_API_KEY && process.env.ALERTS_EMAIL_FROM);
+}
+
+/**
+ * Send a Web Push notification. Throws an AlertDeliveryError with `gone`
+ * set when the browser subscription no longer exists.
+ */
+export async function sendPush(target: PushTarget, message: AlertMessage): Promise<void> {
+  if (!isPushConfigured()) throw new AlertDeliveryError('Web Push is not configured');
+
+  if (!vapidConfigured) {
+    webpush.setVapidDetails(
+      process.env.VAPID_SUBJECT || 'mailto:contact@fondcas.ro',
+      process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+      process.env.VAPID_PRIVATE_KEY!
+    );
+    vapidConfigured = true;
+  }
+
+  try {
+    await webpush.sendNotification(
+      { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+      JSON.stringify(message),
+      { TTL: 24 * 60 * 60 }
+    );
+  } catch (error) {
+    const statusCode = (error as { statusCode?: number }).statusCode;
+    throw new AlertDeliveryError(
+      error instanceof Error ? error.message : String(error),
+      statusCode === 404 || statusCode === 410
+    );
+  }
+}
+
+/**
+ * Send a plain email with a link; `manageUrl` is appended as the
+ * unsubscribe link
+ */
+export async function sendEmail(
+  to: string,
+  message: AlertMessage,
+  manageUrl: string
+): Promise<void> {
+  if (!isEmailConfigured()) throw new AlertDeliveryError('Email is not configured');
+
+  const text = [
+    message.body,
+    '',
+    message.url,
+    '',
+    `Gestionează sau dezabonează-te: ${manageUrl}`,
+  ].join('\n');
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: process.env.ALERTS_EMAIL_FROM,
+      to,
+      subject: message.title,
+      text,
+      headers: { 'List-Unsubscribe': `<${manageUrl}>` },
+    }),
+  });
+
+  if (!response.ok) {
+    throw new AlertDeliveryError(`Email API returned ${response.status}: ${await response.text()}`);
+  }
+}
@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Signed links for managing an alert subscription without an account.
+// A token is `<subscription id>.<HMAC-SHA256 of the id>`; anyone holding the
+// link can view, change or delete that one subscription.
+
+function getSecret(): string {
+  const secret = process.env.ALERTS_SECRET_KEY;
+  if (!secret) throw new Error('ALERTS_SECRET_KEY is not configured');
+  return secret;
+}
+
+function sign(subscriptionId: string): string {
+  return createHmac('sha256', getSecret()).update(subscriptionId).digest('base64url');
+}
+
+export function createAlertToken(subscriptionId: string): string {
+  return `${subscriptionId}.${sign(subscriptionId)}`;
+}
+
+/**
+ * Return the subscription id a token was issued for, or null when the
+ * signature doesn't match
+ */
+export function verifyAlertToken(token: string): string | null {
+  const [subscriptionId, signature] = token.split('.');
+  if (!subscriptionId || !signature) return null;
+
+  const expected = Buffer.from(sign(subscriptionId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  return subscriptionId;
+}
+
+export function getAlertManageUrl(subscriptionId: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://fondcas.ro';
+  return `${baseUrl}/alerts/${createAlertToken(subscriptionId)}`;
+}
@@ -0,0 +1,478 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createServerClient, TABLES } from './supabase';
+import { systemClock, toFundDay } from './clock';
+import { fundPredictor } from './fund-predictor';
+import {
+  getLocationWithOrganization,
+  getMonthlyAllocation,
+  getRecentReports,
+} from './location-funds';
+import { AlertDeliveryError, AlertMessage, sendEmail, sendPush } from './alert-delivery';
+import { getAlertManageUrl } from './alert-tokens';
+import { REPORT_WEAK_SIGNAL, reportReliability } from './report-reliability';
+import { AlertSubscription, AlertTrigger, ROMANIAN_MONTHS, SpecialtyCategory } from './types-v2';
+
+// Alert subscriptions and the events that notify them:
+// - allocation: a new monthly allocation was synced into fund_allocations
+// - report: someone reported funds available at the location
+// - prediction: predicted availability crossed ALERT_PREDICTION_THRESHOLD upwards
+//
+// A subscription with a specialty only hears about allocations of contract
+// types that fund the specialty and, for reports and predictions, only while
+// the location offers it.
+//
+// Every delivery is recorded under a dedup key before sending, so re-running
+// a sync or the prediction check never notifies the same event twice.
+
+export const ALERT_TRIGGERS: AlertTrigger[] = ['allocation', 'report', 'prediction'];
+
+export const ALERT_PREDICTION_THRESHOLD = 0.5;
+
+// Subscriptions per `in` filter when looking them up by location
+const LOCATION_BATCH_SIZE = 100;
+
+// Minimum time between confirmation or manage-link emails to one address
+const LINK_EMAIL_INTERVAL_MINUTES = 10;
+
+// Reports counted towards a report alert
+const REPORT_ALERT_WINDOW_HOURS = 24;
+
+// Contract types (fund_allocations.service_type) that fund each specialty
+// category; dental care has no contract type of its own
+const CATEGORY_SERVICE_TYPES: Partial<Record<SpecialtyCategory, string[]>> = {
+  clinical: ['clinic'],
+  paraclinical: ['paraclinic', 'ultrasound'],
+  recovery: ['recovery'],
+};
+
+export type SubscriptionRow = AlertSubscription & {
+  location: { name: string } | null;
+  specialty: { name: string; code: string | null; category: SpecialtyCategory | null } | null;
+};
+
+const SUBSCRIPTION_SELECT = `
+  *,
+  location:locations (name),
+  specialty:specialties (name, code, category)
+`;
+
+function clinicUrl(locationId: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://fondcas.ro';
+  return `${baseUrl}/clinic/${locationId}`;
+}
+
+function describeTarget(sub: SubscriptionRow): string {
+  const name = sub.location?.name || 'clinica urmărită';
+  return sub.specialty ? `${name} (${sub.specialty.name})` : name;
+}
+
+// ============================================
+// SUBSCRIPTIONS
+// ============================================
+
+/**
+ * Public view of a subscription for the manage page (no push keys)
+ */
+export function toAlertSubscriptionView(sub: SubscriptionRow) {
+  return {
+    id: sub.id,
+    locationId: sub.location_id,
+    locationName: sub.location?.name || null,
+    specialtyId: sub.specialty_id || null,
+    specialtyName: sub.specialty?.name || null,
+    channel: sub.channel,
+    email: sub.email || null,
+    triggers: sub.triggers,
+    confirmed: Boolean(sub.confirmed_at),
+    lastNotifiedAt: sub.last_notified_at || null,
+    createdAt: sub.created_at,
+  };
+}
+
+export async function getAlertSubscription(id: string): Promise<SubscriptionRow | null> {
+  const supabase = createServerClient();
+  const { data } = await supabase
+    .from(TABLES.ALERT_SUBSCRIPTIONS)
+    .select(SUBSCRIPTION_SELECT)
+    .eq('id', id)
+    .maybeSingle();
+  return (data as SubscriptionRow) || null;
+}
+
+/**
+ * Find the subscription for the same browser or address, location and specialty
+ */
+export async function findAlertSubscription(input: {
+  locationId: string;
+  specialtyId?: string | null;
+  email?: string;
+  pushEndpoint?: string;
+}): Promise<SubscriptionRow | null> {
+  const supabase = createServerClient();
+  let query = supabase
+    .from(TABLES.ALERT_SUBSCRIPTIONS)
+    .select(SUBSCRIPTION_SELECT)
+    .eq('location_id', input.locationId);
+
+  query = input.specialtyId
+    ? query.eq('specialty_id', input.specialtyId)
+    : query.is('specialty_id', null);
+  query = input.email
+    ? query.eq('email', input.email)
+    : query.eq('push_endpoint', input.pushEndpoint || '');
+
+  const { data } = await query.maybeSingle();
+  return (data as SubscriptionRow) || null;
+}
+
+/**
+ * Email the manage link of an email subscription: to confirm it while it is
+ * new, to change or cancel it afterwards. Returns false without sending when
+ * the address got such an email in the last LINK_EMAIL_INTERVAL_MINUTES.
+ */
+export async function sendAlertLink(sub: SubscriptionRow, now: Date = systemClock.now()): Promise<boolean> {
+  const supabase = createServerClient();
+  const since = new Date(now.getTime() - LINK_EMAIL_INTERVAL_MINUTES * 60 * 1000);
+
+  const { data: recent, error } = await supabase
+    .from(TABLES.ALERT_SUBSCRIPTIONS)
+    .select('id')
+    .eq('email', sub.email!)
+    .gte('link_sent_at', since.toISOString())
+    .limit(1);
+  if (error) throw new Error(`Failed to check alert emails: ${error.message}`);
+  if (recent && recent.length > 0) return false;
+
+  await supabase
+    .from(TABLES.ALERT_SUBSCRIPTIONS)
+    .update({ link_sent_at: now.toISOString() })
+    .eq('id', sub.id);
+
+  const message: AlertMessage = sub.confirmed_at
+    ? {
+        title: 'Alertele FondCAS sunt deja active',
+        body: `Ai cerut din nou alerte despre fondurile CAS pentru ${describeTarget(sub)}. Alertele sunt deja active; din linkul de mai jos le poți modifica sau dezactiva.`,
+        url: getAlertManageUrl(sub.id),
+      }
+    : {
+        title: 'Confirmă alertele FondCAS',
+        body: `Ai cerut alerte despre fondurile CAS pentru ${describeTarget(sub)}. Deschide linkul de mai jos pentru a le confirma.`,
+        url: getAlertManageUrl(sub.id),
+      };
+  await sendEmail(sub.email!, message, getAlertManageUrl(sub.id));
+  return true;
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+async function deliver(
+  supabase: SupabaseClient,
+  sub: SubscriptionRow,
+  trigger: AlertTrigger,
+  dedupKey: string,
+  message: AlertMessage
+): Promise<boolean> {
+  // Claim the event first; a unique violation means it was already sent
+  const { data: delivery, error } = await supabase
+    .from(TABLES.ALERT_DELIVERIES)
+    .insert({ subscription_id: sub.id, trigger, dedup_key: dedupKey })
+    .select('id')
+    .single();
+
+  if (error || !delivery) {
+    if (error?.code !== '23505') console.error('Failed to record alert delivery:', error);
+    return false;
+  }
+
+  try {
+    if (sub.channel === 'push') {
+      await sendPush(
+        { endpoint: sub.push_endpoint!, p256dh: sub.push_p256dh!, auth: sub.push_auth! },
+        message
+      );
+    } else {
+      await sendEmail(sub.email!, message, getAlertManageUrl(sub.id));
+    }
+  } catch (err) {
+    if (err instanceof AlertDeliveryError && err.gone) {
+      // The browser dropped the push subscription; nothing left to notify
+      await supabase.from(TABLES.ALERT_SUBSCRIPTIONS).delete().eq('id', sub.id);
+      return false;
+    }
+
+    await supabase
+      .from(TABLES.ALERT_DELIVERIES)
+      .update({ status: 'failed', error: err instanceof Error ? err.message : String(err) })
+      .eq('id', delivery.id);
+    return false;
+  }
+
+  await supabase
+    .from(TABLES.ALERT_SUBSCRIPTIONS)
+    .update({ last_notified_at: new Date().toISOString() })
+    .eq('id', sub.id);
+  return true;
+}
+
+/**
+ * Confirmed subscriptions to `trigger` for any of the locations
+ */
+async function getActiveSubscriptions(
+  supabase: SupabaseClient,
+  trigger: AlertTrigger,
+  locationIds?: string[]
+): Promise<SubscriptionRow[]> {
+  const baseQuery = () =>
+    supabase
+      .from(TABLES.ALERT_SUBSCRIPTIONS)
+      .select(SUBSCRIPTION_SELECT)
+      .not('confirmed_at', 'is', null)
+      .contains('triggers', [trigger]);
+
+  if (!locationIds) {
+    const { data, error } = await baseQuery();
+    if (error) throw new Error(`Failed to load alert subscriptions: ${error.message}`);
+    return (data as SubscriptionRow[]) || [];
+  }
+
+  const subscriptions: SubscriptionRow[] = [];
+  for (let i = 0; i < locationIds.length; i += LOCATION_BATCH_SIZE) {
+    const { data, error } = await baseQuery().in(
+      'location_id',
+      locationIds.slice(i, i + LOCATION_BATCH_SIZE)
+    );
+    if (error) throw new Error(`Failed to load alert subscriptions: ${error.message}`);
+    subscriptions.push(...((data as SubscriptionRow[]) || []));
+  }
+  return subscriptions;
+}
+
+/**
+ * Whether an allocation of `serviceType` can fund the subscription's
+ * specialty. Allocations without a known contract type count for every
+ * specialty.
+ */
+function allocationCoversSpecialty(sub: SubscriptionRow, serviceType?: string): boolean {
+  const serviceTypes = sub.specialty?.category ? CATEGORY_SERVICE_TYPES[sub.specialty.category] : undefined;
+  if (!serviceTypes || !serviceType || serviceType === 'other') return true;
+  return serviceTypes.includes(serviceType);
+}
+
+/**
+ * The subscriptions of one location that want its events: those without a
+ * specialty, and those whose specialty the location offers. Decided like the
+ * specialty filter of the search (location_has_specialty).
+ */
+async function filterBySpecialty(
+  supabase: SupabaseClient,
+  subscriptions: SubscriptionRow[],
+  locationId: string,
+  organizationId: string
+): Promise<SubscriptionRow[]> {
+  const offered = new Map<string, boolean>();
+  const result: SubscriptionRow[] = [];
+
+  for (const sub of subscriptions) {
+    if (!sub.specialty_id || !sub.specialty) {
+      result.push(sub);
+      continue;
+    }
+
+    if (!offered.has(sub.specialty_id)) {
+      const { data, error } = await supabase.rpc('location_has_specialty', {
+        loc_id: locationId,
+        org_id: organizationId,
+        specialty_filter: sub.specialty.code || sub.specialty.name,
+      });
+      if (error) throw new Error(`Failed to check location specialty: ${error.message}`);
+      offered.set(sub.specialty_id, data === true);
+    }
+    if (offered.get(sub.specialty_id)) result.push(sub);
+  }
+
+  return result;
+}
+
+// ============================================
+// TRIGGERS
+// ============================================
+
+export interface NewAllocation {
+  organizationId: string;
+  periodYear: number;
+  periodMonth: number;
+  serviceType?: string;
+}
+
+/**
+ * Notify subscribers of every location of organizations that received a
+ * new monthly allocation. One notification per location and month, however
+ * many contract types were published; subscriptions with a specialty only
+ * for contract types that fund it.
+ */
+export async function notifyNewAllocations(allocations: NewAllocation[]): Promise<number> {
+  if (allocations.length === 0) return 0;
+
+  const supabase = createServerClient();
+  const allocationsByOrg = new Map<string, NewAllocation[]>();
+  for (const alloc of allocations) {
+    const list = allocationsByOrg.get(alloc.organizationId) || [];
+    list.push(alloc);
+    allocationsByOrg.set(alloc.organizationId, list);
+  }
+
+  const orgIds = Array.from(allocationsByOrg.keys());
+  const locationOrg = new Map<string, string>();
+  for (let i = 0; i < orgIds.length; i += LOCATION_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from(TABLES.LOCATIONS)
+      .select('id, organization_id')
+      .in('organization_id', orgIds.slice(i, i + LOCATION_BATCH_SIZE));
+    if (error) throw new Error(`Failed to load locations: ${error.message}`);
+    for (const row of data || []) locationOrg.set(row.id, row.organization_id);
+  }
+
+  const subscriptions = await getActiveSubscriptions(
+    supabase,
+    'allocation',
+    Array.from(locationOrg.keys())
+  );
+
+  let sent = 0;
+  for (const sub of subscriptions) {
+    const periods: NewAllocation[] = [];
+    for (const alloc of allocationsByOrg.get(locationOrg.get(sub.location_id)!) || []) {
+      if (!allocationCoversSpecialty(sub, alloc.serviceType)) continue;
+      if (periods.some((p) => p.periodYear === alloc.periodYear && p.periodMonth === alloc.periodMonth)) continue;
+      periods.push(alloc);
+    }
+
+    for (const period of periods) {
+      const month = `${ROMANIAN_MONTHS[period.periodMonth - 1]} ${period.periodYear}`;
+      const delivered = await deliver(
+        supabase,
+        sub,
+        'allocation',
+        `allocation:${period.periodYear}-${String(period.periodMonth).padStart(2, '0')}`,
+        {
+          title: `Fonduri noi: ${sub.location?.name || 'clinica urmărită'}`,
+          body: `CAS a publicat alocarea pentru ${month} la ${describeTarget(sub)}. Sunați clinica pentru programare.`,
+          url: clinicUrl(sub.location_id),
+        }
+      );
+      if (delivered) sent++;
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Notify subscribers of a location that has a fresh funds_available report
+ * counting at least REPORT_WEAK_SIGNAL: a new report qualifies as it is, a
+ * disputed one again once upvotes or a moderator lift it. At most one report
+ * alert per subscription and day.
+ */
+export async function notifyFundsAvailableReports(
+  locationId: string,
+  now: Date = systemClock.now()
+): Promise<number> {
+  const reports = await getRecentReports(locationId, REPORT_ALERT_WINDOW_HOURS, now);
+  const fresh = reports.some(
+    (r) => r.report_type === 'funds_available' && !r.hidden && reportReliability(r) >= REPORT_WEAK_SIGNAL
+  );
+  if (!fresh) return 0;
+
+  const supabase = createServerClient();
+  const subscribers = await getActiveSubscriptions(supabase, 'report', [locationId]);
+  if (subscribers.length === 0) return 0;
+
+  const location = await getLocationWithOrganization(locationId);
+  if (!location) return 0;
+
+  const subscriptions = await filterBySpecialty(supabase, subscribers, locationId, location.organization.id);
+  const today = toFundDay(now);
+
+  let sent = 0;
+  for (const sub of subscriptions) {
+    const delivered = await deliver(supabase, sub, 'report', `report:${today.year}-${today.month}-${today.day}`, {
+      title: `Fonduri disponibile: ${sub.location?.name || 'clinica urmărită'}`,
+      body: `Un utilizator a raportat că ${describeTarget(sub)} are fonduri CAS disponibile. Confirmați telefonic înainte de deplasare.`,
+      url: clinicUrl(sub.location_id),
+    });
+    if (delivered) sent++;
+  }
+
+  return sent;
+}
+
+/**
+ * Re-run the prediction for every location with prediction subscribers and
+ * notify those whose last seen prediction was below the threshold and is
+ * now at or above it. Meant to be called periodically (see /api/alerts/check).
+ */
+export async function checkPredictionCrossings(
+  now: Date = systemClock.now()
+): Promise<{ locations: number; notified: number }> {
+  const supabase = createServerClient();
+  const subscriptions = await getActiveSubscriptions(supabase, 'prediction');
+  const today = toFundDay(now);
+
+  const byLocation = new Map<string, SubscriptionRow[]>();
+  for (const sub of subscriptions) {
+    const list = byLocation.get(sub.location_id) || [];
+    list.push(sub);
+    byLocation.set(sub.location_id, list);
+  }
+
+  let notified = 0;
+  for (const [locationId, subs] of Array.from(byLocation.entries())) {
+    const location = await getLocationWithOrganization(locationId);
+    if (!location) continue;
+
+    const allocation = await getMonthlyAllocation(location.organization.id, today);
+    if (!allocation?.allocated_amount) continue;
+
+    const prediction = await fundPredictor.predict({
+      providerId: location.organization.id,
+      providerCui: location.organization.cui || '',
+      serviceType: location.organization.provider_type,
+      countyCode: location.county?.code,
+      currentDate: now,
+      allocatedAmount: allocation.allocated_amount,
+      recentUserReports: await getRecentReports(locationId, 48, now),
+    });
+
+    const available = prediction.predictedAvailability >= ALERT_PREDICTION_THRESHOLD;
+    const percent = Math.round(prediction.predictedAvailability * 100);
+    const interested = await filterBySpecialty(supabase, subs, locationId, location.organization.id);
+
+    for (const sub of subs) {
+      if (available && sub.last_predicted_available === false && interested.includes(sub)) {
+        const delivered = await deliver(
+          supabase,
+          sub,
+          'prediction',
+          `prediction:${today.year}-${today.month}-${today.day}`,
+          {
+            title: `Fonduri probabil disponibile: ${location.name}`,
+            body: `Estimarea pentru ${describeTarget(sub)} a crescut la ${percent}%. ${prediction.explanation}`,
+            url: clinicUrl(locationId),
+          }
+        );
+        if (delivered) notified++;
+      }
+
+      if (sub.last_predicted_available !== available) {
+        await supabase
+          .from(TABLES.ALERT_SUBSCRIPTIONS)
+          .update({ last_predicted_available: available })
+          .eq('id', sub.id);
+      }
+    }
+  }
+
+  return { locations: byLocation.size, notified };
+}
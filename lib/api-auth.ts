@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from './supabase';
+import { KEY_PREFIX, RateLimitInfo, hashApiKey, rateLimitHeaders } from './api-keys';
+
+// Requests send the key as `Authorization: Bearer <key>` or `X-API-Key:
+// <key>`. Every request is counted by record_api_request
+// (supabase/migrations/20261018000014_api_keys.sql), which also enforces the
+// key's per-minute limit.
+
+function readApiKey(request: NextRequest): string | null {
+  const header = request.headers.get('x-api-key');
+  if (header) return header.trim();
+
+  const authorization = request.headers.get('authorization');
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return null;
+}
+
+/**
+ * Check the API key of a /api/v1 request and count it against the key's
+ * limit. Returns the error response (401, 429), or the rate limit state to
+ * send back with the data.
+ */
+export async function checkApiKey(
+  request: NextRequest,
+  endpoint: string
+): Promise<{ error: NextResponse } | { rateLimit: RateLimitInfo }> {
+  const key = readApiKey(request);
+
+  if (!key || !key.startsWith(KEY_PREFIX)) {
+    return {
+      error: NextResponse.json(
+        { error: 'API key required: send it as "Authorization: Bearer <key>" or "X-API-Key: <key>"' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const { data, error } = await createServerClient().rpc('record_api_request', {
+    api_key_hash: hashApiKey(key),
+    api_endpoint: endpoint,
+  });
+
+  if (error) throw new Error(`API key check failed: ${error.message}`);
+
+  const row = (data as { allowed: boolean; rate_limit: number; remaining: number; reset_at: string }[] | null)?.[0];
+  if (!row) {
+    return { error: NextResponse.json({ error: 'Invalid or revoked API key' }, { status: 401 }) };
+  }
+
+  const rateLimit: RateLimitInfo = {
+    limit: row.rate_limit,
+    remaining: row.remaining,
+    resetAt: new Date(row.reset_at),
+  };
+
+  if (!row.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((rateLimit.resetAt.getTime() - Date.now()) / 1000));
+    return {
+      error: NextResponse.json(
+        { error: `Rate limit of ${rateLimit.limit} requests per minute exceeded` },
+        { status: 429, headers: { ...rateLimitHeaders(rateLimit), 'Retry-After': String(retryAfter) } }
+      ),
+    };
+  }
+
+  return { rateLimit };
+}
@@ -0,0 +1,62 @@
+import { createHash, randomBytes } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// API keys of the public /api/v1 surface. A key is `fcas_` followed by 32
+// random bytes (base64url); the database keeps its SHA-256 hash and the
+// first characters for listings. Requests are checked in lib/api-auth.ts.
+
+export const KEY_PREFIX = 'fcas_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export interface IssuedApiKey {
+  id: string;
+  key: string; // only available at issuance
+  prefix: string;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Create a key and store its hash. The plain key is returned once and
+ * cannot be recovered later.
+ */
+export async function issueApiKey(
+  client: SupabaseClient,
+  input: { name: string; contactEmail?: string | null; rateLimitPerMinute?: number }
+): Promise<IssuedApiKey> {
+  const key = KEY_PREFIX + randomBytes(32).toString('base64url');
+  const prefix = key.slice(0, DISPLAY_PREFIX_LENGTH);
+
+  const { data, error } = await client
+    .from('api_keys')
+    .insert({
+      key_hash: hashApiKey(key),
+      key_prefix: prefix,
+      name: input.name,
+      contact_email: input.contactEmail || null,
+      rate_limit_per_minute: input.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) throw new Error(`Failed to issue API key: ${error?.message}`);
+  return { id: data.id, key, prefix };
+}
+
+export function rateLimitHeaders(rateLimit: RateLimitInfo): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(rateLimit.limit),
+    'X-RateLimit-Remaining': String(rateLimit.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(rateLimit.resetAt.getTime() / 1000)),
+  };
+}
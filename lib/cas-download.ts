@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as https from 'https';
+import * as http from 'http';
+import { CasSource, CasManifestEntry, readCountyManifest, writeCountyManifest } from './cas-sources';
+
+// Simple fetch function for downloading files
+export function fetchUrl(url: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const protocol = url.startsWith('https') ? https : http;
+
+    protocol.get(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      },
+    }, (response) => {
+      // Handle redirects
+      if (response.statusCode === 301 || response.statusCode === 302) {
+        const redirectUrl = response.headers.location;
+        if (redirectUrl) {
+          fetchUrl(redirectUrl).then(resolve).catch(reject);
+          return;
+        }
+      }
+
+      if (response.statusCode !== 200) {
+        reject(new Error(`HTTP ${response.statusCode} for ${url}`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', reject);
+    }).on('error', reject);
+  });
+}
+
+// Extract Excel file links from HTML
+export function extractExcelLinks(html: string, baseUrl: string, pattern: RegExp): string[] {
+  const links: string[] = [];
+
+  // Find all href attributes
+  const hrefRegex = /href=["']([^"']+\.xlsx?)["']/gi;
+  let match;
+
+  while ((match = hrefRegex.exec(html)) !== null) {
+    const href = match[1];
+    if (pattern.test(href)) {
+      // Convert relative URL to absolute
+      const absoluteUrl = href.startsWith('http')
+        ? href
+        : `${baseUrl}${href.startsWith('/') ? '' : '/'}${href}`;
+      links.push(absoluteUrl);
+    }
+  }
+
+  return links;
+}
+
+export interface CountyDownloadResult {
+  countyCode: string;
+  downloaded: CasManifestEntry[];
+  errors: { page: string; error: string }[];
+}
+
+/**
+ * Download the most recent file from every page of a county source into
+ * `<rootDir>/<county>/`. Files are named `YYYYMMDD-<page>.xlsx` so the
+ * parsers can read the publication date the same way as for manual downloads.
+ */
+export async function downloadCountySource(
+  source: CasSource,
+  rootDir: string,
+  log: (message: string) => void = console.log
+): Promise<CountyDownloadResult> {
+  const countyDir = path.join(rootDir, source.countyCode);
+  if (!fs.existsSync(countyDir)) {
+    fs.mkdirSync(countyDir, { recursive: true });
+  }
+
+  const result: CountyDownloadResult = { countyCode: source.countyCode, downloaded: [], errors: [] };
+  const datePrefix = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+  for (const page of source.pages) {
+    log(`  Page: ${page.name}`);
+
+    try {
+      // Fetch the page HTML
+      const html = (await fetchUrl(page.url)).toString('utf-8');
+
+      // Extract Excel links
+      const links = extractExcelLinks(html, source.baseUrl, page.filePattern);
+
+      if (links.length === 0) {
+        log('  ⚠ No Excel files found matching pattern');
+        result.errors.push({ page: page.name, error: 'No Excel files found matching pattern' });
+        continue;
+      }
+
+      // Download the most recent file (usually first)
+      const mostRecentUrl = links[0];
+      const fileName = `${datePrefix}-${page.name}.xlsx`;
+      const buffer = await fetchUrl(mostRecentUrl);
+      fs.writeFileSync(path.join(countyDir, fileName), buffer);
+      log(`  ✓ Saved: ${source.countyCode}/${fileName} (${(buffer.length / 1024).toFixed(1)} KB)`);
+
+      result.downloaded.push({
+        file: fileName,
+        page: page.name,
+        kind: page.kind,
+        providerType: page.providerType,
+        url: mostRecentUrl,
+        downloadedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      log(`  ✗ Error processing page: ${error}`);
+      result.errors.push({ page: page.name, error: String(error) });
+    }
+  }
+
+  // Keep manifest entries for files from earlier runs, replacing re-downloaded ones
+  const newFiles = new Set(result.downloaded.map((e) => e.file));
+  const manifest = readCountyManifest(countyDir).filter((e) => !newFiles.has(e.file));
+  writeCountyManifest(countyDir, [...manifest, ...result.downloaded]);
+
+  return result;
+}
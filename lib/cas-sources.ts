@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProviderType } from './types-v2';
+
+// ============================================
+// SOURCE REGISTRY
+// ============================================
+
+// Every county CAS publishes its provider lists and contract values as Excel
+// files, but each site has its own page layout and file naming. A source lists
+// the pages to scrape and the pattern that picks the right file on each page.
+
+export type CasFileKind = 'providers' | 'allocations';
+
+export interface CasSourcePage {
+  name: string; // Used in the downloaded file name, e.g. "furnizori_paraclinic"
+  url: string;
+  filePattern: RegExp;
+  kind: CasFileKind;
+  providerType: ProviderType;
+}
+
+export interface CasSource {
+  countyCode: string; // Matches counties.code
+  name: string;
+  baseUrl: string;
+  pages: CasSourcePage[];
+}
+
+// Add a county here once its CAS pages have been checked by hand. Only
+// București is registered so far, so providers outside it are not synced
+// yet: registering the other counties is open work, starting with the
+// largest (CJ, TM, IS, CT, BV). Counties without an entry are listed with
+// their CAS site by every download run (see getUnconfiguredCounties).
+export const CAS_SOURCES: Record<string, CasSource> = {
+  B: {
+    countyCode: 'B',
+    name: 'CASMB București',
+    baseUrl: 'https://www.casmb.ro',
+    pages: [
+      {
+        name: 'furnizori_clinici',
+        url: 'https://www.casmb.ro/casmb_furniz_clin_contracte',
+        filePattern: /FURNIZORI.*SERVICII.*MEDICALE.*\.xlsx?$/i,
+        kind: 'providers',
+        providerType: 'clinic',
+      },
+      {
+        name: 'furnizori_paraclinic',
+        url: 'https://www.casmb.ro/casmb_furniz_para_fisiere_contracte',
+        filePattern: /FURNIZORI.*PARACLINIC.*\.xlsx?$/i,
+        kind: 'providers',
+        providerType: 'paraclinic',
+      },
+      {
+        name: 'valori_paraclinic',
+        url: 'https://www.casmb.ro/casmb_furniz_para_fisiere_contracte_valori',
+        filePattern: /VALORI.*CONTRACTE.*PARACLINIC.*\.xlsx?$/i,
+        kind: 'allocations',
+        providerType: 'paraclinic',
+      },
+    ],
+  },
+};
+
+// Every county CAS, matching counties.code, with the site seeded into
+// counties.cas_website (scripts/setup-database.ts)
+export const COUNTY_CAS_WEBSITES: Record<string, string> = {
+  B: 'https://www.casmb.ro', AB: 'https://www.casalba.ro', AR: 'https://www.casarad.ro',
+  AG: 'https://www.casag.ro', BC: 'https://www.casbacau.ro', BH: 'https://www.casbihor.ro',
+  BN: 'https://www.casbn.ro', BT: 'https://www.casbotosani.ro', BV: 'https://www.casbv.ro',
+  BR: 'https://www.casbraila.ro', BZ: 'https://www.casbuzau.ro', CS: 'https://www.cascs.ro',
+  CL: 'https://www.cascalarasi.ro', CJ: 'https://www.cascluj.ro', CT: 'https://www.casconstanta.ro',
+  CV: 'https://www.cascovasna.ro', DB: 'https://www.casdambovita.ro', DJ: 'https://www.casdolj.ro',
+  GL: 'https://www.casgalati.ro', GR: 'https://www.casgiurgiu.ro', GJ: 'https://www.casgorj.ro',
+  HR: 'https://www.casharghita.ro', HD: 'https://www.cashunedoara.ro', IL: 'https://www.casialomita.ro',
+  IS: 'https://www.casiasi.ro', IF: 'https://www.casilfov.ro', MM: 'https://www.casmaramures.ro',
+  MH: 'https://www.casmehedinti.ro', MS: 'https://www.casmures.ro', NT: 'https://www.casneamt.ro',
+  OT: 'https://www.casolt.ro', PH: 'https://www.casprahova.ro', SM: 'https://www.cassatumare.ro',
+  SJ: 'https://www.cassalaj.ro', SB: 'https://www.cassibiu.ro', SV: 'https://www.cassuceava.ro',
+  TR: 'https://www.casteleorman.ro', TM: 'https://www.castimis.ro', TL: 'https://www.castulcea.ro',
+  VS: 'https://www.casvaslui.ro', VL: 'https://www.casvalcea.ro', VN: 'https://www.casvrancea.ro',
+};
+
+export const COUNTY_CODES = Object.keys(COUNTY_CAS_WEBSITES);
+
+export function getCasSource(countyCode: string): CasSource | undefined {
+  return CAS_SOURCES[countyCode.toUpperCase()];
+}
+
+/**
+ * County codes that have no registered source and are not downloaded
+ */
+export function getUnconfiguredCounties(): string[] {
+  return COUNTY_CODES.filter((code) => !CAS_SOURCES[code]);
+}
+
+// ============================================
+// DOWNLOADED DATA LAYOUT
+// ============================================
+
+// Downloads land in data/current/<county>/ together with a manifest that
+// records which page each file came from, so parsers don't have to guess
+// the county or file kind from the file name.
+
+export const CAS_DATA_DIR = path.join(process.cwd(), 'data', 'current');
+export const CAS_MANIFEST_FILE = 'manifest.json';
+
+export interface CasManifestEntry {
+  file: string;
+  page: string;
+  kind: CasFileKind;
+  providerType: ProviderType;
+  url: string;
+  downloadedAt: string;
+}
+
+export interface CasDataFile {
+  county: string;
+  filePath: string;
+  entry?: CasManifestEntry;
+}
+
+const COUNTY_DIR_PATTERN = /^[A-Z]{1,2}$/;
+
+function isExcelFile(file: string): boolean {
+  return (file.endsWith('.xlsx') || file.endsWith('.xls')) && !file.startsWith('~$');
+}
+
+export function readCountyManifest(countyDir: string): CasManifestEntry[] {
+  const manifestPath = path.join(countyDir, CAS_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) return [];
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+}
+
+export function writeCountyManifest(countyDir: string, entries: CasManifestEntry[]): void {
+  fs.writeFileSync(path.join(countyDir, CAS_MANIFEST_FILE), JSON.stringify(entries, null, 2));
+}
+
+// Download dates in file names: `YYYYMMDD-<page>.xlsx` from the download
+// runner, `<region>_<page>_YYYY-MM-DD.xlsx` from older downloads
+const DATE_PREFIX_PATTERN = /^(\d{4})(\d{2})(\d{2})-/;
+const DATE_SUFFIX_PATTERN = /_(\d{4})-(\d{2})-(\d{2})(?=\.xlsx?$)/;
+
+/**
+ * Page a file was downloaded from and when, so repeated downloads of the same
+ * page can be told apart
+ */
+function fileVersion(file: string, entry?: CasManifestEntry): { page: string; date: string } {
+  const prefix = file.match(DATE_PREFIX_PATTERN);
+  const suffix = file.match(DATE_SUFFIX_PATTERN);
+  const dated = prefix || suffix;
+  const page = entry?.page ?? file.replace(DATE_PREFIX_PATTERN, '').replace(DATE_SUFFIX_PATTERN, '');
+  const date = entry?.downloadedAt ?? (dated ? `${dated[1]}-${dated[2]}-${dated[3]}` : '');
+  return { page, date };
+}
+
+/**
+ * List the downloaded Excel files with the county they belong to, keeping
+ * only the newest download of each page: every download is a full
+ * publication, so older ones would bring back providers CAS has dropped.
+ * Files left directly in the root by older downloads are treated as București
+ * and only read while nothing has been downloaded into data/current/B/.
+ */
+export function listCasDataFiles(rootDir: string = CAS_DATA_DIR): CasDataFile[] {
+  if (!fs.existsSync(rootDir)) return [];
+
+  const latest = new Map<string, { file: CasDataFile; date: string }>();
+  const rootFiles: CasDataFile[] = [];
+
+  const add = (file: CasDataFile) => {
+    const version = fileVersion(path.basename(file.filePath), file.entry);
+    const key = `${file.county}/${version.page}`;
+    const current = latest.get(key);
+    if (!current || version.date >= current.date) {
+      latest.set(key, { file, date: version.date });
+    }
+  };
+
+  for (const name of fs.readdirSync(rootDir).sort()) {
+    const fullPath = path.join(rootDir, name);
+
+    if (fs.statSync(fullPath).isDirectory()) {
+      if (!COUNTY_DIR_PATTERN.test(name)) continue;
+
+      const manifest = new Map(readCountyManifest(fullPath).map((e) => [e.file, e]));
+      for (const file of fs.readdirSync(fullPath).sort()) {
+        if (!isExcelFile(file)) continue;
+        add({ county: name, filePath: path.join(fullPath, file), entry: manifest.get(file) });
+      }
+    } else if (isExcelFile(name)) {
+      rootFiles.push({ county: 'B', filePath: fullPath });
+    }
+  }
+
+  if (!Array.from(latest.values()).some((v) => v.file.county === 'B')) {
+    rootFiles.forEach(add);
+  }
+
+  return Array.from(latest.values())
+    .map((v) => v.file)
+    .sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
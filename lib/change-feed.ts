@@ -0,0 +1,228 @@
+import { supabase, TABLES } from './supabase';
+import { formatCurrency, formatDate, getMonthName, normalizeRomanian } from './utils';
+import {
+  CHANGE_FEED_TYPE_LABELS,
+  ChangeFeedEntry,
+  DatasetChangeItem,
+  PROVIDER_TYPE_LABELS,
+  ProviderType,
+  SERVICE_TYPE_LABELS,
+} from './types-v2';
+
+// The public "what changed" feed: contracts that started or ended between
+// two CAS publications (dataset_changes, written by lib/dataset-diff.ts) and
+// new or significantly changed monthly allocations (allocation_changes RPC).
+// Shown on /changes and served as Atom by /api/feeds/<county>.xml.
+
+export const DEFAULT_FEED_LIMIT = 50;
+export const MAX_FEED_LIMIT = 200;
+
+// Publications read for contract changes, newest first
+const DATASET_CHANGE_RECORDS = 10;
+
+// Allocations moving by at least this share against the previous month
+const ALLOCATION_CHANGE_RATIO = 0.25;
+
+interface AllocationChangeRow {
+  organization_id: string;
+  organization_name: string;
+  network_brand: string | null;
+  location_id: string | null;
+  county_code: string | null;
+  period_year: number;
+  period_month: number;
+  service_type: string | null;
+  allocated_amount: number;
+  previous_amount: number | null;
+  synced_at: string;
+}
+
+/**
+ * Stable part of an entry id for a provider: its ID or CUI, else its name
+ * as a slug, which keeps the Atom id a valid URN and survives re-spelled
+ * diacritics, case and punctuation
+ */
+function providerKey(item: DatasetChangeItem): string {
+  if (item.organization_id) return item.organization_id;
+  const cui = item.cui?.replace(/[^A-Za-z0-9]/g, '');
+  if (cui) return cui;
+  return normalizeRomanian(item.name).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function contractEntry(
+  item: DatasetChangeItem,
+  record: { id: string; snapshot_date: string; created_at: string },
+  countyNames: Map<string, string>
+): ChangeFeedEntry {
+  const type = item.change === 'added' ? 'contract_added' : 'contract_ended';
+  const typeLabel = PROVIDER_TYPE_LABELS[item.provider_type as ProviderType] || item.provider_type;
+  const county = item.county ? countyNames.get(item.county) || item.county : null;
+  const where = county ? ` din ${county}` : '';
+  const published = formatDate(record.snapshot_date);
+
+  return {
+    id: `${record.id}:${item.change}:${providerKey(item)}`,
+    type,
+    date: record.created_at,
+    title: `${CHANGE_FEED_TYPE_LABELS[type]}: ${item.name}`,
+    summary: type === 'contract_added'
+      ? `${typeLabel}${where} apare în lista CAS publicată la ${published}.`
+      : `${typeLabel}${where} nu mai apare în lista CAS publicată la ${published}.`,
+    organizationName: item.name,
+    county: item.county,
+    locationId: item.location_id,
+  };
+}
+
+function allocationEntry(row: AllocationChangeRow): ChangeFeedEntry {
+  const name = row.network_brand || row.organization_name;
+  const period = `${getMonthName(row.period_month)} ${row.period_year}`;
+  const service = row.service_type ? SERVICE_TYPE_LABELS[row.service_type] || row.service_type : null;
+  const forService = service ? ` (${service})` : '';
+  const amount = Number(row.allocated_amount);
+  const previous = row.previous_amount !== null ? Number(row.previous_amount) : null;
+
+  const base = {
+    id: `allocation:${row.organization_id}:${row.period_year}-${row.period_month}:${row.service_type || ''}`,
+    date: row.synced_at,
+    organizationName: name,
+    county: row.county_code,
+    locationId: row.location_id,
+    amount,
+  };
+
+  if (!previous) {
+    return {
+      ...base,
+      type: 'allocation_new',
+      title: `${CHANGE_FEED_TYPE_LABELS.allocation_new}: ${name} – ${period}`,
+      summary: `${formatCurrency(amount)} alocați pentru ${period}${forService}.`,
+    };
+  }
+
+  const change = Math.round(((amount - previous) / previous) * 100);
+  return {
+    ...base,
+    type: 'allocation_changed',
+    previousAmount: previous,
+    title: `${change > 0 ? 'Alocare mărită' : 'Alocare redusă'} cu ${Math.abs(change)}%: ${name}`,
+    summary: `${formatCurrency(amount)} pentru ${period}${forService}, față de ${formatCurrency(previous)} luna anterioară.`,
+  };
+}
+
+/**
+ * Most recent changes, newest first, optionally limited to one county
+ */
+export async function getChangeFeed(
+  options: { county?: string | null; limit?: number } = {}
+): Promise<ChangeFeedEntry[]> {
+  const county = options.county || null;
+  const limit = options.limit ?? DEFAULT_FEED_LIMIT;
+
+  let recordsQuery = supabase
+    .from(TABLES.DATASET_CHANGES)
+    .select('id, snapshot_date, created_at, changes')
+    .order('created_at', { ascending: false })
+    .limit(DATASET_CHANGE_RECORDS);
+
+  if (county) {
+    recordsQuery = recordsQuery.contains('counties', [county]);
+  }
+
+  const [{ data: records, error: recordsError }, { data: allocations, error: allocationsError }, { data: counties }] =
+    await Promise.all([
+      recordsQuery,
+      supabase.rpc('allocation_changes', {
+        filter_county: county,
+        min_change_ratio: ALLOCATION_CHANGE_RATIO,
+        result_limit: limit,
+      }),
+      supabase.from(TABLES.COUNTIES).select('code, name'),
+    ]);
+
+  if (recordsError) throw new Error(`Failed to fetch dataset changes: ${recordsError.message}`);
+  if (allocationsError) throw new Error(`Failed to fetch allocation changes: ${allocationsError.message}`);
+
+  const countyNames = new Map<string, string>();
+  for (const c of counties || []) countyNames.set(c.code, c.name);
+
+  const entries: ChangeFeedEntry[] = [];
+
+  for (const record of records || []) {
+    for (const item of (record.changes || []) as DatasetChangeItem[]) {
+      if (item.change === 'changed') continue;
+      if (county && item.county !== county) continue;
+      entries.push(contractEntry(item, record, countyNames));
+    }
+  }
+
+  for (const row of (allocations || []) as AllocationChangeRow[]) {
+    entries.push(allocationEntry(row));
+  }
+
+  return entries
+    .sort((a, b) => b.date.localeCompare(a.date) || a.title.localeCompare(b.title))
+    .slice(0, limit);
+}
+
+/**
+ * Clinic page of the entry, or a search for the provider when the sync
+ * couldn't tie it to a location
+ */
+export function getChangeEntryPath(entry: ChangeFeedEntry): string {
+  return entry.locationId
+    ? `/clinic/${entry.locationId}`
+    : `/search?query=${encodeURIComponent(entry.organizationName)}`;
+}
+
+// ============================================
+// ATOM
+// ============================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function buildAtomFeed(feed: {
+  title: string;
+  selfUrl: string;
+  pageUrl: string;
+  baseUrl: string;
+  entries: ChangeFeedEntry[];
+}): string {
+  // An empty feed still needs an <updated>; the request time will do
+  const updated = feed.entries[0]?.date || new Date().toISOString();
+
+  const entries = feed.entries.map((entry) => {
+    const link = `${feed.baseUrl}${getChangeEntryPath(entry)}`;
+    return [
+      '  <entry>',
+      `    <id>urn:fondcas:change:${escapeXml(entry.id)}</id>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(link)}"/>`,
+      `    <updated>${new Date(entry.date).toISOString()}</updated>`,
+      `    <category term="${entry.type}" label="${escapeXml(CHANGE_FEED_TYPE_LABELS[entry.type])}"/>`,
+      `    <summary>${escapeXml(entry.summary)}</summary>`,
+      '  </entry>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="ro">',
+    `  <id>${escapeXml(feed.selfUrl)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.pageUrl)}"/>`,
+    `  <updated>${new Date(updated).toISOString()}</updated>`,
+    '  <author><name>FondCAS</name></author>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
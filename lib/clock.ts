@@ -0,0 +1,76 @@
+// Time for fund estimation.
+//
+// CAS allocations are monthly and follow the Romanian calendar, so "which
+// month" and "which day of the month" are always read in Europe/Bucharest,
+// whatever timezone the server runs in. Callers pass the instant (or a clock)
+// explicitly so estimates can be replayed for past or future dates.
+
+export const FUND_TIMEZONE = 'Europe/Bucharest';
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export function fixedClock(at: Date): Clock {
+  return { now: () => new Date(at.getTime()) };
+}
+
+export interface FundPeriod {
+  year: number;
+  month: number; // 1-12
+}
+
+export interface FundDay extends FundPeriod {
+  day: number;
+  daysInMonth: number;
+}
+
+const calendarFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: FUND_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+});
+
+export function daysInPeriod(period: FundPeriod): number {
+  return new Date(Date.UTC(period.year, period.month, 0)).getUTCDate();
+}
+
+/**
+ * Calendar day in Bucharest for an instant
+ */
+export function toFundDay(at: Date): FundDay {
+  const parts = calendarFormat.formatToParts(at);
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)!.value);
+  const period = { year: get('year'), month: get('month') };
+  return { ...period, day: get('day'), daysInMonth: daysInPeriod(period) };
+}
+
+/**
+ * An instant on the given day of a period. Midday UTC is the same calendar
+ * day in Bucharest in both winter (UTC+2) and summer (UTC+3) time.
+ */
+export function fundDayDate(period: FundPeriod, day: number): Date {
+  return new Date(Date.UTC(period.year, period.month - 1, day, 12));
+}
+
+/**
+ * Parse an `?at=YYYY-MM-DD` query parameter. Returns undefined when absent
+ * and null when malformed.
+ */
+export function parseAtParam(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const period = { year: parseInt(match[1]), month: parseInt(match[2]) };
+  const day = parseInt(match[3]);
+  if (period.month < 1 || period.month > 12 || day < 1 || day > daysInPeriod(period)) return null;
+
+  return fundDayDate(period, day);
+}
@@ -0,0 +1,333 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { EntityIndex, MatchRecord, normalizeAddress, normalizePhone } from './entity-resolution';
+import { mapSpecialties } from './specialty-taxonomy';
+import { SyncOrganization, normalizeCountyCode } from './v2-sync';
+import { DatasetChangeItem, DatasetFieldChange } from './types-v2';
+
+// Comparison of a parsed CAS publication with the organizations in the
+// database. Each publication is a full snapshot of the contracted providers
+// of the counties it covers, so an organization missing from it no longer
+// has a contract. Used by the sync runner's diff stage and by
+// scripts/sync-v2-to-db.ts; the result is stored in dataset_changes.
+
+const PAGE_SIZE = 1000; // PostgREST row limit
+const ID_BATCH_SIZE = 100; // IDs per `in` filter
+
+// A county losing more than this share of its providers at once is far more
+// likely a partial download than mass terminations; its removals are skipped
+const MAX_REMOVED_SHARE = 0.25;
+const MIN_REMOVALS_CHECKED = 10;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DatasetDiff {
+  snapshotDate: string;
+  counties: string[]; // county codes the snapshot covered
+  added: DatasetChangeItem[];
+  removed: DatasetChangeItem[];
+  changed: DatasetChangeItem[];
+  skippedCounties: string[]; // counties whose removals were not trusted
+}
+
+interface StoredOrganization extends MatchRecord {
+  providerType: string;
+  contractNumber: string | null;
+  county: string | null;
+  locationId: string | null;
+  specialties: { code: string; name: string }[];
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/**
+ * Organizations with an active contract, with their primary location and
+ * specialties
+ */
+async function loadActiveOrganizations(supabase: SupabaseClient): Promise<StoredOrganization[]> {
+  const organizations: StoredOrganization[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select(`
+        id,
+        cui,
+        legal_name,
+        provider_type,
+        cnas_contract_number,
+        locations (id, address, phone, email, is_primary, county:counties (code)),
+        organization_specialties (specialty:specialties (code, name))
+      `)
+      .is('contract_end_date', null)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load organizations: ${error.message}`);
+
+    for (const org of (data || []) as any[]) {
+      const locations = org.locations || [];
+      const primary = locations.find((l: any) => l.is_primary) || locations[0];
+
+      organizations.push({
+        id: org.id,
+        name: org.legal_name,
+        cui: org.cui,
+        address: primary?.address,
+        phone: primary?.phone,
+        email: primary?.email,
+        providerType: org.provider_type,
+        contractNumber: org.cnas_contract_number,
+        county: primary?.county?.code || null,
+        locationId: primary?.id || null,
+        specialties: (org.organization_specialties || [])
+          .map((link: any) => link.specialty)
+          .filter((s: any) => s && s.code),
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return organizations;
+}
+
+// ============================================
+// COMPARISON
+// ============================================
+
+function compareOrganization(stored: StoredOrganization, org: SyncOrganization): DatasetFieldChange[] {
+  const fields: DatasetFieldChange[] = [];
+  const parsed = org.primaryLocation;
+
+  // Missing values in the publication are not treated as removals
+  if (parsed.address && stored.address && normalizeAddress(parsed.address) !== normalizeAddress(stored.address)) {
+    fields.push({ field: 'address', before: stored.address, after: parsed.address });
+  }
+
+  if (parsed.phone && stored.phone && normalizePhone(parsed.phone) !== normalizePhone(stored.phone)) {
+    fields.push({ field: 'phone', before: stored.phone, after: parsed.phone });
+  }
+
+  const specialties = mapSpecialties(org.specialties);
+  if (specialties.length > 0) {
+    const before = stored.specialties.map(s => s.code).sort();
+    const after = Array.from(new Set(specialties.map(s => s.code))).sort();
+    if (before.join(',') !== after.join(',')) {
+      fields.push({
+        field: 'specialties',
+        before: stored.specialties.map(s => s.name).sort(),
+        after: Array.from(new Set(specialties.map(s => s.name))).sort(),
+      });
+    }
+  }
+
+  const contractNumber = org.cnasContractNumber?.trim();
+  if (contractNumber && stored.contractNumber && contractNumber !== stored.contractNumber.trim()) {
+    fields.push({ field: 'contract_number', before: stored.contractNumber, after: contractNumber });
+  }
+
+  return fields;
+}
+
+function storedItem(stored: StoredOrganization, change: 'removed' | 'changed'): DatasetChangeItem {
+  return {
+    change,
+    organization_id: stored.id,
+    location_id: stored.locationId,
+    cui: stored.cui || null,
+    name: stored.name,
+    county: stored.county,
+    provider_type: stored.providerType,
+  };
+}
+
+/**
+ * Compare a parsed publication with the database. Read-only: the result is
+ * applied by recordDatasetChanges() once the upload has run.
+ */
+export async function diffOrganizations(
+  supabase: SupabaseClient,
+  organizations: SyncOrganization[],
+  options: { log?: (message: string) => void } = {}
+): Promise<DatasetDiff> {
+  const log = options.log ?? console.log;
+
+  const stored = await loadActiveOrganizations(supabase);
+  const index = new EntityIndex(stored);
+  const seen = new Set<string>();
+
+  const counties = new Set<string>();
+  let snapshotDate = '';
+
+  const diff: DatasetDiff = {
+    snapshotDate: '',
+    counties: [],
+    added: [],
+    removed: [],
+    changed: [],
+    skippedCounties: [],
+  };
+
+  for (const org of organizations) {
+    const county = normalizeCountyCode(org.primaryLocation.county);
+    counties.add(county);
+    if (org.dataSourceDate && org.dataSourceDate > snapshotDate) {
+      snapshotDate = org.dataSourceDate;
+    }
+
+    const { status, match } = index.resolve({
+      name: org.legalName,
+      cui: org.cui,
+      address: org.primaryLocation.address,
+      phone: org.primaryLocation.phone,
+      email: org.primaryLocation.email,
+    });
+
+    if (match) {
+      seen.add(match.record.id);
+      // Loose matches are held for review by the upload; not a change yet
+      if (status === 'review') continue;
+
+      const fields = compareOrganization(match.record, org);
+      if (fields.length > 0) {
+        diff.changed.push({ ...storedItem(match.record, 'changed'), fields });
+      }
+    } else {
+      diff.added.push({
+        change: 'added',
+        organization_id: null,
+        location_id: null,
+        cui: org.cui || null,
+        name: org.legalName,
+        county,
+        provider_type: org.providerType,
+      });
+    }
+  }
+
+  // Only counties present in the publication can have lost providers
+  const activeByCounty = new Map<string, number>();
+  const removedByCounty = new Map<string, StoredOrganization[]>();
+
+  for (const org of stored) {
+    if (!org.county || !counties.has(org.county)) continue;
+    activeByCounty.set(org.county, (activeByCounty.get(org.county) || 0) + 1);
+    if (!seen.has(org.id)) {
+      const removed = removedByCounty.get(org.county);
+      if (removed) {
+        removed.push(org);
+      } else {
+        removedByCounty.set(org.county, [org]);
+      }
+    }
+  }
+
+  for (const [county, removed] of Array.from(removedByCounty.entries())) {
+    const active = activeByCounty.get(county) || 0;
+    if (removed.length >= MIN_REMOVALS_CHECKED && removed.length > active * MAX_REMOVED_SHARE) {
+      diff.skippedCounties.push(county);
+      log(`  ${county}: ${removed.length} of ${active} providers missing, removals skipped (partial publication?)`);
+      continue;
+    }
+    diff.removed.push(...removed.map(org => storedItem(org, 'removed')));
+  }
+
+  diff.snapshotDate = snapshotDate || new Date().toISOString().slice(0, 10);
+  diff.counties = Array.from(counties).sort();
+
+  log(`Changes: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`);
+  return diff;
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+/**
+ * IDs of the organizations added by the upload, and of their primary locations
+ */
+async function resolveAddedItems(supabase: SupabaseClient, items: DatasetChangeItem[]): Promise<void> {
+  const byCui = new Map<string, string>();
+  const byName = new Map<string, string>();
+
+  const cuis = items.filter(i => i.cui).map(i => i.cui as string);
+  const names = items.filter(i => !i.cui).map(i => i.name);
+
+  for (let i = 0; i < cuis.length; i += ID_BATCH_SIZE) {
+    const { data } = await supabase.from('organizations').select('id, cui').in('cui', cuis.slice(i, i + ID_BATCH_SIZE));
+    for (const row of data || []) byCui.set(row.cui, row.id);
+  }
+  for (let i = 0; i < names.length; i += ID_BATCH_SIZE) {
+    const { data } = await supabase
+      .from('organizations')
+      .select('id, legal_name')
+      .in('legal_name', names.slice(i, i + ID_BATCH_SIZE));
+    for (const row of data || []) byName.set(row.legal_name, row.id);
+  }
+
+  for (const item of items) {
+    item.organization_id = (item.cui ? byCui.get(item.cui) : byName.get(item.name)) || null;
+  }
+
+  const organizationIds = items.filter(i => i.organization_id).map(i => i.organization_id as string);
+  const locationByOrganization = new Map<string, string>();
+
+  for (let i = 0; i < organizationIds.length; i += ID_BATCH_SIZE) {
+    const { data } = await supabase
+      .from('locations')
+      .select('id, organization_id, is_primary')
+      .in('organization_id', organizationIds.slice(i, i + ID_BATCH_SIZE));
+    for (const row of data || []) {
+      if (row.is_primary || !locationByOrganization.has(row.organization_id)) {
+        locationByOrganization.set(row.organization_id, row.id);
+      }
+    }
+  }
+
+  for (const item of items) {
+    item.location_id = item.organization_id ? locationByOrganization.get(item.organization_id) || null : null;
+  }
+}
+
+/**
+ * End the contracts of removed organizations (hiding them from search) and
+ * store the diff. Run after the upload, which reactivates organizations
+ * present in the publication.
+ */
+export async function recordDatasetChanges(
+  supabase: SupabaseClient,
+  diff: DatasetDiff,
+  options: { syncRunId?: string } = {}
+): Promise<string> {
+  await resolveAddedItems(supabase, diff.added);
+
+  const removedIds = diff.removed.map(item => item.organization_id as string);
+  for (let i = 0; i < removedIds.length; i += ID_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('organizations')
+      .update({ contract_end_date: diff.snapshotDate })
+      .in('id', removedIds.slice(i, i + ID_BATCH_SIZE));
+    if (error) throw new Error(`Failed to end contracts: ${error.message}`);
+  }
+
+  const { data, error } = await supabase
+    .from('dataset_changes')
+    .insert({
+      sync_run_id: options.syncRunId || null,
+      snapshot_date: diff.snapshotDate,
+      counties: diff.counties,
+      added_count: diff.added.length,
+      removed_count: diff.removed.length,
+      changed_count: diff.changed.length,
+      changes: [...diff.added, ...diff.removed, ...diff.changed],
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) throw new Error(`Failed to store dataset changes: ${error?.message}`);
+  return data.id;
+}
@@ -0,0 +1,124 @@
+// Cumulative within-month depletion curves.
+//
+// A curve maps a day of the month (1-31) to the share of the monthly
+// allocation consumed by the end of that day. Months are shorter than 31
+// days, so lookups and fits place a day at the same relative position in a
+// 31-day grid: day 15 of February and day 16 of March land on the same point.
+
+export type DepletionCurve = Record<number, number>;
+
+export interface DepletionObservation {
+  day: number;
+  daysInMonth: number;
+  rate: number; // consumed / allocated at the end of `day`
+}
+
+export const CURVE_DAYS = 31;
+
+// Published overspend rarely exceeds this; larger values are parsing noise
+const MAX_RATE = 2;
+
+function toGridDay(day: number, daysInMonth: number): number {
+  return Math.min(CURVE_DAYS, Math.max(1, Math.round((day / daysInMonth) * CURVE_DAYS)));
+}
+
+/**
+ * Straight-line curve reaching `monthlyRate` on the last day
+ */
+export function linearDepletionCurve(monthlyRate: number = 1): DepletionCurve {
+  const curve: DepletionCurve = {};
+  for (let d = 1; d <= CURVE_DAYS; d++) {
+    curve[d] = Math.min(MAX_RATE, (monthlyRate * d) / CURVE_DAYS);
+  }
+  return curve;
+}
+
+/**
+ * Read a curve at a day of a month with `daysInMonth` days
+ */
+export function curveValueAt(curve: DepletionCurve, day: number, daysInMonth: number): number {
+  const value = curve[toGridDay(day, daysInMonth)];
+  return value !== undefined ? value : day / daysInMonth;
+}
+
+/**
+ * Day of a month with `daysInMonth` days that a grid day falls on, rounded
+ * up (the inverse of the grid placement above)
+ */
+export function monthDayAt(gridDay: number, daysInMonth: number): number {
+  return Math.min(daysInMonth, Math.max(1, Math.ceil((gridDay / CURVE_DAYS) * daysInMonth)));
+}
+
+/**
+ * First day the curve reaches `threshold` of the allocation (31 if never)
+ */
+export function depletionDay(curve: DepletionCurve, threshold: number = 0.9): number {
+  for (let d = 1; d <= CURVE_DAYS; d++) {
+    if ((curve[d] ?? 0) >= threshold) return d;
+  }
+  return CURVE_DAYS;
+}
+
+/**
+ * Fit a cumulative curve to consumption snapshots.
+ *
+ * Observations are averaged per grid day, made non-decreasing with weighted
+ * isotonic regression (pool adjacent violators), then linearly interpolated
+ * from (0, 0). Past the last observed day the curve continues at its average
+ * slope so a month seen only up to day 20 still reaches a month-end value.
+ */
+export function fitDepletionCurve(observations: DepletionObservation[]): DepletionCurve | null {
+  const bins = new Map<number, { sum: number; count: number }>();
+
+  for (const obs of observations) {
+    if (!(obs.rate >= 0 && obs.rate <= MAX_RATE) || obs.daysInMonth <= 0) continue;
+    const day = toGridDay(obs.day, obs.daysInMonth);
+    const bin = bins.get(day) || { sum: 0, count: 0 };
+    bin.sum += obs.rate;
+    bin.count++;
+    bins.set(day, bin);
+  }
+
+  if (bins.size === 0) return null;
+
+  // Pool adjacent violators over bins sorted by day
+  const blocks: { days: number[]; value: number; weight: number }[] = [];
+  for (const day of Array.from(bins.keys()).sort((a, b) => a - b)) {
+    const bin = bins.get(day)!;
+    blocks.push({ days: [day], value: bin.sum / bin.count, weight: bin.count });
+
+    while (blocks.length > 1 && blocks[blocks.length - 2].value > blocks[blocks.length - 1].value) {
+      const last = blocks.pop()!;
+      const prev = blocks[blocks.length - 1];
+      prev.value = (prev.value * prev.weight + last.value * last.weight) / (prev.weight + last.weight);
+      prev.weight += last.weight;
+      prev.days.push(...last.days);
+    }
+  }
+
+  const points: [number, number][] = [[0, 0]];
+  for (const block of blocks) {
+    for (const day of block.days) points.push([day, block.value]);
+  }
+
+  const [lastDay, lastValue] = points[points.length - 1];
+  const slope = lastDay > 0 ? lastValue / lastDay : 0;
+
+  const curve: DepletionCurve = {};
+  let p = 0;
+  for (let d = 1; d <= CURVE_DAYS; d++) {
+    while (p < points.length - 1 && points[p + 1][0] < d) p++;
+
+    let value: number;
+    if (d >= lastDay) {
+      value = lastValue + slope * (d - lastDay);
+    } else {
+      const [x0, y0] = points[p];
+      const [x1, y1] = points[p + 1];
+      value = y0 + ((y1 - y0) * (d - x0)) / (x1 - x0);
+    }
+    curve[d] = Math.min(MAX_RATE, Math.max(0, value));
+  }
+
+  return curve;
+}
@@ -0,0 +1,597 @@
+// Matching of CAS provider records against ones already in the database.
+// Used by the v1 sync (scripts/sync-to-db.ts, scripts/resync-specialties.ts)
+// for providers and by lib/v2-sync.ts for organizations.
+//
+// Candidates are only scored against records sharing a blocking key (CUI,
+// phone, business email domain, an address token or the exact name), not
+// the whole table. City and county names are not address tokens. Matches scoring close to the threshold are held back and
+// listed for review; the decisions written into that list are applied on the
+// next run.
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const MATCH_THRESHOLD = 80;
+// Scores within this distance of the threshold (either side) need a review
+export const REVIEW_MARGIN = 10;
+
+export const SCORES = {
+  CUI_MATCH: 1000,           // Definitive match
+  BUSINESS_EMAIL: 100,       // Custom email domain match
+  PHONE_MATCH: 50,           // Same phone number
+  ADDRESS_MATCH: 50,         // Same normalized address
+  NAME_HIGH_SIMILARITY: 30,  // Name >80% similar
+  NAME_EXACT: 50,            // Exact normalized name
+  NAME_UNCONTESTED: 100,     // Exact name and no field both records have
+};
+
+// Generic email domains that should NOT be used for matching
+export const GENERIC_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'yahoo.com', 'yahoo.ro', 'yahoo.co.uk',
+  'hotmail.com', 'hotmail.ro', 'outlook.com',
+  'mail.com', 'email.com', 'icloud.com',
+  'live.com', 'msn.com', 'aol.com',
+  'protonmail.com', 'zoho.com',
+  'yaho.com', 'gmai.com', // Common typos in data
+]);
+
+// Street types and markers that say nothing about which street it is
+const ADDRESS_STOP_WORDS = ['str', 'bd', 'cal', 'sos', 'nr', 'sect', 'prel', 'al'];
+
+// Words naming a county, county seat or kind of settlement (without
+// diacritics). Every address of a county carries them, so they would put the
+// whole county in one block; they are not used as blocking keys.
+const PLACE_WORDS = new Set([
+  'jud', 'judet', 'judetul', 'mun', 'municipiul', 'oras', 'orasul', 'comuna', 'com', 'sat', 'satul', 'romania',
+  'alba', 'iulia', 'arad', 'arges', 'pitesti', 'bacau', 'bihor', 'oradea', 'bistrita', 'nasaud',
+  'botosani', 'brasov', 'braila', 'buzau', 'caras', 'severin', 'resita', 'calarasi', 'cluj', 'napoca',
+  'constanta', 'covasna', 'sfantu', 'gheorghe', 'dambovita', 'targoviste', 'dolj', 'craiova',
+  'galati', 'giurgiu', 'gorj', 'targu', 'jiu', 'harghita', 'miercurea', 'ciuc', 'hunedoara', 'deva',
+  'ialomita', 'slobozia', 'iasi', 'ilfov', 'maramures', 'baia', 'mehedinti', 'drobeta', 'turnu',
+  'mures', 'neamt', 'piatra', 'olt', 'slatina', 'prahova', 'ploiesti', 'satu', 'salaj', 'zalau',
+  'sibiu', 'suceava', 'teleorman', 'alexandria', 'timis', 'timisoara', 'tulcea', 'vaslui',
+  'valcea', 'ramnicu', 'vrancea', 'focsani', 'bucuresti',
+]);
+
+// Address blocks larger than this are skipped when looking up candidates: a
+// token that common (a long boulevard, a place name missing above) narrows
+// nothing and would bring back the scan over every record
+const MAX_ADDRESS_BLOCK = 50;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MatchCandidate {
+  name: string;
+  cui?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+}
+
+export interface MatchRecord extends MatchCandidate {
+  id: string;
+}
+
+export interface MatchResult<T extends MatchRecord> {
+  record: T;
+  score: number;
+  reasons: string[];
+}
+
+export type ReviewDecision = 'pending' | 'merge' | 'separate';
+
+export interface ReviewEntry {
+  key: string; // identifies the candidate across runs
+  candidate: MatchCandidate;
+  match: MatchRecord;
+  score: number;
+  reasons: string[];
+  // Edit to 'merge' or 'separate'; the next run applies it
+  decision: ReviewDecision;
+}
+
+export interface Resolution<T extends MatchRecord> {
+  // 'review': the best match is close to the threshold and no decision was
+  // recorded yet; callers leave the candidate alone until there is one
+  status: 'matched' | 'review' | 'new';
+  match: MatchResult<T> | null;
+}
+
+export interface ResolutionOptions {
+  threshold?: number;
+  reviewMargin?: number;
+  // Entries of an earlier review file; 'merge' and 'separate' are applied
+  decisions?: ReviewEntry[];
+}
+
+interface NormalizedRecord {
+  name: string;
+  cui: string | null;
+  businessEmailDomain: string | null;
+  phone: string | null;
+  address: string | null;
+  addressTokens: string[];
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+/**
+ * Normalize provider name for matching
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.,;:'"()]/g, '')
+    .replace(/\bs\.?c\.?\s*/gi, '')  // Remove SC prefix
+    .replace(/\bs\.?r\.?l\.?\b/gi, 'srl')
+    .replace(/\bs\.?a\.?\b/gi, 'sa')
+    .trim();
+}
+
+/**
+ * CUI digits without the RO (VAT) prefix
+ */
+export function normalizeCui(cui: string | null | undefined): string | null {
+  if (!cui) return null;
+  const digits = cui.replace(/\D/g, '');
+  return digits.length > 0 ? digits : null;
+}
+
+/**
+ * Extract all email domains from a possibly multi-email string
+ */
+export function getAllEmailDomains(email: string | null | undefined): string[] {
+  if (!email) return [];
+  const domains: string[] = [];
+  const emailParts = email.split(/[\s,;]+/);
+  for (const part of emailParts) {
+    const match = part.toLowerCase().match(/@([a-z0-9.-]+)/);
+    if (match && !domains.includes(match[1])) {
+      domains.push(match[1]);
+    }
+  }
+  return domains;
+}
+
+/**
+ * Get business email domain (returns null for generic domains)
+ */
+export function getBusinessEmailDomain(email: string | null | undefined): string | null {
+  const domains = getAllEmailDomains(email);
+  for (const domain of domains) {
+    if (!GENERIC_EMAIL_DOMAINS.has(domain)) {
+      return domain;
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalize phone number for comparison
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  // Remove everything except digits
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < 6) return null;
+  // Remove country code prefix if present
+  if (digits.startsWith('40') && digits.length > 10) {
+    return digits.substring(2);
+  }
+  if (digits.startsWith('0040')) {
+    return digits.substring(4);
+  }
+  return digits;
+}
+
+function cleanAddress(address: string): string {
+  return address.toLowerCase()
+    // Standardize street type abbreviations
+    .replace(/\bbulevardul\b/g, 'bd')
+    .replace(/\bb-dul\b/g, 'bd')
+    .replace(/\bbdul\b/g, 'bd')
+    .replace(/\bbd\.\b/g, 'bd')
+    .replace(/\bstrada\b/g, 'str')
+    .replace(/\bstr\.\b/g, 'str')
+    .replace(/\bcalea\b/g, 'cal')
+    .replace(/\bsoseaua\b/g, 'sos')
+    .replace(/\bsos\.\b/g, 'sos')
+    .replace(/\bprelungirea\b/g, 'prel')
+    .replace(/\baleea\b/g, 'al')
+    .replace(/\bpiata\b/g, 'pta')
+    // Standardize number indicators
+    .replace(/\bnumar\b/g, 'nr')
+    .replace(/\bnumăr\b/g, 'nr')
+    .replace(/\bnr\.\b/g, 'nr')
+    .replace(/\bnum[aă]rul\b/g, 'nr')
+    // Standardize sector
+    .replace(/\bsectorul\b/g, 'sect')
+    .replace(/\bsector\b/g, 'sect')
+    .replace(/\bsect\.\b/g, 'sect')
+    // Remove common filler words
+    .replace(/\bloc\.\b/g, '')
+    .replace(/\blocalitatea\b/g, '')
+    .replace(/\bjude[tț]ul?\b/g, '')
+    .replace(/\bbucure[sș]ti\b/g, '')
+    // Remove punctuation and extra spaces
+    .replace(/[.,;:'"()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function addressWords(cleaned: string): string[] {
+  return cleaned.split(' ').filter(w => w.length > 2 && !ADDRESS_STOP_WORDS.includes(w));
+}
+
+/**
+ * Normalize address for comparison: `streetname-number-sector`
+ */
+export function normalizeAddress(address: string | null | undefined): string | null {
+  if (!address) return null;
+
+  const normalized = cleanAddress(address);
+
+  // Extract key components: street name, number, sector
+  const sectorMatch = normalized.match(/sect\s*(\d)/);
+  const sector = sectorMatch ? sectorMatch[1] : '';
+
+  // Try to extract street number
+  const numberMatch = normalized.match(/nr\s*(\d+[a-z]?)/i);
+  const streetNumber = numberMatch ? numberMatch[1] : '';
+
+  // Get first meaningful word (usually street name)
+  const streetName = addressWords(normalized)[0] || '';
+
+  if (!streetName) return null;
+
+  return `${streetName}-${streetNumber}-${sector}`.replace(/--+/g, '-').replace(/-$/, '');
+}
+
+/**
+ * Words of an address that name the street or place (used for blocking)
+ */
+export function getAddressTokens(address: string | null | undefined): string[] {
+  if (!address) return [];
+  const words = addressWords(cleanAddress(address))
+    .map(w => w.normalize('NFD').replace(/[\u0300-\u036f]/g, ''))
+    .filter(w => !/^\d/.test(w) && !w.split('-').every(part => PLACE_WORDS.has(part)));
+  return Array.from(new Set(words));
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function levenshteinDistance(s1: string, s2: string): number {
+  const m = s1.length;
+  const n = s2.length;
+
+  if (m === 0) return n;
+  if (n === 0) return m;
+
+  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const cost = s1[i - 1] === s2[j - 1] ? 0 : 1;
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + cost
+      );
+    }
+  }
+
+  return dp[m][n];
+}
+
+/**
+ * Calculate name similarity (0-100)
+ */
+export function calculateNameSimilarity(name1: string, name2: string): number {
+  const n1 = normalizeName(name1);
+  const n2 = normalizeName(name2);
+
+  if (n1 === n2) return 100;
+
+  // Check if one contains the other
+  if (n1.includes(n2) || n2.includes(n1)) {
+    const shorter = n1.length < n2.length ? n1 : n2;
+    const longer = n1.length >= n2.length ? n1 : n2;
+    return Math.round((shorter.length / longer.length) * 100);
+  }
+
+  // Levenshtein-based similarity
+  const maxLen = Math.max(n1.length, n2.length);
+  if (maxLen === 0) return 100;
+
+  const distance = levenshteinDistance(n1, n2);
+  return Math.round((1 - distance / maxLen) * 100);
+}
+
+function normalizeRecord(record: MatchCandidate): NormalizedRecord {
+  return {
+    name: normalizeName(record.name),
+    cui: normalizeCui(record.cui),
+    businessEmailDomain: getBusinessEmailDomain(record.email),
+    phone: normalizePhone(record.phone),
+    address: normalizeAddress(record.address),
+    addressTokens: getAddressTokens(record.address),
+  };
+}
+
+function scoreNormalized(
+  existing: { name: string; normalized: NormalizedRecord },
+  candidate: { name: string; normalized: NormalizedRecord }
+): { score: number; reasons: string[] } {
+  const p1 = existing.normalized;
+  const p2 = candidate.normalized;
+  let score = 0;
+  const reasons: string[] = [];
+
+  // CUI match - definitive
+  if (p1.cui && p2.cui && p1.cui === p2.cui) {
+    return { score: SCORES.CUI_MATCH, reasons: ['CUI match'] };
+  }
+
+  // Business email domain match
+  const emailsMatch = p1.businessEmailDomain && p2.businessEmailDomain &&
+      p1.businessEmailDomain === p2.businessEmailDomain;
+
+  // IMPORTANT: Email match alone should NOT merge different locations
+  // Only add email score if addresses also match OR if one doesn't have an address
+  const bothHaveAddresses = p1.address && p2.address;
+  const addressesMatchForEmail = !bothHaveAddresses || p1.address === p2.address;
+
+  if (emailsMatch && addressesMatchForEmail) {
+    score += SCORES.BUSINESS_EMAIL;
+    reasons.push(`email domain: ${p2.businessEmailDomain}`);
+  } else if (emailsMatch && bothHaveAddresses) {
+    // Same email but different addresses = different locations of same company
+    // Don't add score, but note it for debugging
+    reasons.push(`email match ignored (different addresses)`);
+  }
+
+  // Phone match
+  const phonesMatch = p1.phone && p2.phone && p1.phone === p2.phone;
+
+  if (phonesMatch) {
+    score += SCORES.PHONE_MATCH;
+    reasons.push(`phone: ${p2.phone}`);
+  }
+
+  // Address match
+  const addressesMatch = p1.address && p2.address && p1.address === p2.address;
+
+  if (addressesMatch) {
+    score += SCORES.ADDRESS_MATCH;
+    reasons.push(`address: ${p2.address}`);
+  }
+
+  // Name similarity
+  const bothHaveEmails = p1.businessEmailDomain && p2.businessEmailDomain;
+  const bothHavePhones = p1.phone && p2.phone;
+
+  if (p1.name === p2.name) {
+    // IMPORTANT: If names match exactly but BOTH providers have different business emails
+    // OR different addresses, they are likely DIFFERENT locations of the same company
+    if (bothHaveEmails && !emailsMatch) {
+      // Same name, but clearly different business emails = different company/location
+      // Don't add name score - this prevents false matches
+      reasons.push('name match ignored (different emails)');
+    } else if (bothHaveAddresses && !addressesMatch && !emailsMatch && !phonesMatch) {
+      // Same name, different address, no other matches = likely different location
+      reasons.push('name match ignored (different address, no other matches)');
+    } else if (!bothHaveEmails && !bothHavePhones && !bothHaveAddresses) {
+      // Nothing else to compare: the name is the only identity there is
+      score += SCORES.NAME_UNCONTESTED;
+      reasons.push('exact name (nothing else to compare)');
+    } else {
+      score += SCORES.NAME_EXACT;
+      reasons.push('exact name');
+    }
+  } else {
+    const nameSimilarity = calculateNameSimilarity(existing.name, candidate.name);
+    if (nameSimilarity >= 80) {
+      score += SCORES.NAME_HIGH_SIMILARITY;
+      reasons.push(`name ${nameSimilarity}% similar`);
+    }
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Calculate match score between two providers, with the reasons behind it
+ */
+export function calculateMatchScore(
+  existing: MatchCandidate,
+  candidate: MatchCandidate
+): { score: number; reasons: string[] } {
+  return scoreNormalized(
+    { name: existing.name, normalized: normalizeRecord(existing) },
+    { name: candidate.name, normalized: normalizeRecord(candidate) }
+  );
+}
+
+function blockingKeys(normalized: NormalizedRecord): string[] {
+  const keys: string[] = [`name:${normalized.name}`];
+  if (normalized.cui) keys.push(`cui:${normalized.cui}`);
+  if (normalized.phone) keys.push(`phone:${normalized.phone}`);
+  if (normalized.businessEmailDomain) keys.push(`email:${normalized.businessEmailDomain}`);
+  for (const token of normalized.addressTokens) {
+    keys.push(`addr:${token}`);
+  }
+  return keys;
+}
+
+/**
+ * Key of a candidate in review files: CUI when known, else name and address
+ */
+export function getCandidateKey(candidate: MatchCandidate): string {
+  const cui = normalizeCui(candidate.cui);
+  if (cui) return `cui:${cui}`;
+  return `name:${normalizeName(candidate.name)}|${normalizeAddress(candidate.address) || ''}`;
+}
+
+// ============================================
+// INDEX
+// ============================================
+
+export class EntityIndex<T extends MatchRecord> {
+  private readonly threshold: number;
+  private readonly reviewMargin: number;
+  private readonly decisions = new Map<string, ReviewDecision>();
+  private readonly entries = new Map<string, { record: T; normalized: NormalizedRecord; keys: string[] }>();
+  private readonly blocks = new Map<string, Set<string>>();
+  private readonly review: ReviewEntry[] = [];
+
+  constructor(records: T[] = [], options: ResolutionOptions = {}) {
+    this.threshold = options.threshold ?? MATCH_THRESHOLD;
+    this.reviewMargin = options.reviewMargin ?? REVIEW_MARGIN;
+
+    for (const entry of options.decisions || []) {
+      if (entry.decision !== 'pending') {
+        this.decisions.set(`${entry.key}->${entry.match.id}`, entry.decision);
+      }
+    }
+
+    for (const record of records) {
+      this.add(record);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Matches held back by resolve() in this run, for the review file
+   */
+  get reviewEntries(): ReviewEntry[] {
+    return this.review;
+  }
+
+  get(id: string): T | undefined {
+    return this.entries.get(id)?.record;
+  }
+
+  /**
+   * Add a record, or re-index it after its fields changed
+   */
+  add(record: T): void {
+    this.remove(record.id);
+
+    const normalized = normalizeRecord(record);
+    const keys = blockingKeys(normalized);
+    this.entries.set(record.id, { record, normalized, keys });
+
+    for (const key of keys) {
+      const block = this.blocks.get(key);
+      if (block) {
+        block.add(record.id);
+      } else {
+        this.blocks.set(key, new Set([record.id]));
+      }
+    }
+  }
+
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    for (const key of entry.keys) {
+      this.blocks.get(key)?.delete(id);
+    }
+    this.entries.delete(id);
+  }
+
+  /**
+   * Highest-scoring record sharing a blocking key with the candidate,
+   * whatever its score
+   */
+  findBestMatch(candidate: MatchCandidate): MatchResult<T> | null {
+    const normalized = normalizeRecord(candidate);
+    const ids = new Set<string>();
+    for (const key of blockingKeys(normalized)) {
+      const block = this.blocks.get(key);
+      if (!block || (key.startsWith('addr:') && block.size > MAX_ADDRESS_BLOCK)) continue;
+      for (const id of Array.from(block)) {
+        ids.add(id);
+      }
+    }
+
+    let best: MatchResult<T> | null = null;
+
+    for (const id of Array.from(ids)) {
+      const entry = this.entries.get(id)!;
+      const { score, reasons } = scoreNormalized(
+        { name: entry.record.name, normalized: entry.normalized },
+        { name: candidate.name, normalized }
+      );
+      if (score > 0 && (!best || score > best.score)) {
+        best = { record: entry.record, score, reasons };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Decide whether the candidate is an existing record. Scores within the
+   * review margin of the threshold follow a recorded decision, or are
+   * listed for review.
+   */
+  resolve(candidate: MatchCandidate): Resolution<T> {
+    const match = this.findBestMatch(candidate);
+
+    if (!match || match.score < this.threshold - this.reviewMargin) {
+      return { status: 'new', match: null };
+    }
+    if (match.score >= this.threshold + this.reviewMargin) {
+      return { status: 'matched', match };
+    }
+
+    const key = getCandidateKey(candidate);
+    const decision = this.decisions.get(`${key}->${match.record.id}`);
+
+    if (decision === 'merge') return { status: 'matched', match };
+    if (decision === 'separate') return { status: 'new', match: null };
+
+    this.review.push({
+      key,
+      candidate: {
+        name: candidate.name,
+        cui: candidate.cui || null,
+        email: candidate.email || null,
+        phone: candidate.phone || null,
+        address: candidate.address || null,
+      },
+      match: {
+        id: match.record.id,
+        name: match.record.name,
+        cui: match.record.cui || null,
+        email: match.record.email || null,
+        phone: match.record.phone || null,
+        address: match.record.address || null,
+      },
+      score: match.score,
+      reasons: match.reasons,
+      decision: 'pending',
+    });
+
+    return { status: 'review', match };
+  }
+}
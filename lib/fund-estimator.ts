@@ -1,18 +1,25 @@
-import { FundAllocation, UserReport, FundAvailabilityStatus, ReportType } from './types';
-import { getDayOfMonth, getDaysInMonth, getMonthName } from './utils';
+import { AllocationAmounts, ReportSignal, FundAvailabilityStatus, ReportType } from './types';
+import { getMonthName } from './utils';
+import { systemClock, toFundDay } from './clock';
+import { REPORT_STRONG_SIGNAL, REPORT_WEAK_SIGNAL, fundReportBalance, reportReliability } from './report-reliability';
 
 /**
  * Simple rule-based fund availability estimator
  * Used as a fallback when ML prediction isn't available
+ *
+ * `currentDate` is the instant being estimated; the day of month is read in
+ * Europe/Bucharest and report ages are measured from it, not the wall clock.
+ * Reports count by their reliability (votes, moderator verification), so a
+ * lone unconfirmed report can't flip the status by itself.
  */
 export function estimateFundAvailability(
-  allocation: FundAllocation | null,
-  userReports: UserReport[],
-  currentDate: Date = new Date()
+  allocation: AllocationAmounts | null,
+  userReports: ReportSignal[],
+  currentDate: Date = systemClock.now()
 ): FundAvailabilityStatus {
-  const dayOfMonth = getDayOfMonth();
-  const daysInMonth = getDaysInMonth();
-  const monthName = getMonthName(currentDate.getMonth() + 1);
+  const { month, day: dayOfMonth, daysInMonth } = toFundDay(currentDate);
+  const monthName = getMonthName(month);
+  const now = currentDate.getTime();
 
   // No allocation data
   if (!allocation || !allocation.allocated_amount) {
@@ -74,10 +81,11 @@ export function estimateFundAvailability(
   const estimatedConsumed = estimatedConsumptionRate * dayOfMonth;
   const estimatedAvailable = allocatedAmount - estimatedConsumed;
 
-  // Check recent user reports (last 48 hours)
-  const recentReports = userReports.filter(
-    (r) => Date.now() - new Date(r.reported_at).getTime() < 48 * 60 * 60 * 1000
-  );
+  // Check recent user reports (last 48 hours), ignoring ones voted down
+  const recentReports = userReports.filter((r) => {
+    const age = now - new Date(r.reported_at).getTime();
+    return age >= 0 && age < 48 * 60 * 60 * 1000 && reportReliability(r) >= REPORT_WEAK_SIGNAL;
+  });
 
   // Sort by most recent
   const sortedReports = recentReports.sort(
@@ -86,25 +94,37 @@ export function estimateFundAvailability(
 
   const lastReport = sortedReports[0];
 
+  // Net reliability of fund reports: positive leans available, negative exhausted
+  const reportBalance = fundReportBalance(sortedReports);
+
+  const leaningType: ReportType = reportBalance < 0 ? 'funds_exhausted' : 'funds_available';
+  const leaningReport = sortedReports.find((r) => r.report_type === leaningType);
+  const hoursAgo = leaningReport
+    ? Math.round((now - new Date(leaningReport.reported_at).getTime()) / (1000 * 60 * 60))
+    : 0;
+  const hoursLabel = `${hoursAgo} ${hoursAgo === 1 ? 'oră' : 'ore'}`;
+
   // Determine status based on reports and day of month
   let status: FundAvailabilityStatus['status'];
   let confidence: number;
   let message: string;
 
-  if (lastReport?.report_type === 'funds_exhausted') {
-    const reportAge = Date.now() - new Date(lastReport.reported_at).getTime();
-    const hoursAgo = Math.round(reportAge / (1000 * 60 * 60));
-
+  if (reportBalance <= -REPORT_STRONG_SIGNAL) {
     status = 'likely_exhausted';
     confidence = hoursAgo < 6 ? 90 : hoursAgo < 24 ? 75 : 60;
-    message = `Utilizator a raportat fonduri epuizate acum ${hoursAgo} ${hoursAgo === 1 ? 'oră' : 'ore'}. Verificați telefonic.`;
-  } else if (lastReport?.report_type === 'funds_available') {
-    const reportAge = Date.now() - new Date(lastReport.reported_at).getTime();
-    const hoursAgo = Math.round(reportAge / (1000 * 60 * 60));
-
+    message = `Utilizatorii au raportat fonduri epuizate (ultimul raport acum ${hoursLabel}). Verificați telefonic.`;
+  } else if (reportBalance >= REPORT_STRONG_SIGNAL) {
     status = 'likely_available';
     confidence = hoursAgo < 6 ? 85 : hoursAgo < 24 ? 70 : 55;
-    message = `Utilizator a confirmat fonduri disponibile acum ${hoursAgo} ${hoursAgo === 1 ? 'oră' : 'ore'}.`;
+    message = `Utilizatorii au confirmat fonduri disponibile (ultimul raport acum ${hoursLabel}).`;
+  } else if (Math.abs(reportBalance) >= REPORT_WEAK_SIGNAL) {
+    // One unconfirmed report (or disputed ones): not enough to decide
+    status = 'uncertain';
+    confidence = 50;
+    message =
+      leaningType === 'funds_exhausted'
+        ? `Un utilizator a raportat fonduri epuizate acum ${hoursLabel}, încă neconfirmat. Verificați telefonic.`
+        : `Un utilizator a raportat fonduri disponibile acum ${hoursLabel}, încă neconfirmat. Verificați telefonic.`;
   } else if (dayOfMonth <= 7) {
     // First week of month
     status = 'likely_available';
@@ -138,7 +158,7 @@ export function estimateFundAvailability(
       ? {
           type: lastReport.report_type as ReportType,
           reportedAt: lastReport.reported_at,
-          isRecent: Date.now() - new Date(lastReport.reported_at).getTime() < 24 * 60 * 60 * 1000,
+          isRecent: now - new Date(lastReport.reported_at).getTime() < 24 * 60 * 60 * 1000,
         }
       : undefined,
     message,
@@ -1,11 +1,21 @@
 import { supabase, TABLES } from './supabase';
-import { PredictionOutput, UserReport, ProviderConsumptionPattern } from './types';
-import { getDayOfMonth, getDaysInMonth } from './utils';
+import { PredictionOutput, ReportSignal, ProviderConsumptionPattern } from './types';
+import { Clock, FundDay, fundDayDate, systemClock, toFundDay } from './clock';
+import { CURVE_DAYS, DepletionCurve, curveValueAt, depletionDay, linearDepletionCurve, monthDayAt } from './depletion-curve';
+import { reportReliability } from './report-reliability';
+
+// Share of the allocation consumed at which funds count as exhausted
+const EXHAUSTED_RATE = 0.95;
 
 /**
  * ML-based fund availability predictor using historical consumption patterns
+ *
+ * Dates are read in Europe/Bucharest. `predict` uses the injected clock
+ * unless the input names the instant to predict for.
  */
 export class FundAvailabilityPredictor {
+  constructor(private clock: Clock = systemClock) {}
+
   // Seasonal patterns based on historical data analysis
   private seasonalPatterns: Record<string, Record<number, number>> = {
     paraclinic: {
@@ -45,15 +55,30 @@ export class FundAvailabilityPredictor {
   }
 
   /**
-   * Get global average pattern for service type
+   * Get the curve pooled over all providers of a service type, preferring
+   * the provider's county over the nationwide pool
    */
-  private getGlobalPattern(serviceType: string): { depletion_curve: Record<number, number> } {
-    // Linear depletion curve as default
-    const depletionCurve: Record<number, number> = {};
-    for (let d = 1; d <= 31; d++) {
-      depletionCurve[d] = d / 30; // Linear consumption
+  private async getGlobalPattern(
+    serviceType: string,
+    countyCode?: string
+  ): Promise<{ depletion_curve: DepletionCurve }> {
+    try {
+      const { data } = await supabase
+        .from(TABLES.DEPLETION_CURVES)
+        .select('county_code, depletion_curve')
+        .eq('service_type', serviceType)
+        .in('county_code', countyCode ? [countyCode, '*'] : ['*']);
+
+      const pooled =
+        data?.find((row) => row.county_code === countyCode) ||
+        data?.find((row) => row.county_code === '*');
+      if (pooled) return { depletion_curve: pooled.depletion_curve };
+    } catch {
+      // Fall through to the linear default
     }
-    return { depletion_curve: depletionCurve };
+
+    // Linear depletion curve as default
+    return { depletion_curve: linearDepletionCurve() };
   }
 
   /**
@@ -65,23 +90,26 @@ export class FundAvailabilityPredictor {
   }
 
   /**
-   * Calculate adjustment based on recent user reports
+   * Calculate adjustment based on recent user reports.
+   * Each report's effect is scaled by its reliability, so reports voted
+   * down barely move the prediction while verified ones count double.
    */
-  private calculateReportsAdjustment(reports: UserReport[]): number {
+  private calculateReportsAdjustment(reports: ReportSignal[], currentDate: Date): number {
     if (reports.length === 0) return 0;
 
-    const now = Date.now();
+    const now = currentDate.getTime();
     let adjustment = 0;
     let totalWeight = 0;
 
     for (const report of reports) {
       const hoursAgo = (now - new Date(report.reported_at).getTime()) / (1000 * 60 * 60);
       const weight = Math.exp(-hoursAgo / 24); // Exponential decay over 24h
+      const reliability = reportReliability(report);
 
       if (report.report_type === 'funds_available') {
-        adjustment += 0.2 * weight;
+        adjustment += 0.2 * weight * reliability;
       } else if (report.report_type === 'funds_exhausted') {
-        adjustment -= 0.4 * weight; // Negative reports weighted more
+        adjustment -= 0.4 * weight * reliability; // Negative reports weighted more
       }
 
       totalWeight += weight;
@@ -95,7 +123,8 @@ export class FundAvailabilityPredictor {
    */
   private calculateConfidence(
     pattern: ProviderConsumptionPattern | null,
-    reports: UserReport[]
+    reports: ReportSignal[],
+    currentDate: Date
   ): number {
     let confidence = 30; // Base confidence
 
@@ -109,7 +138,7 @@ export class FundAvailabilityPredictor {
 
     // Add confidence for recent reports
     const recentReports = reports.filter(
-      (r) => Date.now() - new Date(r.reported_at).getTime() < 24 * 60 * 60 * 1000
+      (r) => currentDate.getTime() - new Date(r.reported_at).getTime() < 24 * 60 * 60 * 1000
     );
     if (recentReports.length > 0) confidence += 15;
 
@@ -137,26 +166,23 @@ export class FundAvailabilityPredictor {
   }
 
   /**
-   * Predict depletion date
+   * Predict depletion date: the first day the seasonally adjusted curve
+   * reaches the exhausted share, or null when it doesn't this month
    */
   private predictDepletionDate(
-    allocatedAmount: number,
-    dailyConsumptionRate: number,
-    currentDate: Date
+    depletionCurve: DepletionCurve,
+    seasonalMultiplier: number,
+    today: FundDay
   ): Date | null {
-    if (dailyConsumptionRate <= 0) return null;
-
-    const daysInMonth = getDaysInMonth();
-    const dayOfMonth = getDayOfMonth();
-    const remainingBudgetRatio = 1 - (dayOfMonth / daysInMonth);
-    const remainingDays = Math.floor(remainingBudgetRatio / dailyConsumptionRate);
+    if (seasonalMultiplier <= 0) return null;
 
-    if (remainingDays > daysInMonth - dayOfMonth) return null; // Won't deplete this month
+    const threshold = EXHAUSTED_RATE / seasonalMultiplier;
+    if ((depletionCurve[CURVE_DAYS] ?? 0) < threshold) return null; // Won't deplete this month
 
-    const depletionDate = new Date(currentDate);
-    depletionDate.setDate(depletionDate.getDate() + Math.max(1, remainingDays));
+    const day = monthDayAt(depletionDay(depletionCurve, threshold), today.daysInMonth);
 
-    return depletionDate;
+    // A curve already past the threshold can't say more than "by now"
+    return fundDayDate(today, Math.max(today.day, day));
   }
 
   /**
@@ -176,7 +202,7 @@ export class FundAvailabilityPredictor {
 
     if (riskLevel === 'medium') {
       if (depletionDate) {
-        return `Probabilitate ${probabilityPercent}%. Fondurile ar putea fi epuizate în jurul datei de ${depletionDate.getDate()}. Recomandăm verificare telefonică.`;
+        return `Probabilitate ${probabilityPercent}%. Fondurile ar putea fi epuizate în jurul datei de ${toFundDay(depletionDate).day}. Recomandăm verificare telefonică.`;
       }
       return `Probabilitate ${probabilityPercent}%. Suntem în ziua ${dayOfMonth} a lunii - verificați telefonic.`;
     }
@@ -192,26 +218,29 @@ export class FundAvailabilityPredictor {
     providerId: string;
     providerCui: string;
     serviceType: string;
-    currentDate: Date;
+    countyCode?: string;
+    currentDate?: Date;
     allocatedAmount: number;
-    recentUserReports: UserReport[];
+    recentUserReports: ReportSignal[];
   }): Promise<PredictionOutput> {
-    const { providerCui, serviceType, currentDate, allocatedAmount, recentUserReports } = input;
+    const { providerCui, serviceType, countyCode, allocatedAmount, recentUserReports } = input;
+    const currentDate = input.currentDate ?? this.clock.now();
+    const today = toFundDay(currentDate);
 
     // 1. Get provider's historical pattern
     const pattern = await this.getProviderPattern(providerCui);
 
-    // 2. Get global patterns for fallback
-    const globalPattern = this.getGlobalPattern(serviceType);
+    // 2. Get pooled patterns for fallback
+    const globalPattern = pattern?.depletion_curve
+      ? null
+      : await this.getGlobalPattern(serviceType, countyCode);
 
     // 3. Calculate base prediction from historical consumption rate
-    const dayOfMonth = getDayOfMonth();
-    const month = currentDate.getMonth() + 1;
+    const { day: dayOfMonth, month, daysInMonth } = today;
 
-    // Use provider-specific pattern if available, else global
-    const depletionCurve = pattern?.depletion_curve || globalPattern.depletion_curve;
-    const expectedConsumptionRate =
-      (depletionCurve as Record<number, number>)[dayOfMonth] || dayOfMonth / 30;
+    // Use provider-specific pattern if available, else pooled
+    const depletionCurve = pattern?.depletion_curve || globalPattern!.depletion_curve;
+    const expectedConsumptionRate = curveValueAt(depletionCurve, dayOfMonth, daysInMonth);
 
     // 4. Apply seasonality adjustment
     const seasonalMultiplier = this.getSeasonalMultiplier(month, serviceType);
@@ -222,21 +251,20 @@ export class FundAvailabilityPredictor {
     const predictedRemaining = allocatedAmount - predictedConsumed;
 
     // 6. Factor in recent user reports
-    const reportsAdjustment = this.calculateReportsAdjustment(recentUserReports);
+    const reportsAdjustment = this.calculateReportsAdjustment(recentUserReports, currentDate);
 
     // 7. Calculate final probability
     let availabilityProbability = predictedRemaining / allocatedAmount;
     availabilityProbability = Math.max(0, Math.min(1, availabilityProbability + reportsAdjustment));
 
     // 8. Calculate confidence
-    const confidence = this.calculateConfidence(pattern, recentUserReports);
+    const confidence = this.calculateConfidence(pattern, recentUserReports, currentDate);
 
     // 9. Determine risk level
     const riskLevel = this.calculateRiskLevel(availabilityProbability, dayOfMonth, pattern);
 
     // 10. Predict depletion date
-    const avgRate = pattern?.avg_consumption_rate || 0.033; // Default ~1/30 per day
-    const depletionDate = this.predictDepletionDate(allocatedAmount, avgRate, currentDate);
+    const depletionDate = this.predictDepletionDate(depletionCurve, seasonalMultiplier, today);
 
     // 11. Generate explanation
     const explanation = this.generateExplanation(
@@ -0,0 +1,367 @@
+import * as fs from 'fs';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { GeocodePrecision } from './types-v2';
+
+// Address geocoding for the sync and the geocode scripts. A Geocoder asks its
+// provider (Nominatim, or a local JSON file for offline runs) for the full
+// address, then the street alone, then falls back to a București sector or
+// neighbourhood centre and finally to the city. Every result carries its
+// precision, so approximate points can be shown as such instead of being
+// jittered to look exact. Provider answers are cached in geocode_cache.
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
+const NOMINATIM_DELAY_MS = 1100; // Nominatim: 1 request per second
+const USER_AGENT = 'FondCAS/2.0 (https://fondcas.ro)';
+
+// Most to least precise
+const PRECISIONS: GeocodePrecision[] = ['rooftop', 'street', 'sector', 'city'];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface GeocodeQuery {
+  address?: string | null;
+  city?: string | null;
+  county?: string | null; // name or code
+}
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  precision: GeocodePrecision;
+  source: string; // provider name, or 'sector-centre'
+}
+
+export interface ProviderHit {
+  lat: number;
+  lng: number;
+  precision: GeocodePrecision;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  // Minimum time between two requests
+  delayMs: number;
+  // Whether answers are stored in geocode_cache
+  cacheable: boolean;
+  // Resolves to null when nothing matches; throws on transport errors
+  search(query: string): Promise<ProviderHit | null>;
+}
+
+export interface GeocoderStats {
+  requests: number; // provider requests made
+  cacheHits: number;
+  errors: number;
+}
+
+// ============================================
+// BUCUREȘTI CENTRES
+// ============================================
+
+const SECTOR_CENTRES: Record<string, { lat: number; lng: number }> = {
+  '1': { lat: 44.4677, lng: 26.0851 },
+  '2': { lat: 44.4505, lng: 26.1350 },
+  '3': { lat: 44.4150, lng: 26.1500 },
+  '4': { lat: 44.3950, lng: 26.1050 },
+  '5': { lat: 44.4100, lng: 26.0500 },
+  '6': { lat: 44.4300, lng: 26.0100 },
+};
+
+const NEIGHBOURHOOD_CENTRES: Record<string, { lat: number; lng: number }> = {
+  'militari': { lat: 44.4341, lng: 25.9934 },
+  'drumul taberei': { lat: 44.4183, lng: 26.0217 },
+  'rahova': { lat: 44.4056, lng: 26.0567 },
+  'pantelimon': { lat: 44.4400, lng: 26.1750 },
+  'titan': { lat: 44.4150, lng: 26.1600 },
+  'berceni': { lat: 44.3900, lng: 26.1200 },
+  'colentina': { lat: 44.4700, lng: 26.1400 },
+  'floreasca': { lat: 44.4700, lng: 26.1000 },
+  'dorobanti': { lat: 44.4550, lng: 26.0900 },
+  'pipera': { lat: 44.4850, lng: 26.1100 },
+  'ghencea': { lat: 44.4050, lng: 26.0267 },
+  'giulesti': { lat: 44.4600, lng: 26.0300 },
+  'crangasi': { lat: 44.4500, lng: 26.0400 },
+  'cotroceni': { lat: 44.4350, lng: 26.0650 },
+  'vitan': { lat: 44.4100, lng: 26.1300 },
+  'tineretului': { lat: 44.4050, lng: 26.1050 },
+  'baneasa': { lat: 44.5050, lng: 26.0850 },
+  'ferentari': { lat: 44.3950, lng: 26.0700 },
+  'obor': { lat: 44.4450, lng: 26.1300 },
+  'iancului': { lat: 44.4350, lng: 26.1200 },
+  'timpuri noi': { lat: 44.4150, lng: 26.1100 },
+};
+
+// ============================================
+// QUERIES
+// ============================================
+
+function stripDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Cache key of a provider query: lowercase, without diacritics or punctuation
+ */
+export function normalizeGeocodeKey(query: string): string {
+  return stripDiacritics(query.toLowerCase())
+    .replace(/[^a-z0-9,]+/g, ' ')
+    .replace(/\s*,\s*/g, ',')
+    .replace(/,+/g, ',')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Address without the building details (block, stairs, floor, apartment)
+ * that providers can't resolve
+ */
+export function cleanAddress(address: string): string {
+  return address
+    .replace(/\b(bl|bloc|sc|scara|et|etaj|ap|apartament|cam|camera)\b\.?\s*[\w-]+/gi, '')
+    .replace(/\bnr\.?\s*/gi, '')
+    .replace(/\bsect(?:or(?:ul)?)?\.?\s*(\d)/gi, 'Sector $1')
+    .replace(/\s+/g, ' ')
+    .replace(/(\s*,\s*)+/g, ', ')
+    .replace(/^[\s,]+|[\s,]+$/g, '')
+    .trim();
+}
+
+/**
+ * Street part of an address (`Str. Mihai Eminescu`), without the number
+ */
+export function extractStreet(address: string): string | null {
+  const match = address.match(/(?:^|[\s,])(str(?:ada)?|bd|b-dul|bulevardul|calea|sos|[sș]oseaua|aleea|splaiul|pia[tț]a|intrarea)\.?\s+([^,\d]+)/i);
+  if (!match) return null;
+  return `${match[1]} ${match[2]}`.replace(/\s+/g, ' ').trim();
+}
+
+function isBucharest(query: GeocodeQuery): boolean {
+  const place = stripDiacritics(`${query.city || ''} ${query.county || ''}`.toLowerCase());
+  return place.includes('bucuresti') || query.county?.toUpperCase() === 'B';
+}
+
+/**
+ * Sector or neighbourhood centre named in a București address
+ */
+function findSectorCentre(address: string): { lat: number; lng: number } | null {
+  const text = stripDiacritics(address.toLowerCase());
+
+  for (const [name, centre] of Object.entries(NEIGHBOURHOOD_CENTRES)) {
+    if (text.includes(name)) return centre;
+  }
+
+  const sector = text.match(/\bsect(?:or(?:ul)?)?\.?\s*([1-6])\b/);
+  return sector ? SECTOR_CENTRES[sector[1]] : null;
+}
+
+function lessPrecise(a: GeocodePrecision, b: GeocodePrecision): GeocodePrecision {
+  return PRECISIONS.indexOf(a) > PRECISIONS.indexOf(b) ? a : b;
+}
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+/**
+ * Precision of a Nominatim result from its address rank
+ */
+function nominatimPrecision(placeRank: number): GeocodePrecision {
+  if (placeRank >= 28) return 'rooftop';
+  if (placeRank >= 26) return 'street';
+  if (placeRank >= 17) return 'sector';
+  return 'city';
+}
+
+export function createNominatimProvider(): GeocodingProvider {
+  return {
+    name: 'nominatim',
+    delayMs: NOMINATIM_DELAY_MS,
+    cacheable: true,
+    async search(query) {
+      const params = new URLSearchParams({
+        q: query,
+        format: 'jsonv2',
+        limit: '1',
+        countrycodes: 'ro',
+      });
+
+      const response = await fetch(`${NOMINATIM_URL}?${params}`, {
+        headers: { 'User-Agent': USER_AGENT },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Nominatim error: ${response.status} ${response.statusText}`);
+      }
+
+      const results = await response.json();
+      if (!Array.isArray(results) || results.length === 0) return null;
+
+      return {
+        lat: parseFloat(results[0].lat),
+        lng: parseFloat(results[0].lon),
+        precision: nominatimPrecision(results[0].place_rank ?? 0),
+      };
+    },
+  };
+}
+
+/**
+ * Answers from a JSON file mapping queries to `{ lat, lng, precision }`, for
+ * runs without network access. Not cached, so it never fills geocode_cache.
+ */
+export function createLocalFileProvider(filePath: string): GeocodingProvider {
+  const entries: Record<string, ProviderHit> = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const hits = new Map<string, ProviderHit>();
+  for (const [query, hit] of Object.entries(entries)) {
+    hits.set(normalizeGeocodeKey(query), hit);
+  }
+
+  return {
+    name: 'local',
+    delayMs: 0,
+    cacheable: false,
+    async search(query) {
+      return hits.get(normalizeGeocodeKey(query)) || null;
+    },
+  };
+}
+
+// ============================================
+// GEOCODER
+// ============================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class Geocoder {
+  readonly provider: GeocodingProvider;
+  readonly stats: GeocoderStats = { requests: 0, cacheHits: 0, errors: 0 };
+
+  private supabase: SupabaseClient | null;
+  private log: (message: string) => void;
+  private memory = new Map<string, ProviderHit | null>();
+  private lastRequestAt = 0;
+
+  constructor(
+    provider: GeocodingProvider,
+    options: { supabase?: SupabaseClient; log?: (message: string) => void } = {}
+  ) {
+    this.provider = provider;
+    this.supabase = provider.cacheable ? options.supabase ?? null : null;
+    this.log = options.log ?? console.error;
+  }
+
+  /**
+   * Provider answer for one query, from the caches when possible
+   */
+  private async search(query: string): Promise<ProviderHit | null> {
+    const key = normalizeGeocodeKey(query);
+    if (this.memory.has(key)) {
+      this.stats.cacheHits++;
+      return this.memory.get(key) ?? null;
+    }
+
+    if (this.supabase) {
+      const { data } = await this.supabase
+        .from('geocode_cache')
+        .select('lat, lng, precision')
+        .eq('query_key', key)
+        .maybeSingle();
+
+      if (data) {
+        const hit = data.lat !== null
+          ? { lat: Number(data.lat), lng: Number(data.lng), precision: data.precision as GeocodePrecision }
+          : null;
+        this.memory.set(key, hit);
+        this.stats.cacheHits++;
+        return hit;
+      }
+    }
+
+    const wait = this.lastRequestAt + this.provider.delayMs - Date.now();
+    if (wait > 0) await sleep(wait);
+
+    this.stats.requests++;
+    let hit: ProviderHit | null;
+    try {
+      hit = await this.provider.search(query);
+    } finally {
+      this.lastRequestAt = Date.now();
+    }
+
+    this.memory.set(key, hit);
+    if (this.supabase) {
+      const { error } = await this.supabase.from('geocode_cache').upsert({
+        query_key: key,
+        query,
+        lat: hit?.lat ?? null,
+        lng: hit?.lng ?? null,
+        precision: hit?.precision ?? null,
+        source: this.provider.name,
+      });
+      if (error) this.log(`Failed to cache geocode of "${query}": ${error.message}`);
+    }
+
+    return hit;
+  }
+
+  /**
+   * Most precise coordinates found for an address. Null when even the city is
+   * unknown, or when the provider failed (so the address is retried later
+   * rather than stored at a fallback).
+   */
+  async geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+    const city = query.city?.trim() || (isBucharest(query) ? 'București' : '');
+    // County codes don't help the provider; names do
+    const county = query.county && query.county.length > 2 && query.county !== city ? query.county : '';
+    const place = [city, county, 'Romania'].filter(Boolean).join(', ');
+    const address = query.address ? cleanAddress(query.address) : '';
+
+    const found = (hit: ProviderHit, atMost: GeocodePrecision): GeocodeResult => ({
+      lat: hit.lat,
+      lng: hit.lng,
+      precision: lessPrecise(hit.precision, atMost),
+      source: this.provider.name,
+    });
+
+    try {
+      if (address) {
+        const hit = await this.search(`${address}, ${place}`);
+        if (hit) return found(hit, 'rooftop');
+
+        const street = extractStreet(address);
+        if (street && street !== address) {
+          const streetHit = await this.search(`${street}, ${place}`);
+          if (streetHit) return found(streetHit, 'street');
+        }
+
+        if (isBucharest(query)) {
+          const centre = findSectorCentre(query.address as string);
+          if (centre) return { ...centre, precision: 'sector', source: 'sector-centre' };
+        }
+      }
+
+      if (!city) return null;
+      const cityHit = await this.search(place);
+      return cityHit ? found(cityHit, 'city') : null;
+    } catch (error) {
+      this.stats.errors++;
+      this.log(`Geocoding error for "${query.address || city}": ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+}
+
+/**
+ * Geocoder for the configured provider: the file named by GEOCODER_FILE when
+ * set, Nominatim otherwise
+ */
+export function createGeocoder(
+  options: { supabase?: SupabaseClient; log?: (message: string) => void } = {}
+): Geocoder {
+  const file = process.env.GEOCODER_FILE;
+  const provider = file ? createLocalFileProvider(file) : createNominatimProvider();
+  return new Geocoder(provider, options);
+}
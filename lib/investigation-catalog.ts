@@ -0,0 +1,221 @@
+import { InvestigationCategory } from './types-v2';
+import { normalizeSpecialtyText } from './specialty-taxonomy';
+
+// Catalog of the investigations written on a "bilet de trimitere" (RMN, CT,
+// TSH, hemoleucogramă). Patients search by these rather than by specialty.
+// Paraclinic CAS lists that detail the contracted investigations are mapped
+// onto this catalog during ingestion, like specialties onto the taxonomy.
+//
+// `code` is the stable key stored in investigations.code. CAS lists usually
+// prefix an investigation with its CNAS code ("2.1001 Hemoleucograma
+// completa"); mapInvestigation returns it so the sync can store it as
+// investigations.cnas_code. `specialty` is the taxonomy code of the
+// specialty that performs the investigation: providers whose CAS lists name
+// no investigations are matched through it.
+
+export interface InvestigationDefinition {
+  code: string;
+  name: string;
+  category: InvestigationCategory;
+  specialty: string; // lib/specialty-taxonomy.ts code
+  synonyms: string[];
+}
+
+export const INVESTIGATION_CATALOG: InvestigationDefinition[] = [
+  // Laboratory: hematology
+  { code: 'HLG', name: 'hemoleucogramă completă', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['hemoleucograma', 'hleu', 'hlg', 'hemograma', 'formula leucocitara', 'numaratoare completa'] },
+  { code: 'VSH', name: 'VSH', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['viteza de sedimentare a hematiilor', 'viteza de sedimentare'] },
+  { code: 'COAG', name: 'timp Quick / INR', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['inr', 'timp quick', 'timp de protrombina', 'tq', 'aptt', 'coagulograma', 'fibrinogen'] },
+  { code: 'GRUP_RH', name: 'grup sanguin și Rh', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['grup sanguin', 'grupa sanguina', 'rh', 'grup sanguin abo'] },
+
+  // Laboratory: biochemistry
+  { code: 'GLIC', name: 'glicemie', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['glucoza', 'glucoza serica', 'glicemie a jeun'] },
+  { code: 'HBA1C', name: 'hemoglobină glicozilată', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['hba1c', 'hemoglobina glicata', 'hemoglobina glicozilata'] },
+  { code: 'LIPID', name: 'profil lipidic', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['colesterol', 'colesterol total', 'hdl', 'ldl', 'hdl colesterol', 'ldl colesterol', 'trigliceride', 'lipidograma'] },
+  { code: 'HEPAT', name: 'transaminaze (TGO, TGP)', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['tgo', 'tgp', 'transaminaze', 'probe hepatice', 'ggt', 'gama gt'] },
+  { code: 'BILI', name: 'bilirubină', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['bilirubina', 'bilirubina totala', 'bilirubina directa'] },
+  { code: 'RENAL', name: 'uree și creatinină', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['uree', 'creatinina', 'creatinina serica', 'probe renale', 'rfg'] },
+  { code: 'ACID_URIC', name: 'acid uric', category: 'laboratory', specialty: 'LAB', synonyms: ['acid uric seric'] },
+  { code: 'IONO', name: 'ionogramă', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['ionograma', 'sodiu', 'potasiu', 'calciu', 'calciu ionic', 'magneziu', 'electroliti'] },
+  { code: 'FIER', name: 'sideremie și feritină', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['sideremie', 'fier seric', 'feritina'] },
+  { code: 'PCR', name: 'proteina C reactivă', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['proteina c reactiva', 'crp', 'pcr cantitativ'] },
+  { code: 'ASLO', name: 'ASLO', category: 'laboratory', specialty: 'LAB', synonyms: ['antistreptolizina o'] },
+  { code: 'VIT_D', name: 'vitamina D', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['vitamina d', '25 oh vitamina d', 'vit d'] },
+
+  // Laboratory: endocrinology and immunology
+  { code: 'TSH', name: 'TSH', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['hormon de stimulare tiroidiana', 'tireotropina'] },
+  { code: 'FT4', name: 'FT4', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['t4 liber', 'tiroxina libera', 'ft3', 't3 liber'] },
+  { code: 'ATPO', name: 'anticorpi anti-TPO', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['atpo', 'anti tpo', 'anticorpi antitiroidperoxidaza'] },
+  { code: 'PSA', name: 'PSA', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['antigen specific prostatic', 'psa total', 'psa liber'] },
+  { code: 'HEP_VIR', name: 'markeri hepatite virale', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['aghbs', 'ag hbs', 'anti hcv', 'ac anti hcv', 'hepatita b', 'hepatita c'] },
+  { code: 'HIV', name: 'test HIV', category: 'laboratory', specialty: 'LAB', synonyms: ['hiv', 'anticorpi hiv'] },
+  { code: 'VDRL', name: 'VDRL / RPR', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['vdrl', 'rpr', 'sifilis', 'tpha'] },
+
+  // Laboratory: urine, microbiology, cytology
+  { code: 'URINA', name: 'sumar de urină', category: 'laboratory', specialty: 'LAB',
+    synonyms: ['sumar urina', 'examen sumar de urina', 'urina', 'sediment urinar'] },
+  { code: 'UROCULT', name: 'urocultură', category: 'laboratory', specialty: 'MICROBIO',
+    synonyms: ['urocultura', 'urocultura cu antibiograma'] },
+  { code: 'EXSUD', name: 'exudat faringian', category: 'laboratory', specialty: 'MICROBIO',
+    synonyms: ['exudat faringian', 'exudat nazal', 'exsudat faringian'] },
+  { code: 'COPRO', name: 'coprocultură', category: 'laboratory', specialty: 'MICROBIO',
+    synonyms: ['coprocultura', 'examen coproparazitologic', 'coproparazitologic'] },
+  { code: 'PAP', name: 'test Babeș-Papanicolau', category: 'laboratory', specialty: 'ANAT_PAT',
+    synonyms: ['babes papanicolau', 'papanicolau', 'test pap', 'citologie cervicala'] },
+  { code: 'HISTO', name: 'examen histopatologic', category: 'laboratory', specialty: 'ANAT_PAT',
+    synonyms: ['histopatologic', 'biopsie', 'examen histopatologic'] },
+
+  // Imaging
+  { code: 'IMG_RMN', name: 'RMN', category: 'imaging', specialty: 'RMN',
+    synonyms: ['rmn', 'irm', 'rezonanta magnetica', 'rezonanta magnetica nucleara', 'rmn cu substanta de contrast'] },
+  { code: 'IMG_CT', name: 'CT', category: 'imaging', specialty: 'CT',
+    synonyms: ['ct', 'computer tomograf', 'tomografie computerizata', 'ct cu substanta de contrast', 'angio ct'] },
+  { code: 'IMG_RX', name: 'radiografie', category: 'imaging', specialty: 'RX',
+    synonyms: ['rx', 'radiografie pulmonara', 'radiografie osoasa', 'rx pulmonar'] },
+  { code: 'IMG_ECO', name: 'ecografie', category: 'imaging', specialty: 'ECO',
+    synonyms: ['ecografie abdominala', 'ecografie tiroidiana', 'ecografie mamara', 'ecografie pelvina', 'eco'] },
+  { code: 'IMG_DOPPLER', name: 'ecografie Doppler', category: 'imaging', specialty: 'ECO',
+    synonyms: ['doppler', 'eco doppler', 'ecografie doppler vascular'] },
+  { code: 'IMG_MAMO', name: 'mamografie', category: 'imaging', specialty: 'MAMO', synonyms: ['mamografie bilaterala'] },
+  { code: 'IMG_DEXA', name: 'osteodensitometrie DEXA', category: 'imaging', specialty: 'DEXA',
+    synonyms: ['dexa', 'osteodensitometrie', 'densitometrie osoasa'] },
+  { code: 'IMG_SCINT', name: 'scintigrafie', category: 'imaging', specialty: 'MED_NUC',
+    synonyms: ['scintigrafie osoasa', 'scintigrafie tiroidiana', 'pet ct'] },
+
+  // Functional explorations
+  { code: 'EKG', name: 'electrocardiogramă (EKG)', category: 'functional', specialty: 'CARD',
+    synonyms: ['ekg', 'ecg', 'electrocardiograma'] },
+  { code: 'ECOCORD', name: 'ecocardiografie', category: 'functional', specialty: 'CARD',
+    synonyms: ['ecocardiografie', 'ecografie cardiaca', 'eco cord'] },
+  { code: 'HOLTER', name: 'monitorizare Holter', category: 'functional', specialty: 'CARD',
+    synonyms: ['holter', 'holter ekg', 'holter tensiune', 'holter ta'] },
+  { code: 'SPIRO', name: 'spirometrie', category: 'functional', specialty: 'PNEUMO',
+    synonyms: ['spirometrie', 'probe functionale respiratorii'] },
+  { code: 'EEG', name: 'electroencefalogramă (EEG)', category: 'functional', specialty: 'NEURO',
+    synonyms: ['eeg', 'electroencefalograma'] },
+  { code: 'EMG', name: 'electromiografie (EMG)', category: 'functional', specialty: 'NEURO',
+    synonyms: ['emg', 'electromiografie'] },
+  { code: 'AUDIO', name: 'audiogramă', category: 'functional', specialty: 'ORL',
+    synonyms: ['audiograma', 'audiometrie'] },
+];
+
+// Leading CNAS code of a CAS list entry: "2.1001 Hemoleucograma", "2.3.4 - RMN"
+const CNAS_CODE_PATTERN = /^\s*(\d+(?:\.\d+)+)\s*[-–.:)]?\s*/;
+
+const BY_CODE = new Map<string, InvestigationDefinition>();
+
+// Normalized name or synonym -> entry
+const BY_TERM = new Map<string, InvestigationDefinition>();
+
+for (const entry of INVESTIGATION_CATALOG) {
+  BY_CODE.set(entry.code, entry);
+  for (const term of [entry.name].concat(entry.synonyms)) {
+    BY_TERM.set(normalizeSpecialtyText(term), entry);
+  }
+}
+
+// Longest first, so "ecografie doppler" wins over "ecografie"
+const TERMS_BY_LENGTH = Array.from(BY_TERM.keys()).sort((a, b) => b.length - a.length);
+
+export function getInvestigationByCode(code: string): InvestigationDefinition | undefined {
+  return BY_CODE.get(code);
+}
+
+export interface InvestigationMatch {
+  entry: InvestigationDefinition;
+  cnasCode?: string;
+}
+
+/**
+ * The catalog entry for a raw investigation string, with the CNAS code it
+ * was prefixed with: an exact name, synonym or code, else the longest name
+ * or synonym contained in it as whole words
+ */
+export function mapInvestigation(raw: string): InvestigationMatch | null {
+  const codeMatch = CNAS_CODE_PATTERN.exec(raw);
+  const cnasCode = codeMatch ? codeMatch[1] : undefined;
+  const text = normalizeSpecialtyText(codeMatch ? raw.slice(codeMatch[0].length) : raw);
+  if (!text) return null;
+
+  const exact = BY_TERM.get(text) || BY_CODE.get(text.toUpperCase().replace(/ /g, '_'));
+  if (exact) return { entry: exact, cnasCode };
+
+  const padded = ` ${text} `;
+  const term = TERMS_BY_LENGTH.find((t) => padded.indexOf(` ${t} `) >= 0);
+  return term ? { entry: BY_TERM.get(term)!, cnasCode } : null;
+}
+
+export interface InvestigationMappingReport {
+  // Raw string (as found, trimmed) -> number of occurrences
+  unmapped: Record<string, number>;
+  mapped: number;
+}
+
+/**
+ * Map the raw investigation strings of one organization to catalog entries,
+ * recording the ones that match nothing in `report`
+ */
+export function mapInvestigations(
+  raws: string[],
+  report?: InvestigationMappingReport
+): InvestigationMatch[] {
+  const result: InvestigationMatch[] = [];
+
+  for (const raw of raws) {
+    const match = mapInvestigation(raw);
+
+    if (!match) {
+      if (report) {
+        const key = raw.trim().toLowerCase();
+        report.unmapped[key] = (report.unmapped[key] || 0) + 1;
+      }
+      continue;
+    }
+
+    if (report) report.mapped++;
+    const existing = result.find((m) => m.entry === match.entry);
+    if (!existing) {
+      result.push(match);
+    } else if (!existing.cnasCode) {
+      existing.cnasCode = match.cnasCode;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Catalog entries a search term may refer to: names and synonyms starting
+ * with the term ("rmn", "hemoleu", "tsh")
+ */
+export function findInvestigationsByTerm(term: string): InvestigationDefinition[] {
+  const text = normalizeSpecialtyText(term);
+  if (text.length < 2) return [];
+
+  const result: InvestigationDefinition[] = [];
+  for (const key of TERMS_BY_LENGTH) {
+    const entry = BY_TERM.get(key)!;
+    if (key.indexOf(text) === 0 && result.indexOf(entry) < 0) result.push(entry);
+  }
+  return result;
+}
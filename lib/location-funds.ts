@@ -0,0 +1,339 @@
+import { supabase, TABLES } from './supabase';
+import { FundPeriod, systemClock, toFundDay } from './clock';
+import { estimateFundAvailability } from './fund-estimator';
+import {
+  FundAllocation,
+  FundAvailabilityStatus,
+  FundHistoryPoint,
+  FundHistorySeries,
+  FundHistoryYear,
+  UserReport,
+  ProviderType,
+} from './types-v2';
+
+export interface LocationWithOrganization {
+  id: string;
+  name: string;
+  organization_id: string;
+  organization: {
+    id: string;
+    cui?: string;
+    legal_name: string;
+    network_brand?: string;
+    provider_type: ProviderType;
+  };
+  county?: { code: string } | null;
+}
+
+/**
+ * Get a location together with the organization that holds its CNAS contract
+ */
+export async function getLocationWithOrganization(
+  locationId: string
+): Promise<LocationWithOrganization | null> {
+  const { data, error } = await supabase
+    .from(TABLES.LOCATIONS)
+    .select(`
+      id,
+      name,
+      organization_id,
+      organization:organizations!inner (
+        id,
+        cui,
+        legal_name,
+        network_brand,
+        provider_type
+      ),
+      county:counties (code)
+    `)
+    .eq('id', locationId)
+    .single();
+
+  if (error || !data) return null;
+  return data as unknown as LocationWithOrganization;
+}
+
+/**
+ * Get an organization's fund allocation for a period.
+ * CAS publishes one row per contract type, so when no service type is
+ * given all rows for the month are summed into a single allocation.
+ */
+export async function getMonthlyAllocation(
+  organizationId: string,
+  period: FundPeriod,
+  serviceType?: string | null
+): Promise<FundAllocation | null> {
+  let query = supabase
+    .from(TABLES.FUND_ALLOCATIONS)
+    .select('*')
+    .eq('organization_id', organizationId)
+    .eq('period_year', period.year)
+    .eq('period_month', period.month);
+
+  if (serviceType) {
+    query = query.eq('service_type', serviceType);
+  }
+
+  const { data: allocations, error } = await query;
+
+  if (error) {
+    console.error('Fund allocation error:', error);
+    return null;
+  }
+
+  return sumAllocations((allocations || []) as FundAllocation[]);
+}
+
+/**
+ * Sum one organization's allocation rows for a month (one per contract
+ * type) into a single allocation
+ */
+function sumAllocations(allocations: FundAllocation[]): FundAllocation | null {
+  if (allocations.length === 0) return null;
+  if (allocations.length === 1) return allocations[0];
+
+  return {
+    ...allocations[0],
+    service_type: undefined,
+    allocated_amount: allocations.reduce((sum, a) => sum + (a.allocated_amount || 0), 0),
+    consumed_amount: allocations.some((a) => a.consumed_amount !== null)
+      ? allocations.reduce((sum, a) => sum + (a.consumed_amount || 0), 0)
+      : undefined,
+    available_amount: allocations.some((a) => a.available_amount !== null)
+      ? allocations.reduce((sum, a) => sum + (a.available_amount || 0), 0)
+      : undefined,
+  } as FundAllocation;
+}
+
+/**
+ * Get user reports for a location submitted in the `hours` hours before `until`
+ */
+export async function getRecentReports(
+  locationId: string,
+  hours: number = 48,
+  until: Date = systemClock.now()
+): Promise<UserReport[]> {
+  const { data } = await supabase
+    .from(TABLES.USER_REPORTS)
+    .select('*')
+    .eq('location_id', locationId)
+    .gte('reported_at', new Date(until.getTime() - hours * 60 * 60 * 1000).toISOString())
+    .lte('reported_at', until.toISOString())
+    .order('reported_at', { ascending: false });
+
+  return (data as UserReport[]) || [];
+}
+
+/**
+ * Get an organization's monthly allocations as one series per service type.
+ * The v2 schema keeps every published month in fund_allocations, so this is
+ * the time series that historical_fund_data used to hold per provider.
+ */
+export async function getAllocationHistory(
+  organizationId: string,
+  options: { from?: FundPeriod; to?: FundPeriod; serviceType?: string | null } = {}
+): Promise<FundHistorySeries[]> {
+  let query = supabase
+    .from(TABLES.FUND_ALLOCATIONS)
+    .select('period_year, period_month, service_type, allocated_amount, consumed_amount')
+    .eq('organization_id', organizationId)
+    .order('period_year', { ascending: true })
+    .order('period_month', { ascending: true });
+
+  if (options.serviceType) {
+    query = query.eq('service_type', options.serviceType);
+  }
+  if (options.from) {
+    query = query.gte('period_year', options.from.year);
+  }
+  if (options.to) {
+    query = query.lte('period_year', options.to.year);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Fund history error:', error);
+    return [];
+  }
+
+  const periodKey = (p: FundPeriod) => p.year * 12 + p.month;
+  const byServiceType = new Map<string, FundHistoryPoint[]>();
+
+  for (const row of data || []) {
+    const period = { year: row.period_year, month: row.period_month };
+    // Year bounds are applied in the query, months here
+    if (options.from && periodKey(period) < periodKey(options.from)) continue;
+    if (options.to && periodKey(period) > periodKey(options.to)) continue;
+
+    const allocated = Number(row.allocated_amount) || 0;
+    const consumed = row.consumed_amount != null ? Number(row.consumed_amount) : null;
+    const serviceType = row.service_type || 'other';
+
+    if (!byServiceType.has(serviceType)) byServiceType.set(serviceType, []);
+    byServiceType.get(serviceType)!.push({
+      ...period,
+      allocated,
+      consumed,
+      consumptionRate: consumed != null && allocated > 0 ? consumed / allocated : null,
+    });
+  }
+
+  return Array.from(byServiceType.entries()).map(([serviceType, points]) => ({
+    serviceType,
+    points,
+    yearly: summarizeYears(points),
+  }));
+}
+
+function summarizeYears(points: FundHistoryPoint[]): FundHistoryYear[] {
+  const years: FundHistoryYear[] = [];
+
+  for (const point of points) {
+    let year = years[years.length - 1];
+    if (!year || year.year !== point.year) {
+      year = { year: point.year, months: 0, allocated: 0, consumed: null, allocatedChange: null };
+      years.push(year);
+    }
+    year.months++;
+    year.allocated += point.allocated;
+    if (point.consumed != null) {
+      year.consumed = (year.consumed ?? 0) + point.consumed;
+    }
+  }
+
+  // Compare monthly averages so a partially published year isn't read as a cut
+  for (let i = 1; i < years.length; i++) {
+    if (years[i - 1].year !== years[i].year - 1) continue;
+    const previous = years[i - 1].allocated / years[i - 1].months;
+    const current = years[i].allocated / years[i].months;
+    years[i].allocatedChange = previous > 0 ? (current - previous) / previous : null;
+  }
+
+  return years;
+}
+
+// PostgREST puts `in` filters in the URL, so long ID lists are sent in chunks
+const IN_FILTER_CHUNK = 100;
+const MAX_ROWS_PER_CALL = 1000;
+
+// The part of a Supabase select query that selectByIds needs
+interface RangeableQuery<T> {
+  range(from: number, to: number): PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+}
+
+/**
+ * Rows matching a list of IDs: one query per chunk of IDs (more only when a
+ * chunk has over MAX_ROWS_PER_CALL rows)
+ */
+async function selectByIds<T>(
+  ids: string[],
+  buildQuery: (idChunk: string[]) => RangeableQuery<T>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let i = 0; i < ids.length; i += IN_FILTER_CHUNK) {
+    const idChunk = ids.slice(i, i + IN_FILTER_CHUNK);
+
+    for (let from = 0; ; from += MAX_ROWS_PER_CALL) {
+      const { data, error } = await buildQuery(idChunk).range(from, from + MAX_ROWS_PER_CALL - 1);
+      if (error) throw new Error(error.message);
+
+      rows.push(...(data || []));
+      if (!data || data.length < MAX_ROWS_PER_CALL) break;
+    }
+  }
+
+  return rows;
+}
+
+export interface FundStatusBatch {
+  locations: Record<string, FundAvailabilityStatus>;
+  organizations: Record<string, FundAvailabilityStatus>;
+}
+
+/**
+ * Fund status for many locations and organizations at once. Locations,
+ * organizations, the month's allocations and recent reports are each read
+ * in one query per 100 IDs, then estimated in memory exactly like the
+ * single-location endpoint. Organizations have no reports of their own, so
+ * their status only reflects the allocation. Unknown IDs are left out.
+ */
+export async function getFundStatuses(
+  locationIds: string[],
+  organizationIds: string[],
+  at: Date = systemClock.now()
+): Promise<FundStatusBatch> {
+  const today = toFundDay(at);
+
+  const locations = await selectByIds<{ id: string; organization_id: string }>(
+    locationIds,
+    (ids) => supabase.from(TABLES.LOCATIONS).select('id, organization_id').in('id', ids)
+  );
+
+  const organizations = await selectByIds<{ id: string }>(
+    organizationIds,
+    (ids) => supabase.from(TABLES.ORGANIZATIONS).select('id').in('id', ids)
+  );
+
+  const orgIds = Array.from(new Set(
+    locations.map((l) => l.organization_id).concat(organizations.map((o) => o.id))
+  ));
+
+  const allocations = await selectByIds<FundAllocation>(
+    orgIds,
+    (ids) => supabase
+      .from(TABLES.FUND_ALLOCATIONS)
+      .select('*')
+      .in('organization_id', ids)
+      .eq('period_year', today.year)
+      .eq('period_month', today.month)
+  );
+
+  const reports = await selectByIds<UserReport>(
+    locations.map((l) => l.id),
+    (ids) => supabase
+      .from(TABLES.USER_REPORTS)
+      .select('*')
+      .in('location_id', ids)
+      .gte('reported_at', new Date(at.getTime() - 48 * 60 * 60 * 1000).toISOString())
+      .lte('reported_at', at.toISOString())
+  );
+
+  const allocationsByOrg = new Map<string, FundAllocation[]>();
+  for (const allocation of allocations) {
+    if (!allocationsByOrg.has(allocation.organization_id)) {
+      allocationsByOrg.set(allocation.organization_id, []);
+    }
+    allocationsByOrg.get(allocation.organization_id)!.push(allocation);
+  }
+
+  const reportsByLocation = new Map<string, UserReport[]>();
+  for (const report of reports) {
+    if (!reportsByLocation.has(report.location_id)) {
+      reportsByLocation.set(report.location_id, []);
+    }
+    reportsByLocation.get(report.location_id)!.push(report);
+  }
+
+  const monthlyAllocation = (orgId: string) => sumAllocations(allocationsByOrg.get(orgId) || []);
+  const result: FundStatusBatch = { locations: {}, organizations: {} };
+
+  for (const location of locations) {
+    result.locations[location.id] = estimateFundAvailability(
+      monthlyAllocation(location.organization_id),
+      reportsByLocation.get(location.id) || [],
+      at
+    );
+  }
+
+  for (const organization of organizations) {
+    result.organizations[organization.id] = estimateFundAvailability(
+      monthlyAllocation(organization.id),
+      [],
+      at
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,135 @@
+import { supabase } from './supabase';
+import { systemClock } from './clock';
+import { MapFundStatus } from './types-v2';
+
+// Location search through the search_locations and search_locations_nearby
+// RPCs (supabase/migrations/20261018000006_location_search.sql and
+// 20261018000007_nearby_search.sql). Matching is diacritic-insensitive and
+// tolerates typos; filters and pagination run in the database, so a search
+// is a single round trip. Every row carries the location's estimated fund
+// status (location_fund_status, 20261018000009_fund_aware_search.sql); the
+// open_at filter reads locations.opening_hours (20261018000010_opening_hours.sql);
+// the investigation filter reads the catalog (20261018000013_investigations.sql).
+
+// PostgREST returns at most this many rows per call
+const MAX_ROWS_PER_CALL = 1000;
+
+// 'funds' ranks by estimated fund availability, then distance (nearby
+// searches) and location confidence
+export type LocationSort = 'relevance' | 'funds';
+
+export interface LocationSearchFilters {
+  query?: string | null;
+  county?: string | null;
+  type?: string | null;
+  networkOnly?: boolean;
+  specialty?: string | null;
+  investigation?: string | null; // catalog name, code, CNAS code or synonym
+  minConfidence?: number;
+  availableFundsOnly?: boolean;
+  sort?: LocationSort;
+  fundsAt?: Date; // instant fund status is estimated for (default now)
+  openAt?: string | null; // 'YYYY-MM-DDTHH:MM' in Bucharest; only locations open then
+}
+
+export interface NearbySearch {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+}
+
+export interface LocationSearchRow {
+  id: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  lat: number | null;
+  lng: number | null;
+  phone: string | null;
+  email: string | null;
+  website: string | null;
+  source: string;
+  confidence: number;
+  is_primary: boolean;
+  organization_id: string;
+  organization_name: string;
+  organization_cui: string | null;
+  is_network: boolean;
+  network_brand: string | null;
+  network_website: string | null;
+  provider_type: string;
+  data_source_date: string | null;
+  ai_confidence: number | null;
+  county: { id: string; code: string; name: string } | null;
+  fund_status: MapFundStatus;
+  rank?: number;
+  distance_km?: number;
+  total_count: number;
+}
+
+async function callSearch(
+  filters: LocationSearchFilters,
+  near: NearbySearch | undefined,
+  offset: number,
+  limit: number
+): Promise<LocationSearchRow[]> {
+  const geo = near
+    ? { search_lat: near.lat, search_lng: near.lng, radius_km: near.radiusKm }
+    : {};
+
+  const { data, error } = await supabase.rpc(near ? 'search_locations_nearby' : 'search_locations', {
+    ...geo,
+    search_query: filters.query || null,
+    filter_county: filters.county || null,
+    filter_type: filters.type || null,
+    network_only: filters.networkOnly ?? false,
+    filter_specialty: filters.specialty || null,
+    min_confidence: filters.minConfidence ?? 50,
+    result_limit: limit,
+    result_offset: offset,
+    available_funds_only: filters.availableFundsOnly ?? false,
+    sort_by: filters.sort || 'relevance',
+    fund_at: (filters.fundsAt || systemClock.now()).toISOString(),
+    open_at: filters.openAt || null,
+    filter_investigation: filters.investigation || null,
+  });
+
+  if (error) throw new Error(`Location search failed: ${error.message}`);
+  return (data as LocationSearchRow[]) || [];
+}
+
+/**
+ * Search locations: best matches first, or nearest first when `near` is
+ * given (rows then carry distance_km). Requests above the PostgREST row cap
+ * are fetched in consecutive calls.
+ */
+export async function searchLocations(
+  filters: LocationSearchFilters,
+  offset: number,
+  limit: number,
+  near?: NearbySearch
+): Promise<{ locations: Omit<LocationSearchRow, 'rank' | 'total_count'>[]; total: number }> {
+  const rows: LocationSearchRow[] = [];
+  let total = 0;
+
+  while (rows.length < limit) {
+    const batchSize = Math.min(limit - rows.length, MAX_ROWS_PER_CALL);
+    const batch = await callSearch(filters, near, offset + rows.length, batchSize);
+
+    if (batch.length > 0) total = Number(batch[0].total_count);
+    rows.push(...batch);
+
+    if (batch.length < batchSize) break;
+  }
+
+  // Past the last page there are no rows to carry the count
+  if (rows.length === 0 && offset > 0) {
+    const [first] = await callSearch(filters, near, 0, 1);
+    total = first ? Number(first.total_count) : 0;
+  }
+
+  return {
+    locations: rows.map(({ rank, total_count, ...location }) => location),
+    total,
+  };
+}
@@ -0,0 +1,126 @@
+import { supabase } from './supabase';
+import { systemClock } from './clock';
+import { LocationSearchFilters, NearbySearch } from './location-search';
+import {
+  MapClusterProperties,
+  MapFeature,
+  MapFeatureCollection,
+  MapPointProperties,
+} from './types-v2';
+
+// Viewport map features through the map_features RPC
+// (supabase/migrations/20261018000008_map_features.sql). Below
+// CLUSTER_MAX_ZOOM locations are aggregated into grid cells in the database,
+// so a view of the whole country is a few hundred features, not every clinic.
+
+// From this zoom level on every location is returned as a point
+export const CLUSTER_MAX_ZOOM = 15;
+
+// Approximate cluster size on screen, like the old client-side clustering
+const CLUSTER_RADIUS_PX = 60;
+
+const TILE_SIZE_PX = 256;
+
+export const MAX_MAP_FEATURES = 2000;
+
+export interface MapFeatureQueryFilters extends LocationSearchFilters {
+  // Leave out locations geocoded less precisely than the building
+  exactLocationsOnly?: boolean;
+}
+
+export interface MapBoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+interface MapFeatureRow {
+  lat: number;
+  lng: number;
+  point_count: number;
+  location: Omit<MapPointProperties, 'kind'> | null;
+  provider_types: MapClusterProperties['providerTypes'];
+  fund_statuses: MapClusterProperties['fundStatuses'];
+}
+
+/**
+ * Grid cell size in degrees for a zoom level, or 0 when not clustering.
+ * Latitude degrees are scaled so cells are roughly square on screen.
+ */
+function getCellSize(zoom: number, bbox: MapBoundingBox): { lng: number; lat: number } {
+  if (zoom >= CLUSTER_MAX_ZOOM) return { lng: 0, lat: 0 };
+
+  const lng = (360 / Math.pow(2, zoom)) * (CLUSTER_RADIUS_PX / TILE_SIZE_PX);
+  const centerLat = (bbox.south + bbox.north) / 2;
+  return { lng, lat: lng * Math.cos((centerLat * Math.PI) / 180) };
+}
+
+function toFeature(row: MapFeatureRow): MapFeature {
+  const geometry = { type: 'Point' as const, coordinates: [row.lng, row.lat] as [number, number] };
+
+  if (row.point_count === 1 && row.location) {
+    return { type: 'Feature', geometry, properties: { kind: 'point', ...row.location } };
+  }
+
+  return {
+    type: 'Feature',
+    geometry,
+    properties: {
+      kind: 'cluster',
+      count: row.point_count,
+      providerTypes: row.provider_types,
+      fundStatuses: row.fund_statuses,
+    },
+  };
+}
+
+/**
+ * Features in a viewport: clusters with counts by provider type and fund
+ * status when zoomed out, individual locations when zoomed in.
+ */
+export async function getMapFeatures(
+  bbox: MapBoundingBox,
+  zoom: number,
+  filters: MapFeatureQueryFilters,
+  near?: NearbySearch
+): Promise<MapFeatureCollection> {
+  const cell = getCellSize(zoom, bbox);
+
+  const { data, error } = await supabase.rpc('map_features', {
+    min_lng: bbox.west,
+    min_lat: bbox.south,
+    max_lng: bbox.east,
+    max_lat: bbox.north,
+    cell_lng: cell.lng,
+    cell_lat: cell.lat,
+    fund_at: (filters.fundsAt || systemClock.now()).toISOString(),
+    search_query: filters.query || null,
+    filter_county: filters.county || null,
+    filter_type: filters.type || null,
+    network_only: filters.networkOnly ?? false,
+    filter_specialty: filters.specialty || null,
+    min_confidence: filters.minConfidence ?? 50,
+    near_lat: near?.lat ?? null,
+    near_lng: near?.lng ?? null,
+    radius_km: near?.radiusKm ?? null,
+    max_features: MAX_MAP_FEATURES,
+    available_funds_only: filters.availableFundsOnly ?? false,
+    exact_only: filters.exactLocationsOnly ?? false,
+    open_at: filters.openAt || null,
+    filter_investigation: filters.investigation || null,
+  });
+
+  if (error) throw new Error(`Map features query failed: ${error.message}`);
+
+  const rows = (data as MapFeatureRow[]) || [];
+
+  return {
+    type: 'FeatureCollection',
+    features: rows.map(toFeature),
+    zoom,
+    clustered: cell.lng > 0,
+    total: rows.reduce((sum, row) => sum + row.point_count, 0),
+    truncated: rows.length >= MAX_MAP_FEATURES,
+  };
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Check the `Authorization: Bearer <MODERATOR_SECRET_KEY>` header of the
+ * report moderation endpoints. Returns an error response, or null when
+ * authorized.
+ */
+export function checkModeratorAuth(request: NextRequest): NextResponse | null {
+  const authHeader = request.headers.get('authorization');
+  const secretKey = process.env.MODERATOR_SECRET_KEY;
+
+  if (!secretKey) {
+    return NextResponse.json(
+      { error: 'Moderation not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${secretKey}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
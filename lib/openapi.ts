@@ -0,0 +1,357 @@
+import { DEFAULT_RATE_LIMIT_PER_MINUTE } from './api-keys';
+import { DEFAULT_PER_PAGE, MAX_PER_PAGE } from './public-api';
+
+// OpenAPI 3.0 document of /api/v1, generated from the endpoint list below
+// and the schemas of the shapes in lib/public-api.ts. Served at
+// /api/v1/openapi.json.
+
+type JsonSchema = Record<string, unknown>;
+
+interface ParameterSpec {
+  name: string;
+  in: 'query' | 'path';
+  description: string;
+  schema: JsonSchema;
+  required?: boolean;
+}
+
+interface EndpointSpec {
+  path: string;
+  summary: string;
+  description?: string;
+  parameters: ParameterSpec[];
+  response: JsonSchema; // schema of the 200 body
+  notFound?: boolean;
+}
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+// OpenAPI 3.0 ignores keywords next to $ref, so references are wrapped
+const nullable = (schema: JsonSchema): JsonSchema =>
+  schema.$ref ? { allOf: [schema], nullable: true } : { ...schema, nullable: true };
+const string: JsonSchema = { type: 'string' };
+const integer: JsonSchema = { type: 'integer' };
+const number: JsonSchema = { type: 'number' };
+const boolean: JsonSchema = { type: 'boolean' };
+const uuid: JsonSchema = { type: 'string', format: 'uuid' };
+
+const FUND_STATUS_VALUES = ['available', 'uncertain', 'exhausted', 'unknown'];
+const providerType: JsonSchema = { type: 'string', enum: ['clinic', 'paraclinic', 'hospital', 'pharmacy', 'recovery'] };
+
+const SCHEMAS: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: { error: string },
+  },
+  PageMeta: {
+    type: 'object',
+    required: ['page', 'per_page', 'total', 'has_more'],
+    properties: { page: integer, per_page: integer, total: integer, has_more: boolean },
+  },
+  County: {
+    type: 'object',
+    required: ['code', 'name'],
+    properties: {
+      code: { type: 'string', description: 'Two-letter county code (B for București)' },
+      name: string,
+    },
+  },
+  SpecialtyRef: {
+    type: 'object',
+    required: ['code', 'name'],
+    properties: { code: nullable(string), name: string },
+  },
+  Specialty: {
+    type: 'object',
+    required: ['code', 'name', 'category', 'parent_code', 'synonyms'],
+    properties: {
+      code: nullable(string),
+      name: string,
+      category: nullable({ type: 'string', enum: ['clinical', 'paraclinical', 'dental', 'recovery'] }),
+      parent_code: nullable(string),
+      synonyms: { type: 'array', items: string },
+    },
+  },
+  OrganizationSummary: {
+    type: 'object',
+    required: ['id', 'legal_name', 'cui', 'brand', 'is_network', 'provider_type'],
+    properties: {
+      id: uuid,
+      legal_name: string,
+      cui: nullable(string),
+      brand: nullable(string),
+      is_network: boolean,
+      provider_type: providerType,
+    },
+  },
+  Organization: {
+    allOf: [
+      ref('OrganizationSummary'),
+      {
+        type: 'object',
+        required: ['website', 'cnas_contract_number', 'data_source_date', 'contract_end_date', 'specialties', 'location_ids'],
+        properties: {
+          website: nullable(string),
+          cnas_contract_number: nullable(string),
+          data_source_date: nullable({ type: 'string', format: 'date' }),
+          contract_end_date: nullable({
+            type: 'string',
+            format: 'date',
+            description: 'Date of the first CAS publication the organization was missing from',
+          }),
+          specialties: { type: 'array', items: ref('SpecialtyRef') },
+          location_ids: { type: 'array', items: uuid },
+        },
+      },
+    ],
+  },
+  Location: {
+    type: 'object',
+    required: [
+      'id', 'name', 'address', 'city', 'county', 'coordinates', 'phone', 'email', 'website',
+      'is_primary', 'source', 'confidence', 'organization', 'fund_status',
+    ],
+    properties: {
+      id: uuid,
+      name: string,
+      address: nullable(string),
+      city: nullable(string),
+      county: nullable(ref('County')),
+      coordinates: nullable({
+        type: 'object',
+        required: ['lat', 'lng'],
+        properties: { lat: number, lng: number },
+      }),
+      phone: nullable(string),
+      email: nullable(string),
+      website: nullable(string),
+      is_primary: boolean,
+      source: { type: 'string', enum: ['cnas', 'ai_discovered', 'user_reported', 'manual'] },
+      confidence: { type: 'integer', minimum: 0, maximum: 100 },
+      organization: ref('OrganizationSummary'),
+      fund_status: {
+        type: 'string',
+        enum: FUND_STATUS_VALUES,
+        description: 'Estimated availability of CNAS funds now; unknown without a published allocation',
+      },
+      distance_km: { type: 'number', description: 'Only in nearby searches (lat, lng)' },
+    },
+  },
+  LocationDetail: {
+    allOf: [
+      ref('Location'),
+      {
+        type: 'object',
+        required: ['specialties', 'opening_hours', 'fund'],
+        properties: {
+          specialties: {
+            type: 'array',
+            items: ref('SpecialtyRef'),
+            description: "The location's own specialties, or its organization's when it has none",
+          },
+          opening_hours: nullable({
+            type: 'object',
+            description: 'Raw schedule text with the parsed weekly intervals (HH:MM) and exceptions',
+            properties: {
+              raw: string,
+              weekly: nullable({ type: 'object', additionalProperties: { type: 'array' } }),
+              exceptions: { type: 'array', items: { type: 'object' } },
+            },
+          }),
+          fund: nullable(ref('FundStatus')),
+        },
+      },
+    ],
+  },
+  FundStatus: {
+    type: 'object',
+    required: [
+      'status', 'confidence', 'allocated_amount', 'estimated_consumed', 'estimated_available',
+      'day_of_month', 'message',
+    ],
+    properties: {
+      status: { type: 'string', enum: ['likely_available', 'uncertain', 'likely_exhausted'] },
+      confidence: { type: 'integer', minimum: 0, maximum: 100 },
+      allocated_amount: { type: 'number', description: 'RON allocated for the month' },
+      estimated_consumed: number,
+      estimated_available: number,
+      day_of_month: integer,
+      message: { type: 'string', description: 'Explanation in Romanian' },
+    },
+  },
+  FundStatusBatch: {
+    type: 'object',
+    required: ['at', 'period', 'locations', 'organizations'],
+    properties: {
+      at: { type: 'string', format: 'date-time' },
+      period: {
+        type: 'object',
+        properties: { year: integer, month: integer, day: integer },
+      },
+      locations: { type: 'object', additionalProperties: ref('FundStatus') },
+      organizations: { type: 'object', additionalProperties: ref('FundStatus') },
+    },
+  },
+};
+
+const PAGINATION: ParameterSpec[] = [
+  { name: 'page', in: 'query', description: 'Page number, from 1', schema: { type: 'integer', minimum: 1, default: 1 } },
+  {
+    name: 'per_page',
+    in: 'query',
+    description: 'Results per page',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_PER_PAGE, default: DEFAULT_PER_PAGE },
+  },
+];
+
+const idParameter = (what: string): ParameterSpec => ({
+  name: 'id', in: 'path', required: true, description: `${what} ID`, schema: uuid,
+});
+
+const list = (item: string): JsonSchema => ({
+  type: 'object',
+  required: ['data', 'meta'],
+  properties: { data: { type: 'array', items: ref(item) }, meta: ref('PageMeta') },
+});
+
+const single = (schema: JsonSchema): JsonSchema => ({
+  type: 'object',
+  required: ['data'],
+  properties: { data: schema },
+});
+
+const ENDPOINTS: EndpointSpec[] = [
+  {
+    path: '/locations',
+    summary: 'Search locations',
+    description: 'Diacritic-insensitive, typo-tolerant search over locations. With lat and lng the results are the nearest first.',
+    parameters: [
+      { name: 'query', in: 'query', description: 'Name, brand, address or specialty', schema: string },
+      { name: 'county', in: 'query', description: 'County code', schema: string },
+      { name: 'type', in: 'query', description: 'Provider type', schema: providerType },
+      { name: 'specialty', in: 'query', description: 'Specialty name, code or synonym; includes sub-specialties', schema: string },
+      { name: 'investigation', in: 'query', description: 'Investigation name, code or synonym (RMN, TSH)', schema: string },
+      { name: 'network', in: 'query', description: 'Only organizations with several locations', schema: boolean },
+      { name: 'funds', in: 'query', description: 'Only locations likely to have funds', schema: { type: 'string', enum: ['any', 'available'] } },
+      { name: 'sort', in: 'query', description: 'Order', schema: { type: 'string', enum: ['relevance', 'funds'] } },
+      { name: 'open_now', in: 'query', description: 'Only locations open now', schema: boolean },
+      { name: 'open_at', in: 'query', description: 'Only locations open at this Bucharest time (YYYY-MM-DDTHH:MM)', schema: string },
+      { name: 'lat', in: 'query', description: 'Latitude for a nearby search', schema: number },
+      { name: 'lng', in: 'query', description: 'Longitude for a nearby search', schema: number },
+      { name: 'radius', in: 'query', description: 'Nearby search radius in km', schema: { type: 'number', default: 3 } },
+      ...PAGINATION,
+    ],
+    response: list('Location'),
+  },
+  {
+    path: '/locations/{id}',
+    summary: 'Get a location',
+    parameters: [idParameter('Location')],
+    response: single(ref('LocationDetail')),
+    notFound: true,
+  },
+  {
+    path: '/organizations',
+    summary: 'List organizations',
+    description: 'Organizations holding CNAS contracts, ordered by legal name. Ended contracts are not listed.',
+    parameters: [
+      { name: 'query', in: 'query', description: 'Legal name, brand or CUI', schema: string },
+      { name: 'type', in: 'query', description: 'Provider type', schema: providerType },
+      { name: 'network', in: 'query', description: 'Only organizations with several locations', schema: boolean },
+      ...PAGINATION,
+    ],
+    response: list('Organization'),
+  },
+  {
+    path: '/organizations/{id}',
+    summary: 'Get an organization',
+    parameters: [idParameter('Organization')],
+    response: single({
+      allOf: [ref('Organization'), { type: 'object', properties: { fund: nullable(ref('FundStatus')) } }],
+    }),
+    notFound: true,
+  },
+  {
+    path: '/specialties',
+    summary: 'List specialties',
+    parameters: [],
+    response: single({ type: 'array', items: ref('Specialty') }),
+  },
+  {
+    path: '/counties',
+    summary: 'List counties',
+    parameters: [],
+    response: single({ type: 'array', items: ref('County') }),
+  },
+  {
+    path: '/funds/status',
+    summary: 'Fund status for several locations and organizations',
+    parameters: [
+      { name: 'location_ids', in: 'query', description: 'Comma-separated location IDs', schema: string },
+      { name: 'organization_ids', in: 'query', description: 'Comma-separated organization IDs', schema: string },
+      { name: 'at', in: 'query', description: 'Estimate for this day (YYYY-MM-DD) instead of now', schema: { type: 'string', format: 'date' } },
+    ],
+    response: single(ref('FundStatusBatch')),
+  },
+];
+
+const RATE_LIMIT_HEADERS = {
+  'X-RateLimit-Limit': { description: 'Requests allowed per minute for the key', schema: integer },
+  'X-RateLimit-Remaining': { description: 'Requests left in the current minute', schema: integer },
+  'X-RateLimit-Reset': { description: 'Unix time when the current minute ends', schema: integer },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+export function buildOpenApiDocument(serverUrl: string): Record<string, unknown> {
+  const paths: Record<string, unknown> = {};
+
+  for (const endpoint of ENDPOINTS) {
+    const responses: Record<string, unknown> = {
+      200: {
+        description: 'OK',
+        headers: RATE_LIMIT_HEADERS,
+        content: { 'application/json': { schema: endpoint.response } },
+      },
+      400: errorResponse('Invalid parameters'),
+      401: errorResponse('Missing, invalid or revoked API key'),
+      429: errorResponse('Rate limit exceeded; retry after the Retry-After header'),
+    };
+    if (endpoint.notFound) responses[404] = errorResponse('Not found');
+
+    paths[endpoint.path] = {
+      get: {
+        summary: endpoint.summary,
+        description: endpoint.description,
+        parameters: endpoint.parameters,
+        responses,
+      },
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'FondCAS API',
+      version: '1.0.0',
+      description:
+        'Medical providers contracted with CNAS (Casa Națională de Asigurări de Sănătate), their locations ' +
+        'and estimated fund availability. Requests need an API key, sent as "Authorization: Bearer <key>" ' +
+        `or "X-API-Key: <key>"; each key allows ${DEFAULT_RATE_LIMIT_PER_MINUTE} requests per minute unless ` +
+        'agreed otherwise.',
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths,
+    components: {
+      schemas: SCHEMAS,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+    },
+  };
+}
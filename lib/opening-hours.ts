@@ -0,0 +1,399 @@
+import { FUND_TIMEZONE } from './clock';
+
+// Opening hours parsed from the free-text schedules AI enrichment and
+// verification produce ("L-V 8-20, S 8-14", "Luni - Vineri: 08:00 - 20:00;
+// Duminică și sărbători legale: închis", "Nonstop"). The structure is stored
+// as-is in locations.opening_hours and read by location_is_open
+// (supabase/migrations/20261018000010_opening_hours.sql), which must follow
+// the same rules as getIntervalsForDay below.
+//
+// Times are wall-clock times in Bucharest, like the fund calendar.
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface OpeningInterval {
+  open: string; // 'HH:MM'
+  close: string; // 'HH:MM', '24:00' for midnight; before open when past midnight
+}
+
+export type WeeklySchedule = Record<Weekday, OpeningInterval[]>;
+
+export interface OpeningHoursException {
+  date?: string; // 'MM-DD', every year
+  holidays?: boolean; // Romanian public holidays
+  intervals: OpeningInterval[]; // empty when closed
+}
+
+export interface OpeningHours {
+  raw: string;
+  weekly: WeeklySchedule | null; // null when the text could not be read
+  exceptions: OpeningHoursException[];
+}
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'Luni',
+  tue: 'Marți',
+  wed: 'Miercuri',
+  thu: 'Joi',
+  fri: 'Vineri',
+  sat: 'Sâmbătă',
+  sun: 'Duminică',
+};
+
+// Day names and abbreviations, without diacritics. Monday is 0.
+const DAY_NAMES: Record<string, number> = {
+  luni: 0, lu: 0, l: 0,
+  marti: 1, mar: 1, ma: 1,
+  miercuri: 2, mie: 2, mi: 2,
+  joi: 3, jo: 3, j: 3,
+  vineri: 4, vin: 4, vi: 4, v: 4,
+  sambata: 5, sam: 5, sa: 5, s: 5,
+  duminica: 6, dum: 6, du: 6, d: 6,
+};
+
+const MONTH_NAMES = [
+  'ianuarie', 'februarie', 'martie', 'aprilie', 'mai', 'iunie',
+  'iulie', 'august', 'septembrie', 'octombrie', 'noiembrie', 'decembrie',
+];
+
+// Longest names first so "ma" is not read as "m" + "a"
+const DAY = `(?:${Object.keys(DAY_NAMES).sort((a, b) => b.length - a.length).join('|')})`;
+const TIME = '(\\d{1,2})(?:[:.](\\d{2}))?\\s*h?';
+
+const TOKEN = new RegExp(
+  [
+    // 1-2: day range ("l-v", "luni pana vineri")
+    `\\b(${DAY})\\.?\\s*(?:-|\\s(?:pana(?:\\s+la|\\s+in)?|la)\\s)\\s*(${DAY})\\b`,
+    // 3-6: time range ("8-20", "08:00 - 14:30", "de la 8 la 16")
+    `${TIME}\\s*(?:-|\\bla\\b|\\bpana(?:\\s+la)?\\b)\\s*${TIME}`,
+    // 7: single day
+    `\\b(${DAY})\\b`,
+    // 8: all day
+    '(non\\s*-?\\s*stop|24\\s*/\\s*(?:24|7)|24\\s*h\\b|24\\s*(?:de\\s+)?ore)',
+    // 9: every day
+    '\\b(zilnic|toate\\s+zilele)\\b',
+    // 10: closed
+    '\\b(inchis|liber)\\b',
+    // 11: public holidays
+    '\\b(sarbatori\\w*|zile(?:le)?\\s+libere)\\b',
+    // 12-13: date ("24.12", "1/05")
+    '\\b(\\d{1,2})[./](\\d{1,2})\\b',
+    // 14-15: date with the month name ("25 decembrie")
+    `\\b(\\d{1,2})\\s+(${MONTH_NAMES.join('|')})\\b`,
+  ].join('|'),
+  'g'
+);
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2010-\u2015]/g, '-');
+}
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+function toTime(hours: string, minutes: string | undefined): string | null {
+  const h = parseInt(hours);
+  const m = minutes ? parseInt(minutes) : 0;
+  if (h > 24 || m > 59 || (h === 24 && m > 0)) return null;
+  return `${pad(h)}:${pad(m)}`;
+}
+
+function toDate(day: number, month: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${pad(month)}-${pad(day)}`;
+}
+
+function dayRange(from: number, to: number): number[] {
+  const days: number[] = [];
+  for (let day = from; ; day = (day + 1) % 7) {
+    days.push(day);
+    if (day === to) return days;
+  }
+}
+
+function emptyWeek(): WeeklySchedule {
+  return { mon: [], tue: [], wed: [], thu: [], fri: [], sat: [], sun: [] };
+}
+
+const ALL_DAY: OpeningInterval = { open: '00:00', close: '24:00' };
+
+/**
+ * Parse a Romanian schedule into weekly intervals and exceptions. Days the
+ * text does not mention are closed; hours given without any day are read as
+ * Monday to Friday (or every day for "nonstop"). Returns weekly = null when
+ * nothing in the text looks like a schedule.
+ */
+export function parseOpeningHours(raw: string): OpeningHours {
+  const text = normalize(raw);
+  const weekly = emptyWeek();
+  const exceptions: OpeningHoursException[] = [];
+  let understood = false;
+
+  // Days and exceptions waiting for their hours; the next day or exception
+  // after the hours starts a new group
+  let days: number[] = [];
+  let pending: OpeningHoursException[] = [];
+  let filled = false;
+
+  const startGroup = () => {
+    if (!filled) return;
+    days = [];
+    pending = [];
+    filled = false;
+  };
+
+  const fill = (interval: OpeningInterval | null, defaultDays: number[]) => {
+    if (days.length === 0 && pending.length === 0) days = defaultDays.slice();
+
+    for (const day of days) {
+      const key = WEEKDAYS[day];
+      if (!filled) weekly[key] = [];
+      if (interval) weekly[key].push(interval);
+    }
+
+    for (const exception of pending) {
+      if (!filled) exceptions.push(exception);
+      if (interval) exception.intervals.push(interval);
+    }
+
+    filled = true;
+    understood = true;
+  };
+
+  const weekdays = [0, 1, 2, 3, 4];
+  const everyDay = [0, 1, 2, 3, 4, 5, 6];
+
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TOKEN.exec(text)) !== null) {
+    if (match[1]) {
+      startGroup();
+      days = days.concat(dayRange(DAY_NAMES[match[1]], DAY_NAMES[match[2]]));
+    } else if (match[3]) {
+      const open = toTime(match[3], match[4]);
+      const close = toTime(match[5], match[6]);
+      if (open && close && open !== close) fill({ open, close }, weekdays);
+    } else if (match[7]) {
+      startGroup();
+      days.push(DAY_NAMES[match[7]]);
+    } else if (match[8]) {
+      fill(ALL_DAY, everyDay);
+    } else if (match[9]) {
+      startGroup();
+      days = everyDay.slice();
+    } else if (match[10]) {
+      // "închis" alone says nothing about the other days
+      if (days.length > 0 || pending.length > 0) fill(null, []);
+    } else if (match[11]) {
+      startGroup();
+      pending.push({ holidays: true, intervals: [] });
+    } else if (match[12] || match[14]) {
+      const date = match[12]
+        ? toDate(parseInt(match[12]), parseInt(match[13]))
+        : toDate(parseInt(match[14]), MONTH_NAMES.indexOf(match[15]) + 1);
+      if (date) {
+        startGroup();
+        pending.push({ date, intervals: [] });
+      }
+    }
+  }
+
+  return understood
+    ? { raw, weekly, exceptions }
+    : { raw, weekly: null, exceptions: [] };
+}
+
+/**
+ * Opening hours as stored on a location. Rows written before the parser
+ * existed only carry { raw }.
+ */
+export function readOpeningHours(value: unknown): OpeningHours | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const stored = value as Partial<OpeningHours>;
+  if (stored.weekly !== undefined && typeof stored.raw === 'string') {
+    return { raw: stored.raw, weekly: stored.weekly, exceptions: stored.exceptions || [] };
+  }
+
+  return typeof stored.raw === 'string' && stored.raw.trim()
+    ? parseOpeningHours(stored.raw)
+    : null;
+}
+
+// ============================================
+// PUBLIC HOLIDAYS
+// ============================================
+
+// Legal holidays on a fixed date (Codul muncii, art. 139)
+const FIXED_HOLIDAYS = [
+  '01-01', '01-02', '01-06', '01-07', '01-24', '05-01',
+  '06-01', '08-15', '11-30', '12-01', '12-25', '12-26',
+];
+
+/**
+ * Orthodox Easter Sunday (Meeus' Julian algorithm, shifted to the
+ * Gregorian calendar; valid 1900-2099)
+ */
+export function orthodoxEaster(year: number): { month: number; day: number } {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const julianMonth = Math.floor((d + e + 114) / 31);
+  const julianDay = ((d + e + 114) % 31) + 1;
+
+  const easter = new Date(Date.UTC(year, julianMonth - 1, julianDay + 13));
+  return { month: easter.getUTCMonth() + 1, day: easter.getUTCDate() };
+}
+
+/**
+ * Romanian public holiday: the fixed dates plus Good Friday, Easter and
+ * Pentecost (Sunday and Monday)
+ */
+export function isPublicHoliday(year: number, month: number, day: number): boolean {
+  if (FIXED_HOLIDAYS.indexOf(`${pad(month)}-${pad(day)}`) >= 0) return true;
+
+  const easter = orthodoxEaster(year);
+  const offset = Math.round(
+    (Date.UTC(year, month - 1, day) - Date.UTC(year, easter.month - 1, easter.day)) / 86400000
+  );
+  return [-2, 0, 1, 49, 50].indexOf(offset) >= 0;
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  minutes: number; // since midnight
+}
+
+const localFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: FUND_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hour12: false,
+});
+
+/**
+ * Wall-clock date and time in Bucharest for an instant
+ */
+export function toLocalDateTime(at: Date): LocalDateTime {
+  const parts = localFormat.formatToParts(at);
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)!.value);
+  // Some engines format midnight as 24:00
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    minutes: (get('hour') % 24) * 60 + get('minute'),
+  };
+}
+
+/**
+ * 'YYYY-MM-DDTHH:MM' in Bucharest, the format of the open_at filter
+ */
+export function formatLocalDateTime(at: Date): string {
+  const local = toLocalDateTime(at);
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}T` +
+    `${pad(Math.floor(local.minutes / 60))}:${pad(local.minutes % 60)}`;
+}
+
+/**
+ * Parse an `?open_at=YYYY-MM-DDTHH:MM` query parameter (Bucharest time).
+ * Returns undefined when absent and null when malformed.
+ */
+export function parseOpenAtParam(value: string | null): string | null | undefined {
+  if (!value) return undefined;
+
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day, hours, minutes] = match.slice(1).map((v) => parseInt(v));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  if (hours > 23 || minutes > 59) return null;
+
+  return value;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((v) => parseInt(v));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Intervals for a calendar day: a date exception wins over a holiday
+ * exception, which wins over the weekly schedule
+ */
+export function getIntervalsForDay(
+  hours: OpeningHours,
+  year: number,
+  month: number,
+  day: number
+): OpeningInterval[] {
+  const date = `${pad(month)}-${pad(day)}`;
+  const byDate = hours.exceptions.find((e) => e.date === date);
+  if (byDate) return byDate.intervals;
+
+  const byHoliday = hours.exceptions.find((e) => e.holidays);
+  if (byHoliday && isPublicHoliday(year, month, day)) return byHoliday.intervals;
+
+  const weekday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+  return hours.weekly ? hours.weekly[WEEKDAYS[weekday]] : [];
+}
+
+/**
+ * Whether the location is open at an instant, read in Bucharest time.
+ * Null when the schedule is unknown.
+ */
+export function isOpenAt(hours: OpeningHours | null, at: Date): boolean | null {
+  if (!hours || !hours.weekly) return null;
+
+  const local = toLocalDateTime(at);
+  const today = getIntervalsForDay(hours, local.year, local.month, local.day);
+  const previous = new Date(Date.UTC(local.year, local.month - 1, local.day - 1));
+  const yesterday = getIntervalsForDay(
+    hours,
+    previous.getUTCFullYear(),
+    previous.getUTCMonth() + 1,
+    previous.getUTCDate()
+  );
+
+  const openToday = today.some((interval) => {
+    const open = toMinutes(interval.open);
+    const close = toMinutes(interval.close);
+    return local.minutes >= open && (close <= open || local.minutes < close);
+  });
+
+  // Past-midnight end of yesterday's last interval
+  const openSinceYesterday = yesterday.some((interval) => {
+    const open = toMinutes(interval.open);
+    const close = toMinutes(interval.close);
+    return close <= open && local.minutes < close;
+  });
+
+  return openToday || openSinceYesterday;
+}
+
+export function formatIntervals(intervals: OpeningInterval[]): string {
+  if (intervals.length === 0) return 'Închis';
+  if (intervals.length === 1 && intervals[0].open === '00:00' && intervals[0].close === '24:00') {
+    return 'Nonstop';
+  }
+  return intervals.map((i) => `${i.open}–${i.close}`).join(', ');
+}
@@ -0,0 +1,205 @@
+import { NextResponse } from 'next/server';
+import { RateLimitInfo, rateLimitHeaders } from './api-keys';
+import { LocationSearchRow } from './location-search';
+import { OpeningHours } from './opening-hours';
+import { FundAvailabilityStatus, MapFundStatus, ProviderType, SpecialtyCategory } from './types-v2';
+
+// Response shapes of the public /api/v1 surface. Unlike the internal routes
+// these only change with a new version: fields are snake_case, related
+// records are nested objects, lists are { data, meta } and single records
+// { data }. lib/openapi.ts documents the same shapes.
+
+export const DEFAULT_PER_PAGE = 20;
+export const MAX_PER_PAGE = 100;
+
+export interface ApiCounty {
+  code: string;
+  name: string;
+}
+
+export interface ApiOrganizationSummary {
+  id: string;
+  legal_name: string;
+  cui: string | null;
+  brand: string | null;
+  is_network: boolean;
+  provider_type: ProviderType | string;
+}
+
+export interface ApiLocation {
+  id: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  county: ApiCounty | null;
+  coordinates: { lat: number; lng: number } | null;
+  phone: string | null;
+  email: string | null;
+  website: string | null;
+  is_primary: boolean;
+  source: string;
+  confidence: number;
+  organization: ApiOrganizationSummary;
+  fund_status: MapFundStatus;
+  distance_km?: number;
+}
+
+export interface ApiLocationDetail extends ApiLocation {
+  specialties: ApiSpecialtyRef[];
+  opening_hours: OpeningHours | null;
+  fund: ApiFundStatus | null;
+}
+
+export interface ApiSpecialtyRef {
+  code: string | null;
+  name: string;
+}
+
+export interface ApiOrganization extends ApiOrganizationSummary {
+  website: string | null;
+  cnas_contract_number: string | null;
+  data_source_date: string | null;
+  contract_end_date: string | null; // set once missing from a CAS publication
+  specialties: ApiSpecialtyRef[];
+  location_ids: string[];
+}
+
+export interface ApiSpecialty {
+  code: string | null;
+  name: string;
+  category: SpecialtyCategory | null;
+  parent_code: string | null;
+  synonyms: string[];
+}
+
+export interface ApiFundStatus {
+  status: FundAvailabilityStatus['status'];
+  confidence: number;
+  allocated_amount: number;
+  estimated_consumed: number;
+  estimated_available: number;
+  day_of_month: number;
+  message: string;
+}
+
+export interface ApiPageMeta {
+  page: number;
+  per_page: number;
+  total: number;
+  has_more: boolean;
+}
+
+export function apiJson(body: unknown, rateLimit: RateLimitInfo, status: number = 200): NextResponse {
+  return NextResponse.json(body, { status, headers: rateLimitHeaders(rateLimit) });
+}
+
+export function apiError(message: string, rateLimit: RateLimitInfo, status: number): NextResponse {
+  return apiJson({ error: message }, rateLimit, status);
+}
+
+/**
+ * Read `page` (from 1) and `per_page` (1 to MAX_PER_PAGE). Returns null
+ * when either is malformed.
+ */
+export function parsePagination(searchParams: URLSearchParams): { page: number; perPage: number } | null {
+  const page = parseInt(searchParams.get('page') || '1');
+  const perPage = parseInt(searchParams.get('per_page') || String(DEFAULT_PER_PAGE));
+
+  if (isNaN(page) || page < 1 || isNaN(perPage) || perPage < 1 || perPage > MAX_PER_PAGE) return null;
+  return { page, perPage };
+}
+
+export function pageMeta(page: number, perPage: number, total: number): ApiPageMeta {
+  return { page, per_page: perPage, total, has_more: total > page * perPage };
+}
+
+export function toApiLocation(row: Omit<LocationSearchRow, 'rank' | 'total_count'>): ApiLocation {
+  const location: ApiLocation = {
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    city: row.city,
+    county: row.county ? { code: row.county.code, name: row.county.name } : null,
+    coordinates: row.lat !== null && row.lng !== null ? { lat: row.lat, lng: row.lng } : null,
+    phone: row.phone,
+    email: row.email,
+    website: row.website,
+    is_primary: row.is_primary,
+    source: row.source,
+    confidence: row.confidence,
+    organization: {
+      id: row.organization_id,
+      legal_name: row.organization_name,
+      cui: row.organization_cui,
+      brand: row.network_brand,
+      is_network: row.is_network,
+      provider_type: row.provider_type,
+    },
+    fund_status: row.fund_status,
+  };
+
+  if (row.distance_km !== undefined) location.distance_km = row.distance_km;
+  return location;
+}
+
+export function toApiFundStatus(status: FundAvailabilityStatus): ApiFundStatus {
+  return {
+    status: status.status,
+    confidence: status.confidence,
+    allocated_amount: status.allocatedAmount,
+    estimated_consumed: status.estimatedConsumed,
+    estimated_available: status.estimatedAvailable,
+    day_of_month: status.dayOfMonth,
+    message: status.message,
+  };
+}
+
+/**
+ * The coarse status carried by list rows ('unknown' without an allocation)
+ * for a detailed estimate
+ */
+export function toMapFundStatus(status: FundAvailabilityStatus | undefined): MapFundStatus {
+  if (!status || !status.allocatedAmount) return 'unknown';
+  if (status.status === 'likely_available') return 'available';
+  if (status.status === 'likely_exhausted') return 'exhausted';
+  return 'uncertain';
+}
+
+// Columns read for ApiOrganization
+export const ORGANIZATION_SELECT = `
+  id,
+  cui,
+  legal_name,
+  is_network,
+  network_brand,
+  network_website,
+  provider_type,
+  cnas_contract_number,
+  data_source_date,
+  contract_end_date,
+  organization_specialties (
+    specialty:specialties (code, name)
+  ),
+  locations (id)
+`;
+
+export function toApiOrganization(row: any): ApiOrganization {
+  return {
+    id: row.id,
+    legal_name: row.legal_name,
+    cui: row.cui,
+    brand: row.network_brand,
+    is_network: row.is_network,
+    provider_type: row.provider_type,
+    website: row.network_website,
+    cnas_contract_number: row.cnas_contract_number,
+    data_source_date: row.data_source_date,
+    contract_end_date: row.contract_end_date,
+    specialties: (row.organization_specialties || [])
+      .map((link: any) => link.specialty)
+      .filter(Boolean)
+      .map((s: { code: string | null; name: string }) => ({ code: s.code, name: s.name }))
+      .sort((a: ApiSpecialtyRef, b: ApiSpecialtyRef) => a.name.localeCompare(b.name)),
+    location_ids: (row.locations || []).map((l: { id: string }) => l.id),
+  };
+}
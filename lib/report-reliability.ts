@@ -0,0 +1,37 @@
+import { ReportSignal } from './types';
+
+// How much a user report counts in fund estimates.
+//
+// A report starts at weight 1. Votes move it along the smoothed share of
+// upvotes (one pseudo-vote each way), so a report nobody has voted on keeps
+// weight 1, confirmed reports approach REPORT_WEIGHT_MAX and disputed ones
+// approach 0. Moderator-verified reports always count fully.
+
+export const REPORT_WEIGHT_MAX = 2;
+
+// Net weight of recent reports (one side minus the other) needed before they
+// decide the estimated status on their own. A single report nobody has voted
+// on only makes the status uncertain; it takes a second report, upvotes or a
+// moderator to mark a clinic as exhausted.
+export const REPORT_STRONG_SIGNAL = 1.5;
+export const REPORT_WEAK_SIGNAL = 0.5;
+
+export function reportReliability(report: ReportSignal): number {
+  if (report.verified) return REPORT_WEIGHT_MAX;
+
+  const upvotes = report.upvotes || 0;
+  const downvotes = report.downvotes || 0;
+  return (REPORT_WEIGHT_MAX * (upvotes + 1)) / (upvotes + downvotes + 2);
+}
+
+/**
+ * Net reliability of fund reports: positive leans available, negative exhausted
+ */
+export function fundReportBalance(reports: ReportSignal[]): number {
+  let balance = 0;
+  for (const report of reports) {
+    if (report.report_type === 'funds_available') balance += reportReliability(report);
+    else if (report.report_type === 'funds_exhausted') balance -= reportReliability(report);
+  }
+  return balance;
+}
@@ -0,0 +1,270 @@
+import { SpecialtyCategory } from './types-v2';
+
+// Curated specialty taxonomy. CAS lists name specialties in free text ("ORL",
+// "obstetrica/ginecologie", "diabet zaharat, nutritie si boli metabolice"),
+// so ingestion maps every raw string to one of these entries and reports the
+// ones it cannot map instead of creating a new specialty for each spelling.
+//
+// `code` is an internal key of this taxonomy, stored in specialties.code; it
+// is not a CNAS code. CAS lists that prefix a specialty with its CNAS code
+// ("12 - cardiologie") are where the CNAS codes come from: the sync stores
+// them as specialties.cnas_code (see collectSpecialtyCnasCodes). Names are
+// the ones of the Romanian nomenclature of medical specialties. Synonyms are
+// written without diacritics and compared after normalizeSpecialtyText. A
+// child (`parent`) is also found when filtering by its parent ("cardiologie"
+// includes "cardiologie pediatrică").
+
+export interface SpecialtyDefinition {
+  code: string;
+  name: string;
+  category: SpecialtyCategory;
+  parent?: string; // code of the broader specialty
+  synonyms: string[];
+}
+
+export const SPECIALTY_TAXONOMY: SpecialtyDefinition[] = [
+  // Clinical
+  { code: 'ALERG', name: 'alergologie și imunologie clinică', category: 'clinical',
+    synonyms: ['alergologie', 'imunologie clinica', 'imunologie', 'alergolog'] },
+  { code: 'CARD', name: 'cardiologie', category: 'clinical',
+    synonyms: ['cardiolog', 'boli cardiovasculare', 'cardio'] },
+  { code: 'CARD_PED', name: 'cardiologie pediatrică', category: 'clinical', parent: 'CARD',
+    synonyms: ['cardiologie copii', 'cardiologie infantila'] },
+  { code: 'CHIR', name: 'chirurgie generală', category: 'clinical',
+    synonyms: ['chirurgie', 'chirurg'] },
+  { code: 'CHIR_PED', name: 'chirurgie pediatrică', category: 'clinical', parent: 'CHIR',
+    synonyms: ['chirurgie si ortopedie pediatrica', 'chirurgie infantila'] },
+  { code: 'CHIR_PLAST', name: 'chirurgie plastică', category: 'clinical', parent: 'CHIR',
+    synonyms: ['chirurgie plastica estetica si microchirurgie reconstructiva', 'chirurgie estetica'] },
+  { code: 'CHIR_VASC', name: 'chirurgie vasculară', category: 'clinical', parent: 'CHIR',
+    synonyms: ['chirurgie cardiovasculara', 'chirurgie cardiaca'] },
+  { code: 'NEUROCHIR', name: 'neurochirurgie', category: 'clinical', parent: 'CHIR', synonyms: [] },
+  { code: 'DERM', name: 'dermatovenerologie', category: 'clinical',
+    synonyms: ['dermatologie', 'dermato venerologie', 'dermatolog', 'venerologie'] },
+  { code: 'DIAB', name: 'diabet zaharat, nutriție și boli metabolice', category: 'clinical',
+    synonyms: ['diabet zaharat', 'diabet', 'diabetologie', 'nutritie si boli metabolice', 'boli metabolice', 'nutritie'] },
+  { code: 'ENDO', name: 'endocrinologie', category: 'clinical', synonyms: ['endocrinolog'] },
+  { code: 'GASTRO', name: 'gastroenterologie', category: 'clinical',
+    synonyms: ['gastroenterolog', 'gastro'] },
+  { code: 'GASTRO_PED', name: 'gastroenterologie pediatrică', category: 'clinical', parent: 'GASTRO',
+    synonyms: [] },
+  { code: 'GEN', name: 'genetică medicală', category: 'clinical', synonyms: ['genetica'] },
+  { code: 'GER', name: 'geriatrie și gerontologie', category: 'clinical',
+    synonyms: ['geriatrie', 'gerontologie'] },
+  { code: 'HEMAT', name: 'hematologie', category: 'clinical', synonyms: [] },
+  { code: 'INF', name: 'boli infecțioase', category: 'clinical', synonyms: ['boli infectioase'] },
+  { code: 'MF', name: 'medicină de familie', category: 'clinical',
+    synonyms: ['medic de familie', 'medicina generala'] },
+  { code: 'MI', name: 'medicină internă', category: 'clinical',
+    synonyms: ['medicina interna', 'interne', 'internist'] },
+  { code: 'MM', name: 'medicina muncii', category: 'clinical', synonyms: ['medicina a muncii'] },
+  { code: 'MS', name: 'medicină sportivă', category: 'clinical', synonyms: ['medicina sportiva'] },
+  { code: 'NEFRO', name: 'nefrologie', category: 'clinical', synonyms: ['nefrolog'] },
+  { code: 'NEFRO_PED', name: 'nefrologie pediatrică', category: 'clinical', parent: 'NEFRO',
+    synonyms: [] },
+  { code: 'NEURO', name: 'neurologie', category: 'clinical', synonyms: ['neurolog'] },
+  { code: 'NEURO_PED', name: 'neurologie pediatrică', category: 'clinical', parent: 'NEURO',
+    synonyms: ['neurologie copii'] },
+  { code: 'OG', name: 'obstetrică-ginecologie', category: 'clinical',
+    synonyms: ['obstetrica ginecologie', 'ginecologie', 'obstetrica', 'ginecolog', 'ginecologie obstetrica'] },
+  { code: 'OFT', name: 'oftalmologie', category: 'clinical', synonyms: ['oftalmolog', 'oftalmo'] },
+  { code: 'ONCO', name: 'oncologie medicală', category: 'clinical',
+    synonyms: ['oncologie', 'oncolog'] },
+  { code: 'ORL', name: 'otorinolaringologie', category: 'clinical',
+    synonyms: ['orl', 'o r l', 'oto rino laringologie', 'otorinolanrigologie', 'otorinolaringolog'] },
+  { code: 'ORTO', name: 'ortopedie și traumatologie', category: 'clinical',
+    synonyms: ['ortopedie', 'traumatologie', 'ortopedie traumatologie', 'ortoped'] },
+  { code: 'ORTO_PED', name: 'ortopedie pediatrică', category: 'clinical', parent: 'ORTO',
+    synonyms: [] },
+  { code: 'PED', name: 'pediatrie', category: 'clinical', synonyms: ['pediatru', 'pediatric'] },
+  { code: 'PF', name: 'planificare familială', category: 'clinical',
+    synonyms: ['planificare familiala'] },
+  { code: 'PNEUMO', name: 'pneumologie', category: 'clinical',
+    synonyms: ['pneumoftiziologie', 'boli pulmonare', 'pneumolog'] },
+  { code: 'PNEUMO_PED', name: 'pneumologie pediatrică', category: 'clinical', parent: 'PNEUMO',
+    synonyms: [] },
+  { code: 'PSIH', name: 'psihiatrie', category: 'clinical', synonyms: ['psihiatru'] },
+  { code: 'PSIH_PED', name: 'psihiatrie pediatrică', category: 'clinical', parent: 'PSIH',
+    synonyms: ['neuropsihiatrie infantila', 'psihiatrie copii'] },
+  { code: 'REUMA', name: 'reumatologie', category: 'clinical', synonyms: ['reumatolog'] },
+  { code: 'URO', name: 'urologie', category: 'clinical', synonyms: ['urolog'] },
+
+  // Paraclinical
+  { code: 'LAB', name: 'medicină de laborator', category: 'paraclinical',
+    synonyms: [
+      'analize medicale', 'analize medicale de laborator', 'laborator', 'laborator analize medicale',
+      'analize de laborator', 'analize', 'biochimie', 'hematologie de laborator',
+    ] },
+  { code: 'MICROBIO', name: 'microbiologie medicală', category: 'paraclinical', parent: 'LAB',
+    synonyms: ['microbiologie', 'bacteriologie'] },
+  { code: 'ANAT_PAT', name: 'anatomie patologică', category: 'paraclinical', parent: 'LAB',
+    synonyms: ['histopatologie', 'citologie', 'anatomopatologie'] },
+  { code: 'RAD', name: 'radiologie și imagistică medicală', category: 'paraclinical',
+    synonyms: ['radiologie', 'imagistica', 'imagistica medicala', 'radiologie imagistica medicala'] },
+  { code: 'ECO', name: 'ecografie', category: 'paraclinical', parent: 'RAD',
+    synonyms: ['ecografii', 'ecograf', 'ultrasonografie'] },
+  { code: 'RX', name: 'radiografie', category: 'paraclinical', parent: 'RAD',
+    synonyms: ['radiografii', 'rx', 'radiologie conventionala'] },
+  { code: 'CT', name: 'tomografie computerizată', category: 'paraclinical', parent: 'RAD',
+    synonyms: ['computer tomograf', 'computer tomografie', 'ct', 'tomografie'] },
+  { code: 'RMN', name: 'rezonanță magnetică nucleară', category: 'paraclinical', parent: 'RAD',
+    synonyms: ['rmn', 'irm', 'rezonanta magnetica', 'imagistica prin rezonanta magnetica'] },
+  { code: 'MAMO', name: 'mamografie', category: 'paraclinical', parent: 'RAD', synonyms: [] },
+  { code: 'DEXA', name: 'osteodensitometrie', category: 'paraclinical', parent: 'RAD',
+    synonyms: ['dexa', 'densitometrie osoasa'] },
+  { code: 'MED_NUC', name: 'medicină nucleară', category: 'paraclinical',
+    synonyms: ['medicina nucleara', 'scintigrafie'] },
+
+  // Dental
+  { code: 'DENT', name: 'medicină dentară', category: 'dental',
+    synonyms: ['medicina dentara', 'stomatologie', 'stomatologie generala', 'dentist', 'dentara'] },
+  { code: 'DENT_ORTO', name: 'ortodonție și ortopedie dento-facială', category: 'dental', parent: 'DENT',
+    synonyms: ['ortodontie', 'ortodontie si ortopedie dento faciala'] },
+  { code: 'DENT_CHIR', name: 'chirurgie dento-alveolară', category: 'dental', parent: 'DENT',
+    synonyms: ['chirurgie dento alveolara', 'chirurgie orala', 'chirurgie oro maxilo faciala'] },
+  { code: 'DENT_PARO', name: 'parodontologie', category: 'dental', parent: 'DENT', synonyms: [] },
+  { code: 'DENT_PED', name: 'pedodonție', category: 'dental', parent: 'DENT',
+    synonyms: ['pedodontie', 'stomatologie pediatrica'] },
+
+  // Recovery
+  { code: 'RMFB', name: 'recuperare, medicină fizică și balneologie', category: 'recovery',
+    synonyms: [
+      'recuperare', 'recuperare medicala', 'medicina fizica si balneologie', 'medicina fizica si de reabilitare',
+      'balneologie', 'balneofizioterapie', 'fizioterapie', 'reabilitare medicala',
+    ] },
+  { code: 'KINETO', name: 'kinetoterapie', category: 'recovery', parent: 'RMFB',
+    synonyms: ['kineto', 'gimnastica medicala'] },
+];
+
+/**
+ * Lower case, no diacritics (including the ã that some CAS exports use for
+ * ă), punctuation collapsed to single spaces
+ */
+export function normalizeSpecialtyText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Leading CNAS code of a CAS list entry: "12 - cardiologie", "012: ORL"
+const CNAS_CODE_PATTERN = /^\s*(\d{2,4})\s*[-–:]\s*/;
+
+const BY_CODE = new Map<string, SpecialtyDefinition>();
+
+// Normalized name or synonym -> entry
+const BY_TERM = new Map<string, SpecialtyDefinition>();
+
+for (const entry of SPECIALTY_TAXONOMY) {
+  BY_CODE.set(entry.code, entry);
+  for (const term of [entry.name].concat(entry.synonyms)) {
+    BY_TERM.set(normalizeSpecialtyText(term), entry);
+  }
+}
+
+// Longest first, so "cardiologie pediatrica" wins over "cardiologie"
+const TERMS_BY_LENGTH = Array.from(BY_TERM.keys()).sort((a, b) => b.length - a.length);
+
+export function getSpecialtyByCode(code: string): SpecialtyDefinition | undefined {
+  return BY_CODE.get(code);
+}
+
+/**
+ * The taxonomy entry for a raw specialty string: an exact name, synonym or
+ * code, else the longest name or synonym contained in it as whole words
+ * ("consultatii cardiologie pediatrica" -> cardiologie pediatrică)
+ */
+export function mapSpecialty(raw: string): SpecialtyDefinition | null {
+  const codeMatch = CNAS_CODE_PATTERN.exec(raw);
+  const text = normalizeSpecialtyText(codeMatch ? raw.slice(codeMatch[0].length) : raw);
+  if (!text) return null;
+
+  const exact = BY_TERM.get(text) || BY_CODE.get(text.toUpperCase().replace(/ /g, '_'));
+  if (exact) return exact;
+
+  const padded = ` ${text} `;
+  const term = TERMS_BY_LENGTH.find((t) => padded.indexOf(` ${t} `) >= 0);
+  return term ? BY_TERM.get(term)! : null;
+}
+
+export interface SpecialtyMappingReport {
+  // Raw string (as found, trimmed) -> number of occurrences
+  unmapped: Record<string, number>;
+  mapped: number;
+}
+
+/**
+ * Map the raw specialty strings of one organization to taxonomy entries,
+ * recording the ones that match nothing in `report`
+ */
+export function mapSpecialties(
+  raws: string[],
+  report?: SpecialtyMappingReport
+): SpecialtyDefinition[] {
+  const result: SpecialtyDefinition[] = [];
+
+  for (const raw of raws) {
+    const entry = mapSpecialty(raw);
+
+    if (!entry) {
+      if (report) {
+        const key = raw.trim().toLowerCase();
+        report.unmapped[key] = (report.unmapped[key] || 0) + 1;
+      }
+      continue;
+    }
+
+    if (report) report.mapped++;
+    if (result.indexOf(entry) < 0) result.push(entry);
+  }
+
+  return result;
+}
+
+/**
+ * Record the CNAS codes that raw specialty strings are prefixed with, by
+ * taxonomy code; the first code seen for an entry wins
+ */
+export function collectSpecialtyCnasCodes(raws: string[], codes: Map<string, string>): void {
+  for (const raw of raws) {
+    const codeMatch = CNAS_CODE_PATTERN.exec(raw);
+    if (!codeMatch) continue;
+
+    const entry = mapSpecialty(raw);
+    if (entry && !codes.has(entry.code)) codes.set(entry.code, codeMatch[1]);
+  }
+}
+
+/**
+ * An entry and every entry below it in the hierarchy
+ */
+export function getSpecialtyWithDescendants(code: string): SpecialtyDefinition[] {
+  const root = BY_CODE.get(code);
+  if (!root) return [];
+
+  const result = [root];
+  for (let i = 0; i < result.length; i++) {
+    for (const entry of SPECIALTY_TAXONOMY) {
+      if (entry.parent === result[i].code) result.push(entry);
+    }
+  }
+  return result;
+}
+
+/**
+ * Taxonomy entries a search term may refer to: names and synonyms starting
+ * with the term ("orl", "gineco", "stomato")
+ */
+export function findSpecialtiesByTerm(term: string): SpecialtyDefinition[] {
+  const text = normalizeSpecialtyText(term);
+  if (text.length < 2) return [];
+
+  const result: SpecialtyDefinition[] = [];
+  for (const key of TERMS_BY_LENGTH) {
+    const entry = BY_TERM.get(key)!;
+    if (key.indexOf(text) === 0 && result.indexOf(entry) < 0) result.push(entry);
+  }
+  return result;
+}
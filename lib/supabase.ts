@@ -25,6 +25,22 @@ export const TABLES = {
   PROVIDER_SPECIALTIES: 'provider_specialties',
   FUND_ALLOCATIONS: 'fund_allocations',
   USER_REPORTS: 'user_reports',
+  REPORT_VOTES: 'report_votes',
   HISTORICAL_FUND_DATA: 'historical_fund_data',
   PROVIDER_CONSUMPTION_PATTERNS: 'provider_consumption_patterns',
+  // v2 schema (organizations with multiple locations)
+  ORGANIZATIONS: 'organizations',
+  LOCATIONS: 'locations',
+  ORGANIZATION_SPECIALTIES: 'organization_specialties',
+  LOCATION_SPECIALTIES: 'location_specialties',
+  INVESTIGATIONS: 'investigations',
+  ORGANIZATION_INVESTIGATIONS: 'organization_investigations',
+  LOCATION_VERIFICATIONS: 'location_verifications',
+  SYNC_RUNS: 'sync_runs',
+  DATASET_CHANGES: 'dataset_changes',
+  DEPLETION_CURVES: 'depletion_curves',
+  ALERT_SUBSCRIPTIONS: 'alert_subscriptions',
+  ALERT_DELIVERIES: 'alert_deliveries',
+  API_KEYS: 'api_keys',
+  API_KEY_USAGE: 'api_key_usage',
 } as const;
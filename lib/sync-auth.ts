@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Check the `Authorization: Bearer <SYNC_SECRET_KEY>` header shared by the
+ * sync endpoints. Returns an error response, or null when authorized.
+ */
+export function checkSyncAuth(request: NextRequest): NextResponse | null {
+  const authHeader = request.headers.get('authorization');
+  const secretKey = process.env.SYNC_SECRET_KEY;
+
+  if (!secretKey) {
+    return NextResponse.json(
+      { error: 'Sync not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${secretKey}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,346 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createServerClient, TABLES } from './supabase';
+import { CAS_DATA_DIR, CAS_SOURCES, getUnconfiguredCounties } from './cas-sources';
+import { downloadCountySource } from './cas-download';
+import { parseCasData } from './cas-parser';
+import {
+  SyncAllocation,
+  SyncOrganization,
+  normalizeCountyCode,
+  syncToDatabase,
+  toSyncOrganization,
+} from './v2-sync';
+import { createGeocoder } from './geocoding';
+import { DatasetDiff, diffOrganizations, recordDatasetChanges } from './dataset-diff';
+import { NewAllocation, notifyNewAllocations } from './alerts';
+import { SyncRun, SyncStage, SyncStageName } from './types-v2';
+
+// In-process data sync: download → parse → diff → geocode → upload → notify.
+// Runs inside the Next.js server process, so it needs a long-running Node
+// runtime (not a serverless function with a short timeout).
+
+const STAGES: SyncStageName[] = ['download', 'parse', 'diff', 'geocode', 'upload', 'notify'];
+
+// Nominatim allows one request per second; cap the provider requests of a
+// run to keep it bounded. Addresses left over are picked up by the next run.
+const MAX_GEOCODE_REQUESTS_PER_RUN = 200;
+
+// Addresses per `in` filter when checking what is already geocoded
+const ADDRESS_BATCH_SIZE = 100;
+
+// A run whose heartbeat is older than this is considered dead. Every run
+// update is a heartbeat; the longest gap is a single stage.
+const SYNC_RUN_TIMEOUT_MS = 60 * 60 * 1000;
+
+const UNIQUE_VIOLATION = '23505';
+
+interface SyncContext {
+  runId: string;
+  supabase: SupabaseClient;
+  organizations: SyncOrganization[];
+  allocations: SyncAllocation[];
+  diff: DatasetDiff | null;
+  newAllocations: NewAllocation[];
+  log: (message: string) => void;
+}
+
+// ============================================
+// RUN RECORDS
+// ============================================
+
+/**
+ * Fail queued or running runs that stopped sending heartbeats, e.g. because
+ * the server restarted mid-run
+ */
+async function failStaleRuns(supabase: SupabaseClient): Promise<void> {
+  const cutoff = new Date(Date.now() - SYNC_RUN_TIMEOUT_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from(TABLES.SYNC_RUNS)
+    .update({
+      status: 'failed',
+      error: `No progress for ${SYNC_RUN_TIMEOUT_MS / 60000} minutes (server restarted?)`,
+      finished_at: new Date().toISOString(),
+    })
+    .in('status', ['queued', 'running'])
+    .lt('heartbeat_at', cutoff)
+    .select('id');
+
+  if (error) throw new Error(`Failed to expire stale sync runs: ${error.message}`);
+  for (const run of data || []) {
+    console.warn(`Sync run ${run.id} timed out and was marked failed`);
+  }
+}
+
+/**
+ * Queue a new run. Returns null when another run is still queued or running;
+ * the unique index on active runs decides between concurrent triggers.
+ */
+export async function createSyncRun(trigger: string = 'api'): Promise<SyncRun | null> {
+  const supabase = createServerClient();
+
+  await failStaleRuns(supabase);
+
+  const stages: SyncStage[] = STAGES.map((name) => ({ name, status: 'queued' }));
+
+  const { data, error } = await supabase
+    .from(TABLES.SYNC_RUNS)
+    .insert({ status: 'queued', trigger, stages })
+    .select('*')
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) return null;
+  if (error) throw new Error(`Failed to create sync run: ${error.message}`);
+  return data as SyncRun;
+}
+
+export async function getSyncRun(runId: string): Promise<SyncRun | null> {
+  const supabase = createServerClient();
+  const { data } = await supabase
+    .from(TABLES.SYNC_RUNS)
+    .select('*')
+    .eq('id', runId)
+    .single();
+  return (data as SyncRun) || null;
+}
+
+async function updateRun(supabase: SupabaseClient, runId: string, fields: Partial<SyncRun>): Promise<void> {
+  const { error } = await supabase
+    .from(TABLES.SYNC_RUNS)
+    .update({ ...fields, heartbeat_at: new Date().toISOString() })
+    .eq('id', runId);
+  if (error) console.error(`Failed to update sync run ${runId}:`, error);
+}
+
+// ============================================
+// STAGES
+// ============================================
+
+async function downloadStage(ctx: SyncContext): Promise<Record<string, number>> {
+  let files = 0;
+  let errors = 0;
+
+  const unconfigured = getUnconfiguredCounties();
+  if (unconfigured.length > 0) {
+    ctx.log(`No CAS source configured for ${unconfigured.length} counties: ${unconfigured.join(', ')}`);
+  }
+
+  for (const source of Object.values(CAS_SOURCES)) {
+    ctx.log(`Downloading ${source.name} (${source.countyCode})`);
+    const result = await downloadCountySource(source, CAS_DATA_DIR, ctx.log);
+    files += result.downloaded.length;
+    errors += result.errors.length;
+  }
+
+  if (files === 0 && errors > 0) {
+    throw new Error(`No files downloaded (${errors} page errors)`);
+  }
+
+  return { counties: Object.keys(CAS_SOURCES).length, unconfiguredCounties: unconfigured.length, files, errors };
+}
+
+async function parseStage(ctx: SyncContext): Promise<Record<string, number>> {
+  const { organizations, allocations } = parseCasData({ log: ctx.log });
+
+  if (organizations.length === 0) {
+    throw new Error('No organizations parsed');
+  }
+
+  ctx.organizations = organizations.map(toSyncOrganization);
+  ctx.allocations = allocations;
+
+  return { organizations: organizations.length, allocations: allocations.length };
+}
+
+/**
+ * Compare the parsed publication with the database before the upload
+ * overwrites it. Recorded (and removed contracts ended) by the upload stage.
+ */
+async function diffStage(ctx: SyncContext): Promise<Record<string, number>> {
+  ctx.diff = await diffOrganizations(ctx.supabase, ctx.organizations, { log: ctx.log });
+
+  return {
+    added: ctx.diff.added.length,
+    removed: ctx.diff.removed.length,
+    changed: ctx.diff.changed.length,
+    skippedCounties: ctx.diff.skippedCounties.length,
+  };
+}
+
+/**
+ * Geocode primary locations that aren't already geocoded in the database.
+ * Coordinates are attached to the parsed locations and written by the upload.
+ */
+async function geocodeStage(ctx: SyncContext): Promise<Record<string, number>> {
+  const candidates = ctx.organizations
+    .flatMap((org) => org.discoveredLocations.map((loc) => ({
+      loc,
+      county: normalizeCountyCode(loc.county || org.primaryLocation.county),
+    })))
+    .filter(({ loc }) => loc.address && loc.city);
+
+  const alreadyGeocoded = new Set<string>();
+  const addresses = Array.from(new Set(candidates.map(({ loc }) => loc.address)));
+
+  for (let i = 0; i < addresses.length; i += ADDRESS_BATCH_SIZE) {
+    const { data, error } = await ctx.supabase
+      .from(TABLES.LOCATIONS)
+      .select('address')
+      .in('address', addresses.slice(i, i + ADDRESS_BATCH_SIZE))
+      .not('lat', 'is', null);
+
+    if (error) throw new Error(`Failed to check geocoded locations: ${error.message}`);
+    for (const row of data || []) alreadyGeocoded.add(row.address);
+  }
+
+  const pending = candidates.filter(({ loc }) => !alreadyGeocoded.has(loc.address));
+  const geocoder = createGeocoder({ supabase: ctx.supabase, log: ctx.log });
+  let geocoded = 0;
+  let approximate = 0;
+  let failed = 0;
+  let attempted = 0;
+
+  for (const { loc, county } of pending) {
+    if (geocoder.stats.requests >= MAX_GEOCODE_REQUESTS_PER_RUN) break;
+    attempted++;
+
+    const result = await geocoder.geocode({
+      address: loc.address,
+      city: loc.city,
+      county,
+    });
+    if (result) {
+      loc.lat = result.lat;
+      loc.lng = result.lng;
+      loc.geocodePrecision = result.precision;
+      loc.geocodeSource = result.source;
+      geocoded++;
+      if (result.precision === 'sector' || result.precision === 'city') approximate++;
+    } else {
+      failed++;
+    }
+  }
+
+  ctx.log(`Geocoded ${geocoded}/${pending.length} pending addresses (${approximate} approximate)`);
+
+  return {
+    pending: pending.length,
+    geocoded,
+    approximate,
+    failed,
+    cached: geocoder.stats.cacheHits,
+    deferred: pending.length - attempted,
+  };
+}
+
+async function uploadStage(ctx: SyncContext): Promise<Record<string, number>> {
+  const stats = await syncToDatabase(ctx.supabase, ctx.organizations, ctx.allocations, {
+    log: ctx.log,
+    onNewAllocation: (allocation) => ctx.newAllocations.push(allocation),
+    onMatchReview: (entries) => {
+      // Decided with scripts/sync-v2-to-db.ts, which keeps a review file
+      for (const entry of entries) {
+        ctx.log(`Held for review: "${entry.candidate.name}" ~ "${entry.match.name}" (score ${entry.score})`);
+      }
+    },
+  });
+
+  if (ctx.diff) {
+    await recordDatasetChanges(ctx.supabase, ctx.diff, { syncRunId: ctx.runId });
+    ctx.log(`Ended ${ctx.diff.removed.length} contracts missing from the publication`);
+  }
+
+  return { ...stats };
+}
+
+/**
+ * Alert subscribers of locations whose organization got a new monthly allocation
+ */
+async function notifyStage(ctx: SyncContext): Promise<Record<string, number>> {
+  const sent = await notifyNewAllocations(ctx.newAllocations);
+  ctx.log(`Sent ${sent} allocation alerts`);
+  return { newAllocations: ctx.newAllocations.length, sent };
+}
+
+const STAGE_HANDLERS: Record<SyncStageName, (ctx: SyncContext) => Promise<Record<string, number>>> = {
+  download: downloadStage,
+  parse: parseStage,
+  diff: diffStage,
+  geocode: geocodeStage,
+  upload: uploadStage,
+  notify: notifyStage,
+};
+
+// ============================================
+// RUNNER
+// ============================================
+
+/**
+ * Execute a queued run, persisting each stage's status and timing as it goes.
+ * A failed stage fails the run and marks the remaining stages as skipped.
+ */
+export async function runSync(runId: string): Promise<void> {
+  const supabase = createServerClient();
+
+  try {
+    await executeRun(supabase, runId);
+  } catch (error) {
+    // Never leave the run active: it would block every later trigger
+    await updateRun(supabase, runId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      finished_at: new Date().toISOString(),
+    });
+    throw error;
+  }
+}
+
+async function executeRun(supabase: SupabaseClient, runId: string): Promise<void> {
+  const ctx: SyncContext = {
+    runId,
+    supabase,
+    organizations: [],
+    allocations: [],
+    diff: null,
+    newAllocations: [],
+    log: (message) => console.log(`[sync ${runId.slice(0, 8)}] ${message}`),
+  };
+
+  const stages: SyncStage[] = STAGES.map((name) => ({ name, status: 'queued' }));
+  await updateRun(supabase, runId, { status: 'running', started_at: new Date().toISOString(), stages });
+
+  for (const stage of stages) {
+    const startedAt = Date.now();
+    stage.status = 'running';
+    stage.started_at = new Date(startedAt).toISOString();
+    await updateRun(supabase, runId, { stages });
+
+    try {
+      stage.stats = await STAGE_HANDLERS[stage.name](ctx);
+      stage.status = 'succeeded';
+    } catch (error) {
+      stage.status = 'failed';
+      stage.error = error instanceof Error ? error.message : String(error);
+    }
+
+    stage.finished_at = new Date().toISOString();
+    stage.duration_ms = Date.now() - startedAt;
+
+    if (stage.status === 'failed') {
+      for (const rest of stages) {
+        if (rest.status === 'queued') rest.status = 'skipped';
+      }
+      await updateRun(supabase, runId, {
+        status: 'failed',
+        stages,
+        error: `${stage.name}: ${stage.error}`,
+        finished_at: new Date().toISOString(),
+      });
+      return;
+    }
+
+    await updateRun(supabase, runId, { stages });
+  }
+
+  await updateRun(supabase, runId, { status: 'succeeded', finished_at: new Date().toISOString() });
+}
@@ -1,6 +1,8 @@
 // FondCAS Database Types v2
 // Redesigned to support multiple locations per organization
 
+import type { OpeningHours } from './opening-hours';
+
 // ============================================
 // DATABASE ENTITIES
 // ============================================
@@ -49,10 +51,11 @@ export interface Location {
   lng?: number;
   geocoded_at?: string;
   geocode_source?: string;
+  geocode_precision?: GeocodePrecision;
   phone?: string;
   email?: string;
   website?: string;
-  opening_hours?: Record<string, string>;
+  opening_hours?: OpeningHours;
   source: LocationSource;
   confidence: number;
   is_primary: boolean;
@@ -70,18 +73,38 @@ export interface Location {
 
 export type LocationSource = 'cnas' | 'ai_discovered' | 'user_reported' | 'manual';
 
+// How closely the coordinates match the address: the building, the street,
+// a sector or neighbourhood centre, or only the city
+export type GeocodePrecision = 'rooftop' | 'street' | 'sector' | 'city';
+
 export type ProviderType = 'clinic' | 'paraclinic' | 'hospital' | 'pharmacy' | 'recovery';
 
 export interface Specialty {
   id: string;
-  code?: string;
+  code?: string; // lib/specialty-taxonomy.ts
+  cnas_code?: string; // as listed in CAS files
   name: string;
   category?: SpecialtyCategory;
+  parent_id?: string;
+  synonyms?: string[]; // normalized, see normalizeSpecialtyText
   created_at: string;
 }
 
 export type SpecialtyCategory = 'clinical' | 'paraclinical' | 'dental' | 'recovery';
 
+export interface Investigation {
+  id: string;
+  code: string; // lib/investigation-catalog.ts
+  cnas_code?: string; // as listed in CAS files
+  name: string;
+  category: InvestigationCategory;
+  specialty_code: string;
+  synonyms: string[]; // normalized, see normalizeSpecialtyText
+  created_at: string;
+}
+
+export type InvestigationCategory = 'laboratory' | 'imaging' | 'functional';
+
 export interface FundAllocation {
   id: string;
   organization_id: string;
@@ -106,8 +129,12 @@ export interface UserReport {
   downvotes: number;
   verified: boolean;
   verified_at?: string;
+  hidden?: boolean;
+  hidden_at?: string;
 }
 
+export type ReportVote = 'up' | 'down';
+
 export type ReportType = 'funds_available' | 'funds_exhausted' | 'long_wait' | 'good_service';
 
 export interface AIEnrichmentLog {
@@ -123,6 +150,101 @@ export interface AIEnrichmentLog {
   processed_at: string;
 }
 
+export type SyncRunStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+export type SyncStageName = 'download' | 'parse' | 'diff' | 'geocode' | 'upload' | 'notify';
+
+export interface SyncStage {
+  name: SyncStageName;
+  status: SyncRunStatus | 'skipped';
+  started_at?: string;
+  finished_at?: string;
+  duration_ms?: number;
+  error?: string;
+  stats?: Record<string, number>;
+}
+
+export interface SyncRun {
+  id: string;
+  status: SyncRunStatus;
+  trigger: string;
+  stages: SyncStage[];
+  error?: string;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  heartbeat_at?: string;
+}
+
+// Providers that joined, left or changed between two CAS publications
+export interface DatasetChange {
+  id: string;
+  sync_run_id?: string;
+  snapshot_date: string;
+  counties: string[];
+  added_count: number;
+  removed_count: number;
+  changed_count: number;
+  changes: DatasetChangeItem[];
+  created_at: string;
+}
+
+export type DatasetChangeType = 'added' | 'removed' | 'changed';
+
+export interface DatasetChangeItem {
+  change: DatasetChangeType;
+  organization_id: string | null;
+  location_id: string | null; // primary location, for links to the clinic page
+  cui: string | null;
+  name: string;
+  county: string | null; // county code
+  provider_type: string;
+  fields?: DatasetFieldChange[]; // 'changed' only
+}
+
+export type DatasetField = 'address' | 'phone' | 'specialties' | 'contract_number';
+
+export interface DatasetFieldChange {
+  field: DatasetField;
+  before: string | string[] | null;
+  after: string | string[] | null;
+}
+
+// Entries of the public "what changed" feed (/changes, /api/feeds)
+export type ChangeFeedType = 'contract_added' | 'contract_ended' | 'allocation_new' | 'allocation_changed';
+
+export interface ChangeFeedEntry {
+  id: string; // stable across requests (Atom entry id)
+  type: ChangeFeedType;
+  date: string;
+  title: string;
+  summary: string;
+  organizationName: string;
+  county: string | null; // county code
+  locationId: string | null; // clinic page
+  amount?: number;
+  previousAmount?: number;
+}
+
+export type AlertChannel = 'push' | 'email';
+export type AlertTrigger = 'allocation' | 'report' | 'prediction';
+
+export interface AlertSubscription {
+  id: string;
+  location_id: string;
+  specialty_id?: string;
+  channel: AlertChannel;
+  email?: string;
+  push_endpoint?: string;
+  push_p256dh?: string;
+  push_auth?: string;
+  triggers: AlertTrigger[];
+  confirmed_at?: string;
+  last_predicted_available?: boolean;
+  last_notified_at?: string;
+  link_sent_at?: string;
+  created_at: string;
+}
+
 // ============================================
 // API TYPES
 // ============================================
@@ -131,11 +253,16 @@ export interface SearchParams {
   county?: string;
   type?: ProviderType;
   specialty?: string;
+  investigation?: string;
   query?: string;
   lat?: number;
   lng?: number;
   radius?: number;
   minConfidence?: number;
+  funds?: 'available' | 'any';
+  sort?: 'relevance' | 'funds';
+  openNow?: boolean;
+  openAt?: string; // 'YYYY-MM-DDTHH:MM', Bucharest time
   page?: number;
   limit?: number;
 }
@@ -163,6 +290,28 @@ export interface FundAvailabilityStatus {
   message: string;
 }
 
+export interface FundHistoryPoint {
+  year: number;
+  month: number;
+  allocated: number;
+  consumed: number | null;
+  consumptionRate: number | null; // consumed / allocated, when consumption was published
+}
+
+export interface FundHistoryYear {
+  year: number;
+  months: number;
+  allocated: number;
+  consumed: number | null;
+  allocatedChange: number | null; // vs. previous year, as a fraction (-0.1 = 10% less)
+}
+
+export interface FundHistorySeries {
+  serviceType: string;
+  points: FundHistoryPoint[];
+  yearly: FundHistoryYear[];
+}
+
 // ============================================
 // PARSED DATA (from Excel files)
 // ============================================
@@ -243,6 +392,48 @@ export interface MapMarker {
   fundStatus?: 'available' | 'uncertain' | 'exhausted';
 }
 
+// Coarse fund status computed in SQL for search results and the map;
+// 'unknown' when there is no allocation for the month
+export type MapFundStatus = NonNullable<MapMarker['fundStatus']> | 'unknown';
+
+export interface MapPointProperties {
+  kind: 'point';
+  id: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  county: string | null;
+  phone: string | null;
+  is_network: boolean;
+  network_brand: string | null;
+  provider_type: ProviderType;
+  fund_status: MapFundStatus;
+  geocode_precision: GeocodePrecision | null;
+}
+
+export interface MapClusterProperties {
+  kind: 'cluster';
+  count: number;
+  providerTypes: Partial<Record<ProviderType, number>>;
+  fundStatuses: Partial<Record<MapFundStatus, number>>;
+}
+
+// GeoJSON returned by /api/map/features
+export interface MapFeature {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: [number, number] }; // [lng, lat]
+  properties: MapPointProperties | MapClusterProperties;
+}
+
+export interface MapFeatureCollection {
+  type: 'FeatureCollection';
+  features: MapFeature[];
+  zoom: number;
+  clustered: boolean;
+  total: number; // locations in the viewport, clustered or not
+  truncated: boolean;
+}
+
 // ============================================
 // CONSTANTS
 // ============================================
@@ -255,6 +446,16 @@ export const PROVIDER_TYPE_LABELS: Record<ProviderType, string> = {
   recovery: 'Recuperare medicală',
 };
 
+// Contract types as published by CAS (fund_allocations.service_type)
+export const SERVICE_TYPE_LABELS: Record<string, string> = {
+  clinic: 'Ambulatoriu clinic',
+  paraclinic: 'Paraclinic',
+  hospital: 'Spitalicesc',
+  recovery: 'Recuperare',
+  ultrasound: 'Ecografie',
+  other: 'Altele',
+};
+
 export const LOCATION_SOURCE_LABELS: Record<LocationSource, string> = {
   cnas: 'Date CNAS',
   ai_discovered: 'Descoperit AI',
@@ -262,6 +463,13 @@ export const LOCATION_SOURCE_LABELS: Record<LocationSource, string> = {
   manual: 'Adăugat manual',
 };
 
+// Notes for coordinates less precise than the building
+export const APPROXIMATE_LOCATION_LABELS: Record<Exclude<GeocodePrecision, 'rooftop'>, string> = {
+  street: 'Locație aproximativă: punctul marchează strada, nu clădirea.',
+  sector: 'Locație aproximativă: punctul marchează centrul sectorului sau cartierului.',
+  city: 'Locație aproximativă: punctul marchează centrul localității.',
+};
+
 export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
   funds_available: 'Fonduri disponibile',
   funds_exhausted: 'Fonduri epuizate',
@@ -269,6 +477,19 @@ export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
   good_service: 'Servicii bune',
 };
 
+export const CHANGE_FEED_TYPE_LABELS: Record<ChangeFeedType, string> = {
+  contract_added: 'Contract nou',
+  contract_ended: 'Contract încheiat',
+  allocation_new: 'Alocare nouă',
+  allocation_changed: 'Alocare modificată',
+};
+
+export const ALERT_TRIGGER_LABELS: Record<AlertTrigger, string> = {
+  allocation: 'Alocare lunară nouă',
+  report: 'Raport „fonduri disponibile”',
+  prediction: 'Estimarea trece în disponibil',
+};
+
 export const ROMANIAN_MONTHS = [
   'Ianuarie', 'Februarie', 'Martie', 'Aprilie',
   'Mai', 'Iunie', 'Iulie', 'August',
@@ -88,6 +88,11 @@ export interface UserReport {
 
 export type ReportType = 'funds_available' | 'funds_exhausted' | 'long_wait' | 'good_service';
 
+// Fields the fund estimators read; shared by v1 (provider) and v2 (organization/location) records
+export type AllocationAmounts = Pick<FundAllocation, 'allocated_amount' | 'consumed_amount'>;
+export type ReportSignal = Pick<UserReport, 'report_type' | 'reported_at'> &
+  Partial<Pick<UserReport, 'upvotes' | 'downvotes' | 'verified'>>;
+
 // Historical data for ML
 export interface HistoricalFundData {
   id: string;
@@ -112,10 +117,13 @@ export interface ProviderConsumptionPattern {
   id: string;
   provider_id?: string;
   provider_cui?: string;
+  organization_id?: string;
   avg_consumption_rate?: number;
   stddev_consumption_rate?: number;
   monthly_pattern?: Record<number, number>;
   depletion_curve?: Record<number, number>;
+  depletion_curve_source?: 'provider' | 'service_county' | 'service_type' | 'linear';
+  depletion_observations?: number;
   early_depletion_frequency?: number;
   typical_depletion_day?: number;
   data_points_count?: number;
@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { ROMANIAN_MONTHS } from './types';
+import { APPROXIMATE_LOCATION_LABELS, GeocodePrecision } from './types-v2';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -108,32 +109,6 @@ export function formatDistance(km: number): string {
   return `${km.toFixed(1)} km`;
 }
 
-/**
- * Get days remaining in current month
- */
-export function getDaysRemainingInMonth(): number {
-  const now = new Date();
-  const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-  return lastDay.getDate() - now.getDate();
-}
-
-/**
- * Get current day of month
- */
-export function getDayOfMonth(): number {
-  return new Date().getDate();
-}
-
-/**
- * Get days in current month
- */
-export function getDaysInMonth(year?: number, month?: number): number {
-  const now = new Date();
-  const y = year ?? now.getFullYear();
-  const m = month ?? now.getMonth() + 1;
-  return new Date(y, m, 0).getDate();
-}
-
 /**
  * Truncate text with ellipsis
  */
@@ -267,3 +242,11 @@ export function getGoogleMapsSearchUrl(name: string, address?: string, city?: st
   const query = encodeURIComponent(parts.join(', '));
   return `https://www.google.com/maps/search/?api=1&query=${query}`;
 }
+
+/**
+ * Note shown for coordinates less precise than the building; null when they
+ * are exact or their precision is unknown
+ */
+export function getApproximateLocationNote(precision?: GeocodePrecision | null): string | null {
+  return precision && precision !== 'rooftop' ? APPROXIMATE_LOCATION_LABELS[precision] : null;
+}
@@ -0,0 +1,651 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CasFundAllocation, CasOrganization, normalizeAddress } from './cas-parser';
+import { parseOpeningHours } from './opening-hours';
+import {
+  SPECIALTY_TAXONOMY,
+  SpecialtyMappingReport,
+  collectSpecialtyCnasCodes,
+  mapSpecialties,
+  normalizeSpecialtyText,
+} from './specialty-taxonomy';
+import {
+  INVESTIGATION_CATALOG,
+  InvestigationMappingReport,
+  mapInvestigations,
+} from './investigation-catalog';
+import { EntityIndex, MatchRecord, ReviewEntry } from './entity-resolution';
+import { Geocoder } from './geocoding';
+import { GeocodePrecision } from './types-v2';
+
+// Upload of parsed (and optionally AI-enriched) organizations, their locations
+// and fund allocations into the v2 schema. Used by scripts/sync-v2-to-db.ts
+// and by the in-process sync runner.
+
+const PAGE_SIZE = 1000; // PostgREST row limit
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DiscoveredLocation {
+  name: string;
+  address: string;
+  city: string;
+  county?: string;
+  phone?: string;
+  website?: string;
+  openingHours?: string;
+  confidence: number;
+  // Specialties offered at this address; without them the location shows
+  // (and is filtered by) the organization's list
+  specialties?: string[];
+  // Set when coordinates were resolved before the upload
+  lat?: number;
+  lng?: number;
+  geocodePrecision?: GeocodePrecision;
+  geocodeSource?: string;
+}
+
+// AI fields are only present once scripts/ai-enrich-organizations.ts has run.
+// Organizations without them never overwrite enrichment or location names.
+export interface SyncOrganization extends CasOrganization {
+  isNetwork?: boolean;
+  networkBrand?: string;
+  networkWebsite?: string;
+  aiConfidence?: number;
+  aiReasoning?: string;
+  aiEnrichedAt?: string;
+  discoveredLocations: DiscoveredLocation[];
+}
+
+export type SyncAllocation = CasFundAllocation;
+
+export interface SyncOptions {
+  // Geocodes locations that have no coordinates yet
+  geocoder?: Geocoder;
+  log?: (message: string) => void;
+  onProgress?: (done: number, total: number, name: string) => void;
+  // Called for allocations whose (organization, month, service type) wasn't in the database yet
+  onNewAllocation?: (allocation: {
+    organizationId: string;
+    periodYear: number;
+    periodMonth: number;
+    serviceType: string;
+  }) => void;
+  // Called once with the specialty strings that matched no taxonomy entry
+  onSpecialtyReport?: (report: SpecialtyMappingReport) => void;
+  // Entries of an earlier review file whose decisions should be applied
+  matchDecisions?: ReviewEntry[];
+  // Called once with the organization matches held back for review
+  onMatchReview?: (entries: ReviewEntry[]) => void;
+}
+
+export interface SyncStats {
+  organizations: number;
+  locations: number;
+  geocoded: number;
+  allocations: number;
+  newAllocations: number;
+  unmappedSpecialties: number; // distinct raw strings
+  unmappedInvestigations: number; // distinct raw strings
+  heldForReview: number; // organizations left untouched until reviewed
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function normalizeCountyCode(county?: string): string {
+  if (!county) return 'B';
+
+  const countyMap: Record<string, string> = {
+    'bucuresti': 'B', 'bucurești': 'B', 'bucharest': 'B', 'b': 'B', 'sector': 'B',
+    'alba': 'AB', 'arad': 'AR', 'arges': 'AG', 'argeș': 'AG',
+    'bacau': 'BC', 'bacău': 'BC', 'bihor': 'BH', 'bistrita-nasaud': 'BN', 'bistrița-năsăud': 'BN',
+    'botosani': 'BT', 'botoșani': 'BT', 'brasov': 'BV', 'brașov': 'BV',
+    'braila': 'BR', 'brăila': 'BR', 'buzau': 'BZ', 'buzău': 'BZ',
+    'caras-severin': 'CS', 'caraș-severin': 'CS', 'calarasi': 'CL', 'călărași': 'CL',
+    'cluj': 'CJ', 'constanta': 'CT', 'constanța': 'CT', 'covasna': 'CV',
+    'dambovita': 'DB', 'dâmbovița': 'DB', 'dolj': 'DJ',
+    'galati': 'GL', 'galați': 'GL', 'giurgiu': 'GR', 'gorj': 'GJ',
+    'harghita': 'HR', 'hunedoara': 'HD',
+    'ialomita': 'IL', 'ialomița': 'IL', 'iasi': 'IS', 'iași': 'IS', 'ilfov': 'IF',
+    'maramures': 'MM', 'maramureș': 'MM', 'mehedinti': 'MH', 'mehedinți': 'MH', 'mures': 'MS', 'mureș': 'MS',
+    'neamt': 'NT', 'neamț': 'NT',
+    'olt': 'OT', 'prahova': 'PH',
+    'satu mare': 'SM', 'salaj': 'SJ', 'sălaj': 'SJ', 'sibiu': 'SB', 'suceava': 'SV',
+    'teleorman': 'TR', 'timis': 'TM', 'timiș': 'TM', 'tulcea': 'TL',
+    'vaslui': 'VS', 'valcea': 'VL', 'vâlcea': 'VL', 'vrancea': 'VN',
+  };
+
+  // Parsers already emit county codes for downloaded county files
+  const code = county.toUpperCase().trim();
+  if (Object.values(countyMap).includes(code)) return code;
+
+  const normalized = county.toLowerCase().trim();
+  return countyMap[normalized] || 'B';
+}
+
+/**
+ * Wrap a freshly parsed organization for upload. Each CNAS "punct de lucru"
+ * becomes a location with its own specialties, the primary address first;
+ * without any, the CNAS address is the only location. Locations are named
+ * after the legal entity.
+ */
+export function toSyncOrganization(org: CasOrganization): SyncOrganization {
+  const workplaces = org.workplaces || [];
+
+  if (workplaces.length > 0) {
+    const primaryKey = org.primaryLocation.address ? normalizeAddress(org.primaryLocation.address) : '';
+    const ordered = workplaces.slice().sort((a, b) =>
+      Number(normalizeAddress(b.address) === primaryKey) - Number(normalizeAddress(a.address) === primaryKey)
+    );
+
+    return {
+      ...org,
+      discoveredLocations: ordered.map((workplace) => ({
+        name: org.legalName,
+        address: workplace.address,
+        city: workplace.city || '',
+        county: workplace.county,
+        phone: workplace.phone || org.primaryLocation.phone,
+        website: org.primaryLocation.website,
+        confidence: 100,
+        specialties: workplace.specialties,
+      })),
+    };
+  }
+
+  return {
+    ...org,
+    discoveredLocations: org.primaryLocation.address
+      ? [{
+          name: org.legalName,
+          address: org.primaryLocation.address,
+          city: org.primaryLocation.city || '',
+          county: org.primaryLocation.county,
+          phone: org.primaryLocation.phone,
+          website: org.primaryLocation.website,
+          confidence: 100,
+        }]
+      : [],
+  };
+}
+
+/**
+ * Specialties for one location: its own list when it has one, otherwise
+ * those of the CNAS "punct de lucru" at the same address.
+ */
+function getLocationSpecialties(org: SyncOrganization, loc: DiscoveredLocation): string[] {
+  if (loc.specialties && loc.specialties.length > 0) return loc.specialties;
+  if (!loc.address || !org.workplaces) return [];
+
+  const key = normalizeAddress(loc.address);
+  const workplace = org.workplaces.find(w => normalizeAddress(w.address) === key);
+  return workplace ? workplace.specialties : [];
+}
+
+// ============================================
+// DATABASE SYNC
+// ============================================
+
+/**
+ * Delete the specialty links of one organization or location that are not
+ * in `keepIds`
+ */
+async function unlinkOtherSpecialties(
+  supabase: SupabaseClient,
+  table: 'organization_specialties' | 'location_specialties',
+  ownerColumn: 'organization_id' | 'location_id',
+  ownerId: string,
+  keepIds: string[]
+): Promise<void> {
+  let query = supabase.from(table).delete().eq(ownerColumn, ownerId);
+  if (keepIds.length > 0) query = query.not('specialty_id', 'in', `(${keepIds.join(',')})`);
+
+  const { error } = await query;
+  if (error) throw new Error(`Failed to unlink specialties from ${table}: ${error.message}`);
+}
+
+/**
+ * Write every taxonomy entry to the specialties table (matched by name) and
+ * link children to their parents. Returns specialty IDs by taxonomy code.
+ */
+export async function upsertSpecialtyTaxonomy(supabase: SupabaseClient): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from('specialties')
+    .upsert(
+      SPECIALTY_TAXONOMY.map((entry) => ({
+        code: entry.code,
+        name: entry.name,
+        category: entry.category,
+        synonyms: entry.synonyms.map(normalizeSpecialtyText),
+      })),
+      { onConflict: 'name' }
+    )
+    .select('id, code');
+
+  if (error) throw new Error(`Failed to upsert specialties: ${error.message}`);
+
+  const ids = new Map<string, string>();
+  for (const row of data || []) {
+    ids.set(row.code, row.id);
+  }
+
+  for (const entry of SPECIALTY_TAXONOMY) {
+    const id = ids.get(entry.code);
+    if (!id) continue;
+    await supabase
+      .from('specialties')
+      .update({ parent_id: entry.parent ? ids.get(entry.parent) ?? null : null })
+      .eq('id', id);
+  }
+
+  return ids;
+}
+
+/**
+ * Write every catalog entry to the investigations table (matched by code).
+ * Returns investigation IDs by catalog code.
+ */
+export async function upsertInvestigationCatalog(supabase: SupabaseClient): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from('investigations')
+    .upsert(
+      INVESTIGATION_CATALOG.map((entry) => ({
+        code: entry.code,
+        name: entry.name,
+        category: entry.category,
+        specialty_code: entry.specialty,
+        synonyms: entry.synonyms.map(normalizeSpecialtyText),
+      })),
+      { onConflict: 'code' }
+    )
+    .select('id, code');
+
+  if (error) throw new Error(`Failed to upsert investigations: ${error.message}`);
+
+  const ids = new Map<string, string>();
+  for (const row of data || []) {
+    ids.set(row.code, row.id);
+  }
+  return ids;
+}
+
+/**
+ * Every organization with the contact details of its primary location, for
+ * matching incoming CAS records against
+ */
+async function loadOrganizationIndex(
+  supabase: SupabaseClient,
+  decisions: ReviewEntry[] | undefined
+): Promise<EntityIndex<MatchRecord>> {
+  const records: MatchRecord[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('id, cui, legal_name, locations (address, phone, email, is_primary)')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load organizations: ${error.message}`);
+
+    for (const org of data || []) {
+      const locations = (org.locations || []) as { address: string | null; phone: string | null; email: string | null; is_primary: boolean }[];
+      const primary = locations.find(l => l.is_primary) || locations[0];
+      records.push({
+        id: org.id,
+        name: org.legal_name,
+        cui: org.cui,
+        address: primary?.address,
+        phone: primary?.phone,
+        email: primary?.email,
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return new EntityIndex(records, { decisions });
+}
+
+export async function syncToDatabase(
+  supabase: SupabaseClient,
+  organizations: SyncOrganization[],
+  allocations: SyncAllocation[],
+  options: SyncOptions = {}
+): Promise<SyncStats> {
+  const log = options.log ?? console.log;
+
+  // Get county mapping
+  const { data: counties } = await supabase.from('counties').select('id, code');
+  const countyMap = new Map<string, string>();
+  for (const c of counties || []) {
+    countyMap.set(c.code, c.id);
+  }
+
+  // Specialties come from the curated taxonomy; raw CAS strings are mapped
+  // onto it and the ones that match nothing are reported, not created
+  const specialtyMap = await upsertSpecialtyTaxonomy(supabase);
+  const specialtyReport: SpecialtyMappingReport = { unmapped: {}, mapped: 0 };
+  const specialtyCnasCodes = new Map<string, string>();
+
+  // Investigations detailed by paraclinic CAS lists, mapped onto the catalog
+  const investigationMap = await upsertInvestigationCatalog(supabase);
+  const investigationReport: InvestigationMappingReport = { unmapped: {}, mapped: 0 };
+  const cnasCodes = new Map<string, string>();
+
+  // Process organizations
+  const stats: SyncStats = {
+    organizations: 0,
+    locations: 0,
+    geocoded: 0,
+    allocations: 0,
+    newAllocations: 0,
+    unmappedSpecialties: 0,
+    unmappedInvestigations: 0,
+    heldForReview: 0,
+  };
+
+  // Existing organizations, matched by lib/entity-resolution.ts
+  const organizationIndex = await loadOrganizationIndex(supabase, options.matchDecisions);
+
+  for (const org of organizations) {
+    options.onProgress?.(stats.organizations + stats.heldForReview + 1, organizations.length, org.legalName);
+    const enriched = Boolean(org.aiEnrichedAt);
+
+    const candidate = {
+      name: org.legalName,
+      cui: org.cui,
+      address: org.primaryLocation.address,
+      phone: org.primaryLocation.phone,
+      email: org.primaryLocation.email,
+    };
+    const { status, match } = organizationIndex.resolve(candidate);
+
+    if (status === 'review') {
+      // Left untouched until the match is decided in the review file
+      stats.heldForReview++;
+      continue;
+    }
+
+    // Upsert organization
+    const orgData: Record<string, unknown> = {
+      cui: org.cui || null,
+      legal_name: org.legalName,
+      provider_type: org.providerType,
+      cnas_contract_number: org.cnasContractNumber || null,
+      data_source: org.dataSource,
+      data_source_date: org.dataSourceDate || null,
+      // Listed in this publication, so the contract is active again
+      contract_end_date: null,
+    };
+
+    if (enriched) {
+      Object.assign(orgData, {
+        is_network: org.isNetwork ?? false,
+        network_brand: org.networkBrand || null,
+        network_website: org.networkWebsite || null,
+        ai_enriched: true,
+        ai_enriched_at: org.aiEnrichedAt,
+        ai_confidence: org.aiConfidence,
+      });
+    }
+
+    let orgId: string;
+
+    if (match) {
+      await supabase.from('organizations').update(orgData).eq('id', match.record.id);
+      orgId = match.record.id;
+    } else {
+      const { data: inserted, error } = await supabase
+        .from('organizations')
+        .insert(orgData)
+        .select('id')
+        .single();
+      if (error || !inserted) {
+        throw new Error(`Failed to insert organization ${org.legalName}: ${error?.message}`);
+      }
+      orgId = inserted.id;
+    }
+    organizationIndex.add({ ...candidate, id: orgId });
+
+    // Link specialties. The publication's list replaces the stored one, so a
+    // specialty CAS dropped is unlinked; an organization listed without any
+    // keeps its links, as the diff stage doesn't treat that as a removal.
+    collectSpecialtyCnasCodes(org.specialties, specialtyCnasCodes);
+    const orgSpecialtyIds: string[] = [];
+    for (const spec of mapSpecialties(org.specialties, specialtyReport)) {
+      const specId = specialtyMap.get(spec.code);
+      if (specId) {
+        orgSpecialtyIds.push(specId);
+        await supabase.from('organization_specialties').upsert(
+          { organization_id: orgId, specialty_id: specId },
+          { onConflict: 'organization_id,specialty_id' }
+        );
+      }
+    }
+    if (orgSpecialtyIds.length > 0) {
+      await unlinkOtherSpecialties(supabase, 'organization_specialties', 'organization_id', orgId, orgSpecialtyIds);
+    }
+
+    // Link investigations
+    for (const match of mapInvestigations(org.investigations || [], investigationReport)) {
+      const investigationId = investigationMap.get(match.entry.code);
+      if (investigationId) {
+        await supabase.from('organization_investigations').upsert(
+          { organization_id: orgId, investigation_id: investigationId },
+          { onConflict: 'organization_id,investigation_id' }
+        );
+      }
+      if (match.cnasCode && !cnasCodes.has(match.entry.code)) {
+        cnasCodes.set(match.entry.code, match.cnasCode);
+      }
+    }
+
+    // Insert locations
+    for (let i = 0; i < org.discoveredLocations.length; i++) {
+      const loc = org.discoveredLocations[i];
+      const isPrimary = i === 0; // First location is primary (from CNAS)
+      const countyCode = normalizeCountyCode(loc.county || org.primaryLocation.county);
+      const countyId = countyMap.get(countyCode) || countyMap.get('B');
+
+      // Determine source
+      const source = isPrimary && loc.confidence === 100 ? 'cnas' : 'ai_discovered';
+
+      // Check for existing location (by org + address)
+      const { data: existingLoc } = await supabase
+        .from('locations')
+        .select('id, lat, lng, geocoded_at, geocode_source, geocode_precision')
+        .eq('organization_id', orgId)
+        .eq('address', loc.address)
+        .single();
+
+      let lat = existingLoc?.lat || loc.lat || null;
+      let lng = existingLoc?.lng || loc.lng || null;
+      // Set when the coordinates are new in this run
+      let geocode: { precision: GeocodePrecision | null; source: string | null } | null =
+        !existingLoc?.lat && loc.lat
+          ? { precision: loc.geocodePrecision ?? null, source: loc.geocodeSource ?? null }
+          : null;
+
+      // Geocode if needed and requested
+      if (options.geocoder && !lat && loc.address) {
+        const result = await options.geocoder.geocode({
+          address: loc.address,
+          city: loc.city,
+          county: countyCode,
+        });
+        if (result) {
+          lat = result.lat;
+          lng = result.lng;
+          geocode = { precision: result.precision, source: result.source };
+          stats.geocoded++;
+        }
+      }
+
+      const locationData: Record<string, unknown> = {
+        organization_id: orgId,
+        name: loc.name,
+        address: loc.address || null,
+        city: loc.city || null,
+        county_id: countyId,
+        lat,
+        lng,
+        geocoded_at: geocode ? new Date().toISOString() : existingLoc?.geocoded_at ?? null,
+        geocode_source: geocode ? geocode.source : existingLoc?.geocode_source ?? null,
+        geocode_precision: geocode ? geocode.precision : existingLoc?.geocode_precision ?? null,
+        phone: loc.phone || org.primaryLocation.phone || null,
+        email: isPrimary ? org.primaryLocation.email : null,
+        website: loc.website || org.primaryLocation.website || null,
+        source,
+        confidence: loc.confidence,
+        is_primary: isPrimary,
+      };
+
+      if (loc.openingHours) {
+        locationData.opening_hours = parseOpeningHours(loc.openingHours);
+      }
+
+      let locationId: string;
+
+      if (existingLoc) {
+        // Keep names set by enrichment or verification
+        if (!enriched) delete locationData.name;
+        await supabase.from('locations').update(locationData).eq('id', existingLoc.id);
+        locationId = existingLoc.id;
+      } else {
+        const { data: insertedLoc, error } = await supabase
+          .from('locations')
+          .insert(locationData)
+          .select('id')
+          .single();
+        if (error || !insertedLoc) {
+          throw new Error(`Failed to insert location ${loc.name}: ${error?.message}`);
+        }
+        locationId = insertedLoc.id;
+        stats.locations++;
+      }
+
+      // Replace the location's specialties (CAS strings were already reported
+      // above). One left without any falls back to its organization's.
+      const locationSpecialtyIds: string[] = [];
+      for (const spec of mapSpecialties(getLocationSpecialties(org, loc))) {
+        const specId = specialtyMap.get(spec.code);
+        if (specId) {
+          locationSpecialtyIds.push(specId);
+          await supabase.from('location_specialties').upsert(
+            { location_id: locationId, specialty_id: specId },
+            { onConflict: 'location_id,specialty_id' }
+          );
+        }
+      }
+      await unlinkOtherSpecialties(supabase, 'location_specialties', 'location_id', locationId, locationSpecialtyIds);
+    }
+
+    stats.organizations++;
+  }
+
+  log(`Organizations: ${stats.organizations}`);
+  if (stats.heldForReview > 0) {
+    log(`Held for review: ${stats.heldForReview} organizations matching an existing one only loosely`);
+  }
+  options.onMatchReview?.(organizationIndex.reviewEntries);
+  log(`Locations: ${stats.locations}`);
+
+  const unmapped = Object.keys(specialtyReport.unmapped)
+    .sort((a, b) => specialtyReport.unmapped[b] - specialtyReport.unmapped[a]);
+  stats.unmappedSpecialties = unmapped.length;
+  log(`Specialties: ${specialtyReport.mapped} mapped, ${unmapped.length} distinct strings unmapped`);
+  if (unmapped.length > 0) {
+    log(`  Most frequent unmapped: ${unmapped.slice(0, 10).map(s => `"${s}" (${specialtyReport.unmapped[s]})`).join(', ')}`);
+  }
+  options.onSpecialtyReport?.(specialtyReport);
+
+  for (const [code, cnasCode] of Array.from(specialtyCnasCodes.entries())) {
+    await supabase.from('specialties').update({ cnas_code: cnasCode }).eq('code', code);
+  }
+
+  const unmappedInvestigations = Object.keys(investigationReport.unmapped);
+  stats.unmappedInvestigations = unmappedInvestigations.length;
+  log(`Investigations: ${investigationReport.mapped} mapped, ${unmappedInvestigations.length} distinct strings unmapped`);
+
+  for (const [code, cnasCode] of Array.from(cnasCodes.entries())) {
+    await supabase.from('investigations').update({ cnas_code: cnasCode }).eq('code', code);
+  }
+  if (options.geocoder) {
+    log(`Geocoded: ${stats.geocoded}`);
+  }
+
+  // Sync fund allocations
+  log('Syncing fund allocations...');
+
+  for (const alloc of allocations) {
+    // Find organization by CUI or name
+    let orgId: string | null = null;
+
+    if (alloc.providerCui) {
+      const { data } = await supabase
+        .from('organizations')
+        .select('id')
+        .eq('cui', alloc.providerCui)
+        .single();
+      if (data) orgId = data.id;
+    }
+
+    if (!orgId) {
+      const { data } = await supabase
+        .from('organizations')
+        .select('id')
+        .ilike('legal_name', `%${alloc.providerName}%`)
+        .limit(1)
+        .single();
+      if (data) orgId = data.id;
+    }
+
+    if (!orgId) continue;
+
+    const { data: existing } = await supabase
+      .from('fund_allocations')
+      .select('id')
+      .eq('organization_id', orgId)
+      .eq('period_year', alloc.periodYear)
+      .eq('period_month', alloc.periodMonth)
+      .eq('service_type', alloc.serviceType)
+      .maybeSingle();
+
+    await supabase.from('fund_allocations').upsert({
+      organization_id: orgId,
+      period_year: alloc.periodYear,
+      period_month: alloc.periodMonth,
+      service_type: alloc.serviceType,
+      allocated_amount: alloc.allocatedAmount,
+      consumed_amount: alloc.consumedAmount || null,
+      available_amount: alloc.availableAmount || null,
+      data_source: alloc.dataSource,
+    }, {
+      onConflict: 'organization_id,period_year,period_month,service_type'
+    });
+
+    stats.allocations++;
+
+    if (!existing) {
+      stats.newAllocations++;
+      options.onNewAllocation?.({
+        organizationId: orgId,
+        periodYear: alloc.periodYear,
+        periodMonth: alloc.periodMonth,
+        serviceType: alloc.serviceType,
+      });
+    }
+  }
+
+  log(`Fund allocations: ${stats.allocations} (${stats.newAllocations} new)`);
+
+  // Rebuild the search index over the updated locations and organizations
+  const { error: refreshError } = await supabase.rpc('refresh_location_search');
+  if (refreshError) log(`Search index refresh failed: ${refreshError.message}`);
+
+  return stats;
+}
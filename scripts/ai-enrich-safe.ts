@@ -59,6 +59,7 @@ interface DiscoveredLocation {
   phone?: string;
   website?: string;
   openingHours?: string;
+  specialties?: string[];
   confidence: number;
 }
 
@@ -303,6 +304,7 @@ Răspunde STRICT în format JSON (fără text suplimentar):
       "county": "Județul (cod 2 litere: B, CJ, TM, etc.)",
       "phone": "Telefon sau null",
       "openingHours": "Program sau null",
+      "specialties": ["Specialitățile oferite la această adresă sau [] dacă nu se știe"],
       "confidence": 0-100
     }
   ]
@@ -349,6 +351,7 @@ IMPORTANT:
         phone: loc.phone || null,
         website: loc.website || enriched.networkWebsite || null,
         openingHours: loc.openingHours || null,
+        specialties: Array.isArray(loc.specialties) ? loc.specialties.filter((s: unknown) => typeof s === 'string') : [],
         confidence: typeof loc.confidence === 'number' ? loc.confidence : 70,
       }));
     }
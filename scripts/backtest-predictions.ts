@@ -0,0 +1,441 @@
+/**
+ * Backtest Predictions Script
+ *
+ * Replays historical_fund_data month by month and asks both models
+ * (FundAvailabilityPredictor and estimateFundAvailability) about each
+ * provider at chosen days of the month, then compares their answers with
+ * the consumption that was actually published.
+ *
+ * Writes a JSON report and a Markdown summary with, per service type:
+ * - Brier score of the "funds still available" probability
+ * - Calibration buckets (predicted vs. observed availability)
+ * - Depletion date error (days) and missed / false depletions, with samples
+ *   for which a model gives no depletion date counted apart from misses
+ *
+ * Usage: npm run ml:backtest
+ *        npx tsx scripts/backtest-predictions.ts --days=5,10,15,20,25 --limit=500 --out=data/backtest
+ *
+ * Note: provider patterns come from the last training run, which may have
+ * seen the months being replayed. Treat predictor scores as in-sample.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import { fundDayDate, toFundDay } from '../lib/clock';
+
+// Load environment variables
+dotenv.config({ path: '.env.local' });
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+  console.error('Missing Supabase credentials in .env.local');
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+const DEFAULT_DAYS = [5, 10, 15, 20, 25];
+const DEFAULT_OUT_DIR = path.join(process.cwd(), 'data', 'backtest');
+
+// Consumption at or above this share of the allocation counts as exhausted
+const EXHAUSTED_RATE = 0.95;
+const CALIBRATION_BUCKETS = 10;
+const PAGE_SIZE = 1000;
+
+type ModelName = 'predictor' | 'estimator';
+
+interface HistoricalRow {
+  provider_cui: string | null;
+  county_code: string | null;
+  year: number;
+  month: number;
+  day_of_month: number | null;
+  allocated_amount: number | null;
+  consumption_rate: number | null;
+  service_type: string | null;
+}
+
+interface BacktestMonth {
+  providerCui: string;
+  countyCode?: string;
+  serviceType: string;
+  year: number;
+  month: number;
+  daysInMonth: number;
+  allocatedAmount: number;
+  // Cumulative consumption points (day, rate), ending with the month total
+  points: [number, number][];
+}
+
+interface Sample {
+  model: ModelName;
+  serviceType: string;
+  probability: number; // Predicted probability that funds are still available
+  available: boolean; // Realised
+  // undefined: the model gives no depletion date; null: it predicts funds last the month
+  predictedDepletionDay: number | null | undefined;
+  actualDepletionDay: number | null;
+}
+
+interface CalibrationBucket {
+  range: [number, number];
+  count: number;
+  meanPredicted: number | null;
+  observedRate: number | null;
+}
+
+interface DepletionError {
+  bothDepleted: number;
+  meanAbsoluteErrorDays: number | null;
+  meanSignedErrorDays: number | null; // Positive: predicted later than it happened
+  missedDepletions: number;
+  falseDepletions: number;
+  noPrediction: number;
+}
+
+interface ModelReport {
+  samples: number;
+  brierScore: number | null;
+  baseRate: number | null; // Observed share of "available"
+  calibration: CalibrationBucket[];
+  depletion: DepletionError;
+}
+
+interface BacktestReport {
+  generatedAt: string;
+  queryDays: number[];
+  exhaustedRate: number;
+  months: number;
+  byServiceType: Record<string, Record<ModelName, ModelReport>>;
+  overall: Record<ModelName, ModelReport>;
+}
+
+/**
+ * Parse command line options
+ */
+function parseArgs(): { days: number[]; limit: number | null; outDir: string } {
+  const get = (name: string) => process.argv.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+
+  const days = get('days')
+    ? get('days')!.split(',').map(d => parseInt(d)).filter(d => d >= 1 && d <= 31)
+    : DEFAULT_DAYS;
+  const limit = get('limit') ? parseInt(get('limit')!) : null;
+  const outDir = get('out') ? path.resolve(get('out')!) : DEFAULT_OUT_DIR;
+
+  return { days, limit, outDir };
+}
+
+/**
+ * Load all historical rows, paging past the 1000 row limit
+ */
+async function loadHistoricalData(): Promise<HistoricalRow[]> {
+  const rows: HistoricalRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('historical_fund_data')
+      .select('provider_cui, county_code, year, month, day_of_month, allocated_amount, consumption_rate, service_type')
+      .order('year')
+      .order('month')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to load historical data: ${error.message}`);
+    rows.push(...(data as HistoricalRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Group rows into provider-months that have a published month total
+ */
+function buildMonths(rows: HistoricalRow[]): BacktestMonth[] {
+  const groups = new Map<string, HistoricalRow[]>();
+
+  for (const row of rows) {
+    if (!row.provider_cui || row.consumption_rate === null || !row.allocated_amount) continue;
+    const key = `${row.provider_cui}|${row.service_type}|${row.year}|${row.month}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  }
+
+  const months: BacktestMonth[] = [];
+
+  for (const group of Array.from(groups.values())) {
+    const total = group.find(r => r.day_of_month === null);
+    if (!total) continue;
+
+    const daysInMonth = new Date(total.year, total.month, 0).getDate();
+    const points: [number, number][] = group
+      .filter(r => r.day_of_month !== null)
+      .map(r => [r.day_of_month!, Number(r.consumption_rate)] as [number, number])
+      .sort((a, b) => a[0] - b[0]);
+    points.push([daysInMonth, Number(total.consumption_rate)]);
+
+    months.push({
+      providerCui: total.provider_cui!,
+      countyCode: total.county_code || undefined,
+      serviceType: total.service_type || 'other',
+      year: total.year,
+      month: total.month,
+      daysInMonth,
+      allocatedAmount: Number(total.allocated_amount),
+      points,
+    });
+  }
+
+  return months;
+}
+
+/**
+ * Realised cumulative consumption at `day`, interpolated between snapshots
+ */
+function realisedRateAt(month: BacktestMonth, day: number): number {
+  let prev: [number, number] = [0, 0];
+  for (const point of month.points) {
+    if (point[0] >= day) {
+      if (point[0] === prev[0]) return point[1];
+      return prev[1] + ((point[1] - prev[1]) * (day - prev[0])) / (point[0] - prev[0]);
+    }
+    prev = point;
+  }
+  return prev[1];
+}
+
+/**
+ * First day realised consumption reached the exhausted threshold
+ */
+function realisedDepletionDay(month: BacktestMonth): number | null {
+  for (let d = 1; d <= month.daysInMonth; d++) {
+    if (realisedRateAt(month, d) >= EXHAUSTED_RATE) return d;
+  }
+  return null;
+}
+
+/**
+ * The estimator returns a status, not a probability: map it through its confidence
+ */
+function estimatorProbability(status: string, confidence: number): number {
+  if (status === 'likely_available') return confidence / 100;
+  if (status === 'likely_exhausted') return 1 - confidence / 100;
+  return 0.5;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function summarize(samples: Sample[]): ModelReport {
+  const brier = mean(samples.map(s => Math.pow(s.probability - (s.available ? 1 : 0), 2)));
+
+  const calibration: CalibrationBucket[] = [];
+  for (let b = 0; b < CALIBRATION_BUCKETS; b++) {
+    const low = b / CALIBRATION_BUCKETS;
+    const high = (b + 1) / CALIBRATION_BUCKETS;
+    const inBucket = samples.filter(s =>
+      s.probability >= low && (s.probability < high || (b === CALIBRATION_BUCKETS - 1 && s.probability <= high))
+    );
+    calibration.push({
+      range: [low, high],
+      count: inBucket.length,
+      meanPredicted: mean(inBucket.map(s => s.probability)),
+      observedRate: mean(inBucket.map(s => (s.available ? 1 : 0))),
+    });
+  }
+
+  // Only samples taken before the realised depletion say anything about the date
+  const open = samples.filter(s => s.available);
+  const predicted = open.filter(s => s.predictedDepletionDay !== undefined);
+  const both = predicted.filter(s => s.predictedDepletionDay !== null && s.actualDepletionDay !== null);
+  const errors = both.map(s => s.predictedDepletionDay! - s.actualDepletionDay!);
+
+  return {
+    samples: samples.length,
+    brierScore: brier,
+    baseRate: mean(samples.map(s => (s.available ? 1 : 0))),
+    calibration,
+    depletion: {
+      bothDepleted: both.length,
+      meanAbsoluteErrorDays: mean(errors.map(Math.abs)),
+      meanSignedErrorDays: mean(errors),
+      missedDepletions: predicted.filter(s => s.predictedDepletionDay === null && s.actualDepletionDay !== null).length,
+      falseDepletions: predicted.filter(s => s.predictedDepletionDay !== null && s.actualDepletionDay === null).length,
+      noPrediction: open.length - predicted.length,
+    },
+  };
+}
+
+function formatNumber(value: number | null, digits: number = 3): string {
+  return value === null ? '–' : value.toFixed(digits);
+}
+
+function toMarkdown(report: BacktestReport): string {
+  const lines: string[] = [
+    '# Prediction backtest',
+    '',
+    `Generated ${report.generatedAt} from ${report.months} provider-months,`,
+    `queried on days ${report.queryDays.join(', ')}. Funds count as exhausted at ${Math.round(report.exhaustedRate * 100)}% consumed.`,
+    '',
+    '## Summary',
+    '',
+    '| Service type | Model | Samples | Brier | Base rate | Depletion MAE (days) | Bias (days) | Missed | False | No date |',
+    '| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+  ];
+
+  const rows: [string, Record<ModelName, ModelReport>][] = [
+    ...Object.entries(report.byServiceType).sort(([a], [b]) => a.localeCompare(b)),
+    ['**all**', report.overall],
+  ];
+
+  for (const [serviceType, models] of rows) {
+    for (const model of ['predictor', 'estimator'] as ModelName[]) {
+      const r = models[model];
+      lines.push(
+        `| ${serviceType} | ${model} | ${r.samples} | ${formatNumber(r.brierScore)} | ${formatNumber(r.baseRate, 2)} | ` +
+        `${formatNumber(r.depletion.meanAbsoluteErrorDays, 1)} | ${formatNumber(r.depletion.meanSignedErrorDays, 1)} | ` +
+        `${r.depletion.missedDepletions} | ${r.depletion.falseDepletions} | ${r.depletion.noPrediction} |`
+      );
+    }
+  }
+
+  lines.push('', '## Calibration (all service types)', '');
+  lines.push('| Predicted | Predictor n | Predictor observed | Estimator n | Estimator observed |');
+  lines.push('| --- | ---: | ---: | ---: | ---: |');
+  for (let b = 0; b < CALIBRATION_BUCKETS; b++) {
+    const p = report.overall.predictor.calibration[b];
+    const e = report.overall.estimator.calibration[b];
+    lines.push(
+      `| ${p.range[0].toFixed(1)}–${p.range[1].toFixed(1)} | ${p.count} | ${formatNumber(p.observedRate, 2)} | ` +
+      `${e.count} | ${formatNumber(e.observedRate, 2)} |`
+    );
+  }
+
+  lines.push(
+    '',
+    'Brier score: mean squared error of the "funds still available" probability (lower is better).',
+    'Depletion errors only use samples taken while funds were still available; bias > 0 means the model predicted depletion later than it happened.',
+    'Missed: the model expected funds to last the month but they ran out. No date: the model gives no depletion date (the estimator never does).',
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Main backtest function
+ */
+async function backtestPredictions(): Promise<void> {
+  console.log('Starting prediction backtest...\n');
+
+  const { days, limit, outDir } = parseArgs();
+
+  // Imported after dotenv so lib/supabase sees the credentials
+  const { fundPredictor } = await import('../lib/fund-predictor');
+  const { estimateFundAvailability } = await import('../lib/fund-estimator');
+
+  const rows = await loadHistoricalData();
+  console.log(`Loaded ${rows.length} historical records`);
+
+  let months = buildMonths(rows);
+  if (limit !== null) months = months.slice(-limit);
+  console.log(`Replaying ${months.length} provider-months on days ${days.join(', ')}`);
+
+  const samples: Sample[] = [];
+
+  for (let i = 0; i < months.length; i++) {
+    const month = months[i];
+    const actualDepletionDay = realisedDepletionDay(month);
+
+    for (const day of days) {
+      if (day > month.daysInMonth) continue;
+
+      const currentDate = fundDayDate(month, day);
+      const available = realisedRateAt(month, day) < EXHAUSTED_RATE;
+
+      // Neither model may see this month's consumption
+      const prediction = await fundPredictor.predict({
+        providerId: month.providerCui,
+        providerCui: month.providerCui,
+        serviceType: month.serviceType,
+        countyCode: month.countyCode,
+        currentDate,
+        allocatedAmount: month.allocatedAmount,
+        recentUserReports: [],
+      });
+      samples.push({
+        model: 'predictor',
+        serviceType: month.serviceType,
+        probability: prediction.predictedAvailability,
+        available,
+        predictedDepletionDay: prediction.predictedDepletionDate
+          ? toFundDay(new Date(prediction.predictedDepletionDate)).day
+          : null,
+        actualDepletionDay,
+      });
+
+      const estimate = estimateFundAvailability({ allocated_amount: month.allocatedAmount }, [], currentDate);
+      samples.push({
+        model: 'estimator',
+        serviceType: month.serviceType,
+        probability: estimatorProbability(estimate.status, estimate.confidence),
+        available,
+        // The estimator only reports a status, never a depletion date
+        predictedDepletionDay: undefined,
+        actualDepletionDay,
+      });
+    }
+
+    if ((i + 1) % 100 === 0) {
+      console.log(`Replayed ${i + 1}/${months.length}...`);
+    }
+  }
+
+  const bySampleModel = (list: Sample[]) => ({
+    predictor: summarize(list.filter(s => s.model === 'predictor')),
+    estimator: summarize(list.filter(s => s.model === 'estimator')),
+  });
+
+  const byServiceType: BacktestReport['byServiceType'] = {};
+  for (const serviceType of Array.from(new Set(samples.map(s => s.serviceType)))) {
+    byServiceType[serviceType] = bySampleModel(samples.filter(s => s.serviceType === serviceType));
+  }
+
+  const report: BacktestReport = {
+    generatedAt: new Date().toISOString(),
+    queryDays: days,
+    exhaustedRate: EXHAUSTED_RATE,
+    months: months.length,
+    byServiceType,
+    overall: bySampleModel(samples),
+  };
+
+  if (!fs.existsSync(outDir)) {
+    fs.mkdirSync(outDir, { recursive: true });
+  }
+
+  const stamp = report.generatedAt.slice(0, 10).replace(/-/g, '');
+  const jsonFile = path.join(outDir, `backtest-${stamp}.json`);
+  const mdFile = path.join(outDir, `backtest-${stamp}.md`);
+
+  fs.writeFileSync(jsonFile, JSON.stringify(report, null, 2));
+  fs.writeFileSync(mdFile, toMarkdown(report));
+
+  console.log('\n=== Backtest Complete ===');
+  console.log(`  Predictor Brier: ${formatNumber(report.overall.predictor.brierScore)}`);
+  console.log(`  Estimator Brier: ${formatNumber(report.overall.estimator.brierScore)}`);
+  console.log(`\nReport: ${jsonFile}`);
+  console.log(`Summary: ${mdFile}`);
+}
+
+// Run the script
+backtestPredictions().catch(console.error);
@@ -6,6 +6,7 @@
  */
 import { createClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import { mapSpecialty } from '../lib/specialty-taxonomy';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -18,28 +19,6 @@ const supabase = createClient(
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'current');
 
-// Specialty normalizations
-const SPECIALTY_NORMALIZATIONS: Record<string, string> = {
-  'orl': 'otorinolaringologie',
-  'otorinolanrigologie': 'otorinolaringologie',
-  'oto-rino-laringologie': 'otorinolaringologie',
-  'dermato-venerologie': 'dermatovenerologie',
-  'dermato venerologie': 'dermatovenerologie',
-  'diabet zaharat, nutritie si boli metabolice': 'diabet zaharat',
-  'obstetrica - ginecologie': 'obstetrica-ginecologie',
-  'obstetrică-ginecologie': 'obstetrica-ginecologie',
-  'ginecologie': 'obstetrica-ginecologie',
-  'medicina internă': 'medicina interna',
-  'chirurgie generalã': 'chirurgie generala',
-  'alergologie si imunologie clinica': 'alergologie',
-  'alergologie şi imunologie clinică': 'alergologie',
-};
-
-function normalizeSpecialtyName(name: string): string {
-  const trimmed = name.trim().toLowerCase();
-  return SPECIALTY_NORMALIZATIONS[trimmed] || trimmed;
-}
-
 async function getBucurestiCountyId(): Promise<string | null> {
   const { data } = await supabase
     .from('counties')
@@ -135,7 +114,10 @@ async function main() {
     providersWithSpecs++;
 
     for (const spec of p.specialties) {
-      const normalizedSpec = normalizeSpecialtyName(spec);
+      // Strings outside lib/specialty-taxonomy.ts are not linked
+      const entry = mapSpecialty(spec);
+      if (!entry) continue;
+      const normalizedSpec = entry.name;
 
       let specId = specialtyCache.get(normalizedSpec);
       if (!specId) {
@@ -152,7 +134,7 @@ async function main() {
           // Create
           const { data: created, error } = await supabase
             .from('specialties')
-            .insert({ name: normalizedSpec, category: 'clinical' })
+            .insert({ name: entry.name, code: entry.code, category: entry.category })
             .select('id')
             .single();
 
@@ -1,14 +1,16 @@
 /**
  * Geocode Addresses Script
  *
- * Reads parsed_providers.json and geocodes addresses using Nominatim (OpenStreetMap)
- * Rate limited to 1 request per second to respect Nominatim usage policy
+ * Reads parsed_providers.json and geocodes addresses with lib/geocoding
+ * (Nominatim, rate limited to 1 request per second, or GEOCODER_FILE)
  *
  * Usage: npm run sync:geocode
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { createGeocoder } from '../lib/geocoding';
+import { GeocodePrecision } from '../lib/types-v2';
 
 interface ParsedProvider {
   cui?: string;
@@ -29,136 +31,14 @@ interface GeocodedProvider extends ParsedProvider {
   lng?: number;
   geocodedAt?: string;
   geocodeSource?: string;
-}
-
-interface NominatimResult {
-  lat: string;
-  lon: string;
-  display_name: string;
+  geocodePrecision?: GeocodePrecision;
 }
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'current');
 const INPUT_FILE = path.join(DATA_DIR, 'parsed_providers.json');
 const OUTPUT_FILE = path.join(DATA_DIR, 'geocoded_providers.json');
 
-// Nominatim API endpoint
-const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
-
-// Rate limiting: 1 request per second
-const RATE_LIMIT_MS = 1100;
-
-// Cache for geocoding results to avoid duplicate requests
-const geocodeCache = new Map<string, { lat: number; lng: number } | null>();
-
-/**
- * Sleep for specified milliseconds
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-/**
- * Build a search query from provider address
- */
-function buildSearchQuery(provider: ParsedProvider): string {
-  const parts: string[] = [];
-
-  if (provider.address) {
-    // Clean up address
-    let address = provider.address
-      .replace(/\s+/g, ' ')
-      .replace(/,\s*,/g, ',')
-      .trim();
-    parts.push(address);
-  }
-
-  if (provider.city) {
-    parts.push(provider.city);
-  }
-
-  // Add county for better accuracy
-  if (provider.county) {
-    // Map county codes to full names if needed
-    const countyName = provider.county === 'B' ? 'București' : provider.county;
-    parts.push(countyName);
-  }
-
-  parts.push('Romania');
-
-  return parts.join(', ');
-}
-
-/**
- * Geocode an address using Nominatim
- */
-async function geocodeAddress(query: string): Promise<{ lat: number; lng: number } | null> {
-  // Check cache first
-  if (geocodeCache.has(query)) {
-    return geocodeCache.get(query) || null;
-  }
-
-  try {
-    const params = new URLSearchParams({
-      q: query,
-      format: 'json',
-      limit: '1',
-      countrycodes: 'ro'
-    });
-
-    const url = `${NOMINATIM_URL}?${params}`;
-
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'FondCAS/1.0 (https://fondcas.ro; contact@fondcas.ro)'
-      }
-    });
-
-    if (!response.ok) {
-      console.error(`Nominatim error: ${response.status} ${response.statusText}`);
-      return null;
-    }
-
-    const results: NominatimResult[] = await response.json();
-
-    if (results.length === 0) {
-      geocodeCache.set(query, null);
-      return null;
-    }
-
-    const result = {
-      lat: parseFloat(results[0].lat),
-      lng: parseFloat(results[0].lon)
-    };
-
-    geocodeCache.set(query, result);
-    return result;
-
-  } catch (error) {
-    console.error(`Geocoding error for "${query}":`, error);
-    return null;
-  }
-}
-
-/**
- * Fallback geocoding using just city + county
- */
-async function geocodeFallback(provider: ParsedProvider): Promise<{ lat: number; lng: number } | null> {
-  const parts: string[] = [];
-
-  if (provider.city) {
-    parts.push(provider.city);
-  }
-
-  if (provider.county) {
-    const countyName = provider.county === 'B' ? 'București' : provider.county;
-    parts.push(countyName);
-  }
-
-  parts.push('Romania');
-
-  const query = parts.join(', ');
-  return geocodeAddress(query);
-}
+const geocoder = createGeocoder();
 
 /**
  * Main geocoding function
@@ -179,13 +59,13 @@ async function geocodeProviders(): Promise<void> {
 
   // Load existing geocoded data if available (for resume capability)
   let geocodedProviders: GeocodedProvider[] = [];
-  const existingCoords = new Map<string, { lat: number; lng: number }>();
+  const existingCoords = new Map<string, { lat: number; lng: number; precision?: GeocodePrecision }>();
 
   if (fs.existsSync(OUTPUT_FILE)) {
     geocodedProviders = JSON.parse(fs.readFileSync(OUTPUT_FILE, 'utf-8'));
     for (const p of geocodedProviders) {
       if (p.lat && p.lng && (p.cui || p.name)) {
-        existingCoords.set(p.cui || p.name, { lat: p.lat, lng: p.lng });
+        existingCoords.set(p.cui || p.name, { lat: p.lat, lng: p.lng, precision: p.geocodePrecision });
       }
     }
     console.log(`Loaded ${existingCoords.size} existing geocoded coordinates`);
@@ -209,26 +89,20 @@ async function geocodeProviders(): Promise<void> {
         lat: coords.lat,
         lng: coords.lng,
         geocodedAt: new Date().toISOString(),
-        geocodeSource: 'cache'
+        geocodeSource: 'cache',
+        geocodePrecision: coords.precision
       });
       cachedCount++;
       continue;
     }
 
-    // Build search query
-    const query = buildSearchQuery(provider);
     console.log(`[${i + 1}/${providers.length}] Geocoding: ${provider.name}`);
-    console.log(`  Query: ${query}`);
-
-    // Try full address first
-    let coords = await geocodeAddress(query);
 
-    // If failed, try fallback with just city
-    if (!coords && (provider.city || provider.county)) {
-      console.log('  Trying fallback (city only)...');
-      await sleep(RATE_LIMIT_MS);
-      coords = await geocodeFallback(provider);
-    }
+    const coords = await geocoder.geocode({
+      address: provider.address,
+      city: provider.city,
+      county: provider.county,
+    });
 
     if (coords) {
       results.push({
@@ -236,10 +110,11 @@ async function geocodeProviders(): Promise<void> {
         lat: coords.lat,
         lng: coords.lng,
         geocodedAt: new Date().toISOString(),
-        geocodeSource: 'nominatim'
+        geocodeSource: coords.source,
+        geocodePrecision: coords.precision
       });
       geocodedCount++;
-      console.log(`  ✓ Found: ${coords.lat}, ${coords.lng}`);
+      console.log(`  ✓ Found (${coords.precision}): ${coords.lat}, ${coords.lng}`);
     } else {
       results.push({
         ...provider,
@@ -250,9 +125,6 @@ async function geocodeProviders(): Promise<void> {
       console.log(`  ✗ Not found`);
     }
 
-    // Rate limiting
-    await sleep(RATE_LIMIT_MS);
-
     // Save progress every 10 providers
     if ((i + 1) % 10 === 0) {
       fs.writeFileSync(OUTPUT_FILE, JSON.stringify(results, null, 2));
@@ -2,13 +2,17 @@
  * Geocode Database Providers
  *
  * Reads providers without coordinates from Supabase and geocodes them
- * using Nominatim (OpenStreetMap). Updates the database directly.
+ * with lib/geocoding (Nominatim, or GEOCODER_FILE). Updates the database directly.
+ *
+ * The legacy providers table has no precision column, so only street-level
+ * or better results are stored; sector and city fallbacks are skipped.
  *
  * Usage: npx tsx scripts/geocode-db.ts
  */
 
 import { createClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import { createGeocoder } from '../lib/geocoding';
 
 dotenv.config({ path: '.env.local' });
 
@@ -22,95 +26,7 @@ if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 
-const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
-const RATE_LIMIT_MS = 1100; // 1 request per second
-
-interface NominatimResult {
-  lat: string;
-  lon: string;
-  display_name: string;
-}
-
-// Sleep helper
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Clean address for geocoding
-function cleanAddress(address: string): string {
-  return address
-    .replace(/\s+/g, ' ')
-    .replace(/,\s*,/g, ',')
-    .replace(/sector\s*(\d)/gi, 'Sector $1')
-    .replace(/nr\.?\s*/gi, '')
-    .replace(/bl\.?\s*/gi, 'Bloc ')
-    .replace(/sc\.?\s*/gi, 'Scara ')
-    .replace(/et\.?\s*/gi, 'Etaj ')
-    .replace(/ap\.?\s*/gi, 'Apartament ')
-    .replace(/cam\.?\s*/gi, 'Camera ')
-    .trim();
-}
-
-// Geocode a single address
-async function geocodeAddress(address: string, city: string = 'București'): Promise<{ lat: number; lng: number } | null> {
-  const cleanAddr = cleanAddress(address);
-  const query = `${cleanAddr}, ${city}, Romania`;
-
-  try {
-    const url = new URL(NOMINATIM_URL);
-    url.searchParams.set('q', query);
-    url.searchParams.set('format', 'json');
-    url.searchParams.set('limit', '1');
-    url.searchParams.set('countrycodes', 'ro');
-
-    const response = await fetch(url.toString(), {
-      headers: {
-        'User-Agent': 'FondCAS/1.0 (healthcare provider search app)',
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`  HTTP error: ${response.status}`);
-      return null;
-    }
-
-    const results: NominatimResult[] = await response.json();
-
-    if (results.length > 0) {
-      return {
-        lat: parseFloat(results[0].lat),
-        lng: parseFloat(results[0].lon),
-      };
-    }
-
-    // Fallback: try with just street name and city
-    const streetMatch = cleanAddr.match(/^([^,]+)/);
-    if (streetMatch) {
-      const fallbackQuery = `${streetMatch[1]}, ${city}, Romania`;
-      url.searchParams.set('q', fallbackQuery);
-
-      await sleep(RATE_LIMIT_MS);
-      const fallbackResponse = await fetch(url.toString(), {
-        headers: {
-          'User-Agent': 'FondCAS/1.0 (healthcare provider search app)',
-        },
-      });
-
-      if (fallbackResponse.ok) {
-        const fallbackResults: NominatimResult[] = await fallbackResponse.json();
-        if (fallbackResults.length > 0) {
-          return {
-            lat: parseFloat(fallbackResults[0].lat),
-            lng: parseFloat(fallbackResults[0].lon),
-          };
-        }
-      }
-    }
-
-    return null;
-  } catch (error) {
-    console.error(`  Geocode error:`, error);
-    return null;
-  }
-}
+const geocoder = createGeocoder({ supabase });
 
 async function main() {
   console.log('=== Geocoding Database Providers ===\n');
@@ -146,9 +62,12 @@ async function main() {
     console.log(`${progress} Geocoding: ${provider.name.substring(0, 50)}`);
     console.log(`  Address: ${provider.address.substring(0, 60)}...`);
 
-    const coords = await geocodeAddress(provider.address, provider.city || 'București');
+    const coords = await geocoder.geocode({ address: provider.address, city: provider.city || 'București' });
 
-    if (coords) {
+    if (coords && (coords.precision === 'sector' || coords.precision === 'city')) {
+      console.log(`  ✗ Only ${coords.precision}-level match, skipped`);
+      failed++;
+    } else if (coords) {
       const { error: updateError } = await supabase
         .from('providers')
         .update({
@@ -169,9 +88,6 @@ async function main() {
       console.log(`  ✗ Not found`);
       failed++;
     }
-
-    // Rate limiting
-    await sleep(RATE_LIMIT_MS);
   }
 
   console.log('\n=== Geocoding Complete ===');
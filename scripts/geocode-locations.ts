@@ -2,13 +2,16 @@
  * Geocode Locations in v2 Schema
  *
  * Reads locations without coordinates from Supabase and geocodes them
- * using Nominatim (OpenStreetMap). Updates the database directly.
+ * with lib/geocoding (Nominatim, or GEOCODER_FILE). Updates the database
+ * directly, storing how precise each point is.
  *
  * Usage: npx tsx scripts/geocode-locations.ts
  */
 
 import { createClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import { createGeocoder } from '../lib/geocoding';
+import { GeocodePrecision } from '../lib/types-v2';
 
 dotenv.config({ path: '.env.local' });
 
@@ -22,95 +25,7 @@ if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
 
-const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
-const RATE_LIMIT_MS = 1100; // 1 request per second (Nominatim requires this)
-
-interface NominatimResult {
-  lat: string;
-  lon: string;
-  display_name: string;
-}
-
-// Sleep helper
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Clean address for geocoding
-function cleanAddress(address: string): string {
-  return address
-    .replace(/\s+/g, ' ')
-    .replace(/,\s*,/g, ',')
-    .replace(/sector\s*(\d)/gi, 'Sector $1')
-    .replace(/nr\.?\s*/gi, '')
-    .replace(/bl\.?\s*/gi, 'Bloc ')
-    .replace(/sc\.?\s*/gi, 'Scara ')
-    .replace(/et\.?\s*/gi, 'Etaj ')
-    .replace(/ap\.?\s*/gi, 'Apartament ')
-    .replace(/cam\.?\s*/gi, 'Camera ')
-    .trim();
-}
-
-// Geocode a single address
-async function geocodeAddress(address: string, city: string = 'București'): Promise<{ lat: number; lng: number } | null> {
-  const cleanAddr = cleanAddress(address);
-  const query = `${cleanAddr}, ${city}, Romania`;
-
-  try {
-    const url = new URL(NOMINATIM_URL);
-    url.searchParams.set('q', query);
-    url.searchParams.set('format', 'json');
-    url.searchParams.set('limit', '1');
-    url.searchParams.set('countrycodes', 'ro');
-
-    const response = await fetch(url.toString(), {
-      headers: {
-        'User-Agent': 'FondCAS/1.0 (healthcare provider search app)',
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`  HTTP error: ${response.status}`);
-      return null;
-    }
-
-    const results: NominatimResult[] = await response.json();
-
-    if (results.length > 0) {
-      return {
-        lat: parseFloat(results[0].lat),
-        lng: parseFloat(results[0].lon),
-      };
-    }
-
-    // Fallback: try with just street name and city
-    const streetMatch = cleanAddr.match(/^([^,]+)/);
-    if (streetMatch) {
-      const fallbackQuery = `${streetMatch[1]}, ${city}, Romania`;
-      url.searchParams.set('q', fallbackQuery);
-
-      await sleep(RATE_LIMIT_MS);
-      const fallbackResponse = await fetch(url.toString(), {
-        headers: {
-          'User-Agent': 'FondCAS/1.0 (healthcare provider search app)',
-        },
-      });
-
-      if (fallbackResponse.ok) {
-        const fallbackResults: NominatimResult[] = await fallbackResponse.json();
-        if (fallbackResults.length > 0) {
-          return {
-            lat: parseFloat(fallbackResults[0].lat),
-            lng: parseFloat(fallbackResults[0].lon),
-          };
-        }
-      }
-    }
-
-    return null;
-  } catch (error) {
-    console.error(`  Geocode error:`, error);
-    return null;
-  }
-}
+const geocoder = createGeocoder({ supabase });
 
 async function main() {
   console.log('╔══════════════════════════════════════════════════╗');
@@ -141,6 +56,7 @@ async function main() {
 
   let success = 0;
   let failed = 0;
+  const byPrecision: Record<GeocodePrecision, number> = { rooftop: 0, street: 0, sector: 0, city: 0 };
 
   for (let i = 0; i < locations.length; i++) {
     const location = locations[i];
@@ -152,19 +68,12 @@ async function main() {
       continue;
     }
 
-    // Determine city for geocoding
-    let city = location.city || 'București';
-    if (!location.city && location.county_id) {
-      const countyName = countyIdMap.get(location.county_id);
-      if (countyName && countyName !== 'București') {
-        city = countyName;
-      }
-    }
+    const county = location.county_id ? countyIdMap.get(location.county_id) : null;
 
     console.log(`${progress} Geocoding: ${location.name.substring(0, 50)}`);
     console.log(`  Address: ${location.address.substring(0, 60)}${location.address.length > 60 ? '...' : ''}`);
 
-    const coords = await geocodeAddress(location.address, city);
+    const coords = await geocoder.geocode({ address: location.address, city: location.city, county });
 
     if (coords) {
       const { error: updateError } = await supabase
@@ -172,6 +81,9 @@ async function main() {
         .update({
           lat: coords.lat,
           lng: coords.lng,
+          geocoded_at: new Date().toISOString(),
+          geocode_source: coords.source,
+          geocode_precision: coords.precision,
           updated_at: new Date().toISOString(),
         })
         .eq('id', location.id);
@@ -180,23 +92,25 @@ async function main() {
         console.log(`  ✗ Update failed: ${updateError.message}`);
         failed++;
       } else {
-        console.log(`  ✓ Found: ${coords.lat.toFixed(6)}, ${coords.lng.toFixed(6)}`);
+        console.log(`  ✓ Found (${coords.precision}): ${coords.lat.toFixed(6)}, ${coords.lng.toFixed(6)}`);
+        byPrecision[coords.precision]++;
         success++;
       }
     } else {
       console.log(`  ✗ Not found`);
       failed++;
     }
-
-    // Rate limiting
-    await sleep(RATE_LIMIT_MS);
   }
 
   console.log('\n' + '═'.repeat(55));
   console.log('                GEOCODING COMPLETE');
   console.log('═'.repeat(55));
   console.log(`  Success: ${success}`);
+  for (const [precision, count] of Object.entries(byPrecision)) {
+    console.log(`    ${precision.padEnd(8)} ${count}`);
+  }
   console.log(`  Failed:  ${failed}`);
+  console.log(`  Cached:  ${geocoder.stats.cacheHits} answers`);
   console.log(`  Total:   ${locations.length}`);
   console.log('═'.repeat(55));
 }
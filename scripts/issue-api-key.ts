@@ -0,0 +1,110 @@
+import { createClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import { DEFAULT_RATE_LIMIT_PER_MINUTE, issueApiKey } from '../lib/api-keys';
+
+dotenv.config({ path: '.env.local' });
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Keys for the public /api/v1 surface.
+//   npx tsx scripts/issue-api-key.ts --name "Asociația X" [--email a@b.ro] [--limit 120]
+//   npx tsx scripts/issue-api-key.ts --list      keys with their usage in the last 30 days
+//   npx tsx scripts/issue-api-key.ts --revoke fcas_AbCdEfG
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function issue(name: string, email: string | undefined, limit: number) {
+  console.log('=== Issue API Key ===\n');
+
+  const issued = await issueApiKey(supabase, { name, contactEmail: email, rateLimitPerMinute: limit });
+
+  console.log(`Name: ${name}`);
+  console.log(`Limit: ${limit} requests/minute`);
+  console.log(`\nKey (shown only once):\n${issued.key}`);
+}
+
+async function list() {
+  console.log('=== API Keys ===\n');
+
+  const { data: keys, error } = await supabase
+    .from('api_keys')
+    .select('id, key_prefix, name, contact_email, rate_limit_per_minute, created_at, last_used_at, revoked_at')
+    .order('created_at');
+
+  if (error) {
+    console.error('Error:', error);
+    return;
+  }
+
+  const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const { data: usage } = await supabase
+    .from('api_key_usage')
+    .select('api_key_id, endpoint, request_count, rejected_count')
+    .gte('day', since);
+
+  for (const key of keys) {
+    const rows = (usage || []).filter((u) => u.api_key_id === key.id);
+    const requests = rows.reduce((sum, u) => sum + u.request_count, 0);
+    const rejected = rows.reduce((sum, u) => sum + u.rejected_count, 0);
+    const status = key.revoked_at ? 'REVOKED' : 'active';
+
+    console.log(`${key.key_prefix}…  ${key.name}${key.contact_email ? ` <${key.contact_email}>` : ''} [${status}]`);
+    console.log(`   Limit: ${key.rate_limit_per_minute}/min, last used: ${key.last_used_at || 'never'}`);
+    console.log(`   Last 30 days: ${requests} requests, ${rejected} rate-limited`);
+    for (const row of rows.sort((a, b) => b.request_count - a.request_count).slice(0, 5)) {
+      console.log(`      ${row.endpoint}: ${row.request_count}`);
+    }
+  }
+
+  console.log('\n=== Summary ===');
+  console.log(`Keys: ${keys.length}`);
+  console.log(`Active: ${keys.filter((k) => !k.revoked_at).length}`);
+}
+
+async function revoke(prefix: string) {
+  console.log('=== Revoke API Key ===\n');
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .like('key_prefix', `${prefix.slice(0, 12)}%`)
+    .is('revoked_at', null)
+    .select('key_prefix, name');
+
+  if (error) {
+    console.error('Error:', error);
+    return;
+  }
+
+  if (!data || data.length === 0) {
+    console.log(`No active key starts with ${prefix}`);
+    return;
+  }
+
+  for (const key of data) {
+    console.log(`Revoked ${key.key_prefix}… (${key.name})`);
+  }
+}
+
+const args = process.argv.slice(2);
+const name = getArg(args, '--name');
+const revokePrefix = getArg(args, '--revoke');
+
+if (args.includes('--list')) {
+  list();
+} else if (revokePrefix) {
+  revoke(revokePrefix);
+} else if (name) {
+  const limit = parseInt(getArg(args, '--limit') || String(DEFAULT_RATE_LIMIT_PER_MINUTE));
+  issue(name, getArg(args, '--email'), limit);
+} else {
+  console.log('Usage: npx tsx scripts/issue-api-key.ts --name <name> [--email <email>] [--limit <per minute>]');
+  console.log('       npx tsx scripts/issue-api-key.ts --list');
+  console.log('       npx tsx scripts/issue-api-key.ts --revoke <key prefix>');
+}
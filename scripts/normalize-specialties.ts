@@ -0,0 +1,103 @@
+import { createClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import { mapSpecialty } from '../lib/specialty-taxonomy';
+import { upsertSpecialtyTaxonomy } from '../lib/v2-sync';
+
+dotenv.config({ path: '.env.local' });
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Move links from specialties created ad hoc by earlier syncs ("orl",
+// "chirurgie generalã", "obstetrica") to the taxonomy entries and delete the
+// old rows. Rows that map to nothing are listed and kept.
+async function normalizeSpecialties(options: { live: boolean }) {
+  console.log('=== Specialty Normalization ===\n');
+  console.log(`Mode: ${options.live ? 'LIVE (saving to DB)' : 'DRY RUN'}\n`);
+
+  const taxonomyIds = options.live ? await upsertSpecialtyTaxonomy(supabase) : new Map<string, string>();
+
+  const { data: specialties, error } = await supabase
+    .from('specialties')
+    .select('id, name, code')
+    .is('code', null)
+    .order('name');
+
+  if (error) {
+    console.error('Error:', error);
+    return;
+  }
+
+  let merged = 0;
+  const unmapped: string[] = [];
+
+  for (const spec of specialties) {
+    const entry = mapSpecialty(spec.name);
+    if (!entry) {
+      unmapped.push(spec.name);
+      continue;
+    }
+
+    console.log(`"${spec.name}" -> ${entry.name}`);
+    merged++;
+    if (!options.live) continue;
+
+    const targetId = taxonomyIds.get(entry.code)!;
+
+    const { data: orgLinks } = await supabase
+      .from('organization_specialties')
+      .select('organization_id')
+      .eq('specialty_id', spec.id);
+
+    if (orgLinks && orgLinks.length > 0) {
+      await supabase.from('organization_specialties').upsert(
+        orgLinks.map((link) => ({ organization_id: link.organization_id, specialty_id: targetId })),
+        { onConflict: 'organization_id,specialty_id' }
+      );
+    }
+
+    const { data: locationLinks } = await supabase
+      .from('location_specialties')
+      .select('location_id')
+      .eq('specialty_id', spec.id);
+
+    if (locationLinks && locationLinks.length > 0) {
+      await supabase.from('location_specialties').upsert(
+        locationLinks.map((link) => ({ location_id: link.location_id, specialty_id: targetId })),
+        { onConflict: 'location_id,specialty_id' }
+      );
+    }
+
+    // A subscriber may already follow the canonical specialty; that row wins
+    const { error: alertError } = await supabase
+      .from('alert_subscriptions')
+      .update({ specialty_id: targetId })
+      .eq('specialty_id', spec.id);
+
+    if (alertError) {
+      console.log(`   Kept alert subscriptions on "${spec.name}": ${alertError.message}`);
+    }
+
+    const { error: deleteError } = await supabase.from('specialties').delete().eq('id', spec.id);
+    if (deleteError) {
+      console.log(`   Error deleting "${spec.name}": ${deleteError.message}`);
+    }
+  }
+
+  if (options.live) {
+    await supabase.rpc('refresh_location_search');
+  }
+
+  console.log('\n=== Summary ===');
+  console.log(`Mapped: ${merged}`);
+  console.log(`Unmapped: ${unmapped.length}`);
+  for (const name of unmapped) {
+    console.log(`   "${name}"`);
+  }
+}
+
+const args = process.argv.slice(2);
+
+normalizeSpecialties({ live: args.includes('--live') });
@@ -7,6 +7,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as XLSX from 'xlsx';
+import { listCasDataFiles } from '../lib/cas-sources';
 
 interface ParsedFundAllocation {
   providerCui?: string;
@@ -74,7 +75,7 @@ function extractPeriodFromFilename(filename: string): { year: number; month: num
 }
 
 // Parse fund allocation Excel file
-function parseFundsFile(filePath: string): ParsedFundAllocation[] {
+function parseFundsFile(filePath: string, serviceType: string = 'paraclinic'): ParsedFundAllocation[] {
   console.log(`\nParsing funds: ${path.basename(filePath)}`);
 
   const allocations: ParsedFundAllocation[] = [];
@@ -195,7 +196,7 @@ function parseFundsFile(filePath: string): ParsedFundAllocation[] {
           providerName: name,
           periodYear: period.year,
           periodMonth: period.month,
-          serviceType: 'paraclinic',
+          serviceType,
           allocatedAmount,
           contractNumber,
           dataSource: path.basename(filePath)
@@ -222,11 +223,9 @@ async function parseFunds() {
     process.exit(1);
   }
 
-  // Find fund allocation files (files with 'valori' in name)
-  const files = fs.readdirSync(DATA_DIR).filter(f =>
-    (f.endsWith('.xlsx') || f.endsWith('.xls')) &&
-    !f.startsWith('~$') &&
-    f.toLowerCase().includes('valori')
+  // Find fund allocation files (per the county manifest, or 'valori' in name)
+  const files = listCasDataFiles(DATA_DIR).filter(f =>
+    f.entry ? f.entry.kind === 'allocations' : path.basename(f.filePath).toLowerCase().includes('valori')
   );
 
   if (files.length === 0) {
@@ -241,8 +240,7 @@ async function parseFunds() {
   const allAllocations: ParsedFundAllocation[] = [];
 
   for (const file of files) {
-    const filePath = path.join(DATA_DIR, file);
-    const allocations = parseFundsFile(filePath);
+    const allocations = parseFundsFile(file.filePath, file.entry?.providerType);
     allAllocations.push(...allocations);
   }
 
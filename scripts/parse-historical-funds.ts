@@ -10,6 +10,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as XLSX from 'xlsx';
+import { normalizeCountyCode } from '../lib/v2-sync';
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'historical');
 const OUTPUT_FILE = path.join(DATA_DIR, 'parsed_historical_funds.json');
@@ -19,7 +20,8 @@ interface HistoricalFundRecord {
   providerName: string;
   year: number;
   month: number;
-  dayOfMonth?: number;
+  dayOfMonth?: number; // Set for intra-month consumption snapshots
+  county: string;
   allocatedAmount: number;
   consumedAmount?: number;
   consumptionRate?: number;
@@ -144,6 +146,37 @@ function extractPeriodFromFilename(filename: string): { year: number; month: num
   return null;
 }
 
+/**
+ * Find the day of the period month a consumption snapshot was taken.
+ * CAS publishes consumption "la data de dd.mm.yyyy" several times a month;
+ * files dated after the period month hold month totals and return undefined.
+ */
+function extractSnapshotDay(
+  filename: string,
+  period: { year: number; month: number }
+): number | undefined {
+  const candidates: { year: number; month: number; day: number }[] = [];
+
+  // dd.mm.yyyy anywhere in the name
+  const datePattern = /(\d{2})\.(\d{2})\.(\d{4})/g;
+  let match;
+  while ((match = datePattern.exec(filename)) !== null) {
+    candidates.push({ day: parseInt(match[1]), month: parseInt(match[2]), year: parseInt(match[3]) });
+  }
+
+  // YYYYMMDD publication prefix of the original CAS file name
+  const prefixMatch = filename.match(/(?:^|_)(\d{4})(\d{2})(\d{2})_/);
+  if (prefixMatch) {
+    candidates.push({ year: parseInt(prefixMatch[1]), month: parseInt(prefixMatch[2]), day: parseInt(prefixMatch[3]) });
+  }
+
+  const daysInMonth = new Date(period.year, period.month, 0).getDate();
+  const snapshot = candidates.find(c =>
+    c.year === period.year && c.month === period.month && c.day >= 1 && c.day < daysInMonth
+  );
+  return snapshot?.day;
+}
+
 /**
  * Parse a single Excel file
  */
@@ -158,6 +191,10 @@ function parseExcelFile(filePath: string): HistoricalFundRecord[] {
     return records;
   }
 
+  // Files are saved as <region>_<type>_<MM>_<original name>
+  const county = normalizeCountyCode(filename.split('_')[0]);
+  const snapshotDay = extractSnapshotDay(filename, period);
+
   try {
     const workbook = XLSX.readFile(filePath);
 
@@ -254,6 +291,9 @@ function parseExcelFile(filePath: string): HistoricalFundRecord[] {
           providerName: name,
           year: period.year,
           month: period.month,
+          // Only consumption figures describe a point within the month
+          dayOfMonth: consumedAmount !== undefined ? snapshotDay : undefined,
+          county,
           allocatedAmount,
           consumedAmount,
           consumptionRate,
@@ -322,9 +362,9 @@ async function parseHistoricalFunds(): Promise<void> {
     allRecords.push(...records);
   }
 
-  // Remove duplicates (same provider + year + month + service type)
+  // Remove duplicates (same provider + year + month + snapshot day + service type)
   const uniqueKey = (r: HistoricalFundRecord) =>
-    `${r.providerCui || r.providerName}_${r.year}_${r.month}_${r.serviceType}`;
+    `${r.providerCui || r.providerName}_${r.year}_${r.month}_${r.dayOfMonth ?? 'total'}_${r.serviceType}`;
 
   const uniqueRecords = Array.from(
     new Map(allRecords.map(r => [uniqueKey(r), r])).values()
@@ -334,6 +374,7 @@ async function parseHistoricalFunds(): Promise<void> {
   uniqueRecords.sort((a, b) => {
     if (a.year !== b.year) return a.year - b.year;
     if (a.month !== b.month) return a.month - b.month;
+    if ((a.dayOfMonth ?? 32) !== (b.dayOfMonth ?? 32)) return (a.dayOfMonth ?? 32) - (b.dayOfMonth ?? 32);
     return a.providerName.localeCompare(b.providerName);
   });
 
@@ -347,6 +388,7 @@ async function parseHistoricalFunds(): Promise<void> {
   console.log('\n=== Parsing Complete ===');
   console.log(`Total records: ${uniqueRecords.length}`);
   console.log(`Unique providers: ${providers.size}`);
+  console.log(`Intra-month snapshots: ${uniqueRecords.filter(r => r.dayOfMonth !== undefined).length}`);
   console.log(`Years covered: ${years.join(', ')}`);
   console.log(`\nOutput saved to: ${OUTPUT_FILE}`);
 
@@ -0,0 +1,74 @@
+import { createClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import { parseOpeningHours } from '../lib/opening-hours';
+
+dotenv.config({ path: '.env.local' });
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const PAGE_SIZE = 1000;
+
+// Re-parse opening hours stored as free text ({ raw }) before the sync
+// started saving the structured schedule, so open_now search can use them.
+async function parseStoredOpeningHours(options: { live: boolean }) {
+  console.log('=== Opening Hours ===\n');
+  console.log(`Mode: ${options.live ? 'LIVE (saving to DB)' : 'DRY RUN'}\n`);
+
+  let processed = 0;
+  let parsed = 0;
+  let unreadable = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: locations, error } = await supabase
+      .from('locations')
+      .select('id, name, opening_hours')
+      .not('opening_hours', 'is', null)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error:', error);
+      return;
+    }
+
+    for (const loc of locations) {
+      const stored = loc.opening_hours as { raw?: string; weekly?: unknown };
+      if (stored.weekly !== undefined || !stored.raw) continue;
+
+      processed++;
+      const openingHours = parseOpeningHours(stored.raw);
+
+      if (!openingHours.weekly) {
+        unreadable++;
+        console.log(`✗ ${loc.name}: "${stored.raw}"`);
+      } else {
+        parsed++;
+      }
+
+      if (options.live) {
+        const { error: updateError } = await supabase
+          .from('locations')
+          .update({ opening_hours: openingHours })
+          .eq('id', loc.id);
+
+        if (updateError) {
+          console.log(`   Error saving ${loc.name}: ${updateError.message}`);
+        }
+      }
+    }
+
+    if (locations.length < PAGE_SIZE) break;
+  }
+
+  console.log('\n=== Summary ===');
+  console.log(`Processed: ${processed}`);
+  console.log(`Parsed: ${parsed}`);
+  console.log(`Unreadable: ${unreadable}`);
+}
+
+const args = process.argv.slice(2);
+
+parseStoredOpeningHours({ live: args.includes('--live') });
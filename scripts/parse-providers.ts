@@ -7,6 +7,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as XLSX from 'xlsx';
+import { listCasDataFiles } from '../lib/cas-sources';
 
 interface ParsedProvider {
   cui?: string;
@@ -84,7 +85,7 @@ function buildColumnMap(headerRow: any[]): Record<string, number> {
 }
 
 // Parse a single Excel file
-function parseExcelFile(filePath: string): ParsedProvider[] {
+function parseExcelFile(filePath: string, county: string, providerType: string = 'paraclinic'): ParsedProvider[] {
   console.log(`\nParsing: ${path.basename(filePath)}`);
 
   const providers: ParsedProvider[] = [];
@@ -146,8 +147,8 @@ function parseExcelFile(filePath: string): ParsedProvider[] {
 
         const provider: ParsedProvider = {
           name,
-          providerType: 'paraclinic',
-          county: 'B',
+          providerType,
+          county,
           dataSource: path.basename(filePath),
           specialties: [sheetName], // Use sheet name as specialty
         };
@@ -155,8 +156,8 @@ function parseExcelFile(filePath: string): ParsedProvider[] {
         if (columnMap.address !== undefined && row[columnMap.address]) {
           provider.address = String(row[columnMap.address]).trim();
           // Extract city from address if it starts with București
-          if (provider.address.toLowerCase().includes('bucureşti') ||
-              provider.address.toLowerCase().includes('bucuresti')) {
+          if (county === 'B' && (provider.address.toLowerCase().includes('bucureşti') ||
+              provider.address.toLowerCase().includes('bucuresti'))) {
             provider.city = 'București';
           }
         }
@@ -200,10 +201,8 @@ async function parseProviders() {
     process.exit(1);
   }
 
-  // Find all Excel files
-  const files = fs.readdirSync(DATA_DIR).filter(f =>
-    (f.endsWith('.xlsx') || f.endsWith('.xls')) && !f.startsWith('~$')
-  );
+  // Find all Excel files (data/current/<county>/ plus legacy files in the root)
+  const files = listCasDataFiles(DATA_DIR).filter(f => f.entry?.kind !== 'allocations');
 
   if (files.length === 0) {
     console.log('No Excel files found in data directory.');
@@ -217,16 +216,15 @@ async function parseProviders() {
   const allProviders: ParsedProvider[] = [];
 
   for (const file of files) {
-    const filePath = path.join(DATA_DIR, file);
-    const providers = parseExcelFile(filePath);
+    const providers = parseExcelFile(file.filePath, file.county, file.entry?.providerType);
     allProviders.push(...providers);
   }
 
-  // Deduplicate by name (merge specialties)
+  // Deduplicate by county + name (merge specialties)
   const uniqueProviders = new Map<string, ParsedProvider>();
 
   for (const provider of allProviders) {
-    const key = provider.name.toLowerCase();
+    const key = `${provider.county}:${provider.name.toLowerCase()}`;
 
     if (uniqueProviders.has(key)) {
       const existing = uniqueProviders.get(key)!;
@@ -6,6 +6,8 @@
  */
 import { createClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import { mapSpecialty } from '../lib/specialty-taxonomy';
+import { EntityIndex } from '../lib/entity-resolution';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -18,71 +20,6 @@ const supabase = createClient(
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'current');
 
-// Specialty name normalizations to fix typos and variations
-const SPECIALTY_NORMALIZATIONS: Record<string, string> = {
-  // ORL variations
-  'orl': 'otorinolaringologie',
-  'otorinolanrigologie': 'otorinolaringologie',
-  'oto-rino-laringologie': 'otorinolaringologie',
-  // Dermatology variations
-  'dermato-venerologie': 'dermatovenerologie',
-  'dermato venerologie': 'dermatovenerologie',
-  // Diabetes variations
-  'diabet zaharat, nutritie si boli metabolice': 'diabet zaharat',
-  // Obstetrics variations
-  'obstetrica - ginecologie': 'obstetrica-ginecologie',
-  'obstetrică-ginecologie': 'obstetrica-ginecologie',
-  'ginecologie': 'obstetrica-ginecologie',
-  // Internal medicine variations
-  'medicina internă': 'medicina interna',
-  // Surgery variations
-  'chirurgie generalã': 'chirurgie generala',
-  // Allergy variations
-  'alergologie si imunologie clinica': 'alergologie',
-  'alergologie şi imunologie clinică': 'alergologie',
-};
-
-function normalizeSpecialtyName(name: string): string {
-  const trimmed = name.trim().toLowerCase();
-  return SPECIALTY_NORMALIZATIONS[trimmed] || trimmed;
-}
-
-function normalizeName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/\s+/g, ' ')
-    .replace(/[.,;:'"()]/g, '')
-    .replace(/\bs\.?c\.?\s*/gi, '')
-    .replace(/\bs\.?r\.?l\.?\b/gi, 'srl')
-    .replace(/\bs\.?a\.?\b/gi, 'sa')
-    .trim();
-}
-
-function normalizeAddress(address: string | undefined): string | null {
-  if (!address) return null;
-  let normalized = address.toLowerCase()
-    .replace(/\bbulevardul\b/g, 'bd')
-    .replace(/\bb-dul\b/g, 'bd')
-    .replace(/\bstrada\b/g, 'str')
-    .replace(/\bsoseaua\b/g, 'sos')
-    .replace(/\bnumar\b/g, 'nr')
-    .replace(/\bsectorul?\b/g, 'sect')
-    .replace(/[.,;:'"()]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
-
-  const sectorMatch = normalized.match(/sect\s*(\d)/);
-  const sector = sectorMatch ? sectorMatch[1] : '';
-  const numberMatch = normalized.match(/nr\s*(\d+[a-z]?)/i);
-  const streetNumber = numberMatch ? numberMatch[1] : '';
-  const words = normalized.split(' ').filter(w =>
-    w.length > 2 && !['str', 'bd', 'cal', 'sos', 'nr', 'sect', 'prel', 'al'].includes(w)
-  );
-  const streetName = words[0] || '';
-  if (!streetName) return null;
-  return `${streetName}-${streetNumber}-${sector}`.replace(/--+/g, '-').replace(/-$/, '');
-}
-
 async function main() {
   console.log('=== Re-syncing Specialties ===\n');
 
@@ -103,35 +40,12 @@ async function main() {
   console.log('\nStep 3: Loading existing providers from database...');
   const { data: dbProviders } = await supabase
     .from('providers')
-    .select('id, name, address');
+    .select('id, name, cui, email, phone, address');
 
   console.log(`  Found ${dbProviders?.length} providers in database`);
 
-  // Build index for matching
-  const providerIndex = new Map<string, { id: string; name: string; address?: string; normalizedAddress: string | null }>();
-  for (const p of dbProviders || []) {
-    const key = normalizeName(p.name);
-    const normalizedAddr = normalizeAddress(p.address);
-
-    // Store with combined key if address exists
-    if (normalizedAddr) {
-      providerIndex.set(`${key}|${normalizedAddr}`, {
-        id: p.id,
-        name: p.name,
-        address: p.address,
-        normalizedAddress: normalizedAddr
-      });
-    }
-    // Also store by name alone (for fallback matching)
-    if (!providerIndex.has(key)) {
-      providerIndex.set(key, {
-        id: p.id,
-        name: p.name,
-        address: p.address,
-        normalizedAddress: normalizedAddr
-      });
-    }
-  }
+  // Same matching as the sync (lib/entity-resolution.ts)
+  const providerIndex = new EntityIndex(dbProviders || []);
 
   // Step 4: Create specialties and link to providers
   console.log('\nStep 4: Creating specialties and linking to providers...');
@@ -140,18 +54,19 @@ async function main() {
   let linkedProviders = 0;
   let linkedSpecs = 0;
   let notFound = 0;
+  let held = 0;
 
   for (let i = 0; i < withSpecs.length; i++) {
     const provider = withSpecs[i];
-    const normalizedName = normalizeName(provider.name);
-    const normalizedAddr = normalizeAddress(provider.address);
+    const { status, match: result } = providerIndex.resolve(provider);
 
-    // Try to find by name + address first, then by name alone
-    let match = normalizedAddr ? providerIndex.get(`${normalizedName}|${normalizedAddr}`) : null;
-    if (!match) {
-      match = providerIndex.get(normalizedName);
+    if (status === 'review') {
+      // Undecided matches are only linked by npm run sync:upload
+      held++;
+      continue;
     }
 
+    const match = result?.record;
     if (!match) {
       notFound++;
       if (notFound <= 10) {
@@ -164,7 +79,10 @@ async function main() {
 
     // Link specialties
     for (const spec of provider.specialties) {
-      const normalizedSpec = normalizeSpecialtyName(spec);
+      // Strings outside lib/specialty-taxonomy.ts are not linked
+      const entry = mapSpecialty(spec);
+      if (!entry) continue;
+      const normalizedSpec = entry.name;
 
       let specId = specialtyCache.get(normalizedSpec);
       if (!specId) {
@@ -181,7 +99,7 @@ async function main() {
           // Create
           const { data: created, error } = await supabase
             .from('specialties')
-            .insert({ name: normalizedSpec, category: 'clinical' })
+            .insert({ name: entry.name, code: entry.code, category: entry.category })
             .select('id')
             .single();
 
@@ -210,7 +128,7 @@ async function main() {
   }
 
   console.log(`\n=== Complete ===`);
-  console.log(`Providers matched: ${linkedProviders} (${notFound} not found in DB)`);
+  console.log(`Providers matched: ${linkedProviders} (${notFound} not found in DB, ${held} held for review)`);
   console.log(`Specialty links created: ${linkedSpecs}`);
   console.log(`Unique specialties: ${specialtyCache.size}`);
 
@@ -6,9 +6,12 @@
  * 2. THEN: Enrich providers with details (address, phone, email) from provider detail files
  * 3. FINALLY: Sync fund allocations to their providers
  *
- * Matching logic:
- * - Primary: Match by email domain (handles company name changes like Ghencea Medical -> Anima)
- * - Secondary: Match by normalized name
+ * Matching logic (lib/entity-resolution.ts):
+ * - Scores CUI, business email domain, phone, address and name
+ *   (handles company name changes like Ghencea Medical -> Anima)
+ * - Matches close to the threshold are held back and written to
+ *   data/current/match_review.json; set their "decision" to "merge" or
+ *   "separate" and run again
  * - Brand names are preserved when legal names change
  *
  * Usage: npm run sync:upload
@@ -18,6 +21,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { createClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import { mapSpecialty } from '../lib/specialty-taxonomy';
+import {
+  EntityIndex,
+  ReviewEntry,
+  getAllEmailDomains,
+  normalizeAddress,
+  normalizeName,
+} from '../lib/entity-resolution';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
@@ -38,6 +49,7 @@ const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
 });
 
 const DATA_DIR = path.join(process.cwd(), 'data', 'current');
+const REVIEW_FILE = path.join(DATA_DIR, 'match_review.json');
 
 // Feature flag: set to true once data_source_date column is added to Supabase
 let HAS_DATA_SOURCE_DATE_COLUMN = false;
@@ -79,27 +91,6 @@ const ADDRESS_BRAND_MAPPINGS: Record<string, string> = {
   // Add more mappings as discovered
 };
 
-// Generic email domains that should NOT be used for matching
-const GENERIC_EMAIL_DOMAINS = new Set([
-  'gmail.com', 'yahoo.com', 'yahoo.ro', 'yahoo.co.uk',
-  'hotmail.com', 'hotmail.ro', 'outlook.com',
-  'mail.com', 'email.com', 'icloud.com',
-  'live.com', 'msn.com', 'aol.com',
-  'protonmail.com', 'zoho.com',
-  'yaho.com', 'gmai.com', // Common typos in data
-]);
-
-// Matching score thresholds
-const MATCH_THRESHOLD = 80;
-const SCORES = {
-  CUI_MATCH: 1000,           // Definitive match
-  BUSINESS_EMAIL: 100,       // Custom email domain match
-  PHONE_MATCH: 50,           // Same phone number
-  ADDRESS_MATCH: 50,         // Same normalized address
-  NAME_HIGH_SIMILARITY: 30,  // Name >80% similar
-  NAME_EXACT: 50,            // Exact normalized name
-};
-
 interface ParsedProvider {
   cui?: string;
   name: string;
@@ -121,205 +112,7 @@ interface ParsedProvider {
   _dbProviderId?: string;
 }
 
-/**
- * Get București county ID
- */
-async function getBucurestiCountyId(): Promise<string | null> {
-  const { data } = await supabase
-    .from('counties')
-    .select('id')
-    .eq('code', 'B')
-    .single();
-
-  return data?.id || null;
-}
-
-/**
- * Normalize provider name for matching
- */
-function normalizeName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/\s+/g, ' ')
-    .replace(/[.,;:'"()]/g, '')
-    .replace(/\bs\.?c\.?\s*/gi, '')  // Remove SC prefix
-    .replace(/\bs\.?r\.?l\.?\b/gi, 'srl')
-    .replace(/\bs\.?a\.?\b/gi, 'sa')
-    .trim();
-}
-
-/**
- * Extract email domain (handles multiple emails separated by spaces/commas)
- */
-function getEmailDomain(email: string | undefined): string | null {
-  if (!email) return null;
-  // Get the first email if multiple are present
-  const firstEmail = email.split(/[\s,;]+/)[0];
-  const match = firstEmail.toLowerCase().match(/@([a-z0-9.-]+)/);
-  return match ? match[1] : null;
-}
-
-/**
- * Extract all email domains from a possibly multi-email string
- */
-function getAllEmailDomains(email: string | undefined): string[] {
-  if (!email) return [];
-  const domains: string[] = [];
-  const emailParts = email.split(/[\s,;]+/);
-  for (const part of emailParts) {
-    const match = part.toLowerCase().match(/@([a-z0-9.-]+)/);
-    if (match && !domains.includes(match[1])) {
-      domains.push(match[1]);
-    }
-  }
-  return domains;
-}
-
-/**
- * Get business email domain (returns null for generic domains)
- */
-function getBusinessEmailDomain(email: string | undefined): string | null {
-  const domains = getAllEmailDomains(email);
-  for (const domain of domains) {
-    if (!GENERIC_EMAIL_DOMAINS.has(domain)) {
-      return domain;
-    }
-  }
-  return null;
-}
-
-/**
- * Normalize phone number for comparison
- */
-function normalizePhone(phone: string | undefined): string | null {
-  if (!phone) return null;
-  // Remove everything except digits
-  const digits = phone.replace(/\D/g, '');
-  if (digits.length < 6) return null;
-  // Remove country code prefix if present
-  if (digits.startsWith('40') && digits.length > 10) {
-    return digits.substring(2);
-  }
-  if (digits.startsWith('0040')) {
-    return digits.substring(4);
-  }
-  return digits;
-}
-
-/**
- * Normalize address for comparison
- */
-function normalizeAddress(address: string | undefined): string | null {
-  if (!address) return null;
-
-  let normalized = address.toLowerCase()
-    // Standardize street type abbreviations
-    .replace(/\bbulevardul\b/g, 'bd')
-    .replace(/\bb-dul\b/g, 'bd')
-    .replace(/\bbdul\b/g, 'bd')
-    .replace(/\bbd\.\b/g, 'bd')
-    .replace(/\bstrada\b/g, 'str')
-    .replace(/\bstr\.\b/g, 'str')
-    .replace(/\bcalea\b/g, 'cal')
-    .replace(/\bsoseaua\b/g, 'sos')
-    .replace(/\bsos\.\b/g, 'sos')
-    .replace(/\bprelungirea\b/g, 'prel')
-    .replace(/\baleea\b/g, 'al')
-    .replace(/\bpiata\b/g, 'pta')
-    // Standardize number indicators
-    .replace(/\bnumar\b/g, 'nr')
-    .replace(/\bnumăr\b/g, 'nr')
-    .replace(/\bnr\.\b/g, 'nr')
-    .replace(/\bnum[aă]rul\b/g, 'nr')
-    // Standardize sector
-    .replace(/\bsectorul\b/g, 'sect')
-    .replace(/\bsector\b/g, 'sect')
-    .replace(/\bsect\.\b/g, 'sect')
-    // Remove common filler words
-    .replace(/\bloc\.\b/g, '')
-    .replace(/\blocalitatea\b/g, '')
-    .replace(/\bjude[tț]ul?\b/g, '')
-    .replace(/\bbucure[sș]ti\b/g, '')
-    // Remove punctuation and extra spaces
-    .replace(/[.,;:'"()]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
-
-  // Extract key components: street name, number, sector
-  const sectorMatch = normalized.match(/sect\s*(\d)/);
-  const sector = sectorMatch ? sectorMatch[1] : '';
-
-  // Try to extract street number
-  const numberMatch = normalized.match(/nr\s*(\d+[a-z]?)/i);
-  const streetNumber = numberMatch ? numberMatch[1] : '';
-
-  // Get first meaningful word (usually street name)
-  const words = normalized.split(' ').filter(w => w.length > 2 && !['str', 'bd', 'cal', 'sos', 'nr', 'sect', 'prel', 'al'].includes(w));
-  const streetName = words[0] || '';
-
-  if (!streetName) return null;
-
-  // Return normalized key: streetname-number-sector
-  return `${streetName}-${streetNumber}-${sector}`.replace(/--+/g, '-').replace(/-$/, '');
-}
-
-/**
- * Calculate name similarity (0-100)
- */
-function calculateNameSimilarity(name1: string, name2: string): number {
-  const n1 = normalizeName(name1);
-  const n2 = normalizeName(name2);
-
-  if (n1 === n2) return 100;
-
-  // Check if one contains the other
-  if (n1.includes(n2) || n2.includes(n1)) {
-    const shorter = n1.length < n2.length ? n1 : n2;
-    const longer = n1.length >= n2.length ? n1 : n2;
-    return Math.round((shorter.length / longer.length) * 100);
-  }
-
-  // Levenshtein-based similarity
-  const maxLen = Math.max(n1.length, n2.length);
-  if (maxLen === 0) return 100;
-
-  const distance = levenshteinDistance(n1, n2);
-  return Math.round((1 - distance / maxLen) * 100);
-}
-
-/**
- * Levenshtein distance between two strings
- */
-function levenshteinDistance(s1: string, s2: string): number {
-  const m = s1.length;
-  const n = s2.length;
-
-  if (m === 0) return n;
-  if (n === 0) return m;
-
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-
-  for (let i = 0; i <= m; i++) dp[i][0] = i;
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
-
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      const cost = s1[i - 1] === s2[j - 1] ? 0 : 1;
-      dp[i][j] = Math.min(
-        dp[i - 1][j] + 1,
-        dp[i][j - 1] + 1,
-        dp[i - 1][j - 1] + cost
-      );
-    }
-  }
-
-  return dp[m][n];
-}
-
-/**
- * Provider matching data structure
- */
-interface ProviderMatchData {
+interface ProviderRecord {
   id: string;
   name: string;
   brandName?: string;
@@ -327,115 +120,19 @@ interface ProviderMatchData {
   email?: string;
   phone?: string;
   address?: string;
-  // Normalized values for matching
-  normalizedName: string;
-  businessEmailDomain: string | null;
-  normalizedPhone: string | null;
-  normalizedAddress: string | null;
-}
-
-/**
- * Calculate match score between two providers
- */
-function calculateMatchScore(
-  provider1: ProviderMatchData,
-  provider2: { name: string; cui?: string; email?: string; phone?: string; address?: string }
-): { score: number; reasons: string[] } {
-  let score = 0;
-  const reasons: string[] = [];
-
-  // CUI match - definitive
-  if (provider1.cui && provider2.cui && provider1.cui === provider2.cui) {
-    return { score: SCORES.CUI_MATCH, reasons: ['CUI match'] };
-  }
-
-  // Business email domain match
-  const p2BusinessEmail = getBusinessEmailDomain(provider2.email);
-  const emailsMatch = provider1.businessEmailDomain && p2BusinessEmail &&
-      provider1.businessEmailDomain === p2BusinessEmail;
-
-  // IMPORTANT: Email match alone should NOT merge different locations
-  // Only add email score if addresses also match OR if one doesn't have an address
-  const p2Address = normalizeAddress(provider2.address);
-  const bothHaveAddresses = provider1.normalizedAddress && p2Address;
-  const addressesMatchForEmail = !bothHaveAddresses || provider1.normalizedAddress === p2Address;
-
-  if (emailsMatch && addressesMatchForEmail) {
-    score += SCORES.BUSINESS_EMAIL;
-    reasons.push(`email domain: ${p2BusinessEmail}`);
-  } else if (emailsMatch && bothHaveAddresses) {
-    // Same email but different addresses = different locations of same company
-    // Don't add score, but note it for debugging
-    reasons.push(`email match ignored (different addresses)`);
-  }
-
-  // Phone match
-  const p2Phone = normalizePhone(provider2.phone);
-  const phonesMatch = provider1.normalizedPhone && p2Phone &&
-      provider1.normalizedPhone === p2Phone;
-
-  if (phonesMatch) {
-    score += SCORES.PHONE_MATCH;
-    reasons.push(`phone: ${p2Phone}`);
-  }
-
-  // Address match (p2Address already computed above for email check)
-  const addressesMatch = provider1.normalizedAddress && p2Address &&
-      provider1.normalizedAddress === p2Address;
-
-  if (addressesMatch) {
-    score += SCORES.ADDRESS_MATCH;
-    reasons.push(`address: ${p2Address}`);
-  }
-
-  // Name similarity
-  const p2NormalizedName = normalizeName(provider2.name);
-  const namesMatchExact = provider1.normalizedName === p2NormalizedName;
-  const nameSimilarity = calculateNameSimilarity(provider1.name, provider2.name);
-
-  if (namesMatchExact) {
-    // IMPORTANT: If names match exactly but BOTH providers have different business emails
-    // OR different addresses, they are likely DIFFERENT locations of the same company
-    const bothHaveEmails = provider1.businessEmailDomain && p2BusinessEmail;
-    const bothHaveAddresses = provider1.normalizedAddress && p2Address;
-
-    if (bothHaveEmails && !emailsMatch) {
-      // Same name, but clearly different business emails = different company/location
-      // Don't add name score - this prevents false matches
-      reasons.push('name match ignored (different emails)');
-    } else if (bothHaveAddresses && !addressesMatch && !emailsMatch && !phonesMatch) {
-      // Same name, different address, no other matches = likely different location
-      reasons.push('name match ignored (different address, no other matches)');
-    } else {
-      score += SCORES.NAME_EXACT;
-      reasons.push('exact name');
-    }
-  } else if (nameSimilarity >= 80) {
-    score += SCORES.NAME_HIGH_SIMILARITY;
-    reasons.push(`name ${nameSimilarity}% similar`);
-  }
-
-  return { score, reasons };
 }
 
 /**
- * Find best matching provider from existing providers
+ * Get București county ID
  */
-function findBestMatch(
-  existingProviders: ProviderMatchData[],
-  newProvider: { name: string; cui?: string; email?: string; phone?: string; address?: string }
-): { provider: ProviderMatchData; score: number; reasons: string[] } | null {
-  let bestMatch: { provider: ProviderMatchData; score: number; reasons: string[] } | null = null;
-
-  for (const existing of existingProviders) {
-    const { score, reasons } = calculateMatchScore(existing, newProvider);
-
-    if (score >= MATCH_THRESHOLD && (!bestMatch || score > bestMatch.score)) {
-      bestMatch = { provider: existing, score, reasons };
-    }
-  }
+async function getBucurestiCountyId(): Promise<string | null> {
+  const { data } = await supabase
+    .from('counties')
+    .select('id')
+    .eq('code', 'B')
+    .single();
 
-  return bestMatch;
+  return data?.id || null;
 }
 
 /**
@@ -474,78 +171,23 @@ function getBrandName(legalName: string, email?: string, address?: string): stri
 }
 
 /**
- * Check if two names match (fuzzy)
+ * Get or create the taxonomy specialty for a raw name (null when unmapped)
  */
-function namesMatch(name1: string, name2: string): boolean {
-  const n1 = normalizeName(name1);
-  const n2 = normalizeName(name2);
-
-  // Exact match
-  if (n1 === n2) return true;
-
-  // One contains the other
-  if (n1.includes(n2) || n2.includes(n1)) return true;
-
-  // First word match (company name usually)
-  const words1 = n1.split(' ');
-  const words2 = n2.split(' ');
-  if (words1[0] === words2[0] && words1[0].length > 3) return true;
-
-  return false;
-}
-
-/**
- * Normalize specialty names to fix common variations and typos
- */
-const SPECIALTY_NORMALIZATIONS: Record<string, string> = {
-  // ORL variations
-  'orl': 'otorinolaringologie',
-  'otorinolanrigologie': 'otorinolaringologie',  // typo
-  'oto-rino-laringologie': 'otorinolaringologie',
-  // Dermatology variations
-  'dermato-venerologie': 'dermatovenerologie',
-  'dermato venerologie': 'dermatovenerologie',
-  // Diabetes variations
-  'diabet zaharat, nutritie si boli metabolice': 'diabet zaharat',
-  'nutritie si boli metabolice': 'nutritie',
-  // Obstetrics variations
-  'obstetrica - ginecologie': 'obstetrica-ginecologie',
-  'obstetrică-ginecologie': 'obstetrica-ginecologie',
-  'ginecologie': 'obstetrica-ginecologie',
-  // Internal medicine variations
-  'medicina internă': 'medicina interna',
-  // Surgery variations
-  'chirurgie generalã': 'chirurgie generala',
-  // Other common normalizations
-  'alergologie si imunologie clinica': 'alergologie',
-  'alergologie şi imunologie clinică': 'alergologie',
-  'nefrologie': 'nefrologie',
-  'pneumologie': 'pneumologie',
-  'reumatologie': 'reumatologie',
-};
-
-function normalizeSpecialtyName(name: string): string {
-  const trimmed = name.trim().toLowerCase();
-  return SPECIALTY_NORMALIZATIONS[trimmed] || trimmed;
-}
-
-/**
- * Get or create specialty
- */
-async function getOrCreateSpecialty(name: string): Promise<string> {
-  const normalizedName = normalizeSpecialtyName(name);
+async function getOrCreateSpecialty(name: string): Promise<string | null> {
+  const entry = mapSpecialty(name);
+  if (!entry) return null;
 
   const { data: existing } = await supabase
     .from('specialties')
     .select('id')
-    .ilike('name', normalizedName)
+    .ilike('name', entry.name)
     .single();
 
   if (existing) return existing.id;
 
   const { data: created, error } = await supabase
     .from('specialties')
-    .insert({ name: normalizedName, category: 'paraclinical' })
+    .insert({ name: entry.name, code: entry.code, category: entry.category })
     .select('id')
     .single();
 
@@ -598,28 +240,28 @@ async function syncToDatabase(): Promise<void> {
     .from('providers')
     .select('id, name, brand_name, cui, email, phone, address');
 
-  const existingProviderIndex: ProviderMatchData[] = [];
-
-  if (existingDbProviders) {
-    for (const p of existingDbProviders) {
-      existingProviderIndex.push({
-        id: p.id,
-        name: p.name,
-        brandName: p.brand_name,
-        cui: p.cui,
-        email: p.email,
-        phone: p.phone,
-        address: p.address,
-        normalizedName: normalizeName(p.name),
-        businessEmailDomain: getBusinessEmailDomain(p.email),
-        normalizedPhone: normalizePhone(p.phone),
-        normalizedAddress: normalizeAddress(p.address),
-      });
-    }
-    console.log(`Loaded ${existingProviderIndex.length} existing providers for matching`);
-    console.log(`  - With business email: ${existingProviderIndex.filter(p => p.businessEmailDomain).length}`);
-    console.log(`  - With phone: ${existingProviderIndex.filter(p => p.normalizedPhone).length}`);
-    console.log(`  - With address: ${existingProviderIndex.filter(p => p.normalizedAddress).length}`);
+  // Decisions taken on the previous run's review file
+  const previousReview: ReviewEntry[] = fs.existsSync(REVIEW_FILE)
+    ? JSON.parse(fs.readFileSync(REVIEW_FILE, 'utf-8'))
+    : [];
+  const decided = previousReview.filter(entry => entry.decision !== 'pending');
+
+  const existingProviderIndex = new EntityIndex<ProviderRecord>(
+    (existingDbProviders || []).map(p => ({
+      id: p.id,
+      name: p.name,
+      brandName: p.brand_name,
+      cui: p.cui,
+      email: p.email,
+      phone: p.phone,
+      address: p.address,
+    })),
+    { decisions: decided }
+  );
+
+  console.log(`Loaded ${existingProviderIndex.size} existing providers for matching`);
+  if (decided.length > 0) {
+    console.log(`  - Review decisions applied: ${decided.length}`);
   }
 
   // === STEP 1: Create providers from PRIMARY provider details file ===
@@ -630,6 +272,7 @@ async function syncToDatabase(): Promise<void> {
   const providerIdMap = new Map<string, string>();
   let created = 0;
   let updated = 0;
+  let held = 0;
   let errors = 0;
 
   for (const detailRecord of providerDetails) {
@@ -646,7 +289,7 @@ async function syncToDatabase(): Promise<void> {
       const contractNumber = detailRecord.contractNumber;
 
       // Try to find matching existing provider using scoring system
-      const match = findBestMatch(existingProviderIndex, {
+      const { status, match } = existingProviderIndex.resolve({
         name: providerName,
         cui,
         email,
@@ -654,11 +297,18 @@ async function syncToDatabase(): Promise<void> {
         address
       });
 
+      if (status === 'review') {
+        // Left untouched until the match is decided in the review file
+        held++;
+        console.log(`  Held for review "${providerName}" (score: ${match!.score}) - ${match!.reasons.join(', ')}`);
+        continue;
+      }
+
       let providerId: string;
       const brandName = getBrandName(providerName, email, address);
 
       if (match) {
-        providerId = match.provider.id;
+        providerId = match.record.id;
         console.log(`  Matched "${providerName}" (score: ${match.score}) - ${match.reasons.join(', ')}`);
 
         // Update legal name if different, but preserve brand name
@@ -668,12 +318,12 @@ async function syncToDatabase(): Promise<void> {
         };
 
         // Update contact info if we have better data
-        if (email && !match.provider.email) updateData.email = email;
-        if (phone && !match.provider.phone) updateData.phone = phone;
-        if (address && !match.provider.address) updateData.address = address;
+        if (email && !match.record.email) updateData.email = email;
+        if (phone && !match.record.phone) updateData.phone = phone;
+        if (address && !match.record.address) updateData.address = address;
 
         // Set brand name if we have one and it's not already set
-        if (brandName && !match.provider.brandName) {
+        if (brandName && !match.record.brandName) {
           updateData.brand_name = brandName;
         }
 
@@ -683,23 +333,14 @@ async function syncToDatabase(): Promise<void> {
           .eq('id', providerId);
 
         // Update the index entry
-        const indexEntry = existingProviderIndex.find(p => p.id === providerId);
-        if (indexEntry) {
-          indexEntry.name = providerName;
-          indexEntry.normalizedName = normalizeName(providerName);
-          if (email) {
-            indexEntry.email = email;
-            indexEntry.businessEmailDomain = getBusinessEmailDomain(email);
-          }
-          if (phone) {
-            indexEntry.phone = phone;
-            indexEntry.normalizedPhone = normalizePhone(phone);
-          }
-          if (address) {
-            indexEntry.address = address;
-            indexEntry.normalizedAddress = normalizeAddress(address);
-          }
-        }
+        existingProviderIndex.add({
+          ...match.record,
+          name: providerName,
+          brandName: match.record.brandName || brandName || undefined,
+          email: email || match.record.email,
+          phone: phone || match.record.phone,
+          address: address || match.record.address,
+        });
 
         updated++;
       } else {
@@ -731,7 +372,7 @@ async function syncToDatabase(): Promise<void> {
         providerId = newProvider.id;
 
         // Add to index for future matching
-        existingProviderIndex.push({
+        existingProviderIndex.add({
           id: providerId,
           name: providerName,
           brandName: brandName || undefined,
@@ -739,10 +380,6 @@ async function syncToDatabase(): Promise<void> {
           email,
           phone,
           address,
-          normalizedName: normalizeName(providerName),
-          businessEmailDomain: getBusinessEmailDomain(email),
-          normalizedPhone: normalizePhone(phone),
-          normalizedAddress: normalizeAddress(address),
         });
 
         created++;
@@ -764,7 +401,14 @@ async function syncToDatabase(): Promise<void> {
     }
   }
 
-  console.log(`Providers: ${created} created, ${updated} existing, ${errors} errors`);
+  console.log(`Providers: ${created} created, ${updated} existing, ${held} held for review, ${errors} errors`);
+
+  // Decided entries are kept so the decisions survive the next run
+  const review = [...decided, ...existingProviderIndex.reviewEntries];
+  fs.writeFileSync(REVIEW_FILE, JSON.stringify(review, null, 2));
+  if (existingProviderIndex.reviewEntries.length > 0) {
+    console.log(`Matches to review written to ${REVIEW_FILE}`);
+  }
 
   // === STEP 2: Link specialties ===
   console.log('\n--- Step 2: Linking specialties ---');
@@ -790,6 +434,7 @@ async function syncToDatabase(): Promise<void> {
         for (const specialty of detail.specialties) {
           try {
             const specialtyId = await getOrCreateSpecialty(specialty);
+            if (!specialtyId) continue;
             await supabase
               .from('provider_specialties')
               .upsert({
@@ -5,6 +5,10 @@
  * for each provider. Stores patterns in the database for use by the
  * FundAvailabilityPredictor.
  *
+ * Depletion curves are fitted from intra-month consumption snapshots.
+ * Providers with too few snapshots get a curve pooled over their service
+ * type and county (then service type nationwide, then linear).
+ *
  * Usage: npm run ml:train
  */
 
@@ -12,6 +16,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { createClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import {
+  DepletionCurve,
+  DepletionObservation,
+  curveValueAt,
+  depletionDay,
+  fitDepletionCurve,
+  linearDepletionCurve,
+} from '../lib/depletion-curve';
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
@@ -34,12 +46,24 @@ const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
 const DATA_DIR = path.join(process.cwd(), 'data', 'historical');
 const INPUT_FILE = path.join(DATA_DIR, 'parsed_historical_funds.json');
 
+// Snapshots needed before a provider gets its own curve
+const MIN_PROVIDER_SNAPSHOTS = 6;
+const MIN_PROVIDER_SNAPSHOT_DAYS = 3;
+// Snapshots needed before a pooled curve is trusted
+const MIN_POOL_SNAPSHOTS = 20;
+// Early depletion: more than this share consumed by this day
+const EARLY_DEPLETION_RATE = 0.9;
+const EARLY_DEPLETION_DAY = 20;
+
+type CurveSource = 'provider' | 'service_county' | 'service_type' | 'linear';
+
 interface HistoricalFundRecord {
   providerCui?: string;
   providerName: string;
   year: number;
   month: number;
-  dayOfMonth?: number;
+  dayOfMonth?: number; // Intra-month snapshot day; absent for month totals
+  county?: string;
   allocatedAmount: number;
   consumedAmount?: number;
   consumptionRate?: number;
@@ -54,7 +78,9 @@ interface ProviderPattern {
   avgConsumptionRate: number;
   stddevConsumptionRate: number;
   monthlyPattern: Record<number, number>;
-  depletionCurve: Record<number, number>;
+  depletionCurve: DepletionCurve;
+  depletionCurveSource: CurveSource;
+  depletionObservations: number;
   earlyDepletionFrequency: number;
   typicalDepletionDay: number;
   dataPointsCount: number;
@@ -92,24 +118,136 @@ function groupBy<T>(arr: T[], keyFn: (item: T) => string): Record<string, T[]> {
   }, {} as Record<string, T[]>);
 }
 
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month, 0).getDate();
+}
+
+function hasValidRate(r: HistoricalFundRecord): boolean {
+  return r.consumptionRate !== undefined &&
+    r.consumptionRate >= 0 &&
+    r.consumptionRate <= 2;  // Allow some overspend
+}
+
+/**
+ * Consumption observations for curve fitting. Month totals count as the
+ * last day of their month.
+ */
+function toObservations(records: HistoricalFundRecord[]): DepletionObservation[] {
+  return records.filter(hasValidRate).map(r => {
+    const days = daysInMonth(r.year, r.month);
+    return { day: r.dayOfMonth ?? days, daysInMonth: days, rate: r.consumptionRate! };
+  });
+}
+
+function countSnapshots(records: HistoricalFundRecord[]): { snapshots: number; days: number } {
+  const snapshots = records.filter(r => r.dayOfMonth !== undefined && hasValidRate(r));
+  return { snapshots: snapshots.length, days: new Set(snapshots.map(r => r.dayOfMonth)).size };
+}
+
+/**
+ * Share of months in which funds were (nearly) exhausted by day 20.
+ * Months with a snapshot by then are read directly; months with only a
+ * total are projected through the curve's shape.
+ */
+function calculateEarlyDepletionFrequency(
+  records: HistoricalFundRecord[],
+  curve: DepletionCurve
+): number {
+  const byMonth = groupBy(records.filter(hasValidRate), r => `${r.year}-${r.month}`);
+  const shapeAtDay = curveValueAt(curve, EARLY_DEPLETION_DAY, 30) / Math.max(curveValueAt(curve, 30, 30), 0.01);
+
+  let months = 0;
+  let early = 0;
+
+  for (const monthRecords of Object.values(byMonth)) {
+    const { year, month } = monthRecords[0];
+    const days = daysInMonth(year, month);
+    const earlySnapshots = monthRecords.filter(r =>
+      r.dayOfMonth !== undefined && (r.dayOfMonth / days) * 30 <= EARLY_DEPLETION_DAY
+    );
+    const total = monthRecords.find(r => r.dayOfMonth === undefined);
+
+    if (earlySnapshots.length > 0) {
+      months++;
+      if (earlySnapshots.some(r => r.consumptionRate! > EARLY_DEPLETION_RATE)) early++;
+    } else if (total) {
+      months++;
+      if (total.consumptionRate! * shapeAtDay > EARLY_DEPLETION_RATE) early++;
+    }
+  }
+
+  return months > 0 ? early / months : 0;
+}
+
+interface PooledCurve {
+  serviceType: string;
+  countyCode: string; // '*' for the service type nationwide
+  depletionCurve: DepletionCurve;
+  earlyDepletionFrequency: number;
+  typicalDepletionDay: number;
+  providersCount: number;
+  observationsCount: number;
+}
+
+/**
+ * Fit one curve per service type + county and per service type, from all
+ * providers' snapshots. Pools without enough snapshots are left out.
+ */
+function buildPooledCurves(records: HistoricalFundRecord[]): Map<string, PooledCurve> {
+  const pools = new Map<string, PooledCurve>();
+  const groups: [string, string, HistoricalFundRecord[]][] = [];
+
+  for (const [key, group] of Object.entries(groupBy(records, r => `${r.serviceType}|${r.county || 'B'}`))) {
+    const [serviceType, countyCode] = key.split('|');
+    groups.push([serviceType, countyCode, group]);
+  }
+  for (const [serviceType, group] of Object.entries(groupBy(records, r => r.serviceType))) {
+    groups.push([serviceType, '*', group]);
+  }
+
+  for (const [serviceType, countyCode, group] of groups) {
+    if (countSnapshots(group).snapshots < MIN_POOL_SNAPSHOTS) continue;
+
+    const curve = fitDepletionCurve(toObservations(group));
+    if (!curve) continue;
+
+    pools.set(`${serviceType}|${countyCode}`, {
+      serviceType,
+      countyCode,
+      depletionCurve: curve,
+      earlyDepletionFrequency: calculateEarlyDepletionFrequency(group, curve),
+      typicalDepletionDay: Math.min(30, depletionDay(curve, EARLY_DEPLETION_RATE)),
+      providersCount: new Set(group.map(r => r.providerCui || r.providerName)).size,
+      observationsCount: countSnapshots(group).snapshots,
+    });
+  }
+
+  return pools;
+}
+
+function mostCommon(values: string[]): string {
+  const counts = groupBy(values, v => v);
+  return Object.keys(counts).sort((a, b) => counts[b].length - counts[a].length)[0];
+}
+
 /**
  * Build consumption patterns for a provider
  */
 function buildProviderPattern(
   cui: string,
-  records: HistoricalFundRecord[]
+  records: HistoricalFundRecord[],
+  pools: Map<string, PooledCurve>
 ): ProviderPattern | null {
+  // Monthly statistics use month totals; snapshots only shape the curve
+  const monthTotals = records.filter(r => r.dayOfMonth === undefined);
+
   // Need at least 6 months of data
-  if (records.length < 6) {
+  if (monthTotals.length < 6) {
     return null;
   }
 
   // Filter records with valid consumption rate
-  const validRecords = records.filter(r =>
-    r.consumptionRate !== undefined &&
-    r.consumptionRate >= 0 &&
-    r.consumptionRate <= 2  // Allow some overspend
-  );
+  const validRecords = monthTotals.filter(hasValidRate);
 
   if (validRecords.length < 6) {
     return null;
@@ -134,27 +272,37 @@ function buildProviderPattern(
     }
   }
 
-  // Build depletion curve (linear approximation based on average rate)
-  // This represents cumulative consumption by day of month
-  const depletionCurve: Record<number, number> = {};
-  const dailyRate = avgRate / 30;  // Approximate daily consumption
+  // Build cumulative depletion curve by day of month: the provider's own
+  // snapshots when there are enough, else the pooled curve for its
+  // service type (in its county first)
+  const { snapshots, days } = countSnapshots(records);
+  const serviceType = mostCommon(records.map(r => r.serviceType));
+  const county = mostCommon(records.map(r => r.county || 'B'));
 
-  for (let d = 1; d <= 31; d++) {
-    depletionCurve[d] = Math.min(1, dailyRate * d);
+  let depletionCurve: DepletionCurve | null = null;
+  let depletionCurveSource: CurveSource = 'linear';
+
+  if (snapshots >= MIN_PROVIDER_SNAPSHOTS && days >= MIN_PROVIDER_SNAPSHOT_DAYS) {
+    depletionCurve = fitDepletionCurve(toObservations(records));
+    depletionCurveSource = 'provider';
+  }
+  if (!depletionCurve) {
+    const pool = pools.get(`${serviceType}|${county}`) || pools.get(`${serviceType}|*`);
+    if (pool) {
+      depletionCurve = pool.depletionCurve;
+      depletionCurveSource = pool.countyCode === '*' ? 'service_type' : 'service_county';
+    }
+  }
+  if (!depletionCurve) {
+    depletionCurve = linearDepletionCurve(avgRate);
+    depletionCurveSource = 'linear';
   }
 
-  // Calculate early depletion frequency
-  // (How often do they use >90% of funds before day 20)
-  const earlyDepletions = validRecords.filter(r =>
-    r.consumptionRate! > 0.9
-  ).length;
-  const earlyDepletionFreq = earlyDepletions / validRecords.length;
+  // How often they use >90% of funds by day 20
+  const earlyDepletionFreq = calculateEarlyDepletionFrequency(records, depletionCurve);
 
-  // Estimate typical depletion day
-  // (At average rate, when would 90% be consumed?)
-  const typicalDepletionDay = avgRate > 0
-    ? Math.round(30 * (0.9 / avgRate))
-    : 30;
+  // Day the curve reaches 90% consumed
+  const typicalDepletionDay = depletionDay(depletionCurve, EARLY_DEPLETION_RATE);
 
   // Get date range
   const sortedRecords = [...validRecords].sort((a, b) => {
@@ -171,6 +319,8 @@ function buildProviderPattern(
     stddevConsumptionRate: stddevRate,
     monthlyPattern,
     depletionCurve,
+    depletionCurveSource,
+    depletionObservations: depletionCurveSource === 'provider' ? snapshots : 0,
     earlyDepletionFrequency: earlyDepletionFreq,
     typicalDepletionDay: Math.min(30, Math.max(1, typicalDepletionDay)),
     dataPointsCount: validRecords.length,
@@ -196,6 +346,7 @@ async function uploadHistoricalData(records: HistoricalFundRecord[]): Promise<vo
 
     const data = batch.map(r => ({
       provider_cui: r.providerCui || null,
+      county_code: r.county || null,
       year: r.year,
       month: r.month,
       day_of_month: r.dayOfMonth || null,
@@ -211,7 +362,7 @@ async function uploadHistoricalData(records: HistoricalFundRecord[]): Promise<vo
     const { error } = await supabase
       .from('historical_fund_data')
       .upsert(data, {
-        onConflict: 'provider_cui,year,month,service_type'
+        onConflict: 'provider_cui,year,month,day_of_month,service_type'
       });
 
     if (error) {
@@ -239,20 +390,22 @@ async function uploadProviderPatterns(patterns: ProviderPattern[]): Promise<void
   let errors = 0;
 
   for (const pattern of patterns) {
-    // Find provider by CUI to get their ID
-    const { data: provider } = await supabase
-      .from('providers')
+    // Find organization by CUI to get their ID
+    const { data: organization } = await supabase
+      .from('organizations')
       .select('id')
       .eq('cui', pattern.providerCui)
       .single();
 
     const data = {
-      provider_id: provider?.id || null,
+      organization_id: organization?.id || null,
       provider_cui: pattern.providerCui,
       avg_consumption_rate: pattern.avgConsumptionRate,
       stddev_consumption_rate: pattern.stddevConsumptionRate,
       monthly_pattern: pattern.monthlyPattern,
       depletion_curve: pattern.depletionCurve,
+      depletion_curve_source: pattern.depletionCurveSource,
+      depletion_observations: pattern.depletionObservations,
       early_depletion_frequency: pattern.earlyDepletionFrequency,
       typical_depletion_day: pattern.typicalDepletionDay,
       data_points_count: pattern.dataPointsCount,
@@ -278,6 +431,34 @@ async function uploadProviderPatterns(patterns: ProviderPattern[]): Promise<void
   console.log(`Patterns uploaded: ${uploaded} (${errors} errors)`);
 }
 
+/**
+ * Upload pooled depletion curves to database
+ */
+async function uploadPooledCurves(pools: PooledCurve[]): Promise<void> {
+  console.log('\n--- Uploading Pooled Curves ---');
+
+  const { error } = await supabase
+    .from('depletion_curves')
+    .upsert(pools.map(pool => ({
+      service_type: pool.serviceType,
+      county_code: pool.countyCode,
+      depletion_curve: pool.depletionCurve,
+      early_depletion_frequency: pool.earlyDepletionFrequency,
+      typical_depletion_day: pool.typicalDepletionDay,
+      providers_count: pool.providersCount,
+      observations_count: pool.observationsCount,
+      model_updated_at: new Date().toISOString()
+    })), {
+      onConflict: 'service_type,county_code'
+    });
+
+  if (error) {
+    console.error('Error uploading pooled curves:', error.message);
+  } else {
+    console.log(`Pooled curves uploaded: ${pools.length}`);
+  }
+}
+
 /**
  * Main training function
  */
@@ -300,6 +481,14 @@ async function trainPredictionModel(): Promise<void> {
   // Upload historical data to database
   await uploadHistoricalData(records);
 
+  // Fit pooled curves used as fallbacks
+  const pools = buildPooledCurves(records);
+  console.log(`\n--- Pooled Depletion Curves ---`);
+  for (const pool of Array.from(pools.values())) {
+    console.log(`  ${pool.serviceType} / ${pool.countyCode}: ${pool.observationsCount} snapshots, 90% by day ${pool.typicalDepletionDay}`);
+  }
+  await uploadPooledCurves(Array.from(pools.values()));
+
   // Group by provider (using CUI or name)
   const byProvider = groupBy(records, r => r.providerCui || r.providerName);
 
@@ -311,7 +500,7 @@ async function trainPredictionModel(): Promise<void> {
   let skipped = 0;
 
   for (const [cui, providerRecords] of Object.entries(byProvider)) {
-    const pattern = buildProviderPattern(cui, providerRecords);
+    const pattern = buildProviderPattern(cui, providerRecords, pools);
 
     if (pattern) {
       patterns.push(pattern);
@@ -323,6 +512,12 @@ async function trainPredictionModel(): Promise<void> {
   console.log(`Patterns built: ${patterns.length}`);
   console.log(`Skipped (insufficient data): ${skipped}`);
 
+  const bySource = groupBy(patterns, p => p.depletionCurveSource);
+  console.log(`Depletion curves by source:`);
+  for (const [source, sourcePatterns] of Object.entries(bySource)) {
+    console.log(`  ${source}: ${sourcePatterns.length}`);
+  }
+
   // Upload patterns to database
   await uploadProviderPatterns(patterns);
 
@@ -0,0 +1,28 @@
+-- AI verification results, cached per location
+-- Replaces the v1 provider_verifications table dropped by the v2 schema
+
+CREATE TABLE IF NOT EXISTS location_verifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    location_id UUID REFERENCES locations(id) ON DELETE CASCADE,
+
+    brand_name VARCHAR(255),
+    verified_address TEXT,
+    verified_phone VARCHAR(100),
+    verified_website VARCHAR(255),
+    opening_hours TEXT,
+
+    confidence INT,
+    summary TEXT,
+    warnings JSONB,
+    corrections JSONB,
+
+    verified_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_location_verifications_location
+    ON location_verifications(location_id, verified_at DESC);
+
+ALTER TABLE location_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read" ON location_verifications FOR SELECT USING (true);
+CREATE POLICY "Public insert verifications" ON location_verifications FOR INSERT WITH CHECK (true);
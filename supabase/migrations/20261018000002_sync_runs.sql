@@ -0,0 +1,21 @@
+-- Data sync runs started from /api/sync/trigger
+-- Each run records its stages (download, parse, geocode, upload) as JSONB:
+-- [{ name, status, started_at, finished_at, duration_ms, error, stats }]
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    status VARCHAR(20) NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    trigger VARCHAR(50) NOT NULL DEFAULT 'api',
+    stages JSONB NOT NULL DEFAULT '[]',
+    error TEXT,
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_status ON sync_runs(status, created_at DESC);
+
+-- Only the service role (used by the sync endpoints) reads or writes runs
+ALTER TABLE sync_runs ENABLE ROW LEVEL SECURITY;
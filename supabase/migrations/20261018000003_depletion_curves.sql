@@ -0,0 +1,90 @@
+-- Prediction training tables for the v2 schema
+-- The v2 migration dropped historical_fund_data and provider_consumption_patterns;
+-- they come back keyed by CUI with organization references, plus pooled curves
+-- for providers that don't have enough intra-month observations of their own.
+
+-- Historical fund data, including intra-month consumption snapshots
+CREATE TABLE IF NOT EXISTS historical_fund_data (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
+    provider_cui VARCHAR(20),
+    county_code VARCHAR(2),
+
+    -- Time dimensions
+    year INT NOT NULL,
+    month INT NOT NULL,
+    day_of_month INT,  -- Snapshot day; NULL for month totals
+
+    -- Fund data
+    allocated_amount DECIMAL(12, 2),
+    consumed_amount DECIMAL(12, 2),
+    consumption_rate DECIMAL(5, 4),  -- consumed/allocated (cumulative at day_of_month)
+
+    service_type VARCHAR(50),
+
+    -- Contextual features
+    is_end_of_quarter BOOLEAN DEFAULT FALSE,
+    is_december BOOLEAN DEFAULT FALSE,
+
+    -- Source tracking
+    source_file VARCHAR(255),
+    extracted_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE NULLS NOT DISTINCT (provider_cui, year, month, day_of_month, service_type)
+);
+
+-- Per-provider consumption patterns
+CREATE TABLE IF NOT EXISTS provider_consumption_patterns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
+    provider_cui VARCHAR(20),
+
+    avg_consumption_rate DECIMAL(5, 4),
+    stddev_consumption_rate DECIMAL(5, 4),
+    monthly_pattern JSONB,  -- {"1": 0.85, "2": 0.78, ...} avg rate per month
+
+    -- Day-of-month cumulative depletion curve {"1": 0.03, "2": 0.07, ...}
+    depletion_curve JSONB,
+    -- 'provider' when fitted from the provider's own snapshots, otherwise the pool it came from
+    depletion_curve_source VARCHAR(20) DEFAULT 'provider',
+    depletion_observations INT DEFAULT 0,
+
+    early_depletion_frequency DECIMAL(5, 4),  -- Share of months >90% consumed by day 20
+    typical_depletion_day INT,  -- Day the curve reaches 90%
+
+    data_points_count INT,
+    first_data_date DATE,
+    last_data_date DATE,
+    model_updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(provider_cui)
+);
+
+-- Depletion curves pooled over all providers of a service type, per county
+-- county_code '*' holds the nationwide curve for the service type
+CREATE TABLE IF NOT EXISTS depletion_curves (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    service_type VARCHAR(50) NOT NULL,
+    county_code VARCHAR(2) NOT NULL,
+
+    depletion_curve JSONB NOT NULL,
+    early_depletion_frequency DECIMAL(5, 4),
+    typical_depletion_day INT,
+
+    providers_count INT,
+    observations_count INT,
+    model_updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(service_type, county_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_historical_provider_time ON historical_fund_data(provider_cui, year, month);
+CREATE INDEX IF NOT EXISTS idx_patterns_cui ON provider_consumption_patterns(provider_cui);
+
+ALTER TABLE historical_fund_data ENABLE ROW LEVEL SECURITY;
+ALTER TABLE provider_consumption_patterns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE depletion_curves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read" ON historical_fund_data FOR SELECT USING (true);
+CREATE POLICY "Public read" ON provider_consumption_patterns FOR SELECT USING (true);
+CREATE POLICY "Public read" ON depletion_curves FOR SELECT USING (true);
@@ -0,0 +1,54 @@
+-- Alert subscriptions (Web Push and email)
+-- Anonymous: a subscription is managed through a signed token link, so the
+-- tables are only reachable with the service role.
+
+CREATE TABLE IF NOT EXISTS alert_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    location_id UUID NOT NULL REFERENCES locations(id) ON DELETE CASCADE,
+    specialty_id UUID REFERENCES specialties(id) ON DELETE SET NULL,
+
+    channel VARCHAR(10) NOT NULL CHECK (channel IN ('push', 'email')),
+    email VARCHAR(255),
+    push_endpoint TEXT,
+    push_p256dh TEXT,
+    push_auth TEXT,
+
+    -- Which events notify: 'allocation', 'report', 'prediction'
+    triggers TEXT[] NOT NULL DEFAULT ARRAY['allocation', 'report', 'prediction'],
+
+    -- Email subscriptions stay inactive until the link in the first email is opened
+    confirmed_at TIMESTAMPTZ,
+    -- Last predicted availability seen by the prediction check (crossing detection)
+    last_predicted_available BOOLEAN,
+    last_notified_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CHECK (
+        (channel = 'email' AND email IS NOT NULL) OR
+        (channel = 'push' AND push_endpoint IS NOT NULL AND push_p256dh IS NOT NULL AND push_auth IS NOT NULL)
+    )
+);
+
+-- One subscription per browser / address for the same location and specialty
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alert_subscriptions_target ON alert_subscriptions (
+    location_id,
+    COALESCE(specialty_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(email, push_endpoint)
+);
+CREATE INDEX IF NOT EXISTS idx_alert_subscriptions_location ON alert_subscriptions(location_id);
+
+-- Sent notifications; the unique key stops the same event notifying twice
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES alert_subscriptions(id) ON DELETE CASCADE,
+    trigger VARCHAR(20) NOT NULL,
+    dedup_key VARCHAR(100) NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'sent',  -- sent, failed
+    error TEXT,
+    sent_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(subscription_id, dedup_key)
+);
+
+ALTER TABLE alert_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_deliveries ENABLE ROW LEVEL SECURITY;
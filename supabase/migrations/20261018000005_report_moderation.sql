@@ -0,0 +1,25 @@
+-- Report voting and moderation
+-- Votes are deduplicated per hashed IP; upvotes/downvotes on user_reports
+-- are recomputed from report_votes after each vote.
+
+ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS hidden BOOLEAN DEFAULT FALSE;
+ALTER TABLE user_reports ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS report_votes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    report_id UUID NOT NULL REFERENCES user_reports(id) ON DELETE CASCADE,
+    voter_ip_hash VARCHAR(64) NOT NULL,
+    vote SMALLINT NOT NULL CHECK (vote IN (-1, 1)),
+    voted_at TIMESTAMPTZ DEFAULT NOW(),
+
+    UNIQUE(report_id, voter_ip_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_votes_report ON report_votes(report_id);
+
+-- Votes are written through the API with the service role
+ALTER TABLE report_votes ENABLE ROW LEVEL SECURITY;
+
+-- Hidden reports disappear from public reads (and so from the estimators)
+DROP POLICY IF EXISTS "Public read" ON user_reports;
+CREATE POLICY "Public read" ON user_reports FOR SELECT USING (hidden = FALSE);
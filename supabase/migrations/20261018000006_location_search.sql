@@ -0,0 +1,176 @@
+-- Full-text location search
+-- One document per location (name, brand, legal name, address, county,
+-- specialties), normalized to lower case without diacritics so "sanatate"
+-- finds "Sănătate". Whole words match through a prefix tsquery, misspellings
+-- through trigram word similarity. The search_locations RPC ranks matches,
+-- applies the list filters and paginates in a single call.
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Lower case, no diacritics. Both comma-below (ș, ț) and cedilla (ş, ţ)
+-- forms are folded explicitly since CAS files use either.
+CREATE OR REPLACE FUNCTION search_normalize(value TEXT)
+RETURNS TEXT AS $$
+    SELECT extensions.unaccent(
+        'extensions.unaccent'::regdictionary,
+        translate(lower(coalesce(value, '')), 'șşțţ', 'sstt')
+    );
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+DROP MATERIALIZED VIEW IF EXISTS location_search;
+CREATE MATERIALIZED VIEW location_search AS
+SELECT
+    l.id AS location_id,
+    search_normalize(concat_ws(' ',
+        l.name, o.network_brand, o.legal_name, spec.names,
+        l.address, l.city, c.name, l.website, o.network_website
+    )) AS search_text,
+    setweight(to_tsvector('simple', search_normalize(concat_ws(' ', l.name, o.network_brand, o.legal_name))), 'A') ||
+    setweight(to_tsvector('simple', search_normalize(spec.names)), 'B') ||
+    setweight(to_tsvector('simple', search_normalize(concat_ws(' ', l.address, l.city, c.name))), 'C') ||
+    setweight(to_tsvector('simple', search_normalize(concat_ws(' ', l.website, o.network_website))), 'D')
+        AS search_vector
+FROM locations l
+JOIN organizations o ON o.id = l.organization_id
+LEFT JOIN counties c ON c.id = l.county_id
+LEFT JOIN LATERAL (
+    SELECT string_agg(DISTINCT s.name, ' ') AS names
+    FROM specialties s
+    WHERE s.id IN (
+        SELECT os.specialty_id FROM organization_specialties os WHERE os.organization_id = l.organization_id
+        UNION
+        SELECT ls.specialty_id FROM location_specialties ls WHERE ls.location_id = l.id
+    )
+) spec ON TRUE;
+
+CREATE UNIQUE INDEX idx_location_search_id ON location_search(location_id);
+CREATE INDEX idx_location_search_vector ON location_search USING GIN (search_vector);
+CREATE INDEX idx_location_search_trgm ON location_search USING GIN (search_text extensions.gin_trgm_ops);
+
+GRANT SELECT ON location_search TO anon, authenticated;
+
+-- Rebuild the search documents; called at the end of every data sync
+CREATE OR REPLACE FUNCTION refresh_location_search()
+RETURNS VOID AS $$
+BEGIN
+    REFRESH MATERIALIZED VIEW CONCURRENTLY location_search;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION refresh_location_search() FROM PUBLIC, anon, authenticated;
+
+-- Ranked, filtered, paginated location search. Without a query, all
+-- locations matching the filters are returned in the default list order.
+-- Rows have the flattened shape returned by /api/locations.
+CREATE OR REPLACE FUNCTION search_locations(
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+    normalized TEXT := trim(search_normalize(search_query));
+    prefix_query tsquery;
+BEGIN
+    -- Every word must match the start of a word in the document ("cardio sect 3")
+    IF normalized <> '' THEN
+        SELECT to_tsquery('simple', string_agg(token || ':*', ' & '))
+        INTO prefix_query
+        FROM unnest(regexp_split_to_array(normalized, '[^a-z0-9]+')) AS token
+        WHERE token <> '';
+    END IF;
+
+    RETURN QUERY
+    WITH matches AS (
+        SELECT
+            ls.location_id,
+            CASE
+                WHEN normalized = '' THEN 0
+                ELSE
+                    CASE WHEN prefix_query IS NOT NULL AND ls.search_vector @@ prefix_query
+                        THEN ts_rank_cd(ls.search_vector, prefix_query) ELSE 0 END
+                    + word_similarity(normalized, ls.search_text)
+            END::REAL AS rank
+        FROM location_search ls
+        WHERE normalized = ''
+           OR (prefix_query IS NOT NULL AND ls.search_vector @@ prefix_query)
+           OR normalized <% ls.search_text
+    )
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        m.rank,
+        COUNT(*) OVER ()
+    FROM matches m
+    JOIN locations l ON l.id = m.location_id
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    WHERE l.confidence >= min_confidence
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR EXISTS (
+          SELECT 1
+          FROM organization_specialties os
+          JOIN specialties s ON s.id = os.specialty_id
+          WHERE os.organization_id = l.organization_id
+            AND s.name ILIKE filter_specialty
+      ))
+    ORDER BY m.rank DESC, l.is_primary DESC, l.confidence DESC, l.name
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
@@ -0,0 +1,243 @@
+-- Nearby location search with the same filters and shape as search_locations
+-- Candidates come from a bounding box over a GiST point index; the exact
+-- great-circle distance is only computed for those. Filtering, ordering and
+-- pagination all happen here instead of in the API route.
+
+CREATE INDEX IF NOT EXISTS idx_locations_point ON locations
+    USING GIST (point(lng::float8, lat::float8))
+    WHERE lat IS NOT NULL AND lng IS NOT NULL;
+
+-- Text matches shared by search_locations and search_locations_nearby:
+-- every word as a prefix, or trigram similarity for misspellings.
+-- An empty query matches every location with rank 0.
+CREATE OR REPLACE FUNCTION location_search_matches(search_query TEXT)
+RETURNS TABLE (location_id UUID, rank REAL) AS $$
+#variable_conflict use_column
+DECLARE
+    normalized TEXT := trim(search_normalize(search_query));
+    prefix_query tsquery;
+BEGIN
+    IF normalized <> '' THEN
+        SELECT to_tsquery('simple', string_agg(token || ':*', ' & '))
+        INTO prefix_query
+        FROM unnest(regexp_split_to_array(normalized, '[^a-z0-9]+')) AS token
+        WHERE token <> '';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        ls.location_id,
+        CASE
+            WHEN normalized = '' THEN 0
+            ELSE
+                CASE WHEN prefix_query IS NOT NULL AND ls.search_vector @@ prefix_query
+                    THEN ts_rank_cd(ls.search_vector, prefix_query) ELSE 0 END
+                + word_similarity(normalized, ls.search_text)
+        END::REAL
+    FROM location_search ls
+    WHERE normalized = ''
+       OR (prefix_query IS NOT NULL AND ls.search_vector @@ prefix_query)
+       OR normalized <% ls.search_text;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+-- search_locations now reads its matches from the shared function
+CREATE OR REPLACE FUNCTION search_locations(
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        m.rank,
+        COUNT(*) OVER ()
+    FROM location_search_matches(search_query) m
+    JOIN locations l ON l.id = m.location_id
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    WHERE l.confidence >= min_confidence
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR EXISTS (
+          SELECT 1
+          FROM organization_specialties os
+          JOIN specialties s ON s.id = os.specialty_id
+          WHERE os.organization_id = l.organization_id
+            AND s.name ILIKE filter_specialty
+      ))
+    ORDER BY m.rank DESC, l.is_primary DESC, l.confidence DESC, l.name
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS search_locations_nearby(DECIMAL, DECIMAL, DECIMAL, INT);
+
+CREATE OR REPLACE FUNCTION search_locations_nearby(
+    search_lat DOUBLE PRECISION,
+    search_lng DOUBLE PRECISION,
+    radius_km DOUBLE PRECISION DEFAULT 3,
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    distance_km DOUBLE PRECISION,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+    -- One degree of latitude is ~111 km; longitude degrees shrink with cos(lat)
+    lat_delta DOUBLE PRECISION := radius_km / 111.045;
+    lng_delta DOUBLE PRECISION := radius_km / (111.045 * greatest(cos(radians(search_lat)), 0.01));
+    has_query BOOLEAN := trim(coalesce(search_query, '')) <> '';
+BEGIN
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            l.*,
+            -- Haversine distance
+            2 * 6371 * asin(sqrt(
+                power(sin(radians(l.lat::float8 - search_lat) / 2), 2) +
+                cos(radians(search_lat)) * cos(radians(l.lat::float8)) *
+                power(sin(radians(l.lng::float8 - search_lng) / 2), 2)
+            )) AS distance
+        FROM locations l
+        WHERE l.lat IS NOT NULL
+          AND l.lng IS NOT NULL
+          AND point(l.lng::float8, l.lat::float8) <@ box(
+              point(search_lng - lng_delta, search_lat - lat_delta),
+              point(search_lng + lng_delta, search_lat + lat_delta)
+          )
+          AND l.confidence >= min_confidence
+    )
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        l.distance,
+        COUNT(*) OVER ()
+    FROM candidates l
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    WHERE l.distance <= radius_km
+      AND (NOT has_query OR l.id IN (SELECT m.location_id FROM location_search_matches(search_query) m))
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR EXISTS (
+          SELECT 1
+          FROM organization_specialties os
+          JOIN specialties s ON s.id = os.specialty_id
+          WHERE os.organization_id = l.organization_id
+            AND s.name ILIKE filter_specialty
+      ))
+    ORDER BY l.distance, l.is_primary DESC, l.confidence DESC
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
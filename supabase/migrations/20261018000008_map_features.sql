@@ -0,0 +1,168 @@
+-- Map features for a viewport
+-- Locations inside the bounding box are snapped to a grid whose cell size the
+-- caller derives from the zoom level. Each cell comes back with its member
+-- count, centroid and counts by provider type and fund status; a cell with a
+-- single member also carries that location, so zoomed-in views are plain
+-- points. A cell size of 0 returns every location on its own.
+--
+-- The fund status is the allocation-based part of estimateFundAvailability
+-- (lib/fund-estimator.ts) for the given Bucharest day. User reports are left
+-- out, and locations without an allocation for the month are 'unknown'.
+
+CREATE OR REPLACE FUNCTION map_features(
+    min_lng DOUBLE PRECISION,
+    min_lat DOUBLE PRECISION,
+    max_lng DOUBLE PRECISION,
+    max_lat DOUBLE PRECISION,
+    cell_lng DOUBLE PRECISION,
+    cell_lat DOUBLE PRECISION,
+    fund_year INT,
+    fund_month INT,
+    fund_day INT,
+    fund_days_in_month INT,
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    near_lat DOUBLE PRECISION DEFAULT NULL,
+    near_lng DOUBLE PRECISION DEFAULT NULL,
+    radius_km DOUBLE PRECISION DEFAULT NULL,
+    max_features INT DEFAULT 2000
+)
+RETURNS TABLE (
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    point_count INT,
+    location JSONB,
+    provider_types JSONB,
+    fund_statuses JSONB
+) AS $$
+#variable_conflict use_column
+DECLARE
+    has_query BOOLEAN := trim(coalesce(search_query, '')) <> '';
+    clustered BOOLEAN := cell_lng > 0 AND cell_lat > 0;
+BEGIN
+    RETURN QUERY
+    WITH visible AS (
+        SELECT
+            l.id,
+            l.name,
+            l.address,
+            l.city,
+            l.phone,
+            l.lat::float8 AS lat,
+            l.lng::float8 AS lng,
+            o.is_network,
+            o.network_brand,
+            o.provider_type,
+            c.name AS county_name,
+            CASE
+                WHEN coalesce(alloc.allocated, 0) = 0 THEN 'unknown'
+                WHEN alloc.consumed IS NOT NULL THEN
+                    CASE
+                        WHEN alloc.consumed / alloc.allocated >= 0.95 THEN 'exhausted'
+                        WHEN alloc.consumed / alloc.allocated >= 0.8 THEN 'uncertain'
+                        ELSE 'available'
+                    END
+                WHEN fund_day <= 15 THEN 'available'
+                WHEN fund_day <= 22 THEN 'uncertain'
+                -- Last week: exhausted once linear consumption leaves under 20%
+                WHEN fund_day::float8 / fund_days_in_month < 0.8 THEN 'uncertain'
+                ELSE 'exhausted'
+            END AS fund_status
+        FROM locations l
+        JOIN organizations o ON o.id = l.organization_id
+        LEFT JOIN counties c ON c.id = l.county_id
+        LEFT JOIN LATERAL (
+            -- One row per contract type, summed like getMonthlyAllocation
+            SELECT
+                sum(fa.allocated_amount)::float8 AS allocated,
+                CASE WHEN bool_or(fa.consumed_amount IS NOT NULL)
+                    THEN sum(coalesce(fa.consumed_amount, 0))::float8 END AS consumed
+            FROM fund_allocations fa
+            WHERE fa.organization_id = o.id
+              AND fa.period_year = fund_year
+              AND fa.period_month = fund_month
+        ) alloc ON TRUE
+        WHERE l.lat IS NOT NULL
+          AND l.lng IS NOT NULL
+          AND point(l.lng::float8, l.lat::float8) <@ box(
+              point(min_lng, min_lat),
+              point(max_lng, max_lat)
+          )
+          AND l.confidence >= min_confidence
+          AND (near_lat IS NULL OR near_lng IS NULL OR radius_km IS NULL OR
+              -- Haversine distance
+              2 * 6371 * asin(sqrt(
+                  power(sin(radians(l.lat::float8 - near_lat) / 2), 2) +
+                  cos(radians(near_lat)) * cos(radians(l.lat::float8)) *
+                  power(sin(radians(l.lng::float8 - near_lng) / 2), 2)
+              )) <= radius_km)
+          AND (NOT has_query OR l.id IN (SELECT m.location_id FROM location_search_matches(search_query) m))
+          AND (filter_county IS NULL OR c.code = filter_county)
+          AND (filter_type IS NULL OR o.provider_type = filter_type)
+          AND (NOT network_only OR o.is_network)
+          AND (filter_specialty IS NULL OR EXISTS (
+              SELECT 1
+              FROM organization_specialties os
+              JOIN specialties s ON s.id = os.specialty_id
+              WHERE os.organization_id = l.organization_id
+                AND s.name ILIKE filter_specialty
+          ))
+    ),
+    keyed AS (
+        SELECT
+            v.*,
+            CASE WHEN clustered
+                THEN floor(v.lng / cell_lng)::text || ':' || floor(v.lat / cell_lat)::text
+                ELSE v.id::text
+            END AS cell
+        FROM visible v
+    ),
+    cells AS (
+        SELECT
+            k.cell,
+            avg(k.lat) AS lat,
+            avg(k.lng) AS lng,
+            count(*)::int AS point_count,
+            CASE WHEN count(*) = 1 THEN (array_agg(jsonb_build_object(
+                'id', k.id,
+                'name', k.name,
+                'address', k.address,
+                'city', k.city,
+                'county', k.county_name,
+                'phone', k.phone,
+                'is_network', k.is_network,
+                'network_brand', k.network_brand,
+                'provider_type', k.provider_type,
+                'fund_status', k.fund_status
+            )))[1] END AS location
+        FROM keyed k
+        GROUP BY k.cell
+    ),
+    type_counts AS (
+        SELECT t.cell, jsonb_object_agg(t.provider_type, t.n) AS counts
+        FROM (SELECT k.cell, k.provider_type, count(*) AS n FROM keyed k GROUP BY k.cell, k.provider_type) t
+        GROUP BY t.cell
+    ),
+    status_counts AS (
+        SELECT s.cell, jsonb_object_agg(s.fund_status, s.n) AS counts
+        FROM (SELECT k.cell, k.fund_status, count(*) AS n FROM keyed k GROUP BY k.cell, k.fund_status) s
+        GROUP BY s.cell
+    )
+    SELECT
+        ce.lat,
+        ce.lng,
+        ce.point_count,
+        ce.location,
+        tc.counts,
+        sc.counts
+    FROM cells ce
+    JOIN type_counts tc ON tc.cell = ce.cell
+    JOIN status_counts sc ON sc.cell = ce.cell
+    ORDER BY ce.point_count DESC, ce.cell
+    LIMIT max_features;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
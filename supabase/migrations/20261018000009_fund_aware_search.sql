@@ -0,0 +1,473 @@
+-- Fund-aware search
+-- location_fund_status mirrors estimateFundAvailability (lib/fund-estimator.ts)
+-- in SQL so search can filter and rank by estimated availability without a
+-- round trip per result. The day of month is read in Europe/Bucharest from
+-- the instant passed in, like lib/clock.ts.
+--
+-- search_locations and search_locations_nearby gain a funds filter, a
+-- 'funds' sort mode and a fund_status column; map_features now uses the same
+-- status, user reports included.
+
+-- lib/report-reliability.ts: verified reports weigh REPORT_WEIGHT_MAX (2),
+-- others the smoothed share of upvotes
+CREATE OR REPLACE FUNCTION report_reliability(verified BOOLEAN, upvotes INT, downvotes INT)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT CASE
+        WHEN verified THEN 2
+        ELSE 2.0 * (coalesce(upvotes, 0) + 1) / (coalesce(upvotes, 0) + coalesce(downvotes, 0) + 2)
+    END::float8;
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- 'available' | 'uncertain' | 'exhausted', or 'unknown' without an allocation
+-- for the month (the estimator reports that case as uncertain, confidence 20)
+CREATE OR REPLACE FUNCTION location_fund_status(
+    loc_id UUID,
+    org_id UUID,
+    fund_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TEXT AS $$
+    WITH fund_day AS (
+        SELECT
+            extract(year FROM t.local_at)::int AS year,
+            extract(month FROM t.local_at)::int AS month,
+            extract(day FROM t.local_at)::int AS day,
+            extract(day FROM date_trunc('month', t.local_at) + interval '1 month - 1 day')::int AS days_in_month
+        FROM (SELECT fund_at AT TIME ZONE 'Europe/Bucharest' AS local_at) t
+    ),
+    alloc AS (
+        -- One row per contract type, summed like getMonthlyAllocation
+        SELECT
+            sum(fa.allocated_amount)::float8 AS allocated,
+            CASE WHEN bool_or(fa.consumed_amount IS NOT NULL)
+                THEN sum(coalesce(fa.consumed_amount, 0))::float8 END AS consumed
+        FROM fund_allocations fa
+        JOIN fund_day d ON fa.period_year = d.year AND fa.period_month = d.month
+        WHERE fa.organization_id = org_id
+    ),
+    reports AS (
+        -- Net reliability of the last 48 hours of fund reports, ignoring
+        -- ones below REPORT_WEAK_SIGNAL
+        SELECT coalesce(sum(CASE r.report_type
+            WHEN 'funds_available' THEN w.reliability
+            WHEN 'funds_exhausted' THEN -w.reliability
+            ELSE 0
+        END), 0) AS balance
+        FROM user_reports r
+        CROSS JOIN LATERAL (
+            SELECT report_reliability(r.verified, r.upvotes, r.downvotes) AS reliability
+        ) w
+        WHERE r.location_id = loc_id
+          AND NOT coalesce(r.hidden, FALSE)
+          AND r.reported_at > fund_at - interval '48 hours'
+          AND r.reported_at <= fund_at
+          AND w.reliability >= 0.5
+    )
+    SELECT CASE
+        WHEN coalesce(a.allocated, 0) = 0 THEN 'unknown'
+        WHEN a.consumed IS NOT NULL THEN
+            CASE
+                WHEN a.consumed / a.allocated >= 0.95 THEN 'exhausted'
+                WHEN a.consumed / a.allocated >= 0.8 THEN 'uncertain'
+                ELSE 'available'
+            END
+        -- REPORT_STRONG_SIGNAL / REPORT_WEAK_SIGNAL
+        WHEN rp.balance <= -1.5 THEN 'exhausted'
+        WHEN rp.balance >= 1.5 THEN 'available'
+        WHEN abs(rp.balance) >= 0.5 THEN 'uncertain'
+        WHEN d.day <= 15 THEN 'available'
+        WHEN d.day <= 22 THEN 'uncertain'
+        -- Last week: exhausted once linear consumption leaves under 20%
+        WHEN d.day::float8 / d.days_in_month < 0.8 THEN 'uncertain'
+        ELSE 'exhausted'
+    END
+    FROM fund_day d, alloc a, reports rp;
+$$ LANGUAGE sql STABLE;
+
+-- Weight of a status in the 'funds' sort order
+CREATE OR REPLACE FUNCTION fund_status_score(status TEXT)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT CASE status
+        WHEN 'available' THEN 1.0
+        WHEN 'uncertain' THEN 0.5
+        WHEN 'unknown' THEN 0.35
+        ELSE 0.0
+    END::float8;
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- The return types change, so the functions are recreated
+DROP FUNCTION IF EXISTS search_locations(TEXT, VARCHAR, VARCHAR, BOOLEAN, VARCHAR, INT, INT, INT);
+
+-- With sort_by = 'funds', results are ordered by estimated availability
+-- (70%) and location confidence (30%), then by text rank
+CREATE OR REPLACE FUNCTION search_locations(
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0,
+    available_funds_only BOOLEAN DEFAULT FALSE,
+    sort_by TEXT DEFAULT 'relevance',
+    fund_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    fund_status TEXT,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        f.status,
+        m.rank,
+        COUNT(*) OVER ()
+    FROM location_search_matches(search_query) m
+    JOIN locations l ON l.id = m.location_id
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    CROSS JOIN LATERAL (SELECT location_fund_status(l.id, o.id, fund_at) AS status) f
+    WHERE l.confidence >= min_confidence
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR EXISTS (
+          SELECT 1
+          FROM organization_specialties os
+          JOIN specialties s ON s.id = os.specialty_id
+          WHERE os.organization_id = l.organization_id
+            AND s.name ILIKE filter_specialty
+      ))
+      AND (NOT available_funds_only OR f.status = 'available')
+    ORDER BY
+        CASE WHEN sort_by = 'funds'
+            THEN 0.7 * fund_status_score(f.status) + 0.3 * l.confidence / 100.0
+        END DESC NULLS LAST,
+        m.rank DESC, l.is_primary DESC, l.confidence DESC, l.name
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS search_locations_nearby(
+    DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, VARCHAR, VARCHAR, BOOLEAN, VARCHAR, INT, INT, INT
+);
+
+-- With sort_by = 'funds', results are ordered by estimated availability
+-- (50%), closeness within the radius (30%) and location confidence (20%)
+CREATE OR REPLACE FUNCTION search_locations_nearby(
+    search_lat DOUBLE PRECISION,
+    search_lng DOUBLE PRECISION,
+    radius_km DOUBLE PRECISION DEFAULT 3,
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0,
+    available_funds_only BOOLEAN DEFAULT FALSE,
+    sort_by TEXT DEFAULT 'relevance',
+    fund_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    fund_status TEXT,
+    distance_km DOUBLE PRECISION,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+    -- One degree of latitude is ~111 km; longitude degrees shrink with cos(lat)
+    lat_delta DOUBLE PRECISION := radius_km / 111.045;
+    lng_delta DOUBLE PRECISION := radius_km / (111.045 * greatest(cos(radians(search_lat)), 0.01));
+    has_query BOOLEAN := trim(coalesce(search_query, '')) <> '';
+BEGIN
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            l.*,
+            -- Haversine distance
+            2 * 6371 * asin(sqrt(
+                power(sin(radians(l.lat::float8 - search_lat) / 2), 2) +
+                cos(radians(search_lat)) * cos(radians(l.lat::float8)) *
+                power(sin(radians(l.lng::float8 - search_lng) / 2), 2)
+            )) AS distance
+        FROM locations l
+        WHERE l.lat IS NOT NULL
+          AND l.lng IS NOT NULL
+          AND point(l.lng::float8, l.lat::float8) <@ box(
+              point(search_lng - lng_delta, search_lat - lat_delta),
+              point(search_lng + lng_delta, search_lat + lat_delta)
+          )
+          AND l.confidence >= min_confidence
+    )
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        f.status,
+        l.distance,
+        COUNT(*) OVER ()
+    FROM candidates l
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    CROSS JOIN LATERAL (SELECT location_fund_status(l.id, o.id, fund_at) AS status) f
+    WHERE l.distance <= radius_km
+      AND (NOT has_query OR l.id IN (SELECT m.location_id FROM location_search_matches(search_query) m))
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR EXISTS (
+          SELECT 1
+          FROM organization_specialties os
+          JOIN specialties s ON s.id = os.specialty_id
+          WHERE os.organization_id = l.organization_id
+            AND s.name ILIKE filter_specialty
+      ))
+      AND (NOT available_funds_only OR f.status = 'available')
+    ORDER BY
+        CASE WHEN sort_by = 'funds'
+            THEN 0.5 * fund_status_score(f.status)
+                + 0.3 * (1 - l.distance / greatest(radius_km, 0.001))
+                + 0.2 * l.confidence / 100.0
+        END DESC NULLS LAST,
+        l.distance, l.is_primary DESC, l.confidence DESC
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS map_features(
+    DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+    DOUBLE PRECISION, DOUBLE PRECISION, INT, INT, INT, INT,
+    TEXT, VARCHAR, VARCHAR, BOOLEAN, VARCHAR, INT,
+    DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INT
+);
+
+-- Same clustering as 20261018000008_map_features.sql, with the shared fund
+-- status and an optional available-funds filter
+CREATE OR REPLACE FUNCTION map_features(
+    min_lng DOUBLE PRECISION,
+    min_lat DOUBLE PRECISION,
+    max_lng DOUBLE PRECISION,
+    max_lat DOUBLE PRECISION,
+    cell_lng DOUBLE PRECISION,
+    cell_lat DOUBLE PRECISION,
+    fund_at TIMESTAMPTZ DEFAULT NOW(),
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    near_lat DOUBLE PRECISION DEFAULT NULL,
+    near_lng DOUBLE PRECISION DEFAULT NULL,
+    radius_km DOUBLE PRECISION DEFAULT NULL,
+    max_features INT DEFAULT 2000,
+    available_funds_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    point_count INT,
+    location JSONB,
+    provider_types JSONB,
+    fund_statuses JSONB
+) AS $$
+#variable_conflict use_column
+DECLARE
+    has_query BOOLEAN := trim(coalesce(search_query, '')) <> '';
+    clustered BOOLEAN := cell_lng > 0 AND cell_lat > 0;
+BEGIN
+    RETURN QUERY
+    WITH in_view AS (
+        SELECT
+            l.id,
+            l.name,
+            l.address,
+            l.city,
+            l.phone,
+            l.lat::float8 AS lat,
+            l.lng::float8 AS lng,
+            o.is_network,
+            o.network_brand,
+            o.provider_type,
+            c.name AS county_name,
+            location_fund_status(l.id, o.id, fund_at) AS fund_status
+        FROM locations l
+        JOIN organizations o ON o.id = l.organization_id
+        LEFT JOIN counties c ON c.id = l.county_id
+        WHERE l.lat IS NOT NULL
+          AND l.lng IS NOT NULL
+          AND point(l.lng::float8, l.lat::float8) <@ box(
+              point(min_lng, min_lat),
+              point(max_lng, max_lat)
+          )
+          AND l.confidence >= min_confidence
+          AND (near_lat IS NULL OR near_lng IS NULL OR radius_km IS NULL OR
+              -- Haversine distance
+              2 * 6371 * asin(sqrt(
+                  power(sin(radians(l.lat::float8 - near_lat) / 2), 2) +
+                  cos(radians(near_lat)) * cos(radians(l.lat::float8)) *
+                  power(sin(radians(l.lng::float8 - near_lng) / 2), 2)
+              )) <= radius_km)
+          AND (NOT has_query OR l.id IN (SELECT m.location_id FROM location_search_matches(search_query) m))
+          AND (filter_county IS NULL OR c.code = filter_county)
+          AND (filter_type IS NULL OR o.provider_type = filter_type)
+          AND (NOT network_only OR o.is_network)
+          AND (filter_specialty IS NULL OR EXISTS (
+              SELECT 1
+              FROM organization_specialties os
+              JOIN specialties s ON s.id = os.specialty_id
+              WHERE os.organization_id = l.organization_id
+                AND s.name ILIKE filter_specialty
+          ))
+    ),
+    visible AS (
+        SELECT v.* FROM in_view v
+        WHERE NOT available_funds_only OR v.fund_status = 'available'
+    ),
+    keyed AS (
+        SELECT
+            v.*,
+            CASE WHEN clustered
+                THEN floor(v.lng / cell_lng)::text || ':' || floor(v.lat / cell_lat)::text
+                ELSE v.id::text
+            END AS cell
+        FROM visible v
+    ),
+    cells AS (
+        SELECT
+            k.cell,
+            avg(k.lat) AS lat,
+            avg(k.lng) AS lng,
+            count(*)::int AS point_count,
+            CASE WHEN count(*) = 1 THEN (array_agg(jsonb_build_object(
+                'id', k.id,
+                'name', k.name,
+                'address', k.address,
+                'city', k.city,
+                'county', k.county_name,
+                'phone', k.phone,
+                'is_network', k.is_network,
+                'network_brand', k.network_brand,
+                'provider_type', k.provider_type,
+                'fund_status', k.fund_status
+            )))[1] END AS location
+        FROM keyed k
+        GROUP BY k.cell
+    ),
+    type_counts AS (
+        SELECT t.cell, jsonb_object_agg(t.provider_type, t.n) AS counts
+        FROM (SELECT k.cell, k.provider_type, count(*) AS n FROM keyed k GROUP BY k.cell, k.provider_type) t
+        GROUP BY t.cell
+    ),
+    status_counts AS (
+        SELECT s.cell, jsonb_object_agg(s.fund_status, s.n) AS counts
+        FROM (SELECT k.cell, k.fund_status, count(*) AS n FROM keyed k GROUP BY k.cell, k.fund_status) s
+        GROUP BY s.cell
+    )
+    SELECT
+        ce.lat,
+        ce.lng,
+        ce.point_count,
+        ce.location,
+        tc.counts,
+        sc.counts
+    FROM cells ce
+    JOIN type_counts tc ON tc.cell = ce.cell
+    JOIN status_counts sc ON sc.cell = ce.cell
+    ORDER BY ce.point_count DESC, ce.cell
+    LIMIT max_features;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
@@ -0,0 +1,322 @@
+-- Opening hours
+-- locations.opening_hours holds the schedule parsed by lib/opening-hours.ts:
+--   { raw, weekly: { mon: [{ open: 'HH:MM', close: 'HH:MM' }], ... },
+--     exceptions: [{ date: 'MM-DD' | holidays: true, intervals: [...] }] }
+-- Times are Bucharest wall-clock times, so the search filter takes a local
+-- TIMESTAMP (open_at) instead of an instant. The rules mirror
+-- getIntervalsForDay and isOpenAt.
+--
+-- search_locations and search_locations_nearby gain the open_at filter;
+-- locations without a readable schedule are left out when it is set.
+
+-- Orthodox Easter Sunday (Julian computus shifted 13 days; valid 1900-2099)
+CREATE OR REPLACE FUNCTION orthodox_easter(easter_year INT)
+RETURNS DATE AS $$
+    SELECT make_date(easter_year, (x.d + x.e + 114) / 31, ((x.d + x.e + 114) % 31) + 1) + 13
+    FROM (
+        SELECT
+            (19 * (easter_year % 19) + 15) % 30 AS d,
+            (2 * (easter_year % 4) + 4 * (easter_year % 7) - (19 * (easter_year % 19) + 15) % 30 + 34) % 7 AS e
+    ) x;
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Romanian public holidays: fixed dates (Codul muncii, art. 139) plus Good
+-- Friday, Easter and Pentecost
+CREATE OR REPLACE FUNCTION is_public_holiday(day DATE)
+RETURNS BOOLEAN AS $$
+    SELECT to_char(day, 'MM-DD') = ANY (ARRAY[
+            '01-01', '01-02', '01-06', '01-07', '01-24', '05-01',
+            '06-01', '08-15', '11-30', '12-01', '12-25', '12-26'
+        ])
+        OR day - orthodox_easter(extract(year FROM day)::int) IN (-2, 0, 1, 49, 50);
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION opening_time_minutes(value TEXT)
+RETURNS INT AS $$
+    SELECT split_part(value, ':', 1)::int * 60 + split_part(value, ':', 2)::int;
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Intervals for a calendar day: a date exception wins over a holiday
+-- exception, which wins over the weekly schedule
+CREATE OR REPLACE FUNCTION opening_intervals_for(hours JSONB, day DATE)
+RETURNS JSONB AS $$
+    WITH exceptions AS (
+        SELECT e
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(hours->'exceptions') = 'array'
+            THEN hours->'exceptions' ELSE '[]'::jsonb END) e
+    )
+    SELECT coalesce(
+        (SELECT x.e->'intervals' FROM exceptions x
+         WHERE x.e->>'date' = to_char(day, 'MM-DD') LIMIT 1),
+        (SELECT x.e->'intervals' FROM exceptions x
+         WHERE coalesce((x.e->>'holidays')::boolean, FALSE) AND is_public_holiday(day) LIMIT 1),
+        hours->'weekly'->((ARRAY['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'])[extract(isodow FROM day)::int]),
+        '[]'::jsonb
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether a schedule is open at a Bucharest wall-clock time; NULL when the
+-- schedule is unknown. Intervals closing before they open run past midnight.
+CREATE OR REPLACE FUNCTION location_is_open(hours JSONB, local_at TIMESTAMP)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN jsonb_typeof(hours->'weekly') IS DISTINCT FROM 'object' THEN NULL
+        ELSE EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(opening_intervals_for(hours, local_at::date)) i
+            CROSS JOIN LATERAL (SELECT
+                opening_time_minutes(i->>'open') AS open_min,
+                opening_time_minutes(i->>'close') AS close_min) t
+            WHERE m.minute_of_day >= t.open_min
+              AND (t.close_min <= t.open_min OR m.minute_of_day < t.close_min)
+        ) OR EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements(opening_intervals_for(hours, local_at::date - 1)) i
+            CROSS JOIN LATERAL (SELECT
+                opening_time_minutes(i->>'open') AS open_min,
+                opening_time_minutes(i->>'close') AS close_min) t
+            WHERE t.close_min <= t.open_min
+              AND m.minute_of_day < t.close_min
+        )
+    END
+    FROM (SELECT (extract(hour FROM local_at) * 60 + extract(minute FROM local_at))::int AS minute_of_day) m;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A new parameter changes the signatures, so the functions are recreated
+DROP FUNCTION IF EXISTS search_locations(TEXT, VARCHAR, VARCHAR, BOOLEAN, VARCHAR, INT, INT, INT, BOOLEAN, TEXT, TIMESTAMPTZ);
+
+-- With sort_by = 'funds', results are ordered by estimated availability
+-- (70%) and location confidence (30%), then by text rank
+CREATE OR REPLACE FUNCTION search_locations(
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0,
+    available_funds_only BOOLEAN DEFAULT FALSE,
+    sort_by TEXT DEFAULT 'relevance',
+    fund_at TIMESTAMPTZ DEFAULT NOW(),
+    open_at TIMESTAMP DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    fund_status TEXT,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        f.status,
+        m.rank,
+        COUNT(*) OVER ()
+    FROM location_search_matches(search_query) m
+    JOIN locations l ON l.id = m.location_id
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    CROSS JOIN LATERAL (SELECT location_fund_status(l.id, o.id, fund_at) AS status) f
+    WHERE l.confidence >= min_confidence
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR EXISTS (
+          SELECT 1
+          FROM organization_specialties os
+          JOIN specialties s ON s.id = os.specialty_id
+          WHERE os.organization_id = l.organization_id
+            AND s.name ILIKE filter_specialty
+      ))
+      AND (NOT available_funds_only OR f.status = 'available')
+      AND (open_at IS NULL OR coalesce(location_is_open(l.opening_hours, open_at), FALSE))
+    ORDER BY
+        CASE WHEN sort_by = 'funds'
+            THEN 0.7 * fund_status_score(f.status) + 0.3 * l.confidence / 100.0
+        END DESC NULLS LAST,
+        m.rank DESC, l.is_primary DESC, l.confidence DESC, l.name
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS search_locations_nearby(
+    DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, VARCHAR, VARCHAR, BOOLEAN, VARCHAR, INT, INT, INT,
+    BOOLEAN, TEXT, TIMESTAMPTZ
+);
+
+-- With sort_by = 'funds', results are ordered by estimated availability
+-- (50%), closeness within the radius (30%) and location confidence (20%)
+CREATE OR REPLACE FUNCTION search_locations_nearby(
+    search_lat DOUBLE PRECISION,
+    search_lng DOUBLE PRECISION,
+    radius_km DOUBLE PRECISION DEFAULT 3,
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0,
+    available_funds_only BOOLEAN DEFAULT FALSE,
+    sort_by TEXT DEFAULT 'relevance',
+    fund_at TIMESTAMPTZ DEFAULT NOW(),
+    open_at TIMESTAMP DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    fund_status TEXT,
+    distance_km DOUBLE PRECISION,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+    -- One degree of latitude is ~111 km; longitude degrees shrink with cos(lat)
+    lat_delta DOUBLE PRECISION := radius_km / 111.045;
+    lng_delta DOUBLE PRECISION := radius_km / (111.045 * greatest(cos(radians(search_lat)), 0.01));
+    has_query BOOLEAN := trim(coalesce(search_query, '')) <> '';
+BEGIN
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            l.*,
+            -- Haversine distance
+            2 * 6371 * asin(sqrt(
+                power(sin(radians(l.lat::float8 - search_lat) / 2), 2) +
+                cos(radians(search_lat)) * cos(radians(l.lat::float8)) *
+                power(sin(radians(l.lng::float8 - search_lng) / 2), 2)
+            )) AS distance
+        FROM locations l
+        WHERE l.lat IS NOT NULL
+          AND l.lng IS NOT NULL
+          AND point(l.lng::float8, l.lat::float8) <@ box(
+              point(search_lng - lng_delta, search_lat - lat_delta),
+              point(search_lng + lng_delta, search_lat + lat_delta)
+          )
+          AND l.confidence >= min_confidence
+    )
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        f.status,
+        l.distance,
+        COUNT(*) OVER ()
+    FROM candidates l
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    CROSS JOIN LATERAL (SELECT location_fund_status(l.id, o.id, fund_at) AS status) f
+    WHERE l.distance <= radius_km
+      AND (NOT has_query OR l.id IN (SELECT m.location_id FROM location_search_matches(search_query) m))
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR EXISTS (
+          SELECT 1
+          FROM organization_specialties os
+          JOIN specialties s ON s.id = os.specialty_id
+          WHERE os.organization_id = l.organization_id
+            AND s.name ILIKE filter_specialty
+      ))
+      AND (NOT available_funds_only OR f.status = 'available')
+      AND (open_at IS NULL OR coalesce(location_is_open(l.opening_hours, open_at), FALSE))
+    ORDER BY
+        CASE WHEN sort_by = 'funds'
+            THEN 0.5 * fund_status_score(f.status)
+                + 0.3 * (1 - l.distance / greatest(radius_km, 0.001))
+                + 0.2 * l.confidence / 100.0
+        END DESC NULLS LAST,
+        l.distance, l.is_primary DESC, l.confidence DESC
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
@@ -0,0 +1,409 @@
+-- Location-level specialties
+-- The data sync links specialties to locations (location_specialties) from
+-- CAS "punct de lucru" rows and AI-discovered locations. A location with
+-- links of its own is filtered and indexed by them; one without any falls
+-- back to its organization's specialties.
+
+CREATE INDEX IF NOT EXISTS idx_location_specialties_specialty ON location_specialties(specialty_id);
+
+CREATE OR REPLACE FUNCTION location_has_specialty(loc_id UUID, org_id UUID, specialty_filter TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM location_specialties ls WHERE ls.location_id = loc_id) THEN EXISTS (
+            SELECT 1
+            FROM location_specialties ls
+            WHERE ls.location_id = loc_id
+              AND ls.specialty_id IN (SELECT f.specialty_id FROM specialty_filter_ids(specialty_filter) f)
+        )
+        ELSE organization_has_specialty(org_id, specialty_filter)
+    END;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- Search documents: the location's own specialties, or the organization's
+-- when it has none
+DROP MATERIALIZED VIEW IF EXISTS location_search;
+CREATE MATERIALIZED VIEW location_search AS
+SELECT
+    l.id AS location_id,
+    search_normalize(concat_ws(' ',
+        l.name, o.network_brand, o.legal_name, spec.names,
+        l.address, l.city, c.name, l.website, o.network_website
+    )) AS search_text,
+    setweight(to_tsvector('simple', search_normalize(concat_ws(' ', l.name, o.network_brand, o.legal_name))), 'A') ||
+    setweight(to_tsvector('simple', search_normalize(spec.names)), 'B') ||
+    setweight(to_tsvector('simple', search_normalize(concat_ws(' ', l.address, l.city, c.name))), 'C') ||
+    setweight(to_tsvector('simple', search_normalize(concat_ws(' ', l.website, o.network_website))), 'D')
+        AS search_vector
+FROM locations l
+JOIN organizations o ON o.id = l.organization_id
+LEFT JOIN counties c ON c.id = l.county_id
+LEFT JOIN LATERAL (
+    SELECT string_agg(DISTINCT concat_ws(' ', s.name, array_to_string(s.synonyms, ' ')), ' ') AS names
+    FROM specialties s
+    WHERE s.id IN (
+        SELECT ls.specialty_id FROM location_specialties ls WHERE ls.location_id = l.id
+        UNION
+        SELECT os.specialty_id FROM organization_specialties os
+        WHERE os.organization_id = l.organization_id
+          AND NOT EXISTS (SELECT 1 FROM location_specialties ls WHERE ls.location_id = l.id)
+    )
+) spec ON TRUE;
+
+CREATE UNIQUE INDEX idx_location_search_id ON location_search(location_id);
+CREATE INDEX idx_location_search_vector ON location_search USING GIN (search_vector);
+CREATE INDEX idx_location_search_trgm ON location_search USING GIN (search_text extensions.gin_trgm_ops);
+
+GRANT SELECT ON location_search TO anon, authenticated;
+
+
+-- The list filters below now go through location_has_specialty; the
+-- signatures are unchanged
+
+-- With sort_by = 'funds', results are ordered by estimated availability
+-- (70%) and location confidence (30%), then by text rank
+CREATE OR REPLACE FUNCTION search_locations(
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0,
+    available_funds_only BOOLEAN DEFAULT FALSE,
+    sort_by TEXT DEFAULT 'relevance',
+    fund_at TIMESTAMPTZ DEFAULT NOW(),
+    open_at TIMESTAMP DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    fund_status TEXT,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        f.status,
+        m.rank,
+        COUNT(*) OVER ()
+    FROM location_search_matches(search_query) m
+    JOIN locations l ON l.id = m.location_id
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    CROSS JOIN LATERAL (SELECT location_fund_status(l.id, o.id, fund_at) AS status) f
+    WHERE l.confidence >= min_confidence
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR location_has_specialty(l.id, o.id, filter_specialty))
+      AND (NOT available_funds_only OR f.status = 'available')
+      AND (open_at IS NULL OR coalesce(location_is_open(l.opening_hours, open_at), FALSE))
+    ORDER BY
+        CASE WHEN sort_by = 'funds'
+            THEN 0.7 * fund_status_score(f.status) + 0.3 * l.confidence / 100.0
+        END DESC NULLS LAST,
+        m.rank DESC, l.is_primary DESC, l.confidence DESC, l.name
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+-- With sort_by = 'funds', results are ordered by estimated availability
+-- (50%), closeness within the radius (30%) and location confidence (20%)
+CREATE OR REPLACE FUNCTION search_locations_nearby(
+    search_lat DOUBLE PRECISION,
+    search_lng DOUBLE PRECISION,
+    radius_km DOUBLE PRECISION DEFAULT 3,
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0,
+    available_funds_only BOOLEAN DEFAULT FALSE,
+    sort_by TEXT DEFAULT 'relevance',
+    fund_at TIMESTAMPTZ DEFAULT NOW(),
+    open_at TIMESTAMP DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    fund_status TEXT,
+    distance_km DOUBLE PRECISION,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+    -- One degree of latitude is ~111 km; longitude degrees shrink with cos(lat)
+    lat_delta DOUBLE PRECISION := radius_km / 111.045;
+    lng_delta DOUBLE PRECISION := radius_km / (111.045 * greatest(cos(radians(search_lat)), 0.01));
+    has_query BOOLEAN := trim(coalesce(search_query, '')) <> '';
+BEGIN
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            l.*,
+            -- Haversine distance
+            2 * 6371 * asin(sqrt(
+                power(sin(radians(l.lat::float8 - search_lat) / 2), 2) +
+                cos(radians(search_lat)) * cos(radians(l.lat::float8)) *
+                power(sin(radians(l.lng::float8 - search_lng) / 2), 2)
+            )) AS distance
+        FROM locations l
+        WHERE l.lat IS NOT NULL
+          AND l.lng IS NOT NULL
+          AND point(l.lng::float8, l.lat::float8) <@ box(
+              point(search_lng - lng_delta, search_lat - lat_delta),
+              point(search_lng + lng_delta, search_lat + lat_delta)
+          )
+          AND l.confidence >= min_confidence
+    )
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        f.status,
+        l.distance,
+        COUNT(*) OVER ()
+    FROM candidates l
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    CROSS JOIN LATERAL (SELECT location_fund_status(l.id, o.id, fund_at) AS status) f
+    WHERE l.distance <= radius_km
+      AND (NOT has_query OR l.id IN (SELECT m.location_id FROM location_search_matches(search_query) m))
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR location_has_specialty(l.id, o.id, filter_specialty))
+      AND (NOT available_funds_only OR f.status = 'available')
+      AND (open_at IS NULL OR coalesce(location_is_open(l.opening_hours, open_at), FALSE))
+    ORDER BY
+        CASE WHEN sort_by = 'funds'
+            THEN 0.5 * fund_status_score(f.status)
+                + 0.3 * (1 - l.distance / greatest(radius_km, 0.001))
+                + 0.2 * l.confidence / 100.0
+        END DESC NULLS LAST,
+        l.distance, l.is_primary DESC, l.confidence DESC
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+
+CREATE OR REPLACE FUNCTION map_features(
+    min_lng DOUBLE PRECISION,
+    min_lat DOUBLE PRECISION,
+    max_lng DOUBLE PRECISION,
+    max_lat DOUBLE PRECISION,
+    cell_lng DOUBLE PRECISION,
+    cell_lat DOUBLE PRECISION,
+    fund_at TIMESTAMPTZ DEFAULT NOW(),
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    near_lat DOUBLE PRECISION DEFAULT NULL,
+    near_lng DOUBLE PRECISION DEFAULT NULL,
+    radius_km DOUBLE PRECISION DEFAULT NULL,
+    max_features INT DEFAULT 2000,
+    available_funds_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    point_count INT,
+    location JSONB,
+    provider_types JSONB,
+    fund_statuses JSONB
+) AS $$
+#variable_conflict use_column
+DECLARE
+    has_query BOOLEAN := trim(coalesce(search_query, '')) <> '';
+    clustered BOOLEAN := cell_lng > 0 AND cell_lat > 0;
+BEGIN
+    RETURN QUERY
+    WITH in_view AS (
+        SELECT
+            l.id,
+            l.name,
+            l.address,
+            l.city,
+            l.phone,
+            l.lat::float8 AS lat,
+            l.lng::float8 AS lng,
+            o.is_network,
+            o.network_brand,
+            o.provider_type,
+            c.name AS county_name,
+            location_fund_status(l.id, o.id, fund_at) AS fund_status
+        FROM locations l
+        JOIN organizations o ON o.id = l.organization_id
+        LEFT JOIN counties c ON c.id = l.county_id
+        WHERE l.lat IS NOT NULL
+          AND l.lng IS NOT NULL
+          AND point(l.lng::float8, l.lat::float8) <@ box(
+              point(min_lng, min_lat),
+              point(max_lng, max_lat)
+          )
+          AND l.confidence >= min_confidence
+          AND (near_lat IS NULL OR near_lng IS NULL OR radius_km IS NULL OR
+              -- Haversine distance
+              2 * 6371 * asin(sqrt(
+                  power(sin(radians(l.lat::float8 - near_lat) / 2), 2) +
+                  cos(radians(near_lat)) * cos(radians(l.lat::float8)) *
+                  power(sin(radians(l.lng::float8 - near_lng) / 2), 2)
+              )) <= radius_km)
+          AND (NOT has_query OR l.id IN (SELECT m.location_id FROM location_search_matches(search_query) m))
+          AND (filter_county IS NULL OR c.code = filter_county)
+          AND (filter_type IS NULL OR o.provider_type = filter_type)
+          AND (NOT network_only OR o.is_network)
+          AND (filter_specialty IS NULL OR location_has_specialty(l.id, o.id, filter_specialty))
+    ),
+    visible AS (
+        SELECT v.* FROM in_view v
+        WHERE NOT available_funds_only OR v.fund_status = 'available'
+    ),
+    keyed AS (
+        SELECT
+            v.*,
+            CASE WHEN clustered
+                THEN floor(v.lng / cell_lng)::text || ':' || floor(v.lat / cell_lat)::text
+                ELSE v.id::text
+            END AS cell
+        FROM visible v
+    ),
+    cells AS (
+        SELECT
+            k.cell,
+            avg(k.lat) AS lat,
+            avg(k.lng) AS lng,
+            count(*)::int AS point_count,
+            CASE WHEN count(*) = 1 THEN (array_agg(jsonb_build_object(
+                'id', k.id,
+                'name', k.name,
+                'address', k.address,
+                'city', k.city,
+                'county', k.county_name,
+                'phone', k.phone,
+                'is_network', k.is_network,
+                'network_brand', k.network_brand,
+                'provider_type', k.provider_type,
+                'fund_status', k.fund_status
+            )))[1] END AS location
+        FROM keyed k
+        GROUP BY k.cell
+    ),
+    type_counts AS (
+        SELECT t.cell, jsonb_object_agg(t.provider_type, t.n) AS counts
+        FROM (SELECT k.cell, k.provider_type, count(*) AS n FROM keyed k GROUP BY k.cell, k.provider_type) t
+        GROUP BY t.cell
+    ),
+    status_counts AS (
+        SELECT s.cell, jsonb_object_agg(s.fund_status, s.n) AS counts
+        FROM (SELECT k.cell, k.fund_status, count(*) AS n FROM keyed k GROUP BY k.cell, k.fund_status) s
+        GROUP BY s.cell
+    )
+    SELECT
+        ce.lat,
+        ce.lng,
+        ce.point_count,
+        ce.location,
+        tc.counts,
+        sc.counts
+    FROM cells ce
+    JOIN type_counts tc ON tc.cell = ce.cell
+    JOIN status_counts sc ON sc.cell = ce.cell
+    ORDER BY ce.point_count DESC, ce.cell
+    LIMIT max_features;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
@@ -0,0 +1,295 @@
+-- Investigation catalog
+-- Investigations from lib/investigation-catalog.ts (RMN, CT, TSH,
+-- hemoleucogramă), written by the data sync with their synonyms (normalized
+-- like specialty synonyms) and the CNAS code found in CAS lists. Paraclinic
+-- providers are linked to the investigations their CAS list details; a
+-- provider without any links is matched through the specialty that performs
+-- the investigation (specialty_code).
+
+CREATE TABLE IF NOT EXISTS investigations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(20) NOT NULL UNIQUE,
+    cnas_code VARCHAR(20),
+    name VARCHAR(255) NOT NULL,
+    category VARCHAR(20) NOT NULL CHECK (category IN ('laboratory', 'imaging', 'functional')),
+    specialty_code VARCHAR(20),
+    synonyms TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_investigations (
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    investigation_id UUID REFERENCES investigations(id) ON DELETE CASCADE,
+    PRIMARY KEY (organization_id, investigation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_investigations_investigation
+    ON organization_investigations(investigation_id);
+
+ALTER TABLE investigations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_investigations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Public read" ON investigations;
+CREATE POLICY "Public read" ON investigations FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Public read" ON organization_investigations;
+CREATE POLICY "Public read" ON organization_investigations FOR SELECT USING (true);
+
+-- Investigations a filter value refers to: name, code, CNAS code or synonym
+CREATE OR REPLACE FUNCTION investigation_filter_ids(investigation_filter TEXT)
+RETURNS TABLE (investigation_id UUID) AS $$
+    SELECT i.id
+    FROM investigations i
+    WHERE i.name ILIKE investigation_filter
+       OR i.code = upper(trim(investigation_filter))
+       OR i.cnas_code = trim(investigation_filter)
+       OR trim(regexp_replace(search_normalize(investigation_filter), '[^a-z0-9]+', ' ', 'g')) = ANY (i.synonyms);
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION organization_offers_investigation(org_id UUID, investigation_filter TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM organization_investigations oi WHERE oi.organization_id = org_id) THEN EXISTS (
+            SELECT 1
+            FROM organization_investigations oi
+            WHERE oi.organization_id = org_id
+              AND oi.investigation_id IN (SELECT f.investigation_id FROM investigation_filter_ids(investigation_filter) f)
+        )
+        ELSE EXISTS (
+            SELECT 1
+            FROM investigations i
+            WHERE i.id IN (SELECT f.investigation_id FROM investigation_filter_ids(investigation_filter) f)
+              AND organization_has_specialty(org_id, i.specialty_code)
+        )
+    END;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+
+-- The list searches take the investigation filter as a new last parameter
+
+DROP FUNCTION IF EXISTS search_locations(TEXT, VARCHAR, VARCHAR, BOOLEAN, VARCHAR, INT, INT, INT, BOOLEAN, TEXT, TIMESTAMPTZ, TIMESTAMP);
+
+-- With sort_by = 'funds', results are ordered by estimated availability
+-- (70%) and location confidence (30%), then by text rank
+CREATE FUNCTION search_locations(
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0,
+    available_funds_only BOOLEAN DEFAULT FALSE,
+    sort_by TEXT DEFAULT 'relevance',
+    fund_at TIMESTAMPTZ DEFAULT NOW(),
+    open_at TIMESTAMP DEFAULT NULL,
+    filter_investigation VARCHAR DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    fund_status TEXT,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        f.status,
+        m.rank,
+        COUNT(*) OVER ()
+    FROM location_search_matches(search_query) m
+    JOIN locations l ON l.id = m.location_id
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    CROSS JOIN LATERAL (SELECT location_fund_status(l.id, o.id, fund_at) AS status) f
+    WHERE l.confidence >= min_confidence
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR location_has_specialty(l.id, o.id, filter_specialty))
+      AND (filter_investigation IS NULL OR organization_offers_investigation(o.id, filter_investigation))
+      AND (NOT available_funds_only OR f.status = 'available')
+      AND (open_at IS NULL OR coalesce(location_is_open(l.opening_hours, open_at), FALSE))
+    ORDER BY
+        CASE WHEN sort_by = 'funds'
+            THEN 0.7 * fund_status_score(f.status) + 0.3 * l.confidence / 100.0
+        END DESC NULLS LAST,
+        m.rank DESC, l.is_primary DESC, l.confidence DESC, l.name
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
+
+DROP FUNCTION IF EXISTS search_locations_nearby(
+    DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, VARCHAR, VARCHAR, BOOLEAN, VARCHAR, INT, INT, INT,
+    BOOLEAN, TEXT, TIMESTAMPTZ, TIMESTAMP
+);
+
+-- With sort_by = 'funds', results are ordered by estimated availability
+-- (50%), closeness within the radius (30%) and location confidence (20%)
+CREATE FUNCTION search_locations_nearby(
+    search_lat DOUBLE PRECISION,
+    search_lng DOUBLE PRECISION,
+    radius_km DOUBLE PRECISION DEFAULT 3,
+    search_query TEXT DEFAULT NULL,
+    filter_county VARCHAR DEFAULT NULL,
+    filter_type VARCHAR DEFAULT NULL,
+    network_only BOOLEAN DEFAULT FALSE,
+    filter_specialty VARCHAR DEFAULT NULL,
+    min_confidence INT DEFAULT 50,
+    result_limit INT DEFAULT 20,
+    result_offset INT DEFAULT 0,
+    available_funds_only BOOLEAN DEFAULT FALSE,
+    sort_by TEXT DEFAULT 'relevance',
+    fund_at TIMESTAMPTZ DEFAULT NOW(),
+    open_at TIMESTAMP DEFAULT NULL,
+    filter_investigation VARCHAR DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    name VARCHAR,
+    address TEXT,
+    city VARCHAR,
+    lat DECIMAL,
+    lng DECIMAL,
+    phone VARCHAR,
+    email VARCHAR,
+    website VARCHAR,
+    source VARCHAR,
+    confidence INT,
+    is_primary BOOLEAN,
+    organization_id UUID,
+    organization_name VARCHAR,
+    organization_cui VARCHAR,
+    is_network BOOLEAN,
+    network_brand VARCHAR,
+    network_website VARCHAR,
+    provider_type VARCHAR,
+    data_source_date DATE,
+    ai_confidence INT,
+    county JSONB,
+    fund_status TEXT,
+    distance_km DOUBLE PRECISION,
+    total_count BIGINT
+) AS $$
+#variable_conflict use_column
+DECLARE
+    -- One degree of latitude is ~111 km; longitude degrees shrink with cos(lat)
+    lat_delta DOUBLE PRECISION := radius_km / 111.045;
+    lng_delta DOUBLE PRECISION := radius_km / (111.045 * greatest(cos(radians(search_lat)), 0.01));
+    has_query BOOLEAN := trim(coalesce(search_query, '')) <> '';
+BEGIN
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            l.*,
+            -- Haversine distance
+            2 * 6371 * asin(sqrt(
+                power(sin(radians(l.lat::float8 - search_lat) / 2), 2) +
+                cos(radians(search_lat)) * cos(radians(l.lat::float8)) *
+                power(sin(radians(l.lng::float8 - search_lng) / 2), 2)
+            )) AS distance
+        FROM locations l
+        WHERE l.lat IS NOT NULL
+          AND l.lng IS NOT NULL
+          AND point(l.lng::float8, l.lat::float8) <@ box(
+              point(search_lng - lng_delta, search_lat - lat_delta),
+              point(search_lng + lng_delta, search_lat + lat_delta)
+          )
+          AND l.confidence >= min_confidence
+    )
+    SELECT
+        l.id,
+        l.name,
+        l.address,
+        l.city,
+        l.lat,
+        l.lng,
+        l.phone,
+        l.email,
+        l.website,
+        l.source,
+        l.confidence,
+        l.is_primary,
+        o.id,
+        o.legal_name,
+        o.cui,
+        o.is_network,
+        o.network_brand,
+        o.network_website,
+        o.provider_type,
+        o.data_source_date,
+        o.ai_confidence,
+        CASE WHEN c.id IS NULL THEN NULL
+            ELSE jsonb_build_object('id', c.id, 'code', c.code, 'name', c.name) END,
+        f.status,
+        l.distance,
+        COUNT(*) OVER ()
+    FROM candidates l
+    JOIN organizations o ON o.id = l.organization_id
+    LEFT JOIN counties c ON c.id = l.county_id
+    CROSS JOIN LATERAL (SELECT location_fund_status(l.id, o.id, fund_at) AS status) f
+    WHERE l.distance <= radius_km
+      AND (NOT has_query OR l.id IN (SELECT m.location_id FROM location_search_matches(search_query) m))
+      AND (filter_county IS NULL OR c.code = filter_county)
+      AND (filter_type IS NULL OR o.provider_type = filter_type)
+      AND (NOT network_only OR o.is_network)
+      AND (filter_specialty IS NULL OR location_has_specialty(l.id, o.id, filter_specialty))
+      AND (filter_investigation IS NULL OR organization_offers_investigation(o.id, filter_investigation))
+      AND (NOT available_funds_only OR f.status = 'available')
+      AND (open_at IS NULL OR coalesce(location_is_open(l.opening_hours, open_at), FALSE))
+    ORDER BY
+        CASE WHEN sort_by = 'funds'
+            THEN 0.5 * fund_status_score(f.status)
+                + 0.3 * (1 - l.distance / greatest(radius_km, 0.001))
+                + 0.2 * l.confidence / 100.0
+        END DESC NULLS LAST,
+        l.distance, l.is_primary DESC, l.confidence DESC
+    LIMIT result_limit
+    OFFSET result_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
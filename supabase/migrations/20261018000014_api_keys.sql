@@ -0,0 +1,100 @@
+-- Public API keys (/api/v1)
+-- Keys are issued with scripts/issue-api-key.ts; only their SHA-256 hash is
+-- stored. Each key has a per-minute request limit, enforced by counting
+-- requests in fixed one-minute windows, and daily usage counters per
+-- endpoint. The tables are only reachable with the service role.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    key_hash VARCHAR(64) NOT NULL UNIQUE,
+    -- First characters of the key, to recognize it in listings
+    key_prefix VARCHAR(16) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    contact_email VARCHAR(255),
+    rate_limit_per_minute INT NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ
+);
+
+-- Requests per key and minute; old windows are deleted as new ones start
+CREATE TABLE IF NOT EXISTS api_rate_windows (
+    api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+    window_start TIMESTAMPTZ NOT NULL,
+    request_count INT NOT NULL DEFAULT 0,
+
+    PRIMARY KEY (api_key_id, window_start)
+);
+
+-- Requests per key, day (UTC) and endpoint, including rejected ones
+CREATE TABLE IF NOT EXISTS api_key_usage (
+    api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+    day DATE NOT NULL,
+    endpoint VARCHAR(100) NOT NULL,
+    request_count INT NOT NULL DEFAULT 0,
+    rejected_count INT NOT NULL DEFAULT 0,
+
+    PRIMARY KEY (api_key_id, day, endpoint)
+);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_rate_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_key_usage ENABLE ROW LEVEL SECURITY;
+
+-- Count one request for the key with this hash. Returns no row for an
+-- unknown or revoked key; otherwise whether the request fits in the current
+-- window, the key's limit, requests left and when the window resets.
+CREATE OR REPLACE FUNCTION record_api_request(api_key_hash TEXT, api_endpoint TEXT)
+RETURNS TABLE (
+    api_key_id UUID,
+    allowed BOOLEAN,
+    rate_limit INT,
+    remaining INT,
+    reset_at TIMESTAMPTZ
+) AS $$
+#variable_conflict use_column
+DECLARE
+    key_row api_keys%ROWTYPE;
+    current_window TIMESTAMPTZ := date_trunc('minute', NOW());
+    window_count INT;
+BEGIN
+    SELECT * INTO key_row FROM api_keys k WHERE k.key_hash = api_key_hash AND k.revoked_at IS NULL;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO api_rate_windows (api_key_id, window_start, request_count)
+    VALUES (key_row.id, current_window, 1)
+    ON CONFLICT (api_key_id, window_start)
+    DO UPDATE SET request_count = api_rate_windows.request_count + 1
+    RETURNING request_count INTO window_count;
+
+    DELETE FROM api_rate_windows w
+    WHERE w.api_key_id = key_row.id AND w.window_start < current_window;
+
+    INSERT INTO api_key_usage (api_key_id, day, endpoint, request_count, rejected_count)
+    VALUES (
+        key_row.id,
+        (NOW() AT TIME ZONE 'UTC')::DATE,
+        api_endpoint,
+        1,
+        CASE WHEN window_count > key_row.rate_limit_per_minute THEN 1 ELSE 0 END
+    )
+    ON CONFLICT (api_key_id, day, endpoint)
+    DO UPDATE SET
+        request_count = api_key_usage.request_count + 1,
+        rejected_count = api_key_usage.rejected_count + EXCLUDED.rejected_count;
+
+    UPDATE api_keys k SET last_used_at = NOW() WHERE k.id = key_row.id;
+
+    RETURN QUERY SELECT
+        key_row.id,
+        window_count <= key_row.rate_limit_per_minute,
+        key_row.rate_limit_per_minute,
+        GREATEST(key_row.rate_limit_per_minute - window_count, 0),
+        current_window + INTERVAL '1 minute';
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION record_api_request(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,75 @@
+-- Allocation events for the "what changed" feed (/changes, /api/feeds)
+-- An allocation is listed when the provider had none for the same service
+-- type the month before (a new monthly allocation) or when it moved by at
+-- least min_change_ratio against that month. Each row carries the
+-- organization's primary location, which the feed links to.
+
+CREATE OR REPLACE FUNCTION allocation_changes(
+    filter_county VARCHAR DEFAULT NULL,
+    since DATE DEFAULT (CURRENT_DATE - INTERVAL '3 months')::DATE,
+    min_change_ratio NUMERIC DEFAULT 0.25,
+    result_limit INT DEFAULT 100
+)
+RETURNS TABLE (
+    organization_id UUID,
+    organization_name VARCHAR,
+    network_brand VARCHAR,
+    location_id UUID,
+    county_code VARCHAR,
+    period_year INT,
+    period_month INT,
+    service_type VARCHAR,
+    allocated_amount DECIMAL,
+    previous_amount DECIMAL,
+    synced_at TIMESTAMPTZ
+) AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    WITH recent AS (
+        SELECT
+            fa.organization_id,
+            fa.period_year,
+            fa.period_month,
+            fa.service_type,
+            fa.allocated_amount,
+            prev.allocated_amount AS previous_amount,
+            fa.synced_at
+        FROM fund_allocations fa
+        LEFT JOIN fund_allocations prev
+            ON prev.organization_id = fa.organization_id
+           AND prev.service_type IS NOT DISTINCT FROM fa.service_type
+           AND make_date(prev.period_year, prev.period_month, 1)
+               = (make_date(fa.period_year, fa.period_month, 1) - INTERVAL '1 month')::DATE
+        WHERE make_date(fa.period_year, fa.period_month, 1) >= date_trunc('month', since)::DATE
+          AND fa.allocated_amount > 0
+    )
+    SELECT
+        o.id,
+        o.legal_name,
+        o.network_brand,
+        pl.id,
+        c.code,
+        r.period_year,
+        r.period_month,
+        r.service_type,
+        r.allocated_amount,
+        r.previous_amount,
+        r.synced_at
+    FROM recent r
+    JOIN organizations o ON o.id = r.organization_id
+    LEFT JOIN LATERAL (
+        SELECT l.id, l.county_id
+        FROM locations l
+        WHERE l.organization_id = o.id
+        ORDER BY l.is_primary DESC, l.confidence DESC
+        LIMIT 1
+    ) pl ON TRUE
+    LEFT JOIN counties c ON c.id = pl.county_id
+    WHERE (filter_county IS NULL OR c.code = filter_county)
+      AND (r.previous_amount IS NULL OR r.previous_amount = 0
+           OR abs(r.allocated_amount - r.previous_amount) >= min_change_ratio * r.previous_amount)
+    ORDER BY r.synced_at DESC, r.period_year DESC, r.period_month DESC, o.legal_name
+    LIMIT result_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public, extensions;
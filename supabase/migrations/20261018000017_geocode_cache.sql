@@ -0,0 +1,23 @@
+-- Geocoding cache and precision (lib/geocoding.ts)
+-- Every geocoder request is cached by its normalized query, including the
+-- ones that found nothing (lat/lng NULL), so re-running a sync or a geocode
+-- script only asks the provider about new addresses. Locations store how
+-- precise their coordinates are; sector and city fallbacks are kept at the
+-- centre they refer to instead of being scattered around it.
+
+CREATE TABLE IF NOT EXISTS geocode_cache (
+    query_key TEXT PRIMARY KEY,
+    query TEXT NOT NULL,
+    lat DECIMAL(10, 8),
+    lng DECIMAL(11, 8),
+    precision VARCHAR(20) CHECK (precision IN ('rooftop', 'street', 'sector', 'city')),
+    source VARCHAR(50) NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only reachable with the service role
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
+
+-- NULL for coordinates geocoded before precision was recorded
+ALTER TABLE locations ADD COLUMN IF NOT EXISTS geocode_precision VARCHAR(20)
+    CHECK (geocode_precision IN ('rooftop', 'street', 'sector', 'city'));
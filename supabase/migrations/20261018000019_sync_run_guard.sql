@@ -0,0 +1,29 @@
+-- One active sync run at a time
+-- The runner records a heartbeat whenever it updates a run. A queued or
+-- running run whose heartbeat is older than the runner's timeout was left
+-- behind by a crashed or restarted process and is failed before a new run is
+-- queued (lib/sync-runner.ts). The unique index makes queuing atomic: of two
+-- concurrent triggers, only one insert succeeds.
+
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Existing runs were filled with the migration time
+UPDATE sync_runs
+SET heartbeat_at = COALESCE(finished_at, started_at, created_at);
+
+-- Runs queued side by side before the index existed: keep the newest
+UPDATE sync_runs
+SET status = 'failed',
+    error = 'Superseded by a newer run',
+    finished_at = NOW()
+WHERE status IN ('queued', 'running')
+  AND id <> (
+      SELECT id FROM sync_runs
+      WHERE status IN ('queued', 'running')
+      ORDER BY created_at DESC
+      LIMIT 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_runs_single_active
+    ON sync_runs ((TRUE))
+    WHERE status IN ('queued', 'running');
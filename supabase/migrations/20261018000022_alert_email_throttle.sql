@@ -0,0 +1,9 @@
+-- Throttle alert emails sent on request
+-- Subscribing sends the address a confirmation or manage link. The time of
+-- the last such email is kept per subscription, and lib/alerts.ts sends no
+-- new one while any subscription of the address had one recently, so the
+-- subscribe endpoint cannot be used to flood an inbox.
+
+ALTER TABLE alert_subscriptions ADD COLUMN IF NOT EXISTS link_sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_alert_subscriptions_email ON alert_subscriptions(email) WHERE email IS NOT NULL;
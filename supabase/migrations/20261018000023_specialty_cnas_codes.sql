@@ -0,0 +1,24 @@
+-- CNAS codes of specialties
+-- specialties.code holds the internal keys of lib/specialty-taxonomy.ts.
+-- The CNAS code of a specialty is kept apart, in cnas_code, as the data sync
+-- finds it in CAS lists that prefix specialties with it; the specialty
+-- filter matches it too.
+
+ALTER TABLE specialties ADD COLUMN IF NOT EXISTS cnas_code VARCHAR(20);
+
+CREATE OR REPLACE FUNCTION specialty_filter_ids(specialty_filter TEXT)
+RETURNS TABLE (specialty_id UUID) AS $$
+    WITH RECURSIVE matched AS (
+        SELECT s.id
+        FROM specialties s
+        WHERE s.name ILIKE specialty_filter
+           OR s.code = upper(trim(specialty_filter))
+           OR s.cnas_code = trim(specialty_filter)
+           OR trim(regexp_replace(search_normalize(specialty_filter), '[^a-z0-9]+', ' ', 'g')) = ANY (s.synonyms)
+        UNION
+        SELECT child.id
+        FROM specialties child
+        JOIN matched m ON child.parent_id = m.id
+    )
+    SELECT m.id FROM matched m;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;